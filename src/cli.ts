@@ -5,14 +5,27 @@ import { listCategories } from './tools/list-categories.js';
 import { fetchLatest } from './tools/fetch-latest.js';
 import { fetchTopCited } from './tools/fetch-top-cited.js';
 import { fetchContent } from './tools/fetch-content.js';
+import { getReferences } from './tools/get-references.js';
+import { getTables } from './tools/get-tables.js';
+import { resolveIdentifiers } from './tools/resolve-identifiers.js';
 import { searchPapers } from './tools/search-papers.js';
+import { searchAll } from './tools/search-all.js';
+import { cacheStats } from './tools/cache-stats.js';
+import { cacheClear } from './tools/cache-clear.js';
 import { RateLimiter } from './core/rate-limiter.js';
 import { logInfo, logError } from './core/logger.js';
+import { SourceCapability } from './core/source-registry.js';
+import { toMCPError } from './core/errors.js';
+import { MCPErrorCode } from './types/mcp.js';
+import { sourceRegistry, loadSourcePlugins, registerOaiPmhSources, applySourceSelection } from './drivers/index.js';
+import { loadConfig, parseConfigAssignments, setConfig } from './config/config.js';
 
 interface CLIOptions {
   command: string;
   source?: string;
+  sources?: string[];
   category?: string;
+  parent?: string;
   concept?: string;
   since?: string;
   id?: string;
@@ -20,13 +33,55 @@ interface CLIOptions {
   field?: string;
   sortBy?: string;
   count?: number;
+  cursor?: string;
   showText?: boolean;
   textPreview?: number;
+  namespace?: string;
+  sections?: string[];
+  tocOnly?: boolean;
+  noResolve?: boolean;
+  format?: string;
   help?: boolean;
 }
 
-// Create a single rate limiter instance for CLI usage
-const rateLimiter = new RateLimiter();
+// Single rate limiter instance for CLI usage, created once the
+// configuration is loaded
+let rateLimiter: RateLimiter;
+
+// Process exit code for each error code, so scripts can tell a bad query
+// from a source that is down or a limit worth waiting out
+const EXIT_CODES: Record<MCPErrorCode, number> = {
+  Internal: 1,
+  InvalidQuery: 2,
+  NotFound: 3,
+  NotAvailable: 4,
+  RateLimited: 5,
+  SourceDown: 6,
+  PartialSuccess: 7,
+};
+
+/**
+ * Print a failed command's error with any hints and exit with its code
+ */
+function exitWithError(context: string, error: unknown): never {
+  const mcpError = toMCPError(error);
+
+  console.error(`${context}: ${mcpError.message}`);
+  if (mcpError.retryAfter !== undefined) {
+    console.error(`Retry after ${mcpError.retryAfter} seconds`);
+  }
+  mcpError.suggestions?.forEach((suggestion) => console.error(`Hint: ${suggestion}`));
+  process.exit(EXIT_CODES[mcpError.code]);
+}
+
+/**
+ * Tell the user how to ask for the next page, if there is one
+ */
+function displayNextCursor(command: string, nextCursor?: string) {
+  if (nextCursor) {
+    console.log(`More results available. Repeat the ${command} command with --cursor=${nextCursor}`);
+  }
+}
 
 /**
  * Helper function to display text content with optional preview
@@ -61,37 +116,112 @@ Usage: latest-science-mcp <command> [options]
 Commands:
   list-categories     List available categories from a source
   fetch-latest        Fetch latest papers from a source and category
-  fetch-top-cited     Fetch top cited papers from OpenAlex for a concept since a date
-  fetch-content       Fetch full metadata for a specific paper by ID
+  fetch-top-cited     Fetch top cited papers for a concept since a date (default source: openalex)
+  fetch-content       Fetch full metadata for a specific paper by ID (any ID when --source is omitted)
+  get-references      List the parsed reference list of a paper, resolved to identifiers
+  get-tables          Print the tables of a paper as Markdown or CSV
+  resolve-identifiers Map a DOI, arXiv ID, PMID, PMCID or OpenAlex ID to all known identifiers
   search-papers       Search papers from a source with query and field filtering
+  search-all          Search every source at once and merge the results
+  cache-stats         Show persistent cache size and usage per namespace
+  cache-clear         Clear the persistent cache (all, or one --namespace)
 
 Options:
-  --source <source>     Data source: arxiv, openalex, pmc, europepmc, biorxiv, core
+  --source <source>     Data source: ${sourceRegistry.ids().join(', ')}
+  --sources <list>      Comma-separated sources for search-all (default: all configured)
   --category <category> Category or concept to search for
-  --concept <concept>   Concept or field to search for (OpenAlex only)
+  --parent <category>   list-categories: only the categories inside this one (e.g. arXiv archive 'cs')
+  --concept <concept>   Concept or field to search for (${sourceRegistry.ids('topCited').join(', ')})
   --since <date>        Start date in YYYY-MM-DD format
-  --id <id>             Paper ID (arXiv ID like '2401.12345' or OpenAlex Work ID)
-  --query <query>       Search query (max 1500 characters)
+  --id <id>             Paper ID (arXiv ID like '2401.12345', OpenAlex Work ID, DOI, PMID, PMCID)
+  --query <query>       Search query (max 1500 characters); filters list-categories by text
   --field <field>       Search field: all, title, abstract, author, fulltext
   --sort-by <sort>      Sort order: relevance, date, citations (availability varies)
   --count <number>      Number of papers to fetch (default: 50, max: 200)
+  --cursor <cursor>     Next-page cursor printed by a previous fetch-latest, fetch-top-cited, search-papers or get-references
   --show-text           Show text content of the paper
   --text-preview <num>  Number of characters to preview in text content
+  --sections <list>     fetch-content: comma-separated sections to return, e.g. abstract,methods,3.2
+  --toc-only            fetch-content: show the table of contents instead of the text
+  --no-resolve          get-references: list the parsed entries without looking them up in OpenAlex
+  --format <format>     get-tables: markdown (default) or csv
+  --namespace <name>    Cache namespace for cache-clear: a source ID, fulltext, pdf, doi, document or biorxiv-index
+  --config <file>       JSON or YAML config file (default: $SCIHARVESTER_CONFIG)
+  --contact-email <a>   Contact email sent to APIs with polite pools
+  --set <key=value>     Override one config setting, e.g. --set http.timeoutMs=20000 (repeatable)
   --help, -h            Show this help message
 
+Sources:
+${sourceRegistry.describeSources(undefined, '  ')}
+
 Examples:
   latest-science-mcp list-categories --source=arxiv
   latest-science-mcp list-categories --source=openalex
+  latest-science-mcp list-categories --source=arxiv --parent=cond-mat
+  latest-science-mcp list-categories --source=arxiv --query="machine learning"
   latest-science-mcp fetch-latest --source=arxiv --category=cs.AI --count=10
   latest-science-mcp fetch-latest --source=openalex --category="artificial intelligence" --count=5
   latest-science-mcp fetch-top-cited --concept="machine learning" --since=2024-01-01 --count=20
   latest-science-mcp fetch-content --source=arxiv --id=2401.12345
   latest-science-mcp fetch-content --source=openalex --id=W2741809807
+  latest-science-mcp fetch-content --source=semanticscholar --id=ARXIV:1706.03762
+  latest-science-mcp search-papers --source=pubmed --query="statins type:meta-analysis" --sort-by=date
+  latest-science-mcp fetch-latest --source=osf --category=psyarxiv --count=10
+  latest-science-mcp search-papers --source=inspire --query="find a witten and topcite 500+" --sort-by=citations
+  latest-science-mcp search-papers --source=dblp --query="pid:56/953" --field=author
+  latest-science-mcp search-papers --source=ads --query="citations:2019ApJ...875L...1E" --sort-by=date
+  latest-science-mcp search-papers --source=crossref --query="references:10.1038/nature12373"
+  latest-science-mcp search-papers --source=biorxiv --query="organoid server:biorxiv category:neuroscience" --sort-by=date
+  latest-science-mcp fetch-content --id=10.1038/s41586-020-2649-2
+  latest-science-mcp fetch-content --source=arxiv --id=2401.12345 --sections=abstract,methods,conclusion
+  latest-science-mcp get-references --source=arxiv --id=1706.03762 --count=20
+  latest-science-mcp get-tables --source=arxiv --id=1706.03762 --format=csv
+  latest-science-mcp resolve-identifiers --id=PMC7095418
   latest-science-mcp search-papers --source=arxiv --query="neural networks" --field=title --count=10
   latest-science-mcp search-papers --source=openalex --query="machine learning" --field=all --sort-by=citations
+  latest-science-mcp search-all --query="CRISPR off-target" --count=20 --sources=europepmc,pmc,openalex
+  latest-science-mcp cache-stats
+  latest-science-mcp cache-clear --namespace=arxiv
+  latest-science-mcp search-papers --source=pmc --query="CRISPR" --config=./sciharvester.yaml
+  latest-science-mcp fetch-latest --source=arxiv --category=cs.AI --set extraction.enablePdfExtraction=false
+  latest-science-mcp list-categories --source=hal --set 'sources.oaiPmh={"hal":{"baseUrl":"https://api.archives-ouvertes.fr/oai/hal"}}'
+
+Exit codes:
+  0  Success
+  1  Internal error
+  2  Invalid query, options or cursor
+  3  Paper or record not found
+  4  Not available from this source (unsupported operation, no full text)
+  5  Rate limited; the message says when to retry
+  6  Source down, timed out or rejected credentials
+  7  Partial success: search-all results are missing some sources
 `);
 }
 
+/**
+ * Validate --source against the registry, exiting with a helpful message
+ */
+function requireSource(
+  options: CLIOptions,
+  command: string,
+  capability: SourceCapability,
+): string {
+  const validSources = sourceRegistry.ids(capability).join(', ');
+
+  if (!options.source) {
+    console.error(`Error: --source is required for ${command} command`);
+    console.error(`Valid sources: ${validSources}`);
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  if (!sourceRegistry.has(options.source, capability)) {
+    console.error(`Error: Invalid source "${options.source}". Valid sources: ${validSources}`);
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  return options.source;
+}
+
 async function runCLI() {
   try {
     const { values, positionals } = parseArgs({
@@ -101,10 +231,16 @@ async function runCLI() {
           type: 'string',
           short: 's'
         },
+        sources: {
+          type: 'string'
+        },
         category: {
           type: 'string',
           short: 'c'
         },
+        parent: {
+          type: 'string'
+        },
         concept: {
           type: 'string'
         },
@@ -128,6 +264,9 @@ async function runCLI() {
         count: {
           type: 'string'
         },
+        cursor: {
+          type: 'string'
+        },
         showText: {
           type: 'boolean',
           short: 't'
@@ -135,18 +274,59 @@ async function runCLI() {
         textPreview: {
           type: 'string'
         },
+        namespace: {
+          type: 'string'
+        },
+        sections: {
+          type: 'string'
+        },
+        'toc-only': {
+          type: 'boolean'
+        },
+        'no-resolve': {
+          type: 'boolean'
+        },
+        format: {
+          type: 'string'
+        },
         help: {
           type: 'boolean',
           short: 'h'
+        },
+        config: {
+          type: 'string'
+        },
+        'contact-email': {
+          type: 'string'
+        },
+        set: {
+          type: 'string',
+          multiple: true
         }
       },
       allowPositionals: true
     });
 
+    // Flags override the config file and environment
+    setConfig(loadConfig({
+      file: values.config,
+      overrides: {
+        ...parseConfigAssignments(values.set ?? []),
+        ...(values['contact-email'] && { contactEmail: values['contact-email'] })
+      }
+    }));
+    rateLimiter = new RateLimiter();
+
+    registerOaiPmhSources();
+    await loadSourcePlugins();
+    applySourceSelection();
+
     const options: CLIOptions = {
       command: positionals[0] || '',
       source: values.source,
+      sources: values.sources?.split(',').map((source) => source.trim()).filter(Boolean),
       category: values.category,
+      parent: values.parent,
       concept: values.concept,
       since: values.since,
       id: values.id,
@@ -154,8 +334,14 @@ async function runCLI() {
       field: values.field,
       sortBy: values.sortBy,
       count: values.count ? parseInt(values.count, 10) : undefined,
+      cursor: values.cursor,
       showText: values.showText,
       textPreview: values.textPreview ? parseInt(values.textPreview, 10) : undefined,
+      namespace: values.namespace,
+      sections: values.sections?.split(',').map((section) => section.trim()).filter(Boolean),
+      tocOnly: values['toc-only'],
+      noResolve: values['no-resolve'],
+      format: values.format,
       help: values.help
     };
 
@@ -177,43 +363,51 @@ async function runCLI() {
       case 'fetch-content':
         await handleFetchContent(options);
         break;
+      case 'get-references':
+        await handleGetReferences(options);
+        break;
+      case 'get-tables':
+        await handleGetTables(options);
+        break;
+      case 'resolve-identifiers':
+        await handleResolveIdentifiers(options);
+        break;
       case 'search-papers':
         await handleSearchPapers(options);
         break;
+      case 'search-all':
+        await handleSearchAll(options);
+        break;
+      case 'cache-stats':
+        await handleCacheStats();
+        break;
+      case 'cache-clear':
+        await handleCacheClear(options);
+        break;
       default:
         console.error(`Unknown command: ${options.command}`);
         printUsage();
-        process.exit(1);
+        process.exit(EXIT_CODES.InvalidQuery);
     }
 
   } catch (error) {
     logError('CLI error', { error: error instanceof Error ? error.message : error });
-    console.error('Error:', error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError('Error', error);
   }
 }
 
 async function handleListCategories(options: CLIOptions) {
-  if (!options.source) {
-    console.error('Error: --source is required for list-categories command');
-    console.error('Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core');
-    process.exit(1);
-  }
+  const source = requireSource(options, 'list-categories', 'categories');
 
-  if (options.source !== 'arxiv' && options.source !== 'openalex' && options.source !== 'pmc' && options.source !== 'europepmc' && options.source !== 'biorxiv' && options.source !== 'core') {
-    console.error(`Error: Invalid source "${options.source}". Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core`);
-    process.exit(1);
-  }
-
-  logInfo('CLI command called', { command: 'list-categories', source: options.source });
+  logInfo('CLI command called', { command: 'list-categories', source, parent: options.parent, query: options.query });
 
   try {
-    const result = await listCategories({ source: options.source });
+    const result = await listCategories({ source, parent: options.parent, query: options.query });
     
     console.log(`\nFound ${result.categories.length} categories from ${result.source}:\n`);
     
     result.categories.forEach(category => {
-      console.log(`📖 ${category.id}: ${category.name}`);
+      console.log(`📖 ${category.id}: ${category.name}${category.aliases ? ` (also ${category.aliases.join(', ')})` : ''}`);
       if (category.description) {
         console.log(`   ${category.description}`);
       }
@@ -225,38 +419,28 @@ async function handleListCategories(options: CLIOptions) {
       source: options.source,
       error: error instanceof Error ? error.message : error 
     });
-    console.error(`Error fetching categories from ${options.source}:`, 
-      error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError(`Error fetching categories from ${options.source}`, error);
   }
 }
 
 async function handleFetchLatest(options: CLIOptions) {
-  if (!options.source) {
-    console.error('Error: --source is required for fetch-latest command');
-    console.error('Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core');
-    process.exit(1);
-  }
+  const source = requireSource(options, 'fetch-latest', 'latest');
 
   if (!options.category) {
     console.error('Error: --category is required for fetch-latest command');
-    process.exit(1);
-  }
-
-  if (options.source !== 'arxiv' && options.source !== 'openalex' && options.source !== 'pmc' && options.source !== 'europepmc' && options.source !== 'biorxiv' && options.source !== 'core') {
-    console.error(`Error: Invalid source "${options.source}". Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core`);
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   const count = options.count || 50;
 
-  logInfo('CLI command called', { command: 'fetch-latest', source: options.source, category: options.category, count });
+  logInfo('CLI command called', { command: 'fetch-latest', source, category: options.category, count });
 
   try {
     const result = await fetchLatest({
-      source: options.source,
+      source,
       category: options.category,
-      count
+      count,
+      cursor: options.cursor
     }, rateLimiter);
     
     console.log(`\nFound ${result.content.length} latest papers from ${options.source} in category "${options.category}":\n`);
@@ -273,6 +457,7 @@ async function handleFetchLatest(options: CLIOptions) {
       displayTextContent(paper, options.showText || false, options.textPreview);
       console.log('');
     });
+    displayNextCursor('fetch-latest', result.next_cursor);
 
   } catch (error) {
     logError('Failed to fetch latest papers', { 
@@ -280,39 +465,43 @@ async function handleFetchLatest(options: CLIOptions) {
       category: options.category,
       error: error instanceof Error ? error.message : error 
     });
-    console.error(`Error fetching latest papers:`, 
-      error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError(`Error fetching latest papers`, error);
   }
 }
 
 async function handleFetchTopCited(options: CLIOptions) {
+  const source = options.source
+    ? requireSource(options, 'fetch-top-cited', 'topCited')
+    : 'openalex';
+
   if (!options.concept) {
     console.error('Error: --concept is required for fetch-top-cited command');
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   if (!options.since) {
     console.error('Error: --since is required for fetch-top-cited command');
     console.error('Format: YYYY-MM-DD (e.g., 2024-01-01)');
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   // Validate date format
   if (!/^\d{4}-\d{2}-\d{2}$/.test(options.since)) {
     console.error('Error: --since must be in YYYY-MM-DD format');
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   const count = options.count || 50;
 
-  logInfo('CLI command called', { command: 'fetch-top-cited', concept: options.concept, since: options.since, count });
+  logInfo('CLI command called', { command: 'fetch-top-cited', source, concept: options.concept, since: options.since, count });
 
   try {
     const result = await fetchTopCited({
+      source,
       concept: options.concept,
       since: options.since,
-      count
+      count,
+      cursor: options.cursor
     }, rateLimiter);
     
     console.log(`\nFound ${result.content.length} top cited papers for concept "${options.concept}" since ${options.since}:\n`);
@@ -329,6 +518,7 @@ async function handleFetchTopCited(options: CLIOptions) {
       displayTextContent(paper, options.showText || false, options.textPreview);
       console.log('');
     });
+    displayNextCursor('fetch-top-cited', result.next_cursor);
 
   } catch (error) {
     logError('Failed to fetch top cited papers', { 
@@ -336,41 +526,38 @@ async function handleFetchTopCited(options: CLIOptions) {
       since: options.since,
       error: error instanceof Error ? error.message : error 
     });
-    console.error(`Error fetching top cited papers:`, 
-      error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError(`Error fetching top cited papers`, error);
   }
 }
 
 async function handleFetchContent(options: CLIOptions) {
-  if (!options.source) {
-    console.error('Error: --source is required for fetch-content command');
-    console.error('Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core');
-    process.exit(1);
-  }
+  // Without --source the ID is resolved and the best full-text source is picked
+  const source = options.source
+    ? requireSource(options, 'fetch-content', 'content')
+    : undefined;
 
   if (!options.id) {
     console.error('Error: --id is required for fetch-content command');
     console.error('Examples: 2401.12345 (arXiv), W2741809807 (OpenAlex)');
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
-  if (options.source !== 'arxiv' && options.source !== 'openalex' && options.source !== 'pmc' && options.source !== 'europepmc' && options.source !== 'biorxiv' && options.source !== 'core') {
-    console.error(`Error: Invalid source "${options.source}". Valid sources: arxiv, openalex, pmc, europepmc, biorxiv, core`);
-    process.exit(1);
-  }
-
-  logInfo('CLI command called', { command: 'fetch-content', source: options.source, id: options.id });
+  logInfo('CLI command called', { command: 'fetch-content', source, id: options.id, sections: options.sections, tocOnly: options.tocOnly });
 
   try {
     const result = await fetchContent({
-      source: options.source,
-      id: options.id
+      source,
+      id: options.id,
+      sections: options.sections?.length ? options.sections : undefined,
+      toc_only: options.tocOnly
     }, rateLimiter);
     
     const paper = result.content;
     
-    console.log(`\nPaper details from ${options.source}:\n`);
+    console.log(`\nPaper details from ${result.source}:\n`);
+    if (result.identity) {
+      console.log(`🔗 Resolved identifiers: ${JSON.stringify(result.identity.identifiers)}`);
+    }
     console.log(`📄 Title: ${paper.title}`);
     console.log(`🆔 ID: ${paper.id}`);
     console.log(`👥 Authors: ${paper.authors.join(', ')}`);
@@ -380,6 +567,21 @@ async function handleFetchContent(options: CLIOptions) {
     }
     console.log('');
 
+    if (result.toc) {
+      console.log('   📑 Table of contents:');
+      for (const entry of result.toc) {
+        const indent = '  '.repeat(entry.level);
+        console.log(`   ${indent}${[entry.number, entry.title].filter(Boolean).join(' ')} (${entry.characters} characters)`);
+      }
+      console.log('');
+    } else if (options.sections || options.tocOnly) {
+      console.log('   ⚠️  No section structure found in this paper');
+    }
+    if (result.missing_sections) {
+      console.log(`   ⚠️  No section matched: ${result.missing_sections.join(', ')}`);
+    }
+    if (options.tocOnly) return;
+
     displayTextContent(paper, true, options.textPreview);
 
   } catch (error) {
@@ -388,28 +590,158 @@ async function handleFetchContent(options: CLIOptions) {
       id: options.id,
       error: error instanceof Error ? error.message : error 
     });
-    console.error(`Error fetching paper content:`, 
-      error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError(`Error fetching paper content`, error);
   }
 }
 
-async function handleSearchPapers(options: CLIOptions) {
-  if (!options.source) {
-    console.error('Error: --source is required for search-papers command');
-    console.error('Valid sources: arxiv, openalex, europepmc, core');
-    process.exit(1);
+async function handleGetReferences(options: CLIOptions) {
+  const source = options.source
+    ? requireSource(options, 'get-references', 'content')
+    : undefined;
+
+  if (!options.id) {
+    console.error('Error: --id is required for get-references command');
+    console.error('Examples: 1706.03762 (arXiv), PMC7095418, 10.1038/s41586-020-2649-2 (DOI)');
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  const count = options.count || 50;
+
+  logInfo('CLI command called', { command: 'get-references', source, id: options.id, count, resolve: !options.noResolve });
+
+  try {
+    const result = await getReferences({
+      source,
+      id: options.id,
+      count,
+      cursor: options.cursor,
+      resolve: !options.noResolve
+    }, rateLimiter);
+
+    console.log(`\nReferences of "${result.paper.title}" from ${result.paper.source} (${result.total} entries):\n`);
+    if (result.resolved !== undefined) {
+      console.log(`🔗 ${result.resolved} of ${result.references.length} resolved to identifiers\n`);
+    }
+
+    result.references.forEach((reference, index) => {
+      console.log(`📚 ${reference.label ?? index + 1}. ${reference.title ?? reference.raw}`);
+      if (reference.authors.length > 0) {
+        console.log(`   Authors: ${reference.authors.join(', ')}`);
+      }
+      const venue = [reference.venue, reference.year].filter(Boolean).join(', ');
+      if (venue) {
+        console.log(`   Venue: ${venue}`);
+      }
+      if (reference.identifiers) {
+        console.log(`   Identifiers: ${JSON.stringify(reference.identifiers)}`);
+      } else if (reference.doi || reference.arxiv_id) {
+        console.log(`   ${reference.doi ? `DOI: ${reference.doi}` : `arXiv: ${reference.arxiv_id}`}`);
+      }
+      console.log('');
+    });
+    displayNextCursor('get-references', result.next_cursor);
+
+  } catch (error) {
+    logError('Failed to get references', { 
+      source: options.source,
+      id: options.id,
+      error: error instanceof Error ? error.message : error 
+    });
+    exitWithError(`Error getting references`, error);
+  }
+}
+
+async function handleGetTables(options: CLIOptions) {
+  const source = options.source
+    ? requireSource(options, 'get-tables', 'content')
+    : undefined;
+
+  if (!options.id) {
+    console.error('Error: --id is required for get-tables command');
+    console.error('Examples: 1706.03762 (arXiv), PMC7095418, 10.1038/s41586-020-2649-2 (DOI)');
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  const format = options.format || 'markdown';
+  if (format !== 'markdown' && format !== 'csv') {
+    console.error(`Error: Invalid format "${format}". Valid options: markdown, csv`);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
+  logInfo('CLI command called', { command: 'get-tables', source, id: options.id, format });
+
+  try {
+    const result = await getTables({ source, id: options.id, format }, rateLimiter);
+
+    console.log(`\nTables of "${result.paper.title}" from ${result.paper.source} (${result.tables.length} found):\n`);
+    if (result.tables.length === 0) {
+      console.log('No tables could be read from the text of this paper.');
+    }
+
+    result.tables.forEach((table, index) => {
+      console.log(`📊 ${table.label ?? `Table ${index + 1}`}${table.caption ? `: ${table.caption}` : ''}`);
+      console.log(`   ${table.rows} rows × ${table.columns} columns\n`);
+      console.log(table.content);
+      console.log('');
+    });
+
+  } catch (error) {
+    logError('Failed to get tables', { 
+      source: options.source,
+      id: options.id,
+      error: error instanceof Error ? error.message : error 
+    });
+    exitWithError(`Error getting tables`, error);
+  }
+}
+
+async function handleResolveIdentifiers(options: CLIOptions) {
+  if (!options.id) {
+    console.error('Error: --id is required for resolve-identifiers command');
+    console.error('Examples: 10.1038/s41586-020-2649-2 (DOI), 2401.12345 (arXiv), PMC7095418, W2741809807');
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  logInfo('CLI command called', { command: 'resolve-identifiers', id: options.id });
+
+  try {
+    const result = await resolveIdentifiers({ id: options.id }, rateLimiter);
+    const identity = result.content;
+
+    console.log(`\nIdentifiers for ${identity.inputType} "${identity.input}":\n`);
+    if (identity.title) {
+      console.log(`📄 Title: ${identity.title}`);
+    }
+    Object.entries(identity.identifiers).forEach(([type, value]) => {
+      console.log(`   ${type}: ${value}`);
+    });
+
+    console.log('\nLookups:');
+    identity.lookups.forEach(lookup => {
+      console.log(`   ${lookup.service} (${lookup.query}): ${lookup.status}${lookup.error ? ` - ${lookup.error}` : ''}`);
+    });
+
+    console.log('\nFull-text sources (in order):');
+    result.fullTextSources.forEach(candidate => {
+      console.log(`   ${candidate.source}: ${candidate.id}`);
+    });
+
+  } catch (error) {
+    logError('Failed to resolve identifiers', { 
+      id: options.id,
+      error: error instanceof Error ? error.message : error 
+    });
+    exitWithError(`Error resolving identifiers`, error);
+  }
+}
+
+async function handleSearchPapers(options: CLIOptions) {
+  const source = requireSource(options, 'search-papers', 'search');
+
   if (!options.query) {
     console.error('Error: --query is required for search-papers command');
     console.error('Example: --query="machine learning"');
-    process.exit(1);
-  }
-
-  if (options.source !== 'arxiv' && options.source !== 'openalex' && options.source !== 'europepmc' && options.source !== 'core') {
-    console.error(`Error: Invalid source "${options.source}". Valid sources: arxiv, openalex, europepmc, core`);
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   const field = options.field || 'all';
@@ -420,25 +752,26 @@ async function handleSearchPapers(options: CLIOptions) {
   const validFields = ['all', 'title', 'abstract', 'author', 'fulltext'];
   if (!validFields.includes(field)) {
     console.error(`Error: Invalid field "${field}". Valid fields: ${validFields.join(', ')}`);
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
   // Validate sortBy
   const validSortBy = ['relevance', 'date', 'citations'];
   if (!validSortBy.includes(sortBy)) {
     console.error(`Error: Invalid sort order "${sortBy}". Valid options: ${validSortBy.join(', ')}`);
-    process.exit(1);
+    process.exit(EXIT_CODES.InvalidQuery);
   }
 
-  logInfo('CLI command called', { command: 'search-papers', source: options.source, query: options.query, field, sortBy, count });
+  logInfo('CLI command called', { command: 'search-papers', source, query: options.query, field, sortBy, count });
 
   try {
     const result = await searchPapers({
-      source: options.source as 'arxiv' | 'openalex' | 'europepmc' | 'core',
+      source,
       query: options.query,
       field: field as 'all' | 'title' | 'abstract' | 'author' | 'fulltext',
       sortBy: sortBy as 'relevance' | 'date' | 'citations',
-      count
+      count,
+      cursor: options.cursor
     }, rateLimiter);
     
     console.log(`\nFound ${result.content.length} papers from ${options.source} for query "${options.query}" in ${field} field:\n`);
@@ -455,6 +788,15 @@ async function handleSearchPapers(options: CLIOptions) {
       displayTextContent(paper, options.showText || false, options.textPreview);
       console.log('');
     });
+    if (result.index) {
+      const { papers, from, to, harvested_at, pending_days } = result.index;
+      console.log(`📚 Searched ${papers} indexed papers posted ${from} to ${to}, last updated ${harvested_at ?? 'never'}`);
+      if (pending_days > 0) {
+        console.log(`   ${pending_days} days still being harvested; repeat the search later for fuller coverage`);
+      }
+      console.log('');
+    }
+    displayNextCursor('search-papers', result.next_cursor);
 
   } catch (error) {
     logError('Failed to search papers', { 
@@ -464,9 +806,135 @@ async function handleSearchPapers(options: CLIOptions) {
       sortBy,
       error: error instanceof Error ? error.message : error 
     });
-    console.error(`Error searching papers:`, 
-      error instanceof Error ? error.message : error);
-    process.exit(1);
+    exitWithError(`Error searching papers`, error);
+  }
+}
+
+async function handleSearchAll(options: CLIOptions) {
+  if (!options.query) {
+    console.error('Error: --query is required for search-all command');
+    console.error('Example: --query="machine learning"');
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  const validSources = sourceRegistry.ids('search');
+  const invalidSources = (options.sources || []).filter((source) => !validSources.includes(source));
+  if (invalidSources.length > 0) {
+    console.error(`Error: Invalid source(s) "${invalidSources.join(', ')}". Valid sources: ${validSources.join(', ')}`);
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  const field = options.field || 'all';
+  const sortBy = options.sortBy || 'relevance';
+  const count = options.count || 50;
+
+  const validFields = ['all', 'title', 'abstract', 'author', 'fulltext'];
+  if (!validFields.includes(field)) {
+    console.error(`Error: Invalid field "${field}". Valid fields: ${validFields.join(', ')}`);
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  const validSortBy = ['relevance', 'date', 'citations'];
+  if (!validSortBy.includes(sortBy)) {
+    console.error(`Error: Invalid sort order "${sortBy}". Valid options: ${validSortBy.join(', ')}`);
+    process.exit(EXIT_CODES.InvalidQuery);
+  }
+
+  logInfo('CLI command called', { command: 'search-all', sources: options.sources, query: options.query, field, sortBy, count });
+
+  try {
+    const result = await searchAll({
+      query: options.query,
+      field: field as 'all' | 'title' | 'abstract' | 'author' | 'fulltext',
+      sortBy: sortBy as 'relevance' | 'date' | 'citations',
+      count,
+      sources: options.sources
+    }, rateLimiter);
+
+    console.log('\nSources:');
+    result.sources.forEach(report => {
+      const status = report.status === 'ok'
+        ? `✅ ${report.count} papers`
+        : report.status === 'rate_limited'
+          ? `⏳ rate limited (retry after ${report.retryAfter}s)`
+          : `❌ ${report.error}`;
+      console.log(`   ${report.source}: ${status} in ${report.durationMs}ms`);
+    });
+
+    console.log(`\nFound ${result.content.length} papers for query "${options.query}" in ${field} field:\n`);
+
+    result.content.forEach((paper, index) => {
+      console.log(`🔍 ${index + 1}. ${paper.title}`);
+      console.log(`   ID: ${paper.id} (${paper.source})`);
+      console.log(`   Found in: ${paper.foundIn.map(hit => `${hit.source} #${hit.rank}`).join(', ')}`);
+      console.log(`   Authors: ${paper.authors.join(', ')}`);
+      console.log(`   Date: ${paper.date}`);
+      if (paper.pdf_url) {
+        console.log(`   PDF: ${paper.pdf_url}`);
+      }
+      console.log('');
+    });
+
+    // Results were printed, but scripts should know some sources are missing
+    if (result.partial) {
+      process.exitCode = EXIT_CODES.PartialSuccess;
+    }
+
+  } catch (error) {
+    logError('Failed to search all sources', { 
+      query: options.query,
+      field,
+      sortBy,
+      error: error instanceof Error ? error.message : error 
+    });
+    exitWithError(`Error searching sources`, error);
+  }
+}
+
+async function handleCacheStats() {
+  logInfo('CLI command called', { command: 'cache-stats' });
+
+  try {
+    const stats = (await cacheStats()).content;
+
+    if (!stats.enabled) {
+      console.log('\nCaching is disabled (SCIHARVESTER_CACHE=off)');
+      return;
+    }
+
+    const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+    console.log(`\nCache backend: ${stats.backend}${stats.location ? ` (${stats.location})` : ''}`);
+    console.log(`Entries: ${stats.entries} (max ${stats.maxEntries})`);
+    console.log(`Size: ${toMB(stats.bytes)}MB of ${toMB(stats.maxBytes)}MB, including ${stats.textEntries} stored texts (${toMB(stats.textBytes)}MB)`);
+    console.log(`This session: ${stats.hits} hits, ${stats.misses} misses`);
+
+    console.log('\nNamespaces:');
+    Object.entries(stats.namespaces).forEach(([namespace, usage]) => {
+      console.log(`   ${namespace}: ${usage.entries} entries, ${toMB(usage.bytes)}MB${usage.expired ? `, ${usage.expired} expired` : ''}`);
+    });
+
+  } catch (error) {
+    logError('Failed to read cache stats', {
+      error: error instanceof Error ? error.message : error
+    });
+    exitWithError(`Error reading cache stats`, error);
+  }
+}
+
+async function handleCacheClear(options: CLIOptions) {
+  logInfo('CLI command called', { command: 'cache-clear', namespace: options.namespace });
+
+  try {
+    const result = (await cacheClear({ namespace: options.namespace })).content;
+    console.log(`\nRemoved ${result.removed} cached entries from ${result.namespace === 'all' ? 'all namespaces' : `"${result.namespace}"`}`);
+
+  } catch (error) {
+    logError('Failed to clear cache', {
+      namespace: options.namespace,
+      error: error instanceof Error ? error.message : error
+    });
+    exitWithError(`Error clearing cache`, error);
   }
 }
 
@@ -0,0 +1,197 @@
+/**
+ * Runtime Configuration
+ *
+ * Settings are merged from, in increasing priority: built-in defaults, a
+ * JSON or YAML config file, environment variables and CLI flags. The result
+ * is validated against ConfigSchema once; invalid settings fail at startup
+ * rather than on the first request that uses them.
+ *
+ * The config file is only read when one is named, with --config or
+ * SCIHARVESTER_CONFIG.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { load as parseYaml } from "js-yaml";
+import { ZodError } from "zod";
+import { ConfigInput, ConfigSchema, SciHarvesterConfig } from "./schemas.js";
+import { InvalidQueryError } from "../core/errors.js";
+
+export interface ConfigSources {
+  file?: string; // Path to a .json, .yaml or .yml file
+  env?: NodeJS.ProcessEnv;
+  overrides?: ConfigInput; // From CLI flags; applied last
+}
+
+type ConfigObject = Record<string, unknown>;
+
+// Environment variables and the config path each one sets
+const ENV_SETTINGS: Array<[string, string, "string" | "number" | "list"]> = [
+  ["SCIHARVESTER_CONTACT_EMAIL", "contactEmail", "string"],
+  ["SCIHARVESTER_USER_AGENT", "userAgent", "string"],
+  ["CORE_API_KEY", "apiKeys.core", "string"],
+  ["NCBI_API_KEY", "apiKeys.ncbi", "string"],
+  ["SEMANTIC_SCHOLAR_API_KEY", "apiKeys.semanticScholar", "string"],
+  ["ADS_API_TOKEN", "apiKeys.ads", "string"],
+  ["SCIHARVESTER_HTTP_TIMEOUT_MS", "http.timeoutMs", "number"],
+  ["SCIHARVESTER_HTTP_RETRIES", "http.maxRetries", "number"],
+  ["SCIHARVESTER_RATE_LIMIT_MAX_WAIT", "rateLimits.maxWaitSeconds", "number"],
+  ["SCIHARVESTER_CACHE", "cache.mode", "string"],
+  ["SCIHARVESTER_CACHE_DIR", "cache.dir", "string"],
+  ["SCIHARVESTER_CACHE_MAX_MB", "cache.maxMB", "number"],
+  ["SCIHARVESTER_SOURCES", "sources.enabled", "list"],
+  ["SCIHARVESTER_DISABLED_SOURCES", "sources.disabled", "list"],
+  ["SCIHARVESTER_PLUGINS", "sources.plugins", "list"],
+];
+
+/**
+ * Read, merge and validate the configuration
+ */
+export function loadConfig(options: ConfigSources = {}): SciHarvesterConfig {
+  const env = options.env ?? process.env;
+  const file = options.file ?? (env.SCIHARVESTER_CONFIG || undefined);
+
+  const merged = [
+    file ? readConfigFile(file) : {},
+    configFromEnv(env),
+    (options.overrides ?? {}) as ConfigObject,
+  ].reduce(mergeConfig, {});
+
+  try {
+    return ConfigSchema.parse(merged);
+  } catch (error) {
+    if (!(error instanceof ZodError)) throw error;
+    const problems = error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    );
+    throw new InvalidQueryError(
+      `Invalid configuration${file ? ` in ${file}` : ""}: ${problems.join("; ")}`,
+      { suggestions: ["See the Configuration section of the README"] },
+    );
+  }
+}
+
+/**
+ * Parse a JSON or YAML config file; the extension picks the format
+ */
+export function readConfigFile(path: string): ConfigObject {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new InvalidQueryError(`Cannot read config file ${path}`, {
+      cause: error,
+    });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? parseYaml(text)
+      : JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? `: ${error.message}` : "";
+    throw new InvalidQueryError(`Cannot parse config file ${path}${reason}`, {
+      cause: error,
+    });
+  }
+
+  if (parsed === undefined || parsed === null) return {}; // Empty file
+  if (!isPlainObject(parsed)) {
+    throw new InvalidQueryError(
+      `Config file ${path} must contain an object of settings`,
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Turn `path.to.key=value` CLI assignments into a config object. Values
+ * are read as JSON where possible, so numbers, booleans and lists keep
+ * their type; anything else is taken as a string.
+ */
+export function parseConfigAssignments(assignments: string[]): ConfigInput {
+  return assignments.reduce<ConfigObject>((config, assignment) => {
+    const separator = assignment.indexOf("=");
+    if (separator <= 0) {
+      throw new InvalidQueryError(
+        `Invalid --set "${assignment}": expected key=value`,
+        { suggestions: ["For example --set http.timeoutMs=20000"] },
+      );
+    }
+
+    const raw = assignment.slice(separator + 1);
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      value = raw;
+    }
+    return mergeConfig(
+      config,
+      atPath(assignment.slice(0, separator).trim(), value),
+    );
+  }, {}) as ConfigInput;
+}
+
+function configFromEnv(env: NodeJS.ProcessEnv): ConfigObject {
+  return ENV_SETTINGS.reduce<ConfigObject>((config, [name, path, type]) => {
+    const raw = env[name];
+    if (raw === undefined || raw.trim() === "") return config;
+
+    const value =
+      type === "number"
+        ? Number(raw)
+        : type === "list"
+          ? raw
+              .split(",")
+              .map((item) => item.trim())
+              .filter((item) => item.length > 0)
+          : raw.trim();
+    return mergeConfig(config, atPath(path, value));
+  }, {});
+}
+
+function atPath(path: string, value: unknown): ConfigObject {
+  return path
+    .split(".")
+    .reduceRight<unknown>(
+      (inner, key) => ({ [key]: inner }),
+      value,
+    ) as ConfigObject;
+}
+
+// Later sources win key by key; lists and scalars are replaced whole
+function mergeConfig(base: ConfigObject, next: ConfigObject): ConfigObject {
+  const merged: ConfigObject = { ...base };
+  for (const [key, value] of Object.entries(next)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeConfig(merged[key] as ConfigObject, value)
+        : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is ConfigObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+let currentConfig: SciHarvesterConfig | undefined;
+
+/**
+ * Process-wide configuration, loaded from SCIHARVESTER_CONFIG and the
+ * environment on first use
+ */
+export function getConfig(): SciHarvesterConfig {
+  currentConfig ??= loadConfig();
+  return currentConfig;
+}
+
+/**
+ * Replace the process-wide configuration. Call before the HTTP client,
+ * cache and rate limiter are first used; they read it once.
+ */
+export function setConfig(config: SciHarvesterConfig): void {
+  currentConfig = config;
+}
@@ -1,35 +1,123 @@
 // API Endpoints
 export const ARXIV_API_BASE = "https://export.arxiv.org/api/query";
 export const OPENALEX_API_BASE = "https://api.openalex.org";
+export const EUTILS_API_BASE = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+export const SEMANTIC_SCHOLAR_API_BASE =
+  "https://api.semanticscholar.org/graph/v1";
+export const OSF_API_BASE = "https://api.osf.io/v2";
+export const INSPIRE_API_BASE = "https://inspirehep.net/api";
+export const DBLP_API_BASE = "https://dblp.org";
+export const ADS_API_BASE = "https://api.adsabs.harvard.edu/v1";
+export const CROSSREF_API_BASE = "https://api.crossref.org";
 
 // Rate limiting defaults
 export const DEFAULT_RATE_LIMITS = {
   arxiv: {
     maxTokens: 5,
     refillRate: 5 / 60, // 5 requests per minute as per arXiv guidelines
+    maxConcurrent: 1, // arXiv asks for a single connection at a time
   },
   openalex: {
     maxTokens: 10,
     refillRate: 10 / 60, // 10 requests per minute (conservative limit)
-  },
-  pmc: {
-    maxTokens: 3,
-    refillRate: 3 / 1, // 3 requests per second as per PMC E-utilities guidelines
+    maxConcurrent: 5,
   },
   europepmc: {
     maxTokens: 10,
     refillRate: 10 / 60, // 10 requests per minute (conservative limit)
+    maxConcurrent: 5,
   },
   biorxiv: {
     maxTokens: 5,
     refillRate: 5 / 60, // 5 requests per minute (conservative limit for preprint servers)
+    maxConcurrent: 2,
   },
   core: {
     maxTokens: 10,
     refillRate: 10 / 60, // 10 requests per minute (standard rate for CORE API)
+    maxConcurrent: 3,
+  },
+  semanticscholar: {
+    maxTokens: 1,
+    refillRate: 1, // 1 request per second, the Graph API's limit for API keys
+    maxConcurrent: 1,
+  },
+  osf: {
+    maxTokens: 5,
+    refillRate: 5 / 60, // 5 requests per minute (conservative limit for anonymous access)
+    maxConcurrent: 2,
+  },
+  inspire: {
+    maxTokens: 15,
+    refillRate: 15 / 5, // 15 requests per 5 seconds as per INSPIRE API guidelines
+    maxConcurrent: 3,
+  },
+  dblp: {
+    maxTokens: 5,
+    refillRate: 1, // 1 request per second; dblp.org answers bursts with 429
+    maxConcurrent: 1,
+  },
+  ads: {
+    maxTokens: 10,
+    refillRate: 5000 / 86400, // 5,000 requests per day per token as per ADS API limits
+    maxConcurrent: 2,
+  },
+  crossref: {
+    maxTokens: 10,
+    refillRate: 10, // 10 requests per second in the polite pool (requests carry a mailto)
+    maxConcurrent: 3,
+  },
+  unpaywall: {
+    maxTokens: 10,
+    refillRate: 100000 / 86400, // 100,000 requests per day as per Unpaywall API limits
+    maxConcurrent: 2,
   },
 } as const;
 
+// PMC and PubMed share one bucket: NCBI limits E-utilities per client, at
+// 3 requests per second, or 10 with an API key (apiKeys.ncbi)
+export const NCBI_RATE_LIMIT = {
+  maxTokens: 3,
+  refillRate: 3 / 1,
+  maxConcurrent: 3,
+};
+export const NCBI_API_KEY_RATE_LIMIT = {
+  maxTokens: 10,
+  refillRate: 10 / 1,
+  maxConcurrent: 5,
+};
+
+// Full-text pages are fetched from publisher and repository sites rather
+// than the source API, so each source gets a separate bucket for them
+export const DEFAULT_FULLTEXT_RATE_LIMIT = {
+  maxTokens: 5,
+  refillRate: 1, // 1 page per second
+  maxConcurrent: 2,
+} as const;
+
+// Fills in limits the configuration leaves out for a source with no
+// built-in limits, e.g. a plugin
+export const DEFAULT_CUSTOM_RATE_LIMIT = {
+  maxTokens: 5,
+  refillRate: 5 / 60,
+  maxConcurrent: 2,
+} as const;
+
+// How long a request queues for a token before failing as rate limited
+export const DEFAULT_RATE_LIMIT_MAX_WAIT_SECONDS = 30;
+
+// Shared HTTP client (see core/http-client.ts)
+export const DEFAULT_HTTP_CONFIG = {
+  userAgent:
+    "Scientific-Papers-MCP/0.1.40 (+https://github.com/benedict2310/Scientific-Papers-MCP)",
+  contactEmail: "contact@sciharvestermcp.org", // Sent to APIs with polite pools
+  timeoutMs: 15000,
+  maxRetries: 3, // Retries after the first attempt, for 5xx, 429 and network errors
+  baseDelayMs: 500, // Backoff doubles from here, with jitter
+  maxDelayMs: 30000, // Longer Retry-After values fail instead of waiting
+  maxConnectionsPerHost: 4,
+};
+
 // Default parameters
 export const DEFAULT_PAPER_COUNT = 50;
 export const MAX_PAPER_COUNT = 200;
@@ -48,54 +136,25 @@ export const DEFAULT_TEXT_EXTRACTION_CONFIG = {
   },
 } as const;
 
+// Persistent cache configuration (see core/cache.ts)
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_CACHE_CONFIG = {
+  maxBytes: 512 * 1024 * 1024, // 512MB, including stored full text
+  maxEntries: 50000,
+  ttlSeconds: {
+    default: DAY, // Search, category and metadata responses
+    arxiv: 6 * HOUR, // New submissions are announced daily
+    biorxiv: 12 * HOUR,
+    "biorxiv-index": 31 * DAY, // Days of the 30-day search index age out
+    latest: HOUR, // Upper bound for fetch_latest results from any source
+    fulltext: 30 * DAY, // Extracted text rarely changes once published
+    pdf: 30 * DAY,
+    doi: 7 * DAY, // Open-access locations do move
+  } as Record<string, number>,
+};
+
 // HTML extraction endpoints
 export const ARXIV_HTML_BASE = "https://arxiv.org/html";
 export const AR5IV_HTML_BASE = "https://ar5iv.labs.arxiv.org/html";
-
-// arXiv categories (commonly used ones for initial implementation)
-export const ARXIV_CATEGORIES = [
-  {
-    id: "cs.AI",
-    name: "Artificial Intelligence",
-    description:
-      "Covers all areas of AI except Vision, Robotics, Machine Learning, Multiagent Systems, and Computation and Language",
-  },
-  {
-    id: "cs.LG",
-    name: "Machine Learning",
-    description: "Papers on all aspects of machine learning research",
-  },
-  {
-    id: "cs.CL",
-    name: "Computation and Language",
-    description:
-      "Covers natural language processing, computational linguistics, and related areas",
-  },
-  {
-    id: "cs.CV",
-    name: "Computer Vision and Pattern Recognition",
-    description:
-      "Covers image processing, computer vision, pattern recognition, and scene understanding",
-  },
-  {
-    id: "cs.RO",
-    name: "Robotics",
-    description: "Roughly includes material in ACM Subject Class I.2.9",
-  },
-  {
-    id: "physics.gen-ph",
-    name: "General Physics",
-    description: "Description coming soon",
-  },
-  {
-    id: "math.CO",
-    name: "Combinatorics",
-    description:
-      "Discrete mathematics, graph theory, enumeration, algebraic combinatorics",
-  },
-  {
-    id: "stat.ML",
-    name: "Machine Learning (Statistics)",
-    description: "Machine learning papers with a statistics focus",
-  },
-] as const;
@@ -1,24 +1,44 @@
 import { z } from "zod";
+import {
+  DEFAULT_CACHE_CONFIG,
+  DEFAULT_HTTP_CONFIG,
+  DEFAULT_RATE_LIMIT_MAX_WAIT_SECONDS,
+  DEFAULT_TEXT_EXTRACTION_CONFIG,
+} from "./constants.js";
+
+// Source IDs are checked against the registry by the tools themselves.
+// Importing the registry here would make the configuration, which every
+// driver reads, depend on every driver.
+const SourceIdSchema = z.string().min(1);
 
 // Tool parameter schemas
 export const ListCategoriesSchema = z.object({
-  source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]),
+  source: SourceIdSchema,
+  parent: z.string().min(1).optional(),
+  query: z.string().min(1).optional(),
 });
 
 export const FetchLatestSchema = z.object({
-  source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]),
+  source: SourceIdSchema,
   category: z.string().min(1),
   count: z.number().min(1).max(200).default(50),
+  cursor: z.string().min(1).optional(),
 });
 
 export const FetchTopCitedSchema = z.object({
+  source: SourceIdSchema.optional(),
   concept: z.string().min(1),
   since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   count: z.number().min(1).max(200).default(50),
+  cursor: z.string().min(1).optional(),
 });
 
 export const FetchContentSchema = z.object({
-  source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]),
+  source: SourceIdSchema.optional(),
+  id: z.string().min(1),
+});
+
+export const ResolveIdentifiersSchema = z.object({
   id: z.string().min(1),
 });
 
@@ -29,20 +49,176 @@ export const CLIArgsSchema = z.object({
     "fetch-latest",
     "fetch-top-cited",
     "fetch-content",
+    "resolve-identifiers",
+    "cache-stats",
+    "cache-clear",
   ]),
-  source: z
-    .enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"])
-    .optional(),
+  source: SourceIdSchema.optional(),
   category: z.string().optional(),
   concept: z.string().optional(),
   since: z.string().optional(),
   count: z.number().optional(),
+  cursor: z.string().optional(),
   id: z.string().optional(),
+  namespace: z.string().optional(),
 });
 
+// Runtime configuration (see config/config.ts). Every field is optional in
+// a config file; omitted ones fall back to the defaults in constants.ts.
+const RateLimitSchema = z
+  .object({
+    maxTokens: z.number().positive(),
+    refillRate: z.number().positive(), // Tokens per second
+    maxConcurrent: z.number().int().positive(),
+  })
+  .strict()
+  .partial();
+
+// An OAI-PMH endpoint served as a source of its own (see oai-pmh-driver.ts)
+const OaiPmhRepositorySchema = z
+  .object({
+    baseUrl: z.string().url(),
+    name: z.string().min(1).optional(),
+    description: z.string().min(1).optional(),
+    metadataPrefix: z.enum(["oai_dc", "arXiv", "jats"]).default("oai_dc"),
+    latestDays: z.number().int().positive().default(7), // fetch_latest window
+  })
+  .strict();
+
+export const ConfigSchema = z
+  .object({
+    // Sent in the User-Agent and to APIs with polite pools
+    contactEmail: z.string().email().default(DEFAULT_HTTP_CONFIG.contactEmail),
+    userAgent: z.string().min(1).default(DEFAULT_HTTP_CONFIG.userAgent),
+    apiKeys: z
+      .object({
+        core: z.string().min(1).optional(),
+        ncbi: z.string().min(1).optional(), // PMC and PubMed E-utilities
+        semanticScholar: z.string().min(1).optional(),
+        ads: z.string().min(1).optional(), // NASA ADS; its API needs a token
+      })
+      .strict()
+      .default({}),
+    http: z
+      .object({
+        timeoutMs: z
+          .number()
+          .int()
+          .positive()
+          .default(DEFAULT_HTTP_CONFIG.timeoutMs),
+        maxRetries: z
+          .number()
+          .int()
+          .min(0)
+          .default(DEFAULT_HTTP_CONFIG.maxRetries),
+        baseDelayMs: z
+          .number()
+          .int()
+          .min(0)
+          .default(DEFAULT_HTTP_CONFIG.baseDelayMs),
+        maxDelayMs: z
+          .number()
+          .int()
+          .min(0)
+          .default(DEFAULT_HTTP_CONFIG.maxDelayMs),
+        maxConnectionsPerHost: z
+          .number()
+          .int()
+          .positive()
+          .default(DEFAULT_HTTP_CONFIG.maxConnectionsPerHost),
+      })
+      .strict()
+      .default({}),
+    rateLimits: z
+      .object({
+        maxWaitSeconds: z
+          .number()
+          .min(0)
+          .default(DEFAULT_RATE_LIMIT_MAX_WAIT_SECONDS),
+        fulltext: RateLimitSchema.default({}),
+        // Keyed by source ID; overrides the built-in limits field by field
+        sources: z.record(RateLimitSchema).default({}),
+      })
+      .strict()
+      .default({}),
+    extraction: z
+      .object({
+        maxTextLength: z
+          .number()
+          .int()
+          .positive()
+          .default(DEFAULT_TEXT_EXTRACTION_CONFIG.maxTextLength),
+        enableArxivFallback: z
+          .boolean()
+          .default(DEFAULT_TEXT_EXTRACTION_CONFIG.enableArxivFallback),
+        enableOpenAlexExtraction: z
+          .boolean()
+          .default(DEFAULT_TEXT_EXTRACTION_CONFIG.enableOpenAlexExtraction),
+        enablePdfExtraction: z
+          .boolean()
+          .default(DEFAULT_TEXT_EXTRACTION_CONFIG.enablePdfExtraction),
+        cleaningOptions: z
+          .object({
+            removeExtraWhitespace: z
+              .boolean()
+              .default(
+                DEFAULT_TEXT_EXTRACTION_CONFIG.cleaningOptions
+                  .removeExtraWhitespace,
+              ),
+            removeSpecialChars: z
+              .boolean()
+              .default(
+                DEFAULT_TEXT_EXTRACTION_CONFIG.cleaningOptions
+                  .removeSpecialChars,
+              ),
+            normalizeLineBreaks: z
+              .boolean()
+              .default(
+                DEFAULT_TEXT_EXTRACTION_CONFIG.cleaningOptions
+                  .normalizeLineBreaks,
+              ),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        mode: z.enum(["file", "memory", "off"]).default("file"),
+        dir: z.string().min(1).optional(), // Default: XDG cache home
+        maxMB: z
+          .number()
+          .positive()
+          .default(DEFAULT_CACHE_CONFIG.maxBytes / (1024 * 1024)),
+      })
+      .strict()
+      .default({}),
+    sources: z
+      .object({
+        enabled: z.array(z.string().min(1)).optional(), // All when omitted
+        disabled: z.array(z.string().min(1)).default([]),
+        plugins: z.array(z.string().min(1)).default([]), // Packages or paths
+        // Keyed by the source ID each repository is registered under
+        oaiPmh: z
+          .record(
+            z.string().regex(/^[a-z][a-z0-9_-]*$/),
+            OaiPmhRepositorySchema,
+          )
+          .default({}),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
 // Export types for TypeScript
 export type ListCategoriesParams = z.infer<typeof ListCategoriesSchema>;
 export type FetchLatestParams = z.infer<typeof FetchLatestSchema>;
 export type FetchTopCitedParams = z.infer<typeof FetchTopCitedSchema>;
 export type FetchContentParams = z.infer<typeof FetchContentSchema>;
+export type ResolveIdentifiersParams = z.infer<typeof ResolveIdentifiersSchema>;
 export type CLIArgs = z.infer<typeof CLIArgsSchema>;
+export type SciHarvesterConfig = z.infer<typeof ConfigSchema>;
+export type ConfigInput = z.input<typeof ConfigSchema>;
+export type OaiPmhRepository = z.infer<typeof OaiPmhRepositorySchema>;
@@ -0,0 +1,709 @@
+/**
+ * Persistent Response Cache
+ *
+ * Keeps driver responses, extracted full text and DOI resolutions across
+ * MCP restarts. Entries live in namespaces - a source ID, or "fulltext",
+ * "pdf" and "doi" - each with its own TTL. Extracted text is stored once per
+ * SHA-256 of its content, so the same paper reached through two sources or
+ * two URLs costs a single copy. The document model of a text - section
+ * offsets, bibliography, tables - is kept apart in the "document" namespace.
+ *
+ * Backends are pluggable through `CacheStore`; the file store is the
+ * default and a memory store is available for short-lived processes.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { logInfo, logWarn } from "./logger.js";
+import { DEFAULT_CACHE_CONFIG } from "../config/constants.js";
+import { getConfig } from "../config/config.js";
+
+export type CacheBackend = "file" | "memory" | "off";
+
+export interface CacheRecord {
+  namespace: string;
+  key: string;
+  value: unknown; // Any JSON value
+  textHash?: string; // Content address of the text stored alongside the value
+  createdAt: number;
+  expiresAt: number;
+}
+
+// What a store reports about a record without loading its value
+export interface CacheRecordInfo {
+  namespace: string;
+  key: string;
+  size: number; // bytes, not counting shared text
+  textHash?: string;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStore {
+  readonly backend: Exclude<CacheBackend, "off">;
+  readonly location?: string;
+  read(namespace: string, key: string): Promise<CacheRecord | undefined>;
+  write(record: CacheRecord): Promise<number>; // returns bytes written
+  touch(namespace: string, key: string): Promise<void>;
+  remove(namespace: string, key: string): Promise<void>;
+  records(): Promise<CacheRecordInfo[]>;
+  readText(hash: string): Promise<string | undefined>;
+  writeText(hash: string, text: string): Promise<number>;
+  removeText(hash: string): Promise<void>;
+  texts(): Promise<Array<{ hash: string; size: number }>>;
+}
+
+export interface CacheOptions {
+  maxBytes: number;
+  maxEntries: number;
+  ttlSeconds: Record<string, number>; // by namespace, plus "default"
+}
+
+export interface NamespaceStats {
+  entries: number;
+  bytes: number;
+  expired: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  backend: CacheBackend;
+  location?: string;
+  entries: number;
+  bytes: number; // records plus stored text
+  textEntries: number;
+  textBytes: number;
+  maxBytes: number;
+  maxEntries: number;
+  hits: number; // since this process started
+  misses: number;
+  namespaces: Record<string, NamespaceStats>;
+}
+
+function sha256(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * One JSON file per record under entries/<namespace>/, text under text/.
+ * File mtimes double as last-access times for eviction.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly backend = "file" as const;
+
+  constructor(readonly location: string) {}
+
+  private entryPath(namespace: string, key: string): string {
+    return join(this.location, "entries", namespace, `${sha256(key)}.json`);
+  }
+
+  private textPath(hash: string): string {
+    return join(this.location, "text", `${hash}.txt`);
+  }
+
+  // Write to a temporary file first so a crash never leaves half a record
+  private async writeAtomic(path: string, data: string): Promise<void> {
+    await fs.mkdir(join(path, ".."), { recursive: true });
+    const temporary = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data, "utf8");
+    await fs.rename(temporary, path);
+  }
+
+  async read(namespace: string, key: string): Promise<CacheRecord | undefined> {
+    try {
+      const record = JSON.parse(
+        await fs.readFile(this.entryPath(namespace, key), "utf8"),
+      ) as CacheRecord;
+      // Guard against SHA-256 collisions between keys
+      return record.key === key ? record : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async write(record: CacheRecord): Promise<number> {
+    const data = JSON.stringify(record);
+    await this.writeAtomic(this.entryPath(record.namespace, record.key), data);
+    return Buffer.byteLength(data);
+  }
+
+  async touch(namespace: string, key: string): Promise<void> {
+    const now = new Date();
+    await fs.utimes(this.entryPath(namespace, key), now, now).catch(() => {});
+  }
+
+  async remove(namespace: string, key: string): Promise<void> {
+    await fs.rm(this.entryPath(namespace, key), { force: true });
+  }
+
+  async records(): Promise<CacheRecordInfo[]> {
+    const root = join(this.location, "entries");
+    const namespaces = await fs.readdir(root).catch(() => [] as string[]);
+    const infos: CacheRecordInfo[] = [];
+
+    for (const namespace of namespaces) {
+      const files = await fs
+        .readdir(join(root, namespace))
+        .catch(() => [] as string[]);
+
+      for (const file of files.filter((name) => name.endsWith(".json"))) {
+        const path = join(root, namespace, file);
+        try {
+          const [stat, data] = await Promise.all([
+            fs.stat(path),
+            fs.readFile(path, "utf8"),
+          ]);
+          const record = JSON.parse(data) as CacheRecord;
+          infos.push({
+            namespace: record.namespace,
+            key: record.key,
+            size: stat.size,
+            textHash: record.textHash,
+            expiresAt: record.expiresAt,
+            lastAccess: stat.mtimeMs,
+          });
+        } catch {
+          // Unreadable or half-written record: drop it
+          await fs.rm(path, { force: true });
+        }
+      }
+    }
+
+    return infos;
+  }
+
+  async readText(hash: string): Promise<string | undefined> {
+    return fs.readFile(this.textPath(hash), "utf8").catch(() => undefined);
+  }
+
+  async writeText(hash: string, text: string): Promise<number> {
+    const path = this.textPath(hash);
+    const exists = await fs
+      .access(path)
+      .then(() => true)
+      .catch(() => false);
+    if (exists) return 0;
+
+    await this.writeAtomic(path, text);
+    return Buffer.byteLength(text);
+  }
+
+  async removeText(hash: string): Promise<void> {
+    await fs.rm(this.textPath(hash), { force: true });
+  }
+
+  async texts(): Promise<Array<{ hash: string; size: number }>> {
+    const root = join(this.location, "text");
+    const files = await fs.readdir(root).catch(() => [] as string[]);
+
+    return Promise.all(
+      files
+        .filter((name) => name.endsWith(".txt"))
+        .map(async (name) => ({
+          hash: name.replace(/\.txt$/, ""),
+          size: await fs
+            .stat(join(root, name))
+            .then((stat) => stat.size)
+            .catch(() => 0),
+        })),
+    );
+  }
+}
+
+/**
+ * In-process store with the same semantics as the file store
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = "memory" as const;
+  private entries = new Map<string, { record: CacheRecord; size: number; lastAccess: number }>();
+  private textStore = new Map<string, string>();
+
+  private id(namespace: string, key: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+
+  async read(namespace: string, key: string): Promise<CacheRecord | undefined> {
+    return this.entries.get(this.id(namespace, key))?.record;
+  }
+
+  async write(record: CacheRecord): Promise<number> {
+    const size = Buffer.byteLength(JSON.stringify(record));
+    this.entries.set(this.id(record.namespace, record.key), {
+      record,
+      size,
+      lastAccess: Date.now(),
+    });
+    return size;
+  }
+
+  async touch(namespace: string, key: string): Promise<void> {
+    const entry = this.entries.get(this.id(namespace, key));
+    if (entry) entry.lastAccess = Date.now();
+  }
+
+  async remove(namespace: string, key: string): Promise<void> {
+    this.entries.delete(this.id(namespace, key));
+  }
+
+  async records(): Promise<CacheRecordInfo[]> {
+    return Array.from(this.entries.values()).map(({ record, size, lastAccess }) => ({
+      namespace: record.namespace,
+      key: record.key,
+      size,
+      textHash: record.textHash,
+      expiresAt: record.expiresAt,
+      lastAccess,
+    }));
+  }
+
+  async readText(hash: string): Promise<string | undefined> {
+    return this.textStore.get(hash);
+  }
+
+  async writeText(hash: string, text: string): Promise<number> {
+    if (this.textStore.has(hash)) return 0;
+    this.textStore.set(hash, text);
+    return Buffer.byteLength(text);
+  }
+
+  async removeText(hash: string): Promise<void> {
+    this.textStore.delete(hash);
+  }
+
+  async texts(): Promise<Array<{ hash: string; size: number }>> {
+    return Array.from(this.textStore.entries()).map(([hash, text]) => ({
+      hash,
+      size: Buffer.byteLength(text),
+    }));
+  }
+}
+
+/**
+ * Cache facade used by drivers, extractors and resolvers. Storage errors
+ * are logged and treated as misses - the cache must never fail a request.
+ */
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+  private approximateBytes?: number; // Seeded from the store on first write
+  private approximateEntries = 0;
+
+  constructor(
+    private readonly store: CacheStore | null,
+    private readonly options: CacheOptions = DEFAULT_CACHE_CONFIG,
+  ) {}
+
+  get enabled(): boolean {
+    return this.store !== null;
+  }
+
+  ttlFor(namespace: string): number {
+    return this.options.ttlSeconds[namespace] ?? this.options.ttlSeconds.default;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const hit = await this.lookup(namespace, key);
+    return hit?.value as T | undefined;
+  }
+
+  async set(
+    namespace: string,
+    key: string,
+    value: unknown,
+    ttlSeconds: number = this.ttlFor(namespace),
+  ): Promise<void> {
+    await this.save(namespace, key, value, undefined, ttlSeconds);
+  }
+
+  /**
+   * Look up a value stored with setWithText, rejoined with its text
+   */
+  async getWithText<T>(
+    namespace: string,
+    key: string,
+  ): Promise<{ value: T; text: string } | undefined> {
+    const hit = await this.lookup(namespace, key);
+    if (!hit) return undefined;
+
+    return { value: hit.value as T, text: hit.text ?? "" };
+  }
+
+  /**
+   * Store a value with a (potentially large) text body kept in the
+   * content-addressed text store
+   */
+  async setWithText(
+    namespace: string,
+    key: string,
+    value: unknown,
+    text: string,
+    ttlSeconds: number = this.ttlFor(namespace),
+  ): Promise<void> {
+    await this.save(namespace, key, value, text, ttlSeconds);
+  }
+
+  /**
+   * Look up a paper or extraction result stored with setWithDocument,
+   * rejoined with its text and document. A missing document is a miss.
+   */
+  async getWithDocument<T extends { text: string; document?: unknown }>(
+    namespace: string,
+    key: string,
+  ): Promise<T | undefined> {
+    if (!this.store) return undefined;
+
+    const document = await this.readDocument(namespace, key);
+    if (document === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    const hit = await this.getWithText<T>(namespace, key);
+    if (!hit) return undefined;
+
+    return {
+      ...hit.value,
+      text: hit.text,
+      ...(document !== null && { document }),
+    };
+  }
+
+  /**
+   * Store a value with its text in the text store and its `document` - the
+   * section offsets, bibliography and tables - in the "document" namespace,
+   * so the value itself stays small
+   */
+  async setWithDocument(
+    namespace: string,
+    key: string,
+    value: { text: string; document?: unknown },
+    ttlSeconds: number = this.ttlFor(namespace),
+  ): Promise<void> {
+    const { document, ...rest } = value;
+    await this.save(
+      "document",
+      `${namespace}:${key}`,
+      document ?? null,
+      undefined,
+      ttlSeconds,
+    );
+    await this.save(
+      namespace,
+      key,
+      { ...rest, text: "" },
+      value.text,
+      ttlSeconds,
+    );
+  }
+
+  /**
+   * Return the cached value or compute, store and return it
+   */
+  async remember<T>(
+    namespace: string,
+    key: string,
+    compute: () => Promise<T>,
+    ttlSeconds: number = this.ttlFor(namespace),
+  ): Promise<T> {
+    const cached = await this.get<T>(namespace, key);
+    if (cached !== undefined) return cached;
+
+    const value = await compute();
+    await this.set(namespace, key, value, ttlSeconds);
+    return value;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const stats: CacheStats = {
+      enabled: this.enabled,
+      backend: this.store?.backend ?? "off",
+      location: this.store?.location,
+      entries: 0,
+      bytes: 0,
+      textEntries: 0,
+      textBytes: 0,
+      maxBytes: this.options.maxBytes,
+      maxEntries: this.options.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      namespaces: {},
+    };
+    if (!this.store) return stats;
+
+    const now = Date.now();
+    const [records, texts] = await Promise.all([
+      this.store.records(),
+      this.store.texts(),
+    ]);
+
+    for (const record of records) {
+      const namespace = (stats.namespaces[record.namespace] ??= {
+        entries: 0,
+        bytes: 0,
+        expired: 0,
+      });
+      namespace.entries++;
+      namespace.bytes += record.size;
+      if (record.expiresAt <= now) namespace.expired++;
+    }
+
+    stats.entries = records.length;
+    stats.textEntries = texts.length;
+    stats.textBytes = texts.reduce((total, text) => total + text.size, 0);
+    stats.bytes =
+      records.reduce((total, record) => total + record.size, 0) +
+      stats.textBytes;
+
+    return stats;
+  }
+
+  /**
+   * Remove every entry, or only those in one namespace. Returns the number
+   * of entries removed.
+   */
+  async clear(namespace?: string): Promise<number> {
+    if (!this.store) return 0;
+
+    const records = (await this.store.records()).filter(
+      (record) => !namespace || record.namespace === namespace,
+    );
+    await Promise.all(
+      records.map((record) => this.store!.remove(record.namespace, record.key)),
+    );
+    await this.removeUnreferencedText();
+    this.approximateBytes = undefined;
+
+    logInfo("Cache cleared", { namespace: namespace ?? "all", removed: records.length });
+    return records.length;
+  }
+
+  /**
+   * Drop expired entries, then the least recently used ones until the
+   * cache is back under its size and entry caps
+   */
+  async evict(): Promise<number> {
+    if (!this.store) return 0;
+
+    const now = Date.now();
+    const records = await this.store.records();
+    const texts = await this.store.texts();
+    let bytes =
+      records.reduce((total, record) => total + record.size, 0) +
+      texts.reduce((total, text) => total + text.size, 0);
+
+    const expired = records.filter((record) => record.expiresAt <= now);
+    const live = records
+      .filter((record) => record.expiresAt > now)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+
+    // Text is shared, so it is only freed with the last record using it
+    const textSizes = new Map(texts.map((text) => [text.hash, text.size]));
+    const textReferences = new Map<string, number>();
+    for (const record of records) {
+      if (record.textHash) {
+        textReferences.set(record.textHash, (textReferences.get(record.textHash) ?? 0) + 1);
+      }
+    }
+
+    const victims: CacheRecordInfo[] = [];
+    const release = (record: CacheRecordInfo) => {
+      victims.push(record);
+      bytes -= record.size;
+      if (record.textHash) {
+        const references = (textReferences.get(record.textHash) ?? 1) - 1;
+        textReferences.set(record.textHash, references);
+        if (references === 0) bytes -= textSizes.get(record.textHash) ?? 0;
+      }
+    };
+
+    expired.forEach(release);
+    let remaining = live.length;
+    for (const record of live) {
+      if (bytes <= this.options.maxBytes && remaining <= this.options.maxEntries) {
+        break;
+      }
+      release(record);
+      remaining--;
+    }
+
+    await Promise.all(
+      victims.map((record) => this.store!.remove(record.namespace, record.key)),
+    );
+    await this.removeUnreferencedText();
+    this.approximateBytes = undefined;
+
+    if (victims.length > 0) {
+      logInfo("Cache eviction", {
+        expired: expired.length,
+        evicted: victims.length - expired.length,
+      });
+    }
+    return victims.length;
+  }
+
+  private async lookup(
+    namespace: string,
+    key: string,
+  ): Promise<{ value: unknown; text?: string } | undefined> {
+    if (!this.store) return undefined;
+
+    try {
+      const record = await this.store.read(namespace, key);
+      if (!record || record.expiresAt <= Date.now()) {
+        this.misses++;
+        return undefined;
+      }
+
+      let text: string | undefined;
+      if (record.textHash) {
+        text = await this.store.readText(record.textHash);
+        if (text === undefined) {
+          // Text was evicted underneath the record
+          this.misses++;
+          return undefined;
+        }
+      }
+
+      await this.store.touch(namespace, key);
+      this.hits++;
+      return { value: record.value, text };
+    } catch (error) {
+      logWarn("Cache read failed", {
+        namespace,
+        error: error instanceof Error ? error.message : error,
+      });
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  // The document saved alongside an entry: null when it had none, undefined
+  // when it is gone. Not counted as a lookup of its own.
+  private async readDocument(namespace: string, key: string): Promise<unknown> {
+    try {
+      const record = await this.store!.read("document", `${namespace}:${key}`);
+      if (!record || record.expiresAt <= Date.now()) return undefined;
+      await this.store!.touch("document", `${namespace}:${key}`);
+      return record.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async save(
+    namespace: string,
+    key: string,
+    value: unknown,
+    text: string | undefined,
+    ttlSeconds: number,
+  ): Promise<void> {
+    if (!this.store || ttlSeconds <= 0) return;
+
+    try {
+      const now = Date.now();
+      let written = 0;
+      let textHash: string | undefined;
+
+      if (text !== undefined) {
+        textHash = sha256(text);
+        written += await this.store.writeText(textHash, text);
+      }
+
+      written += await this.store.write({
+        namespace,
+        key,
+        value,
+        textHash,
+        createdAt: now,
+        expiresAt: now + ttlSeconds * 1000,
+      });
+
+      await this.enforceLimits(written);
+    } catch (error) {
+      logWarn("Cache write failed", {
+        namespace,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  // Scanning the store is expensive, so keep a running estimate after the
+  // first scan and only evict when it crosses a cap
+  private async enforceLimits(written: number): Promise<void> {
+    if (this.approximateBytes === undefined) {
+      const stats = await this.stats();
+      this.approximateBytes = stats.bytes;
+      this.approximateEntries = stats.entries;
+    } else {
+      this.approximateBytes += written;
+      this.approximateEntries++;
+    }
+
+    if (
+      this.approximateBytes > this.options.maxBytes ||
+      this.approximateEntries > this.options.maxEntries
+    ) {
+      await this.evict();
+    }
+  }
+
+  private async removeUnreferencedText(): Promise<void> {
+    const referenced = new Set(
+      (await this.store!.records())
+        .map((record) => record.textHash)
+        .filter((hash): hash is string => !!hash),
+    );
+    const texts = await this.store!.texts();
+
+    await Promise.all(
+      texts
+        .filter((text) => !referenced.has(text.hash))
+        .map((text) => this.store!.removeText(text.hash)),
+    );
+  }
+}
+
+/**
+ * Cache directory from the configuration, else the XDG cache home
+ */
+export function getCacheDirectory(): string {
+  return (
+    getConfig().cache.dir ||
+    join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "sciharvester-mcp")
+  );
+}
+
+function createCacheFromConfig(): ResponseCache {
+  const { mode, maxMB } = getConfig().cache;
+  const options: CacheOptions = {
+    ...DEFAULT_CACHE_CONFIG,
+    maxBytes: maxMB * 1024 * 1024,
+  };
+
+  switch (mode) {
+    case "off":
+      return new ResponseCache(null, options);
+    case "memory":
+      return new ResponseCache(new MemoryCacheStore(), options);
+    case "file":
+      return new ResponseCache(new FileCacheStore(getCacheDirectory()), options);
+  }
+}
+
+let sharedCache: ResponseCache | undefined;
+
+/**
+ * Process-wide cache, created from the configuration on first use
+ */
+export function getResponseCache(): ResponseCache {
+  sharedCache ??= createCacheFromConfig();
+  return sharedCache;
+}
+
+/**
+ * Replace the process-wide cache (tests, embedding applications)
+ */
+export function setResponseCache(cache: ResponseCache): void {
+  sharedCache = cache;
+}
@@ -0,0 +1,153 @@
+import { MCPError, MCPErrorCode } from "../types/mcp.js";
+
+export interface SciHarvesterErrorOptions {
+  source?: string; // Source ID the error came from
+  retryAfter?: number; // seconds
+  suggestions?: string[];
+  cause?: unknown;
+}
+
+/**
+ * Base of every error the server raises deliberately. The subclass fixes
+ * the MCP error code that tool results and CLI exit codes are built from.
+ */
+export abstract class SciHarvesterError extends Error {
+  abstract readonly code: MCPErrorCode;
+  readonly source?: string;
+  readonly retryAfter?: number;
+  readonly suggestions: string[];
+
+  constructor(message: string, options: SciHarvesterErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.source = options.source;
+    this.retryAfter = options.retryAfter;
+    this.suggestions = options.suggestions ?? [];
+  }
+}
+
+// Our own or the upstream API's rate limit was hit
+export class RateLimitedError extends SciHarvesterError {
+  readonly code = "RateLimited" as const;
+}
+
+// The upstream API failed, timed out or rejected our credentials
+export class SourceDownError extends SciHarvesterError {
+  readonly code = "SourceDown" as const;
+}
+
+// Bad parameters, identifier or cursor; retrying unchanged won't help
+export class InvalidQueryError extends SciHarvesterError {
+  readonly code = "InvalidQuery" as const;
+}
+
+// The paper or record doesn't exist at the source
+export class NotFoundError extends SciHarvesterError {
+  readonly code = "NotFound" as const;
+}
+
+// The source or server doesn't offer this, e.g. an unsupported capability
+export class NotAvailableError extends SciHarvesterError {
+  readonly code = "NotAvailable" as const;
+}
+
+interface HttpLikeError {
+  isAxiosError?: boolean;
+  code?: string;
+  response?: { status?: number; headers?: Record<string, unknown> };
+}
+
+/**
+ * Turn a failed HTTP call to `service` into a typed error. Drivers with
+ * their own per-status messages throw those; this covers the rest.
+ */
+export function fromHttpError(
+  error: unknown,
+  service: string,
+  source?: string,
+): SciHarvesterError {
+  if (error instanceof SciHarvesterError) return error;
+
+  const http = error as HttpLikeError;
+  const status = http?.response?.status;
+  const options = { source, cause: error };
+
+  if (status === 429) {
+    const header = Number(http.response?.headers?.["retry-after"]);
+    return new RateLimitedError(`Rate limited by ${service}`, {
+      ...options,
+      retryAfter: Number.isFinite(header) && header >= 0 ? header : undefined,
+    });
+  }
+  if (status === 404) {
+    return new NotFoundError(`Not found at ${service}`, options);
+  }
+  if (status === 400 || status === 422) {
+    return new InvalidQueryError(`${service} rejected the request`, options);
+  }
+  if (http?.code === "ECONNABORTED" || http?.code === "ETIMEDOUT") {
+    return new SourceDownError(`${service} request timed out`, options);
+  }
+
+  const reason = error instanceof Error ? `: ${error.message}` : "";
+  return new SourceDownError(`${service} request failed${reason}`, options);
+}
+
+/**
+ * Best-effort code for errors that weren't raised as SciHarvesterError,
+ * such as validation errors or plain errors from plugin drivers
+ */
+function classify(error: unknown): {
+  code: MCPErrorCode;
+  retryAfter?: number;
+} {
+  if (error instanceof Error && error.name === "ZodError") {
+    return { code: "InvalidQuery" };
+  }
+
+  if ((error as HttpLikeError)?.isAxiosError) {
+    const typed = fromHttpError(error, "upstream API");
+    return { code: typed.code, retryAfter: typed.retryAfter };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/rate limit/i.test(message)) {
+    const retryAfter = message.match(/retry after (\d+) seconds/i);
+    return {
+      code: "RateLimited",
+      retryAfter: retryAfter ? parseInt(retryAfter[1], 10) : undefined,
+    };
+  }
+
+  return { code: "Internal" };
+}
+
+/**
+ * Structured payload for a failed tool call. `alternatives` are other
+ * sources that could serve the same request; they're suggested when the
+ * failure is specific to the source that was asked.
+ */
+export function toMCPError(
+  error: unknown,
+  alternatives: string[] = [],
+): MCPError {
+  const message = error instanceof Error ? error.message : String(error);
+  const typed = error instanceof SciHarvesterError ? error : undefined;
+  const { code, retryAfter } = typed ?? classify(error);
+
+  const suggestions = [...(typed?.suggestions ?? [])];
+  if (
+    alternatives.length > 0 &&
+    ["RateLimited", "SourceDown", "NotAvailable", "NotFound"].includes(code)
+  ) {
+    suggestions.push(`Try source ${alternatives.join(" or ")} instead`);
+  }
+
+  return {
+    code,
+    message,
+    ...(typed?.source && { source: typed.source }),
+    ...(retryAfter !== undefined && { retryAfter }),
+    ...(suggestions.length > 0 && { suggestions }),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Shared HTTP Client
+ *
+ * Every outbound request - source APIs, full-text pages, PDFs and resolver
+ * lookups - goes through one client so they all get the same User-Agent
+ * and contact email, retry transient failures the same way and share a
+ * per-host connection limit.
+ *
+ * Retries use exponential backoff with jitter for 5xx responses and
+ * network errors. A 429 or 503 waits for the server's Retry-After when one
+ * is given (OAI-PMH repositories use 503 for flow control); if that is
+ * longer than the client will wait, the response is thrown so the caller
+ * can report it.
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { logger, logWarn } from "./logger.js";
+import { DEFAULT_HTTP_CONFIG } from "../config/constants.js";
+import { getConfig } from "../config/config.js";
+
+export interface HttpClientOptions {
+  userAgent: string;
+  contactEmail: string;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxConnectionsPerHost: number;
+}
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  retries?: number; // Overrides maxRetries for this request
+}
+
+// Reported once per attempt, after it completes or fails
+export interface HttpRequestTiming {
+  method: string;
+  url: string;
+  host: string;
+  attempt: number; // 1 for the first try
+  status?: number;
+  durationMs: number;
+  queuedMs: number; // Time spent waiting for a connection to the host
+  error?: string;
+  willRetry: boolean;
+}
+
+export type HttpTimingHook = (timing: HttpRequestTiming) => void;
+
+interface HostSlots {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+// Network failures worth another attempt; anything else is likely permanent
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class HttpClient {
+  readonly options: HttpClientOptions;
+  private hosts = new Map<string, HostSlots>();
+  private hooks: HttpTimingHook[] = [];
+
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.options = { ...DEFAULT_HTTP_CONFIG, ...options };
+    this.onRequest((timing) =>
+      logger.debug("HTTP request", {
+        method: timing.method,
+        host: timing.host,
+        status: timing.status,
+        attempt: timing.attempt,
+        durationMs: timing.durationMs,
+        queuedMs: timing.queuedMs,
+        error: timing.error,
+      }),
+    );
+  }
+
+  // Address for APIs that ask for one in parameters (Unpaywall, E-utilities)
+  get contactEmail(): string {
+    return this.options.contactEmail;
+  }
+
+  get userAgent(): string {
+    return `${this.options.userAgent} (mailto:${this.options.contactEmail})`;
+  }
+
+  /**
+   * Register a hook called with the timing of every attempt. Returns a
+   * function that removes it.
+   */
+  onRequest(hook: HttpTimingHook): () => void {
+    this.hooks.push(hook);
+    return () => {
+      this.hooks = this.hooks.filter((registered) => registered !== hook);
+    };
+  }
+
+  get<T = any>(
+    url: string,
+    config: HttpRequestConfig = {},
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: "GET", url });
+  }
+
+  head<T = any>(
+    url: string,
+    config: HttpRequestConfig = {},
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: "HEAD", url });
+  }
+
+  post<T = any>(
+    url: string,
+    data?: unknown,
+    config: HttpRequestConfig = {},
+  ): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: "POST", url, data });
+  }
+
+  async request<T = any>(config: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { retries = this.options.maxRetries, ...axiosConfig } = config;
+    const method = (axiosConfig.method ?? "GET").toUpperCase();
+    const url = axiosConfig.url ?? "";
+    const host = this.hostOf(url, axiosConfig.baseURL);
+    const request: AxiosRequestConfig = {
+      timeout: this.options.timeoutMs,
+      ...axiosConfig,
+      headers: { "User-Agent": this.userAgent, ...axiosConfig.headers },
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const queuedAt = Date.now();
+      await this.acquireHost(host);
+      const startedAt = Date.now();
+      let delay = -1;
+
+      try {
+        const response = await axios.request<T>(request);
+        this.emit({
+          method,
+          url,
+          host,
+          attempt,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+          queuedMs: startedAt - queuedAt,
+          willRetry: false,
+        });
+        return response;
+      } catch (error) {
+        if (attempt <= retries) delay = this.retryDelay(error, attempt);
+        this.emit({
+          method,
+          url,
+          host,
+          attempt,
+          status: axios.isAxiosError(error)
+            ? error.response?.status
+            : undefined,
+          durationMs: Date.now() - startedAt,
+          queuedMs: startedAt - queuedAt,
+          error: error instanceof Error ? error.message : String(error),
+          willRetry: delay >= 0,
+        });
+        if (delay < 0) throw error;
+      } finally {
+        this.releaseHost(host);
+      }
+
+      // The connection slot is free while backing off
+      logWarn("Retrying HTTP request", { method, host, attempt, delay });
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or -1 to give up
+   */
+  private retryDelay(error: unknown, attempt: number): number {
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) return -1;
+
+    const status = error.response?.status;
+    if (status === 429 || status === 503) {
+      const retryAfter = this.parseRetryAfter(
+        error.response?.headers?.["retry-after"],
+      );
+      if (retryAfter !== undefined) {
+        return retryAfter <= this.options.maxDelayMs ? retryAfter : -1;
+      }
+    } else if (status !== undefined && status < 500) {
+      return -1;
+    } else if (
+      status === undefined &&
+      !RETRYABLE_ERROR_CODES.has(error.code ?? "")
+    ) {
+      return -1;
+    }
+
+    // Half fixed, half random, so concurrent callers spread out
+    const backoff = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  private parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== "string" && typeof value !== "number") {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private hostOf(url: string, baseURL?: string): string {
+    try {
+      return new URL(url, baseURL).host;
+    } catch {
+      return "unknown";
+    }
+  }
+
+  private async acquireHost(host: string): Promise<void> {
+    let slots = this.hosts.get(host);
+    if (!slots) {
+      slots = { active: 0, waiting: [] };
+      this.hosts.set(host, slots);
+    }
+
+    if (slots.active >= this.options.maxConnectionsPerHost) {
+      // releaseHost() hands its slot straight to us
+      await new Promise<void>((resolve) => slots!.waiting.push(resolve));
+      return;
+    }
+    slots.active++;
+  }
+
+  private releaseHost(host: string): void {
+    const slots = this.hosts.get(host);
+    if (!slots) return;
+
+    const next = slots.waiting.shift();
+    if (next) next();
+    else slots.active--;
+  }
+
+  private emit(timing: HttpRequestTiming): void {
+    for (const hook of this.hooks) {
+      try {
+        hook(timing);
+      } catch (error) {
+        logWarn("HTTP timing hook failed", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+}
+
+function createHttpClientFromConfig(): HttpClient {
+  const { userAgent, contactEmail, http } = getConfig();
+  return new HttpClient({ ...http, userAgent, contactEmail });
+}
+
+let sharedClient: HttpClient | undefined;
+
+/**
+ * Process-wide HTTP client, created from the configuration on first use
+ */
+export function getHttpClient(): HttpClient {
+  sharedClient ??= createHttpClientFromConfig();
+  return sharedClient;
+}
+
+/**
+ * Replace the process-wide HTTP client (tests, embedding applications)
+ */
+export function setHttpClient(client: HttpClient): void {
+  sharedClient = client;
+}
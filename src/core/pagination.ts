@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import { PagePosition } from "../types/papers.js";
+import { InvalidQueryError } from "./errors.js";
+
+const CURSOR_VERSION = 1;
+
+/**
+ * What a cursor belongs to. A cursor only resumes the listing it came
+ * from, so the operation and every parameter that shapes the result set
+ * (but not the page size) are part of it.
+ */
+export interface CursorScope {
+  source: string;
+  operation: "latest" | "search" | "topCited" | "references";
+  params: unknown[];
+}
+
+interface CursorPayload {
+  v: number;
+  s: string;
+  o: string;
+  q: string; // Fingerprint of the scope params
+  p: PagePosition;
+}
+
+function fingerprint(params: unknown[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify(params))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Wrap a driver's page position in an opaque, URL-safe cursor
+ */
+export function encodeCursor(
+  scope: CursorScope,
+  position: PagePosition,
+): string {
+  const payload: CursorPayload = {
+    v: CURSOR_VERSION,
+    s: scope.source,
+    o: scope.operation,
+    q: fingerprint(scope.params),
+    p: position,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Unwrap a cursor from encodeCursor, refusing cursors that were issued
+ * for a different source, operation or query
+ */
+export function decodeCursor(cursor: string, scope: CursorScope): PagePosition {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidQueryError(
+      "Invalid cursor: pass next_cursor exactly as returned",
+    );
+  }
+
+  const position = payload?.p;
+  if (
+    payload?.v !== CURSOR_VERSION ||
+    !position ||
+    typeof position !== "object" ||
+    Array.isArray(position) ||
+    !Object.values(position).every(
+      (value) => typeof value === "string" || typeof value === "number",
+    )
+  ) {
+    throw new InvalidQueryError(
+      "Invalid cursor: pass next_cursor exactly as returned",
+    );
+  }
+
+  if (
+    payload.s !== scope.source ||
+    payload.o !== scope.operation ||
+    payload.q !== fingerprint(scope.params)
+  ) {
+    throw new InvalidQueryError(
+      "Cursor does not match this request: repeat the source and query parameters of the call that returned it",
+    );
+  }
+
+  return position;
+}
+
+/**
+ * Read a numeric offset from a page position, defaulting to the start
+ */
+export function readOffset(
+  position: PagePosition | undefined,
+  key: string,
+): number {
+  const value = position?.[key] ?? 0;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new InvalidQueryError(`Invalid cursor: bad ${key} offset`);
+  }
+  return value;
+}
+
+/**
+ * Read an upstream cursor token from a page position, if there is one
+ */
+export function readToken(
+  position: PagePosition | undefined,
+  key: string,
+): string | undefined {
+  const value = position?.[key];
+  if (value !== undefined && typeof value !== "string") {
+    throw new InvalidQueryError(`Invalid cursor: bad ${key} token`);
+  }
+  return value;
+}
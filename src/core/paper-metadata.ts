@@ -0,0 +1,268 @@
+import {
+  AuthorDetail,
+  OpenAccessStatus,
+  PaperMetadata,
+} from "../types/papers.js";
+
+/**
+ * Version of the PaperMetadata shape produced by the built-in drivers.
+ * 1 was the original id/title/authors/date/pdf_url/text record;
+ * 2 added the extended bibliographic fields.
+ */
+export const PAPER_METADATA_SCHEMA_VERSION = 2;
+
+const OA_STATUSES: OpenAccessStatus[] = [
+  "gold",
+  "green",
+  "hybrid",
+  "bronze",
+  "diamond",
+  "closed",
+];
+
+// Europe PMC reports ISO 639-2 codes; the other sources use 639-1
+const ISO_639_2_TO_1: Record<string, string> = {
+  eng: "en",
+  fre: "fr",
+  fra: "fr",
+  ger: "de",
+  deu: "de",
+  spa: "es",
+  ita: "it",
+  por: "pt",
+  rus: "ru",
+  chi: "zh",
+  zho: "zh",
+  jpn: "ja",
+  kor: "ko",
+  dut: "nl",
+  nld: "nl",
+};
+
+// Raw values as drivers find them in API responses; anything may be missing
+export interface ExtendedMetadataInput {
+  abstract?: string | null;
+  doi?: string | null;
+  arxiv_id?: string | null;
+  venue?: string | null;
+  publisher?: string | null;
+  citation_count?: number | string | null;
+  influential_citation_count?: number | string | null;
+  tldr?: string | null;
+  open_access?: boolean | null;
+  oa_status?: string | null;
+  license?: string | null;
+  subjects?: Array<string | null | undefined>;
+  publication_types?: Array<string | null | undefined>;
+  author_details?: AuthorDetail[];
+  language?: string | null;
+  source_url?: string | null;
+}
+
+export function normalizeDoi(doi: string): string {
+  return doi
+    .trim()
+    .replace(/^(https?:\/\/)?(dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "")
+    .toLowerCase();
+}
+
+/**
+ * Bare arXiv ID: no "arXiv:" prefix and no version suffix
+ */
+export function normalizeArxivId(id: string): string {
+  return id
+    .trim()
+    .replace(/^arxiv:/i, "")
+    .replace(/v\d+$/, "");
+}
+
+/**
+ * Strip JATS/HTML markup and section labels that some sources leave in
+ * abstracts, and collapse whitespace
+ */
+export function cleanAbstract(abstract: string): string {
+  return abstract
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([.,;:!?)])/g, "$1")
+    .trim()
+    .replace(/^abstract[:.]?\s+/i, "");
+}
+
+/**
+ * Normalise license names to one spelling: "CC BY-NC", "cc_by_nc" and
+ * "https://creativecommons.org/licenses/by-nc/4.0/" all become "cc-by-nc"
+ */
+export function normalizeLicense(license: string): string {
+  const creativeCommons = license.match(
+    /creativecommons\.org\/(licenses|publicdomain)\/([a-z-]+)/i,
+  );
+  if (creativeCommons) {
+    return creativeCommons[1].toLowerCase() === "publicdomain"
+      ? "cc0"
+      : `cc-${creativeCommons[2].toLowerCase()}`;
+  }
+
+  return license
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/**
+ * Accept ORCID iDs as bare values or https://orcid.org/ URLs
+ */
+export function normalizeOrcid(orcid: string): string | undefined {
+  const match = orcid.match(/(\d{4}-\d{4}-\d{4}-\d{3}[\dX])/i);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Rebuild plain text from an OpenAlex-style inverted index
+ * ({ word: [positions] })
+ */
+export function abstractFromInvertedIndex(
+  index: Record<string, number[]> | null | undefined,
+): string | undefined {
+  if (!index) return undefined;
+
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) {
+      words[position] = word;
+    }
+  }
+
+  const text = words.filter((word) => word !== undefined).join(" ");
+  return text || undefined;
+}
+
+function nonEmpty(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+// Non-empty values, first spelling kept when they differ only by case
+function uniqueTerms(values: Array<string | null | undefined> = []): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((value) => nonEmpty(value))
+    .filter((value): value is string => {
+      if (!value || seen.has(value.toLowerCase())) return false;
+      seen.add(value.toLowerCase());
+      return true;
+    });
+}
+
+function countOf(
+  value: number | string | null | undefined,
+): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+/**
+ * Merge normalised extended metadata into a paper record, leaving out
+ * anything the source didn't provide so every field present is meaningful
+ */
+export function withExtendedMetadata(
+  paper: PaperMetadata,
+  input: ExtendedMetadataInput,
+): PaperMetadata {
+  const result: PaperMetadata = {
+    ...paper,
+    schema_version: PAPER_METADATA_SCHEMA_VERSION,
+  };
+
+  const abstract = nonEmpty(input.abstract);
+  if (abstract) result.abstract = cleanAbstract(abstract);
+
+  const doi = nonEmpty(input.doi);
+  if (doi && normalizeDoi(doi).startsWith("10.")) {
+    result.doi = normalizeDoi(doi);
+  }
+
+  const arxivId = nonEmpty(input.arxiv_id);
+  if (arxivId) result.arxiv_id = normalizeArxivId(arxivId);
+
+  const venue = nonEmpty(input.venue);
+  if (venue) result.venue = venue;
+
+  const publisher = nonEmpty(input.publisher);
+  if (publisher) result.publisher = publisher;
+
+  const citations = countOf(input.citation_count);
+  if (citations !== undefined) result.citation_count = citations;
+
+  const influential = countOf(input.influential_citation_count);
+  if (influential !== undefined) {
+    result.influential_citation_count = influential;
+  }
+
+  const tldr = nonEmpty(input.tldr);
+  if (tldr) result.tldr = tldr;
+
+  if (typeof input.open_access === "boolean") {
+    result.open_access = input.open_access;
+  }
+
+  const oaStatus = nonEmpty(input.oa_status)?.toLowerCase();
+  if (oaStatus && OA_STATUSES.includes(oaStatus as OpenAccessStatus)) {
+    result.oa_status = oaStatus as OpenAccessStatus;
+  }
+
+  const license = nonEmpty(input.license);
+  if (license) result.license = normalizeLicense(license);
+
+  const subjects = uniqueTerms(input.subjects);
+  if (subjects.length > 0) result.subjects = subjects;
+
+  const publicationTypes = uniqueTerms(input.publication_types);
+  if (publicationTypes.length > 0) result.publication_types = publicationTypes;
+
+  // Only worth sending when it adds something beyond `authors`
+  const authorDetails = (input.author_details ?? []).map((author) => {
+    const affiliations = Array.from(
+      new Set(
+        (author.affiliations ?? [])
+          .map((affiliation) => nonEmpty(affiliation))
+          .filter((affiliation): affiliation is string => !!affiliation),
+      ),
+    );
+    const orcid = author.orcid ? normalizeOrcid(author.orcid) : undefined;
+    const authorId = nonEmpty(author.author_id);
+
+    return {
+      name: author.name,
+      ...(affiliations.length > 0 && { affiliations }),
+      ...(orcid && { orcid }),
+      ...(authorId && { author_id: authorId }),
+    };
+  });
+  if (
+    authorDetails.some(
+      (author) => author.affiliations || author.orcid || author.author_id,
+    )
+  ) {
+    result.author_details = authorDetails;
+  }
+
+  const language = nonEmpty(input.language);
+  if (language) {
+    const code = language.toLowerCase();
+    result.language = ISO_639_2_TO_1[code] ?? code;
+  }
+
+  const sourceUrl = nonEmpty(input.source_url);
+  if (sourceUrl) result.source_url = sourceUrl;
+
+  return result;
+}
@@ -1,45 +1,112 @@
-import { RateLimiterState } from "../types/sources.js";
-import { DEFAULT_RATE_LIMITS } from "../config/constants.js";
+import {
+  AcquireOptions,
+  RateLimit,
+  RateLimitBucket,
+  RateLimiterState,
+  RateLimitStatus,
+} from "../types/sources.js";
+import {
+  DEFAULT_CUSTOM_RATE_LIMIT,
+  DEFAULT_FULLTEXT_RATE_LIMIT,
+  DEFAULT_RATE_LIMITS,
+} from "../config/constants.js";
+import { getConfig } from "../config/config.js";
 import { logWarn } from "./logger.js";
+import { RateLimitedError } from "./errors.js";
+
+/**
+ * Returned by acquire(); call it once the request has finished to free
+ * the concurrency slot. Calling it more than once is harmless.
+ */
+export type ReleaseSlot = () => void;
+
+export interface RateLimiterOptions {
+  maxWait?: number; // Default for acquire(), in seconds; else from config
+}
+
+interface Waiter {
+  priority: number;
+  resolve: (release: ReleaseSlot) => void;
+  reject: (error: Error) => void;
+  deadline?: NodeJS.Timeout;
+}
+
+// Extra time a waiter is given past maxWait, so one whose token arrives
+// exactly at the deadline isn't failed by timer ordering
+const DEADLINE_GRACE_MS = 250;
+
+const BUCKETS: RateLimitBucket[] = ["api", "fulltext"];
 
 export class RateLimiter {
   private state: RateLimiterState = {};
+  private queues = new Map<string, Waiter[]>();
+  private inFlight = new Map<string, number>();
+  private maxConcurrent = new Map<string, number>();
+  private refillTimers = new Map<string, NodeJS.Timeout>();
+  // Sources drawing on the buckets of another, e.g. PMC on NCBI's
+  private sharedWith = new Map<string, string>();
+  private readonly maxWait: number;
 
-  constructor() {
-    // Initialize rate limiters for each source
-    Object.keys(DEFAULT_RATE_LIMITS).forEach((source) => {
-      const config =
-        DEFAULT_RATE_LIMITS[source as keyof typeof DEFAULT_RATE_LIMITS];
-      this.state[source] = {
-        tokens: config.maxTokens,
-        lastRefill: Date.now(),
-        maxTokens: config.maxTokens,
-        refillRate: config.refillRate,
-      };
-    });
+  constructor(options: RateLimiterOptions = {}) {
+    const config = getConfig().rateLimits;
+    this.maxWait = options.maxWait ?? config.maxWaitSeconds;
+
+    // Initialize rate limiters for each source, including sources that only
+    // the configuration knows about (plugins)
+    const sources = new Set([
+      ...Object.keys(DEFAULT_RATE_LIMITS),
+      ...Object.keys(config.sources),
+    ]);
+    sources.forEach((source) => this.addSource(source));
   }
 
   /**
-   * Check if a request is allowed for the given source
+   * Create the buckets of a source registered at runtime, such as an
+   * OAI-PMH repository; done on its first request otherwise. `limits`
+   * replaces the defaults for sources without built-in limits; configured
+   * limits still take precedence. With `shared`, the source draws on the
+   * buckets of that ID instead, created with `limits` by the first source
+   * to share them. Buckets that already exist are left as they are.
    */
-  checkRateLimit(source: string): boolean {
-    const limiter = this.state[source];
-    if (!limiter) {
-      // Unknown source, allow by default but log warning
-      logWarn("Unknown source for rate limiting", { source });
-      return true;
+  addSource(
+    source: string,
+    limits: Partial<RateLimit> = {},
+    shared?: string,
+  ): void {
+    if (shared && shared !== source && !this.sharedWith.has(source)) {
+      this.dropIdleBuckets(source);
+      this.sharedWith.set(source, shared);
     }
+    const id = this.sharedWith.get(source) ?? source;
+    if (this.state[this.key(id, "api")]) return;
 
-    // Refill tokens based on time elapsed
-    const now = Date.now();
-    const timeSinceLastRefill = (now - limiter.lastRefill) / 1000; // convert to seconds
-    const tokensToAdd = timeSinceLastRefill * limiter.refillRate;
+    const config = getConfig().rateLimits;
+    this.addBucket(this.key(id, "api"), {
+      ...DEFAULT_CUSTOM_RATE_LIMIT,
+      ...DEFAULT_RATE_LIMITS[id as keyof typeof DEFAULT_RATE_LIMITS],
+      ...limits,
+      ...config.sources[id],
+    });
+    this.addBucket(this.key(id, "fulltext"), {
+      ...DEFAULT_FULLTEXT_RATE_LIMIT,
+      ...config.fulltext,
+    });
+  }
 
-    limiter.tokens = Math.min(limiter.maxTokens, limiter.tokens + tokensToAdd);
-    limiter.lastRefill = now;
+  /**
+   * Take a token for the given source if one is free right now. Doesn't
+   * queue and doesn't hold a concurrency slot; prefer acquire() for
+   * requests that may wait.
+   */
+  checkRateLimit(source: string, bucket: RateLimitBucket = "api"): boolean {
+    const key = this.key(source, bucket);
+    this.addSource(source);
+    const limiter = this.state[key];
+
+    this.refill(key);
 
-    // Check if we have tokens available
-    if (limiter.tokens >= 1) {
+    // Requests already queued are first in line for the next token
+    if (limiter.tokens >= 1 && this.queue(key).length === 0) {
       limiter.tokens -= 1;
       return true;
     }
@@ -47,6 +114,7 @@ export class RateLimiter {
     // Rate limited
     logWarn("Rate limit reached", {
       source,
+      bucket,
       remainingTokens: limiter.tokens,
       nextRefillIn: (1 - limiter.tokens) / limiter.refillRate,
     });
@@ -54,21 +122,229 @@ export class RateLimiter {
     return false;
   }
 
+  /**
+   * Wait for a token and a concurrency slot for the given source. Requests
+   * are served by priority, then in arrival order. Rejects with
+   * RateLimitedError straight away if the expected wait exceeds maxWait,
+   * or if the request is still queued when maxWait runs out.
+   */
+  async acquire(
+    source: string,
+    options: AcquireOptions = {},
+  ): Promise<ReleaseSlot> {
+    const { bucket = "api", priority = 0, maxWait = this.maxWait } = options;
+    const key = this.key(source, bucket);
+    this.addSource(source);
+
+    this.refill(key);
+    const ahead = this.queue(key).filter(
+      (waiter) => waiter.priority >= priority,
+    ).length;
+    const wait = this.waitSeconds(key, ahead);
+    if (wait > maxWait) {
+      logWarn("Rate limit wait exceeds maxWait", {
+        source,
+        bucket,
+        wait,
+        maxWait,
+      });
+      throw this.rateLimitedError(source, wait);
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: Waiter = { priority, resolve, reject };
+      const queue = this.queue(key);
+      const index = queue.findIndex((queued) => queued.priority < priority);
+      queue.splice(index === -1 ? queue.length : index, 0, waiter);
+
+      // Concurrency slots or higher priority arrivals can hold a waiter
+      // back longer than its token estimate
+      if (Number.isFinite(maxWait)) {
+        waiter.deadline = setTimeout(
+          () => {
+            queue.splice(queue.indexOf(waiter), 1);
+            reject(
+              this.rateLimitedError(
+                source,
+                this.waitSeconds(key, queue.length),
+              ),
+            );
+            this.drain(key);
+          },
+          maxWait * 1000 + DEADLINE_GRACE_MS,
+        );
+      }
+
+      this.drain(key);
+    });
+  }
+
+  /**
+   * Run a request under acquire(), freeing its slot when it settles
+   */
+  async schedule<T>(
+    source: string,
+    request: () => Promise<T>,
+    options: AcquireOptions = {},
+  ): Promise<T> {
+    const release = await this.acquire(source, options);
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
   /**
    * Get the number of remaining tokens for a source
    */
-  getRemainingTokens(source: string): number {
-    return this.state[source]?.tokens || 0;
+  getRemainingTokens(source: string, bucket: RateLimitBucket = "api"): number {
+    return this.state[this.key(source, bucket)]?.tokens || 0;
+  }
+
+  /**
+   * Get retry after time in seconds, counting requests already queued
+   */
+  getRetryAfter(source: string, bucket: RateLimitBucket = "api"): number {
+    const key = this.key(source, bucket);
+    if (!this.state[key]) return 0;
+
+    this.refill(key);
+    return Math.ceil(this.waitSeconds(key, this.queue(key).length));
   }
 
   /**
-   * Get retry after time in seconds
+   * Current state of every bucket, or of one source's buckets
    */
-  getRetryAfter(source: string): number {
-    const limiter = this.state[source];
-    if (!limiter) return 0;
+  getStatus(source?: string): RateLimitStatus[] {
+    const sources = source
+      ? [source]
+      : Object.keys(this.state).filter((key) => !key.includes(":"));
+    // A source sharing buckets is listed under their ID, e.g. "ncbi"
+
+    return sources.flatMap((id) =>
+      BUCKETS.filter((bucket) => this.state[this.key(id, bucket)]).map(
+        (bucket) => {
+          const key = this.key(id, bucket);
+          const limiter = this.state[key];
+          this.refill(key);
+          return {
+            source: id,
+            bucket,
+            tokens: Math.floor(limiter.tokens * 100) / 100,
+            maxTokens: limiter.maxTokens,
+            refillRate: limiter.refillRate,
+            queued: this.queue(key).length,
+            inFlight: this.inFlight.get(key) ?? 0,
+            maxConcurrent: this.maxConcurrent.get(key) ?? Infinity,
+            waitSeconds: Math.ceil(
+              this.waitSeconds(key, this.queue(key).length),
+            ),
+          };
+        },
+      ),
+    );
+  }
+
+  private key(source: string, bucket: RateLimitBucket): string {
+    const id = this.sharedWith.get(source) ?? source;
+    return bucket === "api" ? id : `${id}:${bucket}`;
+  }
+
+  // Buckets a source had before it was set to share others', unless in use
+  private dropIdleBuckets(source: string): void {
+    BUCKETS.map((bucket) => this.key(source, bucket)).forEach((key) => {
+      if (this.queue(key).length === 0 && !this.inFlight.get(key)) {
+        delete this.state[key];
+      }
+    });
+  }
+
+  private addBucket(key: string, config: RateLimit): void {
+    this.state[key] = {
+      tokens: config.maxTokens,
+      lastRefill: Date.now(),
+      maxTokens: config.maxTokens,
+      refillRate: config.refillRate,
+    };
+    this.maxConcurrent.set(key, config.maxConcurrent);
+  }
+
+  private queue(key: string): Waiter[] {
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = [];
+      this.queues.set(key, queue);
+    }
+    return queue;
+  }
+
+  // Refill tokens based on time elapsed
+  private refill(key: string): void {
+    const limiter = this.state[key];
+    const now = Date.now();
+    const timeSinceLastRefill = (now - limiter.lastRefill) / 1000; // convert to seconds
+    const tokensToAdd = timeSinceLastRefill * limiter.refillRate;
+
+    limiter.tokens = Math.min(limiter.maxTokens, limiter.tokens + tokensToAdd);
+    limiter.lastRefill = now;
+  }
+
+  // Seconds until a request with `ahead` requests in front of it gets a token
+  private waitSeconds(key: string, ahead: number): number {
+    const limiter = this.state[key];
+    return Math.max(0, (ahead + 1 - limiter.tokens) / limiter.refillRate);
+  }
+
+  /**
+   * Hand tokens and slots to queued requests in order, and set a timer
+   * for the next token if the head of the queue still has to wait
+   */
+  private drain(key: string): void {
+    const queue = this.queue(key);
+    const limiter = this.state[key];
+    clearTimeout(this.refillTimers.get(key));
+    this.refillTimers.delete(key);
+
+    while (queue.length > 0) {
+      const inFlight = this.inFlight.get(key) ?? 0;
+      if (inFlight >= (this.maxConcurrent.get(key) ?? Infinity)) {
+        return; // A release will drain again
+      }
+
+      this.refill(key);
+      if (limiter.tokens < 1) {
+        const delay = ((1 - limiter.tokens) / limiter.refillRate) * 1000;
+        this.refillTimers.set(
+          key,
+          setTimeout(() => this.drain(key), Math.ceil(delay)),
+        );
+        return;
+      }
+
+      const waiter = queue.shift()!;
+      clearTimeout(waiter.deadline);
+      limiter.tokens -= 1;
+      this.inFlight.set(key, inFlight + 1);
+      waiter.resolve(this.releaser(key));
+    }
+  }
+
+  private releaser(key: string): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight.set(key, (this.inFlight.get(key) ?? 1) - 1);
+      this.drain(key);
+    };
+  }
 
-    // Time until we have at least 1 token
-    return Math.ceil((1 - limiter.tokens) / limiter.refillRate);
+  private rateLimitedError(source: string, wait: number): RateLimitedError {
+    const retryAfter = Math.ceil(wait);
+    return new RateLimitedError(
+      `Rate limited. Retry after ${retryAfter} seconds`,
+      { source, retryAfter },
+    );
   }
 }
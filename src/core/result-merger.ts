@@ -0,0 +1,171 @@
+import {
+  FederatedPaper,
+  PaperMetadata,
+  SourceId,
+} from "../types/papers.js";
+import { normalizeDoi } from "./paper-metadata.js";
+
+export interface RankedList {
+  source: SourceId;
+  papers: PaperMetadata[]; // In the order the source ranked them
+}
+
+export interface MergeOptions {
+  sortBy: "relevance" | "date" | "citations";
+  limit: number;
+}
+
+// Reciprocal rank fusion constant; dampens the advantage of top positions
+const RRF_K = 60;
+
+// Preprint and published versions are often a year apart
+const MAX_YEAR_GAP = 1;
+
+/**
+ * Normalise a title for duplicate detection: case, accents, punctuation
+ * and whitespace differ between sources for the same paper
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/<[^>]+>/g, "")
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+function yearOf(paper: PaperMetadata): number | undefined {
+  const year = parseInt(paper.date?.slice(0, 4), 10);
+  return Number.isNaN(year) ? undefined : year;
+}
+
+function doiOf(paper: PaperMetadata): string | undefined {
+  return paper.doi ? normalizeDoi(paper.doi) : undefined;
+}
+
+/**
+ * Whether two records with matching titles are the same paper: published
+ * within a year of each other and not told apart by their DOIs or arXiv IDs
+ */
+function isSamePaper(a: PaperMetadata, b: PaperMetadata): boolean {
+  const [doiA, doiB] = [doiOf(a), doiOf(b)];
+  if (doiA && doiB && doiA !== doiB) return false;
+  if (a.arxiv_id && b.arxiv_id && a.arxiv_id !== b.arxiv_id) return false;
+
+  const yearA = yearOf(a);
+  const yearB = yearOf(b);
+  if (yearA === undefined || yearB === undefined) return true;
+  return Math.abs(yearA - yearB) <= MAX_YEAR_GAP;
+}
+
+// Fields a duplicate may supply when the first source to return the paper didn't
+const FILLABLE_FIELDS = [
+  "pdf_url",
+  "abstract",
+  "doi",
+  "arxiv_id",
+  "venue",
+  "publisher",
+  "citation_count",
+  "influential_citation_count",
+  "tldr",
+  "open_access",
+  "oa_status",
+  "license",
+  "subjects",
+  "publication_types",
+  "author_details",
+  "language",
+] as const;
+
+function fillMissingFields(target: PaperMetadata, duplicate: PaperMetadata) {
+  const copy = <K extends keyof PaperMetadata>(field: K) => {
+    if (target[field] === undefined && duplicate[field] !== undefined) {
+      target[field] = duplicate[field];
+    }
+  };
+  FILLABLE_FIELDS.forEach(copy);
+}
+
+/**
+ * Merge per-source result lists into one ranked, de-duplicated list.
+ * Papers are scored with reciprocal rank fusion so a paper ranked highly
+ * by several sources beats one ranked highly by a single source.
+ * Duplicates are found by DOI, then arXiv ID - titles of the same paper
+ * differ between sources (e.g. TeX markup) - and by title only between
+ * records whose identifiers don't tell them apart.
+ */
+export function mergeRankedResults(
+  lists: RankedList[],
+  options: MergeOptions,
+): FederatedPaper[] {
+  const byDoi = new Map<string, FederatedPaper>();
+  const byEprint = new Map<string, FederatedPaper>();
+  const byTitle = new Map<string, FederatedPaper[]>();
+  const merged: FederatedPaper[] = [];
+
+  // Make an entry findable by the identifiers and title of a record in it
+  const remember = (entry: FederatedPaper, paper: PaperMetadata, key: string) => {
+    const doi = doiOf(paper);
+    if (doi && !byDoi.has(doi)) byDoi.set(doi, entry);
+    if (paper.arxiv_id && !byEprint.has(paper.arxiv_id)) {
+      byEprint.set(paper.arxiv_id, entry);
+    }
+    const titled = byTitle.get(key) ?? [];
+    if (!titled.includes(entry)) byTitle.set(key, [...titled, entry]);
+  };
+
+  for (const { source, papers } of lists) {
+    papers.forEach((paper, index) => {
+      const rank = index + 1;
+      const hit = { source, id: paper.id, rank };
+      const key = normalizeTitle(paper.title) || `${source}:${paper.id}`;
+      const notFromSource = (candidate?: FederatedPaper) =>
+        candidate !== undefined &&
+        !candidate.foundIn.some((found) => found.source === source);
+      const doi = doiOf(paper);
+
+      const existing =
+        [
+          doi ? byDoi.get(doi) : undefined,
+          paper.arxiv_id ? byEprint.get(paper.arxiv_id) : undefined,
+        ].find(notFromSource) ??
+        (byTitle.get(key) ?? []).find(
+          (candidate) =>
+            isSamePaper(candidate, paper) && notFromSource(candidate),
+        );
+
+      if (!existing) {
+        const entry: FederatedPaper = {
+          ...paper,
+          source,
+          score: 1 / (RRF_K + rank),
+          foundIn: [hit],
+        };
+        remember(entry, paper, key);
+        merged.push(entry);
+        return;
+      }
+
+      existing.score += 1 / (RRF_K + rank);
+      existing.foundIn.push(hit);
+      fillMissingFields(existing, paper);
+      remember(existing, paper, key);
+    });
+  }
+
+  merged.sort((a, b) => {
+    if (options.sortBy === "date" && a.date !== b.date) {
+      return b.date.localeCompare(a.date);
+    }
+    if (
+      options.sortBy === "citations" &&
+      (a.citation_count ?? -1) !== (b.citation_count ?? -1)
+    ) {
+      return (b.citation_count ?? -1) - (a.citation_count ?? -1);
+    }
+    return b.score - a.score || b.foundIn.length - a.foundIn.length;
+  });
+
+  return merged.slice(0, options.limit);
+}
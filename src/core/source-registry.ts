@@ -0,0 +1,274 @@
+import { z } from "zod";
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { BaseDriver } from "../drivers/base-driver.js";
+import { withResponseCache } from "../drivers/cached-driver.js";
+import type { PaperIdentifiers } from "../types/papers.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { logInfo, logError, logWarn } from "./logger.js";
+import { InvalidQueryError, NotAvailableError } from "./errors.js";
+import { getConfig } from "../config/config.js";
+
+/**
+ * Operations a source can take part in. Tools, schemas and help text are
+ * generated from these so a source only shows up where it actually works.
+ */
+export type SourceCapability =
+  | "search"
+  | "latest"
+  | "content"
+  | "topCited"
+  | "categories";
+
+// Per-source help strings listed in tool descriptions
+export type SourceHint =
+  | "categoryHint"
+  | "idHint"
+  | "contentHint"
+  | "searchHint"
+  | "sortHint"
+  | "conceptHint";
+
+export interface SourceDefinition {
+  id: string; // e.g. "arxiv" - used as the `source` parameter value
+  name: string; // Human readable name, e.g. "arXiv"
+  description: string; // One-line summary used in tool descriptions
+  capabilities: SourceCapability[];
+  categoryHint?: string; // Example category formats for fetch_latest
+  idHint?: string; // Example ID formats for fetch_content
+  contentHint?: string; // What fetch_content returns: abstracts, full text
+  searchHint?: string; // Query syntax and fields search_papers understands
+  sortHint?: string; // Sort orders search_papers honours
+  conceptHint?: string; // Example concept formats for fetch_top_cited
+  // Pick this source's native ID out of a resolved identity, if it has one
+  identifierFor?: (identifiers: PaperIdentifiers) => string | undefined;
+  fullTextRank?: number; // Lower is tried first when fetching by any identifier
+  // False while the source can't be queried, e.g. without the API token it
+  // needs; such sources are only asked when named explicitly
+  isConfigured?: () => boolean;
+  create: (rateLimiter: RateLimiter) => BaseDriver;
+}
+
+/**
+ * Shape of a third-party driver package. A package may export a `sources`
+ * array, a `register(registry)` function, or both.
+ */
+export interface SourcePlugin {
+  sources?: SourceDefinition[];
+  register?: (registry: SourceRegistry) => void | Promise<void>;
+}
+
+export class SourceRegistry {
+  private sources = new Map<string, SourceDefinition>();
+  private loadedPlugins = new Set<string>();
+
+  constructor(definitions: SourceDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Register a source. Re-registering an existing ID replaces it, which lets
+   * plugins override a built-in driver.
+   */
+  register(definition: SourceDefinition): void {
+    if (!/^[a-z][a-z0-9_-]*$/.test(definition.id)) {
+      throw new Error(
+        `Invalid source ID "${definition.id}": use lowercase letters, digits, "-" or "_"`,
+      );
+    }
+
+    if (this.sources.has(definition.id)) {
+      logWarn("Replacing registered source", { source: definition.id });
+    }
+
+    this.sources.set(definition.id, definition);
+  }
+
+  unregister(id: string): boolean {
+    return this.sources.delete(id);
+  }
+
+  has(id: string, capability?: SourceCapability): boolean {
+    const definition = this.sources.get(id);
+    if (!definition) return false;
+    return capability ? definition.capabilities.includes(capability) : true;
+  }
+
+  get(id: string): SourceDefinition | undefined {
+    return this.sources.get(id);
+  }
+
+  /**
+   * List registered sources, optionally only those supporting a capability
+   */
+  list(capability?: SourceCapability): SourceDefinition[] {
+    const all = Array.from(this.sources.values());
+    return capability
+      ? all.filter((definition) => definition.capabilities.includes(capability))
+      : all;
+  }
+
+  ids(capability?: SourceCapability): string[] {
+    return this.list(capability).map((definition) => definition.id);
+  }
+
+  /**
+   * IDs of the sources that can be queried as configured, for fan-outs
+   * over every source (search_all)
+   */
+  configuredIds(capability?: SourceCapability): string[] {
+    return this.list(capability)
+      .filter((definition) => definition.isConfigured?.() ?? true)
+      .map((definition) => definition.id);
+  }
+
+  /**
+   * Instantiate the driver for a source, checking it supports the operation
+   */
+  createDriver(
+    id: string,
+    rateLimiter: RateLimiter,
+    capability?: SourceCapability,
+  ): BaseDriver {
+    const definition = this.sources.get(id);
+    if (!definition) {
+      throw new InvalidQueryError(`Unsupported source: ${id}`, {
+        suggestions: [`Valid sources: ${this.ids().join(", ")}`],
+      });
+    }
+
+    if (capability && !definition.capabilities.includes(capability)) {
+      const alternatives = this.ids(capability);
+      throw new NotAvailableError(
+        `Source "${id}" does not support ${capability}. ` +
+          `Sources that do: ${alternatives.join(", ")}`,
+        { source: id },
+      );
+    }
+
+    return withResponseCache(definition.create(rateLimiter), id);
+  }
+
+  /**
+   * Content sources able to serve a resolved identity, best full text first
+   */
+  fullTextCandidates(
+    identifiers: PaperIdentifiers,
+  ): Array<{ source: string; id: string }> {
+    return this.list("content")
+      .filter((definition) => definition.identifierFor)
+      .sort(
+        (a, b) =>
+          (a.fullTextRank ?? Number.MAX_SAFE_INTEGER) -
+          (b.fullTextRank ?? Number.MAX_SAFE_INTEGER),
+      )
+      .map((definition) => ({
+        source: definition.id,
+        id: definition.identifierFor!(identifiers),
+      }))
+      .filter((candidate): candidate is { source: string; id: string } =>
+        Boolean(candidate.id),
+      );
+  }
+
+  /**
+   * Zod schema accepting any registered source ID. Validation is done at
+   * parse time so sources registered by plugins after import are accepted.
+   */
+  sourceSchema(capability?: SourceCapability) {
+    return z.string().refine((id) => this.has(id, capability), (id) => ({
+      message: `Invalid source "${id}". Valid sources: ${this.ids(capability).join(", ")}`,
+    }));
+  }
+
+  /**
+   * Zod enum of the currently registered source IDs. Used when registering
+   * MCP tools so clients see the allowed values in the JSON schema.
+   */
+  sourceEnum(capability?: SourceCapability) {
+    const ids = this.ids(capability);
+    if (ids.length === 0) {
+      throw new Error(`No registered sources support ${capability}`);
+    }
+    return z.enum(ids as [string, ...string[]]);
+  }
+
+  /**
+   * Bullet list of sources for tool descriptions and CLI help
+   */
+  describeSources(capability?: SourceCapability, indent: string = ""): string {
+    return this.list(capability)
+      .map((definition) => `${indent}• '${definition.id}' - ${definition.description}`)
+      .join("\n");
+  }
+
+  /**
+   * Bullet list of a per-source hint, e.g. category or ID formats
+   */
+  describeFormats(
+    capability: SourceCapability,
+    hint: SourceHint,
+    indent: string = "",
+  ): string {
+    return this.list(capability)
+      .filter((definition) => definition[hint])
+      .map((definition) => `${indent}• ${definition.name}: ${definition[hint]}`)
+      .join("\n");
+  }
+
+  /**
+   * Load third-party driver packages by module name or path
+   */
+  async loadPlugins(moduleNames: string[]): Promise<void> {
+    for (const moduleName of moduleNames) {
+      if (this.loadedPlugins.has(moduleName)) continue;
+
+      try {
+        const plugin: SourcePlugin & { default?: SourcePlugin } = await import(
+          this.resolvePluginSpecifier(moduleName)
+        );
+        const entry = plugin.default ?? plugin;
+
+        entry.sources?.forEach((definition) => this.register(definition));
+        await entry.register?.(this);
+
+        if (!entry.sources && !entry.register) {
+          logWarn("Source plugin exports neither sources nor register()", {
+            plugin: moduleName,
+          });
+        }
+
+        this.loadedPlugins.add(moduleName);
+        logInfo("Loaded source plugin", {
+          plugin: moduleName,
+          sources: this.ids(),
+        });
+      } catch (error) {
+        logError("Failed to load source plugin", {
+          plugin: moduleName,
+          error: error instanceof Error ? error.message : error,
+        });
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Package names are imported as-is; file paths are resolved from the
+   * current working directory rather than from this module
+   */
+  private resolvePluginSpecifier(moduleName: string): string {
+    if (moduleName.startsWith(".") || isAbsolute(moduleName)) {
+      return pathToFileURL(resolve(process.cwd(), moduleName)).href;
+    }
+    return moduleName;
+  }
+}
+
+/**
+ * Plugin packages or paths from the configuration (sources.plugins, or
+ * the comma-separated SCIHARVESTER_PLUGINS environment variable)
+ */
+export function getConfiguredPlugins(): string[] {
+  return getConfig().sources.plugins;
+}
@@ -0,0 +1,606 @@
+/**
+ * NASA ADS Driver
+ *
+ * Astronomy and astrophysics literature from the NASA Astrophysics Data
+ * System search API. Queries use ADS syntax, including fielded terms
+ * (`author:"^Hubble"`, `year:2020-2023`) and the `citations()` and
+ * `references()` operators; records are keyed by bibcode. The API needs a
+ * token, sent when `apiKeys.ads` is set.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError } from "../core/logger.js";
+import {
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  normalizeArxivId,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import {
+  ADS_API_BASE,
+  ARXIV_HTML_BASE,
+  MAX_PAPER_COUNT,
+} from "../config/constants.js";
+import { getConfig } from "../config/config.js";
+
+// Listings keep the first authors; fetch_content returns everyone
+const MAX_LISTED_AUTHORS = 50;
+
+// Fields requested for each record
+const RECORD_FIELDS = [
+  "bibcode",
+  "title",
+  "author",
+  "aff",
+  "orcid_pub",
+  "abstract",
+  "pubdate",
+  "pub",
+  "volume",
+  "doi",
+  "identifier",
+  "citation_count",
+  "keyword",
+  "arxiv_class",
+  "doctype",
+  "property",
+  "esources",
+].join(",");
+
+// e.g. "2019ApJ...882L..24A": year, journal, volume, qualifier, page, initial
+const BIBCODE_PATTERN = /^\d{4}[A-Za-z&.]{5}[\w.]{4}[A-Za-z.][\w.]{4}[A-Z.]$/;
+
+// ADS collections ("database"); any other category is taken as a keyword
+const ADS_COLLECTIONS: Category[] = [
+  {
+    id: "astronomy",
+    name: "Astronomy",
+    description: "Astronomy and astrophysics collection",
+  },
+  {
+    id: "physics",
+    name: "Physics",
+    description: "Physics and geophysics collection",
+  },
+  {
+    id: "earthscience",
+    name: "Earth Science",
+    description: "Earth and planetary science collection",
+  },
+  {
+    id: "general",
+    name: "General",
+    description: "Records outside the other collections",
+  },
+];
+
+// arXiv astro-ph classes, searched with arxiv_class
+const ASTRO_PH_CLASSES: Category[] = [
+  {
+    id: "astro-ph.CO",
+    name: "Cosmology and Nongalactic Astrophysics",
+  },
+  {
+    id: "astro-ph.EP",
+    name: "Earth and Planetary Astrophysics",
+  },
+  {
+    id: "astro-ph.GA",
+    name: "Astrophysics of Galaxies",
+  },
+  {
+    id: "astro-ph.HE",
+    name: "High Energy Astrophysical Phenomena",
+  },
+  {
+    id: "astro-ph.IM",
+    name: "Instrumentation and Methods for Astrophysics",
+  },
+  {
+    id: "astro-ph.SR",
+    name: "Solar and Stellar Astrophysics",
+  },
+];
+
+interface AdsDoc {
+  bibcode: string;
+  title?: string[];
+  author?: string[]; // "Last, First"
+  aff?: string[]; // Same order as author, "-" when unknown
+  orcid_pub?: string[]; // Same order as author, "-" when unknown
+  abstract?: string;
+  pubdate?: string; // "2019-10-00"
+  pub?: string;
+  volume?: string;
+  doi?: string[];
+  identifier?: string[]; // Bibcodes, DOIs and "arXiv:..." IDs
+  citation_count?: number;
+  keyword?: string[];
+  arxiv_class?: string[];
+  doctype?: string;
+  property?: string[]; // e.g. "REFEREED", "OPENACCESS"
+  esources?: string[]; // e.g. "EPRINT_PDF", "PUB_PDF", "ADS_PDF"
+}
+
+interface AdsSearchResponse {
+  response: {
+    numFound: number;
+    start: number;
+    docs: AdsDoc[];
+  };
+}
+
+export class AdsDriver extends BaseDriver {
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "ads");
+  }
+
+  /**
+   * List ADS collections and astro-ph classes. Any ADS keyword, like
+   * "exoplanets", also works as a category.
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching ADS categories");
+    return [...ADS_COLLECTIONS, ...ASTRO_PH_CLASSES];
+  }
+
+  /**
+   * Fetch the newest records in a collection, class or keyword
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest ADS papers", { category, count });
+
+      const page = await this.searchPage(
+        this.categoryQuery(category),
+        "date desc",
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched ADS latest papers", {
+        count: page.papers.length,
+        category,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch latest ADS papers", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch the most cited records in a collection, class or keyword
+   * published since a date
+   */
+  async fetchTopCited(
+    concept: string,
+    since: string,
+    count: number,
+  ): Promise<PaperMetadata[]> {
+    return (await this.fetchTopCitedPage(concept, since, count)).papers;
+  }
+
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching top cited ADS papers", { concept, since, count });
+
+      const page = await this.searchPage(
+        `${this.categoryQuery(concept)} pubdate:[${since.slice(0, 7)} TO *]`,
+        "citation_count desc",
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched ADS top cited papers", {
+        count: page.papers.length,
+        concept,
+        since,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch top cited ADS papers", {
+        error: error instanceof Error ? error.message : error,
+        concept,
+        since,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a record by bibcode, DOI or arXiv ID
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const paper = this.convertDoc(await this.fetchDoc(id), Infinity);
+
+    // Read the text after the API slot is released
+    await this.readFullText(paper, {
+      html: paper.arxiv_id ? `${ARXIV_HTML_BASE}/${paper.arxiv_id}` : undefined,
+      pdf: paper.pdf_url,
+    });
+
+    logInfo("Successfully fetched ADS paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The record of a bibcode, DOI or arXiv ID, holding an API slot only
+   * for the request
+   */
+  private async fetchDoc(id: string): Promise<AdsDoc> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching ADS paper content", { id });
+
+      const response = await this.query(
+        `identifier:"${this.toIdentifier(id)}"`,
+        "score desc",
+        1,
+        0,
+      );
+      const doc = response.docs[0];
+      if (!doc) {
+        throw new NotFoundError(`ADS record ${id} not found`, {
+          source: this.source,
+        });
+      }
+      return doc;
+    } catch (error) {
+      logError("Failed to fetch ADS paper content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search ADS. With field 'all' the query is passed through in ADS
+   * syntax. A bare bibcode finds that record, and `citations:<id>` or
+   * `references:<id>` (bibcode, DOI or arXiv ID) list the papers citing
+   * or cited by it.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching ADS papers", { query, field, count, sortBy });
+
+      const sorts: Record<string, string> = {
+        date: "date desc",
+        citations: "citation_count desc",
+      };
+      const page = await this.searchPage(
+        this.buildQuery(query, field),
+        sorts[sortBy] ?? "score desc",
+        count,
+        position,
+      );
+
+      logInfo("ADS search completed", {
+        query,
+        field,
+        resultsFound: page.papers.length,
+      });
+      return page;
+    } catch (error) {
+      logError("ADS search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  private async searchPage(
+    q: string,
+    sort: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const start = readOffset(position, "start");
+    const response = await this.query(q, sort, count, start);
+    const end = start + response.docs.length;
+
+    return {
+      papers: response.docs.map((doc) =>
+        this.convertDoc(doc, MAX_LISTED_AUTHORS),
+      ),
+      next:
+        response.docs.length > 0 && end < response.numFound
+          ? { start: end }
+          : undefined,
+    };
+  }
+
+  private async query(
+    q: string,
+    sort: string,
+    rows: number,
+    start: number,
+  ): Promise<AdsSearchResponse["response"]> {
+    const token = this.config.apiKeys.ads;
+    const response = await this.http.get<AdsSearchResponse>(
+      `${ADS_API_BASE}/search/query`,
+      {
+        params: {
+          q,
+          fl: RECORD_FIELDS,
+          sort,
+          rows: Math.min(rows, MAX_PAPER_COUNT),
+          start,
+        },
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      },
+    );
+    return response.data.response ?? { numFound: 0, start, docs: [] };
+  }
+
+  /**
+   * Restrict a plain query to the requested field with ADS field names
+   */
+  private buildQuery(query: string, field: string): string {
+    const trimmed = query.trim();
+
+    const linked = trimmed.match(/^(citations|references):\s*(\S+)$/i);
+    if (linked) {
+      const operator = linked[1].toLowerCase();
+      return `${operator}(identifier:"${this.toIdentifier(linked[2])}")`;
+    }
+    if (BIBCODE_PATTERN.test(trimmed)) return `bibcode:"${trimmed}"`;
+
+    switch (field) {
+      case "title":
+        return `title:(${trimmed})`;
+      case "abstract":
+        return `abs:(${trimmed})`;
+      case "author":
+        return `author:"${trimmed.replace(/"/g, "")}"`;
+      case "fulltext":
+        return `full:(${trimmed})`;
+      default:
+        return trimmed;
+    }
+  }
+
+  /**
+   * Query clause for a collection, an astro-ph class or a keyword
+   */
+  private categoryQuery(category: string): string {
+    const wanted = category.trim();
+    const collection = ADS_COLLECTIONS.find(
+      (c) => c.id === wanted.toLowerCase(),
+    );
+    if (collection) return `collection:${collection.id}`;
+
+    const arxivClass = ASTRO_PH_CLASSES.find(
+      (c) => c.id.toLowerCase() === wanted.toLowerCase(),
+    );
+    if (arxivClass) return `arxiv_class:"${arxivClass.id}"`;
+
+    return `keyword:"${wanted.replace(/"/g, "")}"`;
+  }
+
+  /**
+   * ADS identifier for a bibcode, DOI or arXiv ID; bare new-style arXiv
+   * IDs get the "arXiv:" prefix ADS stores them with
+   */
+  private toIdentifier(id: string): string {
+    const trimmed = id
+      .trim()
+      .replace(/^ads:\s*/i, "")
+      .replace(/^doi:\s*/i, "")
+      .replace(/"/g, "");
+    if (/^\d{4}\.\d{4,5}(v\d+)?$/.test(trimmed)) {
+      return `arXiv:${normalizeArxivId(trimmed)}`;
+    }
+    return trimmed;
+  }
+
+  /**
+   * Convert an ADS search record to PaperMetadata
+   */
+  private convertDoc(doc: AdsDoc, maxAuthors: number): PaperMetadata {
+    const arxivId = this.findArxivId(doc.identifier ?? []);
+    const known = (value?: string) =>
+      value && value !== "-" ? value : undefined;
+
+    const authors = doc.author ?? [];
+    if (authors.length > maxAuthors) {
+      logInfo("Truncated ADS author list", {
+        id: doc.bibcode,
+        authors: authors.length,
+        listed: maxAuthors,
+      });
+    }
+    const authorDetails: AuthorDetail[] = authors
+      .slice(0, maxAuthors)
+      .map((name, index) => {
+        const affiliation = known(doc.aff?.[index]);
+        return {
+          name: this.displayName(name),
+          affiliations: affiliation ? affiliation.split(/;\s*/) : undefined,
+          orcid: known(doc.orcid_pub?.[index]),
+        };
+      });
+
+    return withExtendedMetadata(
+      {
+        id: doc.bibcode,
+        title: doc.title?.[0] ?? "Untitled",
+        authors: authorDetails.map((author) => author.name),
+        date: this.formatDate(doc.pubdate),
+        pdf_url: arxivId
+          ? `https://arxiv.org/pdf/${arxivId}`
+          : this.hostedPdfUrl(doc),
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: doc.abstract,
+        doi: doc.doi?.[0],
+        arxiv_id: arxivId,
+        venue: doc.pub,
+        citation_count: doc.citation_count,
+        open_access: doc.property?.includes("OPENACCESS") || undefined,
+        subjects: [...(doc.keyword ?? []), ...(doc.arxiv_class ?? [])],
+        publication_types: doc.doctype ? [doc.doctype] : undefined,
+        author_details: authorDetails,
+        source_url: `https://ui.adsabs.harvard.edu/abs/${doc.bibcode}/abstract`,
+      },
+    );
+  }
+
+  private findArxivId(identifiers: string[]): string | undefined {
+    for (const identifier of identifiers) {
+      const match = identifier.match(/^(?:arXiv:|10\.48550\/arXiv\.)(.+)$/i);
+      if (match) return normalizeArxivId(match[1]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Scans ADS hosts itself, or an open access publisher PDF, through the
+   * ADS link gateway
+   */
+  private hostedPdfUrl(doc: AdsDoc): string | undefined {
+    const esources = doc.esources ?? [];
+    const kind = esources.includes("ADS_PDF")
+      ? "ADS_PDF"
+      : esources.includes("PUB_PDF") && doc.property?.includes("PUB_OPENACCESS")
+        ? "PUB_PDF"
+        : undefined;
+    return kind
+      ? `https://ui.adsabs.harvard.edu/link_gateway/${doc.bibcode}/${kind}`
+      : undefined;
+  }
+
+  /**
+   * "Hubble, Edwin P." -> "Edwin P. Hubble"
+   */
+  private displayName(name: string): string {
+    const [last, first] = name.split(/,\s*/, 2);
+    return first ? `${first} ${last}` : name;
+  }
+
+  /**
+   * ADS publication dates use "00" for an unknown month or day
+   */
+  private formatDate(pubdate?: string): string {
+    if (!pubdate) return new Date().toISOString().split("T")[0];
+    const [year, month, day] = pubdate.split("-");
+    const part = (value?: string) => (value && value !== "00" ? value : "01");
+    return `${year}-${part(month)}-${part(day)}`;
+  }
+
+  /**
+   * Map an ADS API failure to a typed error
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status === 401 || error.response?.status === 403) {
+      const message = this.config.apiKeys.ads
+        ? "NASA ADS API rejected the API token"
+        : "NASA ADS API needs an API token";
+      return new SourceDownError(message, {
+        source: this.source,
+        suggestions: [
+          "Set ADS_API_TOKEN or apiKeys.ads to a token from https://ui.adsabs.harvard.edu/user/settings/token",
+        ],
+        cause: error,
+      });
+    }
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("NASA ADS API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "NASA ADS API", this.source);
+  }
+}
+
+export const adsSource: SourceDefinition = {
+  id: "ads",
+  name: "NASA ADS",
+  description:
+    "NASA Astrophysics Data System (astronomy, astrophysics) - Citations, references and arXiv links; needs an API token",
+  capabilities: ["search", "latest", "content", "topCited", "categories"],
+  categoryHint:
+    "Collection like 'astronomy', arXiv class like 'astro-ph.GA', or an ADS keyword",
+  idHint: "Bibcode like '2019ApJ...882L..24A', DOI or arXiv ID",
+  contentHint:
+    "Abstracts, citations and keywords; text from the arXiv eprint or a PDF ADS links to",
+  searchHint:
+    "ADS syntax ('author:\"^Hubble\" year:1929') with field 'all'; a bibcode finds that record, 'citations:<bibcode>' and 'references:<bibcode>' list citing and cited papers",
+  sortHint: "relevance, date, citations (full support)",
+  conceptHint:
+    "Collections, astro-ph classes or keywords like 'astronomy', 'astro-ph.GA' or 'exoplanets'",
+  isConfigured: () => Boolean(getConfig().apiKeys.ads),
+  create: (rateLimiter) => new AdsDriver(rateLimiter),
+};
@@ -1,15 +1,29 @@
 import axios from "axios";
 import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { SourceDefinition } from "../core/source-registry.js";
 import {
-  ARXIV_API_BASE,
-  ARXIV_CATEGORIES,
-  DEFAULT_TEXT_EXTRACTION_CONFIG,
-  ARXIV_HTML_BASE,
-} from "../config/constants.js";
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { ARXIV_API_BASE, ARXIV_HTML_BASE } from "../config/constants.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import {
+  ARXIV_TAXONOMY,
+  arxivSubcategories,
+  findArxivCategory,
+  suggestArxivCategories,
+} from "./arxiv-taxonomy.js";
 
 // arXiv API XML response types
 interface ArxivEntry {
@@ -22,71 +36,56 @@ interface ArxivEntry {
 }
 
 export class ArxivDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
-
   constructor(rateLimiter: RateLimiter) {
     super(rateLimiter, "arxiv");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
   }
 
   /**
-   * List arXiv categories
-   * For MVP, we return a predefined list of common categories
-   * Future versions could fetch this dynamically
+   * List the arXiv taxonomy: archives, then their categories with
+   * `parent` set. arXiv has no taxonomy endpoint, so this is static data.
    */
   async listCategories(): Promise<Category[]> {
     logInfo("Listing arXiv categories");
-
-    // For MVP, return predefined categories without API call
-    // This avoids unnecessary API calls for static data
-    return ARXIV_CATEGORIES.map((cat) => ({
-      id: cat.id,
-      name: cat.name,
-      description: cat.description,
-    }));
+    return ARXIV_TAXONOMY;
   }
 
   /**
    * Fetch latest papers from arXiv for a given category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest arXiv papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const searchQuery = this.categoryQuery(category);
+    const release = await this.acquire();
 
     try {
-      logInfo("Fetching latest arXiv papers", { category, count });
+      const start = readOffset(position, "start");
+      logInfo("Fetching latest arXiv papers", { category, count, start });
 
-      // Build search query for arXiv API
-      const searchQuery = `cat:${category}`;
-      const response = await axios.get(`${ARXIV_API_BASE}`, {
+      const response = await this.http.get(`${ARXIV_API_BASE}`, {
         params: {
           search_query: searchQuery,
-          start: 0,
+          start,
           max_results: count,
           sortBy: "submittedDate",
           sortOrder: "descending",
         },
-        timeout: 15000,
-        headers: {
-          "User-Agent":
-            "latest-science-mcp/0.1.0 (https://github.com/futurelab/latest-science-mcp)",
-        },
       });
 
       // Parse XML response (arXiv returns Atom XML)
-      const papers = await this.parseArxivResponse(response.data, false);
+      const papers = await this.parseArxivResponse(response.data);
       logInfo("Successfully fetched arXiv papers", {
         count: papers.length,
         category,
       });
 
-      return papers;
+      return { papers, next: this.nextPage(response.data, start, count) };
     } catch (error) {
       logError("Failed to fetch latest arXiv papers", {
         error: error instanceof Error ? error.message : error,
@@ -96,57 +95,69 @@ export class ArxivDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.code === "ECONNABORTED") {
-          throw new Error("arXiv API request timed out");
+          throw new SourceDownError("arXiv API request timed out", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("arXiv API server error");
+          throw new SourceDownError("arXiv API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "arXiv API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
-   * Fetch content for a specific arXiv paper by ID
+   * Fetch content for a specific arXiv paper by ID. The text is read after
+   * the API slot is released, under the full-text bucket.
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching arXiv paper content", {
-        retryAfter,
-        id,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    const paper = await this.fetchEntry(id);
+    await this.readFullText(paper, {
+      html: `${ARXIV_HTML_BASE}/${paper.id}`,
+      pdf: paper.pdf_url,
+    });
+
+    logInfo("Successfully fetched arXiv paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * Metadata of one paper from the arXiv API
+   */
+  private async fetchEntry(id: string): Promise<PaperMetadata> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching arXiv paper content", { id });
 
       // Clean the ID (remove version if present, ensure format)
       const cleanId = this.cleanArxivId(id);
-      const response = await axios.get(`${ARXIV_API_BASE}`, {
+      const response = await this.http.get(`${ARXIV_API_BASE}`, {
         params: {
           id_list: cleanId,
           max_results: 1,
         },
-        timeout: 15000,
-        headers: {
-          "User-Agent":
-            "latest-science-mcp/0.1.0 (https://github.com/futurelab/latest-science-mcp)",
-        },
       });
 
-      const papers = await this.parseArxivResponse(response.data, true);
+      const papers = await this.parseArxivResponse(response.data);
 
       if (papers.length === 0) {
-        throw new Error(`Paper with ID ${id} not found on arXiv`);
+        throw new NotFoundError(`Paper with ID ${id} not found on arXiv`, {
+          source: this.source,
+        });
       }
-
-      logInfo("Successfully fetched arXiv paper content", {
-        id,
-        title: papers[0].title,
-      });
       return papers[0];
     } catch (error) {
       logError("Failed to fetch arXiv paper content", {
@@ -156,24 +167,49 @@ export class ArxivDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.code === "ECONNABORTED") {
-          throw new Error("arXiv API request timed out");
+          throw new SourceDownError("arXiv API request timed out", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("arXiv API server error");
+          throw new SourceDownError("arXiv API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "arXiv API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
-   * Parse arXiv XML response and extract paper metadata
+   * Position of the page after this one, from the feed's OpenSearch total.
+   * Without a total, a full page is taken to mean there may be more.
    */
-  private async parseArxivResponse(
+  private nextPage(
     xmlData: string,
-    includeText: boolean = false,
-  ): Promise<PaperMetadata[]> {
+    start: number,
+    count: number,
+  ): PagePosition | undefined {
+    const total = xmlData.match(
+      /<opensearch:totalResults[^>]*>(\d+)<\/opensearch:totalResults>/,
+    );
+    const entries = (xmlData.match(/<entry>/g) || []).length;
+    const hasMore = total
+      ? start + entries < Number(total[1])
+      : entries >= count;
+    return entries > 0 && hasMore ? { start: start + entries } : undefined;
+  }
+
+  /**
+   * Parse arXiv XML response and extract paper metadata
+   */
+  private async parseArxivResponse(xmlData: string): Promise<PaperMetadata[]> {
     // Simple XML parsing for arXiv Atom feed
     // In production, consider using a proper XML parser like xml2js
     const papers: PaperMetadata[] = [];
@@ -185,7 +221,7 @@ export class ArxivDriver extends BaseDriver {
     // Process entries in parallel for better performance
     const paperPromises = entries.map(async (entry) => {
       try {
-        return await this.parseArxivEntry(entry, includeText);
+        return await this.parseArxivEntry(entry);
       } catch (error) {
         logWarn("Failed to parse arXiv entry", {
           error: error instanceof Error ? error.message : error,
@@ -205,7 +241,6 @@ export class ArxivDriver extends BaseDriver {
    */
   private async parseArxivEntry(
     entryXml: string,
-    includeText: boolean = false,
   ): Promise<PaperMetadata | null> {
     try {
       // Extract ID
@@ -219,15 +254,24 @@ export class ArxivDriver extends BaseDriver {
       if (!titleMatch) return null;
       const title = this.cleanXmlText(titleMatch[1]);
 
-      // Extract authors
+      // Extract authors, with affiliations where arXiv has them
       const authorMatches =
         entryXml.match(/<author>.*?<name>(.*?)<\/name>.*?<\/author>/gs) || [];
-      const authors = authorMatches
+      const authorDetails = authorMatches
         .map((match) => {
           const nameMatch = match.match(/<name>(.*?)<\/name>/);
-          return nameMatch ? this.cleanXmlText(nameMatch[1]) : "";
+          const affiliations = [
+            ...match.matchAll(
+              /<arxiv:affiliation[^>]*>(.*?)<\/arxiv:affiliation>/gs,
+            ),
+          ].map((affiliation) => this.cleanXmlText(affiliation[1]));
+          return {
+            name: nameMatch ? this.cleanXmlText(nameMatch[1]) : "",
+            affiliations,
+          };
         })
-        .filter((author) => author);
+        .filter((author) => author.name);
+      const authors = authorDetails.map((author) => author.name);
 
       // Extract published date
       const publishedMatch = entryXml.match(/<published>(.*?)<\/published>/);
@@ -249,62 +293,43 @@ export class ArxivDriver extends BaseDriver {
         }
       }
 
-      // Create base paper object
-      const paper: PaperMetadata = {
-        id,
-        title,
-        authors,
-        date,
-        pdf_url,
-        text: "", // Always include text field, empty for metadata-only
-      };
-
-      // Only extract text if requested (for fetch_content)
-      if (includeText) {
-        let textTruncated = false;
-        let textExtractionFailed = false;
-
-        try {
-          // Check rate limit for text extraction
-          if (this.checkRateLimit()) {
-            const htmlUrl = `${ARXIV_HTML_BASE}/${id}`;
-            const extractionResult =
-              await this.textExtractor.extractText(htmlUrl, pdf_url);
-
-            if (extractionResult.extractionSuccess) {
-              paper.text = extractionResult.text;
-              textTruncated = extractionResult.truncated;
-              logInfo("Text extraction successful for arXiv paper", {
-                id,
-                textLength: paper.text.length,
-                truncated: textTruncated,
-                source: extractionResult.source,
-                extractionMethod: extractionResult.source === "pdf" ? "PDF fallback" : "HTML primary",
-              });
-            } else {
-              textExtractionFailed = true;
-              logWarn("Text extraction failed for arXiv paper", { id });
-            }
-          } else {
-            textExtractionFailed = true;
-            logWarn("Rate limited for text extraction", { id });
-          }
-        } catch (error) {
-          textExtractionFailed = true;
-          logError("Error during text extraction for arXiv paper", {
-            id,
-            error: error instanceof Error ? error.message : error,
-          });
-        }
+      const summaryMatch = entryXml.match(/<summary>(.*?)<\/summary>/s);
+      const doiMatch = entryXml.match(/<arxiv:doi[^>]*>(.*?)<\/arxiv:doi>/s);
+      const journalRefMatch = entryXml.match(
+        /<arxiv:journal_ref[^>]*>(.*?)<\/arxiv:journal_ref>/s,
+      );
+      const primaryCategoryMatch = entryXml.match(
+        /<arxiv:primary_category[^>]*term="([^"]+)"/,
+      );
+      const categories = [
+        ...entryXml.matchAll(/<category[^>]*term="([^"]+)"/g),
+      ].map((match) => match[1]);
 
-        // Add warning flags if needed
-        if (textTruncated) {
-          paper.textTruncated = true;
-        }
-        if (textExtractionFailed) {
-          paper.textExtractionFailed = true;
-        }
-      }
+      // Create base paper object
+      const paper = withExtendedMetadata(
+        {
+          id,
+          title,
+          authors,
+          date,
+          pdf_url,
+          text: "", // Always include text field, empty for metadata-only
+        },
+        {
+          abstract: summaryMatch && this.cleanXmlText(summaryMatch[1]),
+          doi: doiMatch && this.cleanXmlText(doiMatch[1]),
+          arxiv_id: id,
+          // Published version if the authors recorded one
+          venue: journalRefMatch
+            ? this.cleanXmlText(journalRefMatch[1])
+            : "arXiv",
+          open_access: true,
+          oa_status: "green",
+          subjects: [primaryCategoryMatch?.[1], ...categories],
+          author_details: authorDetails,
+          source_url: `https://arxiv.org/abs/${id}`,
+        },
+      );
 
       return paper;
     } catch (error) {
@@ -354,18 +379,21 @@ export class ArxivDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when searching arXiv papers", {
-        retryAfter,
-        query,
-        field,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
-      logInfo("Searching arXiv papers", { query, field, count, sortBy });
+      const start = readOffset(position, "start");
+      logInfo("Searching arXiv papers", { query, field, count, sortBy, start });
 
       // Build search query based on field
       let searchQuery: string;
@@ -388,7 +416,7 @@ export class ArxivDriver extends BaseDriver {
       // Map sortBy to arXiv API parameters
       let sortByParam = "relevance";
       let sortOrderParam = "descending";
-      
+
       switch (sortBy) {
         case "date":
           sortByParam = "submittedDate";
@@ -402,23 +430,18 @@ export class ArxivDriver extends BaseDriver {
         // arXiv doesn't support citation sorting
       }
 
-      const response = await axios.get(`${ARXIV_API_BASE}`, {
+      const response = await this.http.get(`${ARXIV_API_BASE}`, {
         params: {
           search_query: searchQuery,
-          start: 0,
+          start,
           max_results: count,
           sortBy: sortByParam,
           sortOrder: sortOrderParam,
         },
-        timeout: 15000,
-        headers: {
-          "User-Agent":
-            "latest-science-mcp/0.1.0 (https://github.com/futurelab/latest-science-mcp)",
-        },
       });
 
       // Parse XML response
-      const papers = await this.parseArxivResponse(response.data, false);
+      const papers = await this.parseArxivResponse(response.data);
       logInfo("Successfully searched arXiv papers", {
         query,
         field,
@@ -426,7 +449,7 @@ export class ArxivDriver extends BaseDriver {
         sortBy,
       });
 
-      return papers;
+      return { papers, next: this.nextPage(response.data, start, count) };
     } catch (error) {
       logError("Failed to search arXiv papers", {
         error: error instanceof Error ? error.message : error,
@@ -438,38 +461,68 @@ export class ArxivDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.code === "ECONNABORTED") {
-          throw new Error("arXiv API request timed out");
+          throw new SourceDownError("arXiv API request timed out", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("arXiv API server error");
+          throw new SourceDownError("arXiv API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "arXiv API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
-   * Future method: Fetch categories dynamically from arXiv
-   * This could be implemented later if arXiv provides a categories endpoint
+   * Build the `cat:` query for a category code. Aliases resolve to the
+   * category arXiv files them under, and an archive matches papers in
+   * any of its categories.
    */
-  private async fetchCategoriesDynamically(): Promise<Category[]> {
-    if (!this.checkRateLimit()) {
-      throw new Error(
-        `Rate limited. Retry after ${this.getRetryAfter()} seconds`,
-      );
-    }
-
-    try {
-      // arXiv doesn't have a dedicated categories endpoint
-      // This is a placeholder for future implementation
-      logInfo("Fetching arXiv categories dynamically (not implemented)");
-      return [];
-    } catch (error) {
-      logError("Failed to fetch arXiv categories", {
-        error: error instanceof Error ? error.message : error,
+  private categoryQuery(code: string): string {
+    const category = findArxivCategory(code);
+    if (!category) {
+      const matches = suggestArxivCategories(code);
+      throw new InvalidQueryError(`Unknown arXiv category: ${code}`, {
+        source: this.source,
+        suggestions: [
+          ...(matches.length > 0
+            ? [`Did you mean ${matches.join(", ")}?`]
+            : []),
+          "Use list_categories with source 'arxiv' to browse archives and their categories",
+        ],
       });
-      throw error;
     }
+
+    const ids = [
+      category.id,
+      ...arxivSubcategories(category.id).map((child) => child.id),
+    ];
+    return ids.map((id) => `cat:${id}`).join(" OR ");
   }
 }
+
+export const arxivSource: SourceDefinition = {
+  id: "arxiv",
+  name: "arXiv",
+  description:
+    "arXiv.org preprints (physics, CS, math, etc.) - Very fast, comprehensive",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint:
+    "codes like 'cs.AI', 'quant-ph', 'math.NT', or an archive like 'cond-mat'",
+  idHint: "'2506.21552', '1234.5678v2'",
+  contentHint: "Usually the full paper text",
+  searchHint:
+    "Title, abstract, author, and general search with Boolean operators",
+  sortHint: "relevance, date (no citation sorting)",
+  identifierFor: (ids) => ids.arxiv,
+  fullTextRank: 1, // HTML full text for most recent papers, PDF otherwise
+  create: (rateLimiter) => new ArxivDriver(rateLimiter),
+};
@@ -0,0 +1,1073 @@
+/**
+ * arXiv Category Taxonomy
+ *
+ * The complete archive -> category hierarchy from
+ * https://arxiv.org/category_taxonomy. Archives without subject classes
+ * (gr-qc, hep-th, quant-ph, ...) are categories themselves. A few codes
+ * are aliases arXiv files under another category, e.g. math.MP for
+ * math-ph; they are listed with the category they stand for.
+ */
+
+import { Category } from "../types/papers.js";
+
+interface ArxivArchive {
+  id: string;
+  name: string;
+  description: string;
+  categories?: Array<{ id: string; name: string; description: string }>;
+}
+
+const ARXIV_ARCHIVES: ArxivArchive[] = [
+  {
+    id: "astro-ph",
+    name: "Astrophysics",
+    description: "Astronomy and astrophysics",
+    categories: [
+      {
+        id: "astro-ph.CO",
+        name: "Cosmology and Nongalactic Astrophysics",
+        description:
+          "Early universe, cosmic microwave background, dark matter and dark energy, large-scale structure, gravitational lensing",
+      },
+      {
+        id: "astro-ph.EP",
+        name: "Earth and Planetary Astrophysics",
+        description:
+          "Planetary physics, exoplanets, planet formation, the solar system, comets and asteroids",
+      },
+      {
+        id: "astro-ph.GA",
+        name: "Astrophysics of Galaxies",
+        description:
+          "Galaxies and the Milky Way: structure, formation, dynamics, the interstellar medium, active nuclei",
+      },
+      {
+        id: "astro-ph.HE",
+        name: "High Energy Astrophysical Phenomena",
+        description:
+          "Cosmic rays, gamma-ray bursts, X-ray sources, supernovae, neutron stars, black holes, gravitational-wave sources",
+      },
+      {
+        id: "astro-ph.IM",
+        name: "Instrumentation and Methods for Astrophysics",
+        description:
+          "Detectors, telescopes, observing techniques, data analysis and software for astronomy",
+      },
+      {
+        id: "astro-ph.SR",
+        name: "Solar and Stellar Astrophysics",
+        description:
+          "The Sun and stars: structure, evolution, atmospheres, star formation, binaries",
+      },
+    ],
+  },
+  {
+    id: "cond-mat",
+    name: "Condensed Matter",
+    description: "Condensed matter physics",
+    categories: [
+      {
+        id: "cond-mat.dis-nn",
+        name: "Disordered Systems and Neural Networks",
+        description:
+          "Glasses, spin glasses, random systems, localization, and the statistical physics of neural networks",
+      },
+      {
+        id: "cond-mat.mes-hall",
+        name: "Mesoscale and Nanoscale Physics",
+        description:
+          "Semiconducting nanostructures, quantum dots and wires, the quantum Hall effect, spintronics, graphene",
+      },
+      {
+        id: "cond-mat.mtrl-sci",
+        name: "Materials Science",
+        description:
+          "Techniques, synthesis, characterization and properties of materials",
+      },
+      {
+        id: "cond-mat.other",
+        name: "Other Condensed Matter",
+        description:
+          "Work that does not fit the other condensed matter classes",
+      },
+      {
+        id: "cond-mat.quant-gas",
+        name: "Quantum Gases",
+        description:
+          "Ultracold atomic and molecular gases, Bose-Einstein condensation, optical lattices",
+      },
+      {
+        id: "cond-mat.soft",
+        name: "Soft Condensed Matter",
+        description:
+          "Membranes, polymers, liquid crystals, glasses, colloids, granular matter",
+      },
+      {
+        id: "cond-mat.stat-mech",
+        name: "Statistical Mechanics",
+        description:
+          "Phase transitions, thermodynamics, field theory, non-equilibrium phenomena, turbulence",
+      },
+      {
+        id: "cond-mat.str-el",
+        name: "Strongly Correlated Electrons",
+        description:
+          "Quantum magnetism, non-Fermi liquids, spin liquids, quantum criticality, heavy fermions",
+      },
+      {
+        id: "cond-mat.supr-con",
+        name: "Superconductivity",
+        description:
+          "Superconductivity: theory, models, experiment, superflow in helium",
+      },
+    ],
+  },
+  {
+    id: "gr-qc",
+    name: "General Relativity and Quantum Cosmology",
+    description:
+      "Gravitational physics: gravitational waves, experimental tests of gravitation, quantum gravity, cosmology",
+  },
+  {
+    id: "hep-ex",
+    name: "High Energy Physics - Experiment",
+    description:
+      "Results from high-energy and cosmic-ray experiments and the detectors behind them",
+  },
+  {
+    id: "hep-lat",
+    name: "High Energy Physics - Lattice",
+    description: "Lattice field theory, from algorithms to phenomenology",
+  },
+  {
+    id: "hep-ph",
+    name: "High Energy Physics - Phenomenology",
+    description:
+      "Theoretical particle physics and its connection to experiment",
+  },
+  {
+    id: "hep-th",
+    name: "High Energy Physics - Theory",
+    description:
+      "Formal aspects of quantum field theory, string theory, supersymmetry and supergravity",
+  },
+  {
+    id: "math-ph",
+    name: "Mathematical Physics",
+    description:
+      "Applications of mathematics to problems in physics and mathematical methods developed for them",
+  },
+  {
+    id: "nlin",
+    name: "Nonlinear Sciences",
+    description: "Nonlinear dynamics, chaos and complex systems",
+    categories: [
+      {
+        id: "nlin.AO",
+        name: "Adaptation and Self-Organizing Systems",
+        description:
+          "Adaptation, self-organizing systems, evolutionary models, statistical physics of learning",
+      },
+      {
+        id: "nlin.CD",
+        name: "Chaotic Dynamics",
+        description:
+          "Dynamical systems, chaos, quantum chaos, topological dynamics, turbulence",
+      },
+      {
+        id: "nlin.CG",
+        name: "Cellular Automata and Lattice Gases",
+        description:
+          "Computational methods, time series analysis, signal processing, wavelets, lattice gases",
+      },
+      {
+        id: "nlin.PS",
+        name: "Pattern Formation and Solitons",
+        description: "Pattern formation, coherent structures and solitons",
+      },
+      {
+        id: "nlin.SI",
+        name: "Exactly Solvable and Integrable Systems",
+        description:
+          "Exactly solvable systems, integrable PDEs and ODEs, Painleve analysis",
+      },
+    ],
+  },
+  {
+    id: "nucl-ex",
+    name: "Nuclear Experiment",
+    description:
+      "Experimental results in nuclear physics, from low-energy nuclei to heavy-ion collisions",
+  },
+  {
+    id: "nucl-th",
+    name: "Nuclear Theory",
+    description:
+      "Theory of nuclear structure, reactions, nuclear astrophysics and the quark-gluon plasma",
+  },
+  {
+    id: "physics",
+    name: "Physics",
+    description: "Physics outside the other physics archives",
+    categories: [
+      {
+        id: "physics.acc-ph",
+        name: "Accelerator Physics",
+        description: "Accelerator theory, design, technology and beam physics",
+      },
+      {
+        id: "physics.ao-ph",
+        name: "Atmospheric and Oceanic Physics",
+        description:
+          "Atmospheric and oceanic physics and physical chemistry, biogeophysics, climate science",
+      },
+      {
+        id: "physics.app-ph",
+        name: "Applied Physics",
+        description:
+          "Applications of physics to new technology, including devices, electronics and metamaterials",
+      },
+      {
+        id: "physics.atm-clus",
+        name: "Atomic and Molecular Clusters",
+        description:
+          "Atomic and molecular clusters, nanoparticles: geometric, electronic and optical properties",
+      },
+      {
+        id: "physics.atom-ph",
+        name: "Atomic Physics",
+        description:
+          "Atomic and molecular structure, spectra, collisions; cold atoms and molecules",
+      },
+      {
+        id: "physics.bio-ph",
+        name: "Biological Physics",
+        description: "Molecular, cellular and neurological biophysics",
+      },
+      {
+        id: "physics.chem-ph",
+        name: "Chemical Physics",
+        description:
+          "Experimental, computational and theoretical physics of atoms, molecules and clusters",
+      },
+      {
+        id: "physics.class-ph",
+        name: "Classical Physics",
+        description:
+          "Newtonian and relativistic dynamics, electromagnetism, thermodynamics, acoustics",
+      },
+      {
+        id: "physics.comp-ph",
+        name: "Computational Physics",
+        description: "All aspects of computational science applied to physics",
+      },
+      {
+        id: "physics.data-an",
+        name: "Data Analysis, Statistics and Probability",
+        description: "Methods, software and hardware for physics data analysis",
+      },
+      {
+        id: "physics.ed-ph",
+        name: "Physics Education",
+        description: "Teaching and learning physics",
+      },
+      {
+        id: "physics.flu-dyn",
+        name: "Fluid Dynamics",
+        description:
+          "Turbulence, instabilities, incompressible and compressible flows, multiphase and reacting flows",
+      },
+      {
+        id: "physics.gen-ph",
+        name: "General Physics",
+        description: "Physics that fits no other category",
+      },
+      {
+        id: "physics.geo-ph",
+        name: "Geophysics",
+        description:
+          "Atmospheric physics, biogeosciences, geophysical fluid dynamics, seismology, tectonophysics",
+      },
+      {
+        id: "physics.hist-ph",
+        name: "History and Philosophy of Physics",
+        description: "History and philosophy of all branches of physics",
+      },
+      {
+        id: "physics.ins-det",
+        name: "Instrumentation and Detectors",
+        description:
+          "Instrumentation and detectors for research in natural science",
+      },
+      {
+        id: "physics.med-ph",
+        name: "Medical Physics",
+        description:
+          "Radiation therapy and dosimetry, biomedical imaging, health physics",
+      },
+      {
+        id: "physics.optics",
+        name: "Optics",
+        description:
+          "Adaptive, nonlinear, quantum and ultrafast optics, photonics, lasers, optical devices",
+      },
+      {
+        id: "physics.plasm-ph",
+        name: "Plasma Physics",
+        description:
+          "Fundamental plasma physics, magnetically and inertially confined plasmas, space plasmas",
+      },
+      {
+        id: "physics.pop-ph",
+        name: "Popular Physics",
+        description: "Physics for a general audience",
+      },
+      {
+        id: "physics.soc-ph",
+        name: "Physics and Society",
+        description:
+          "Structure and dynamics of societies and networks, physics of economics and social systems",
+      },
+      {
+        id: "physics.space-ph",
+        name: "Space Physics",
+        description:
+          "Space plasma physics, heliophysics, space weather, planetary magnetospheres",
+      },
+    ],
+  },
+  {
+    id: "quant-ph",
+    name: "Quantum Physics",
+    description:
+      "Quantum mechanics, quantum information and computation, quantum optics",
+  },
+  {
+    id: "math",
+    name: "Mathematics",
+    description: "All areas of mathematics",
+    categories: [
+      {
+        id: "math.AC",
+        name: "Commutative Algebra",
+        description:
+          "Commutative rings, modules, ideals, homological algebra, computational aspects",
+      },
+      {
+        id: "math.AG",
+        name: "Algebraic Geometry",
+        description:
+          "Algebraic varieties, stacks, sheaves, schemes, moduli spaces, complex geometry",
+      },
+      {
+        id: "math.AP",
+        name: "Analysis of PDEs",
+        description:
+          "Existence, uniqueness and qualitative behaviour of solutions to partial differential equations",
+      },
+      {
+        id: "math.AT",
+        name: "Algebraic Topology",
+        description:
+          "Homotopy theory, homological algebra, algebraic treatments of manifolds",
+      },
+      {
+        id: "math.CA",
+        name: "Classical Analysis and ODEs",
+        description:
+          "Special functions, orthogonal polynomials, harmonic analysis, ordinary differential equations",
+      },
+      {
+        id: "math.CO",
+        name: "Combinatorics",
+        description:
+          "Discrete mathematics, graph theory, enumeration, algebraic combinatorics",
+      },
+      {
+        id: "math.CT",
+        name: "Category Theory",
+        description:
+          "Enriched, higher and monoidal categories, topos theory, homotopical algebra",
+      },
+      {
+        id: "math.CV",
+        name: "Complex Variables",
+        description:
+          "Holomorphic functions, automorphic group actions, complex manifolds",
+      },
+      {
+        id: "math.DG",
+        name: "Differential Geometry",
+        description:
+          "Complex, contact, Riemannian and pseudo-Riemannian geometry, geometric analysis",
+      },
+      {
+        id: "math.DS",
+        name: "Dynamical Systems",
+        description:
+          "Dynamics of differential equations and flows, ergodic theory, celestial mechanics",
+      },
+      {
+        id: "math.FA",
+        name: "Functional Analysis",
+        description:
+          "Banach spaces, function spaces, real functions, integral transforms, distributions",
+      },
+      {
+        id: "math.GM",
+        name: "General Mathematics",
+        description: "Mathematical material of general interest",
+      },
+      {
+        id: "math.GN",
+        name: "General Topology",
+        description:
+          "Continuum theory, point-set topology, spaces with algebraic structure, dimension theory",
+      },
+      {
+        id: "math.GR",
+        name: "Group Theory",
+        description:
+          "Finite groups, topological groups, representation theory, cohomology, combinatorial and geometric group theory",
+      },
+      {
+        id: "math.GT",
+        name: "Geometric Topology",
+        description:
+          "Manifolds, orbifolds, polyhedra, cell complexes, foliations, knot theory",
+      },
+      {
+        id: "math.HO",
+        name: "History and Overview",
+        description:
+          "Biographies, philosophy of mathematics, mathematics education, recreational mathematics",
+      },
+      {
+        id: "math.KT",
+        name: "K-Theory and Homology",
+        description:
+          "Algebraic and topological K-theory, cyclic homology, noncommutative topology",
+      },
+      {
+        id: "math.LO",
+        name: "Logic",
+        description:
+          "Logic, set theory, point-set topology, formal mathematics",
+      },
+      {
+        id: "math.MG",
+        name: "Metric Geometry",
+        description:
+          "Euclidean, hyperbolic, discrete, convex and coarse geometry, comparisons in Riemannian geometry",
+      },
+      {
+        id: "math.NA",
+        name: "Numerical Analysis",
+        description:
+          "Numerical algorithms for problems in analysis and algebra, scientific computation",
+      },
+      {
+        id: "math.NT",
+        name: "Number Theory",
+        description:
+          "Prime numbers, diophantine equations, analytic and algebraic number theory, arithmetic geometry",
+      },
+      {
+        id: "math.OA",
+        name: "Operator Algebras",
+        description:
+          "Algebras of operators on Hilbert space, C*-algebras, von Neumann algebras, noncommutative geometry",
+      },
+      {
+        id: "math.OC",
+        name: "Optimization and Control",
+        description:
+          "Operations research, linear programming, control theory, systems theory, optimal control, game theory",
+      },
+      {
+        id: "math.PR",
+        name: "Probability",
+        description:
+          "Theory and applications of probability and stochastic processes",
+      },
+      {
+        id: "math.QA",
+        name: "Quantum Algebra",
+        description:
+          "Quantum groups, skein theories, operadic and diagrammatic algebra, quantum field theory",
+      },
+      {
+        id: "math.RA",
+        name: "Rings and Algebras",
+        description:
+          "Non-commutative rings and algebras, non-associative algebras, universal algebra, linear algebra",
+      },
+      {
+        id: "math.RT",
+        name: "Representation Theory",
+        description:
+          "Linear representations of algebras and groups, Lie theory, associative algebras",
+      },
+      {
+        id: "math.SG",
+        name: "Symplectic Geometry",
+        description:
+          "Hamiltonian systems, symplectic flows, classical integrable systems",
+      },
+      {
+        id: "math.SP",
+        name: "Spectral Theory",
+        description:
+          "Schrodinger operators, operators on manifolds, general differential operators, numerical studies",
+      },
+      {
+        id: "math.ST",
+        name: "Statistics Theory",
+        description:
+          "Applied, computational and theoretical statistics: estimation, testing, inference",
+      },
+    ],
+  },
+  {
+    id: "cs",
+    name: "Computer Science",
+    description: "All areas of computer science",
+    categories: [
+      {
+        id: "cs.AI",
+        name: "Artificial Intelligence",
+        description:
+          "All areas of AI except Vision, Robotics, Machine Learning, Multiagent Systems, and Computation and Language",
+      },
+      {
+        id: "cs.AR",
+        name: "Hardware Architecture",
+        description:
+          "Systems organization and hardware architecture (ACM C.0, C.1, C.5)",
+      },
+      {
+        id: "cs.CC",
+        name: "Computational Complexity",
+        description:
+          "Models of computation, complexity classes, structural complexity, complexity tradeoffs, upper and lower bounds",
+      },
+      {
+        id: "cs.CE",
+        name: "Computational Engineering, Finance, and Science",
+        description:
+          "Applications of computer science to the mathematical modeling of complex systems in science, engineering and finance",
+      },
+      {
+        id: "cs.CG",
+        name: "Computational Geometry",
+        description: "Computational geometry and geometric algorithms",
+      },
+      {
+        id: "cs.CL",
+        name: "Computation and Language",
+        description:
+          "Natural language processing, computational linguistics, and related areas",
+      },
+      {
+        id: "cs.CR",
+        name: "Cryptography and Security",
+        description:
+          "Cryptography, authentication, public key cryptosystems, proof-carrying code and other security topics",
+      },
+      {
+        id: "cs.CV",
+        name: "Computer Vision and Pattern Recognition",
+        description:
+          "Image processing, computer vision, pattern recognition, and scene understanding",
+      },
+      {
+        id: "cs.CY",
+        name: "Computers and Society",
+        description:
+          "Impact of computers on society, computer ethics, information technology and public policy, legal aspects of computing, computers and education",
+      },
+      {
+        id: "cs.DB",
+        name: "Databases",
+        description: "Database management, datamining, and data processing",
+      },
+      {
+        id: "cs.DC",
+        name: "Distributed, Parallel, and Cluster Computing",
+        description:
+          "Fault tolerance, parallel computation, distributed algorithms, clusters and grids",
+      },
+      {
+        id: "cs.DL",
+        name: "Digital Libraries",
+        description:
+          "Design and analysis of algorithms and systems for digital libraries, collections and scholarly communication",
+      },
+      {
+        id: "cs.DM",
+        name: "Discrete Mathematics",
+        description: "Combinatorics, graph theory, applications of probability",
+      },
+      {
+        id: "cs.DS",
+        name: "Data Structures and Algorithms",
+        description: "Data structures and analysis of algorithms",
+      },
+      {
+        id: "cs.ET",
+        name: "Emerging Technologies",
+        description:
+          "Approaches to information processing beyond conventional silicon, such as quantum, optical, biological and nano-scale computing",
+      },
+      {
+        id: "cs.FL",
+        name: "Formal Languages and Automata Theory",
+        description:
+          "Automata theory, formal language theory, grammars, combinatorics on words",
+      },
+      {
+        id: "cs.GL",
+        name: "General Literature",
+        description:
+          "Introductory material, survey material, predictions of future trends, biographies",
+      },
+      {
+        id: "cs.GR",
+        name: "Graphics",
+        description: "All aspects of computer graphics",
+      },
+      {
+        id: "cs.GT",
+        name: "Computer Science and Game Theory",
+        description:
+          "Theoretical and applied aspects at the intersection of computer science and game theory, including mechanism design",
+      },
+      {
+        id: "cs.HC",
+        name: "Human-Computer Interaction",
+        description: "Human factors, user interfaces, collaborative computing",
+      },
+      {
+        id: "cs.IR",
+        name: "Information Retrieval",
+        description: "Indexing, dictionaries, retrieval, content and analysis",
+      },
+      {
+        id: "cs.IT",
+        name: "Information Theory",
+        description:
+          "Theoretical and experimental aspects of information theory and coding",
+      },
+      {
+        id: "cs.LG",
+        name: "Machine Learning",
+        description:
+          "All aspects of machine learning research: supervised, unsupervised, reinforcement learning, robustness, fairness",
+      },
+      {
+        id: "cs.LO",
+        name: "Logic in Computer Science",
+        description:
+          "Logic applied to computer science: finite model theory, logics of programs, modal logic, program verification",
+      },
+      {
+        id: "cs.MA",
+        name: "Multiagent Systems",
+        description:
+          "Multiagent systems, distributed artificial intelligence, intelligent agents, coordinated interactions",
+      },
+      {
+        id: "cs.MM",
+        name: "Multimedia",
+        description: "Multimedia information systems",
+      },
+      {
+        id: "cs.MS",
+        name: "Mathematical Software",
+        description: "Software for mathematical computation",
+      },
+      {
+        id: "cs.NE",
+        name: "Neural and Evolutionary Computing",
+        description:
+          "Neural networks, connectionism, genetic algorithms, artificial life, adaptive behavior",
+      },
+      {
+        id: "cs.NI",
+        name: "Networking and Internet Architecture",
+        description:
+          "Network architecture and design, network protocols, internetworking",
+      },
+      {
+        id: "cs.OH",
+        name: "Other Computer Science",
+        description: "Documents that do not fit anywhere else",
+      },
+      {
+        id: "cs.OS",
+        name: "Operating Systems",
+        description:
+          "Operating systems: process management, storage management, file systems, communications",
+      },
+      {
+        id: "cs.PF",
+        name: "Performance",
+        description:
+          "Performance measurement and evaluation, queueing, and simulation",
+      },
+      {
+        id: "cs.PL",
+        name: "Programming Languages",
+        description:
+          "Programming language semantics, language features, programming approaches",
+      },
+      {
+        id: "cs.RO",
+        name: "Robotics",
+        description: "Robotics (ACM I.2.9)",
+      },
+      {
+        id: "cs.SC",
+        name: "Symbolic Computation",
+        description:
+          "Software and theory for symbolic mathematical computation and computer algebra",
+      },
+      {
+        id: "cs.SD",
+        name: "Sound",
+        description:
+          "Computing with sound: audio analysis, synthesis, music information retrieval, sonification",
+      },
+      {
+        id: "cs.SE",
+        name: "Software Engineering",
+        description:
+          "Design tools, software metrics, testing and debugging, programming environments",
+      },
+      {
+        id: "cs.SI",
+        name: "Social and Information Networks",
+        description:
+          "Design, analysis and modeling of social and information networks",
+      },
+    ],
+  },
+  {
+    id: "econ",
+    name: "Economics",
+    description: "Economics and econometrics",
+    categories: [
+      {
+        id: "econ.EM",
+        name: "Econometrics",
+        description:
+          "Econometric theory and practice: estimation, hypothesis testing, identification, causal inference",
+      },
+      {
+        id: "econ.GN",
+        name: "General Economics",
+        description:
+          "General methodological, applied and empirical contributions to economics",
+      },
+      {
+        id: "econ.TH",
+        name: "Theoretical Economics",
+        description:
+          "Contract theory, decision theory, game theory, general equilibrium, mechanism design, social choice",
+      },
+    ],
+  },
+  {
+    id: "eess",
+    name: "Electrical Engineering and Systems Science",
+    description: "Signal processing, control and electrical engineering",
+    categories: [
+      {
+        id: "eess.AS",
+        name: "Audio and Speech Processing",
+        description: "Processing of speech, music and other audio signals",
+      },
+      {
+        id: "eess.IV",
+        name: "Image and Video Processing",
+        description:
+          "Image and video formation, processing, compression and analysis",
+      },
+      {
+        id: "eess.SP",
+        name: "Signal Processing",
+        description:
+          "Theory, algorithms and applications of signal and data processing",
+      },
+      {
+        id: "eess.SY",
+        name: "Systems and Control",
+        description:
+          "Analysis and design of control systems, robust and optimal control, estimation, cyber-physical systems",
+      },
+    ],
+  },
+  {
+    id: "q-bio",
+    name: "Quantitative Biology",
+    description: "Quantitative and computational biology",
+    categories: [
+      {
+        id: "q-bio.BM",
+        name: "Biomolecules",
+        description:
+          "DNA, RNA, proteins, lipids: molecular structure, folding, interactions",
+      },
+      {
+        id: "q-bio.CB",
+        name: "Cell Behavior",
+        description:
+          "Cell-cell signaling, morphogenesis, development, cell division, immunology",
+      },
+      {
+        id: "q-bio.GN",
+        name: "Genomics",
+        description:
+          "DNA sequencing and assembly, gene finding, genome structure and processes",
+      },
+      {
+        id: "q-bio.MN",
+        name: "Molecular Networks",
+        description:
+          "Gene regulation, signal transduction, proteomics, metabolomics, gene and enzymatic networks",
+      },
+      {
+        id: "q-bio.NC",
+        name: "Neurons and Cognition",
+        description:
+          "Synapses, cortex, neuronal dynamics, neural networks, sensorimotor control, behavior, attention",
+      },
+      {
+        id: "q-bio.OT",
+        name: "Other Quantitative Biology",
+        description:
+          "Work that does not fit the other quantitative biology classes",
+      },
+      {
+        id: "q-bio.PE",
+        name: "Populations and Evolution",
+        description:
+          "Population dynamics, epidemiology, evolution of viruses and organisms, ecology, phylogeny",
+      },
+      {
+        id: "q-bio.QM",
+        name: "Quantitative Methods",
+        description:
+          "Experimental, numerical, statistical and mathematical contributions of value to biology",
+      },
+      {
+        id: "q-bio.SC",
+        name: "Subcellular Processes",
+        description:
+          "Assembly and control of subcellular structures, molecular motors, transport, mitosis",
+      },
+      {
+        id: "q-bio.TO",
+        name: "Tissues and Organs",
+        description:
+          "Blood flow in vessels, biomechanics of bones, electrical waves, endocrine system, tumor growth",
+      },
+    ],
+  },
+  {
+    id: "q-fin",
+    name: "Quantitative Finance",
+    description: "Quantitative and computational finance",
+    categories: [
+      {
+        id: "q-fin.CP",
+        name: "Computational Finance",
+        description:
+          "Computational methods in finance, including Monte Carlo, PDE, lattice and other numerical methods",
+      },
+      {
+        id: "q-fin.GN",
+        name: "General Finance",
+        description:
+          "Development of general quantitative methodologies with applications in finance",
+      },
+      {
+        id: "q-fin.MF",
+        name: "Mathematical Finance",
+        description:
+          "Mathematical and analytical methods of finance, including stochastic, probabilistic and functional analysis",
+      },
+      {
+        id: "q-fin.PM",
+        name: "Portfolio Management",
+        description:
+          "Security selection and optimization, capital allocation, investment strategies and performance measurement",
+      },
+      {
+        id: "q-fin.PR",
+        name: "Pricing of Securities",
+        description:
+          "Valuation and hedging of financial securities, their derivatives and structured products",
+      },
+      {
+        id: "q-fin.RM",
+        name: "Risk Management",
+        description:
+          "Measurement and management of financial risks in trading, banking, insurance, corporate and other applications",
+      },
+      {
+        id: "q-fin.ST",
+        name: "Statistical Finance",
+        description:
+          "Statistical, econometric and econophysics analyses with applications to financial markets",
+      },
+      {
+        id: "q-fin.TR",
+        name: "Trading and Market Microstructure",
+        description:
+          "Market microstructure, liquidity, exchange and auction design, automated trading, agent-based modeling",
+      },
+    ],
+  },
+  {
+    id: "stat",
+    name: "Statistics",
+    description: "Statistical theory, methods and applications",
+    categories: [
+      {
+        id: "stat.AP",
+        name: "Applications",
+        description:
+          "Biology, education, epidemiology, engineering, environmental sciences, medical, physical sciences, quality control, social sciences",
+      },
+      {
+        id: "stat.CO",
+        name: "Computation",
+        description: "Algorithms, simulation and visualization",
+      },
+      {
+        id: "stat.ME",
+        name: "Methodology",
+        description:
+          "Design, surveys, model selection, multiple testing, multivariate methods, signal and image processing, time series, smoothing, spatial statistics, survival analysis, nonparametric and semiparametric methods",
+      },
+      {
+        id: "stat.ML",
+        name: "Machine Learning",
+        description:
+          "Machine learning papers with a statistical or theoretical grounding",
+      },
+      {
+        id: "stat.OT",
+        name: "Other Statistics",
+        description: "Work that does not fit the other statistics classes",
+      },
+    ],
+  },
+];
+
+// Alias -> the category arXiv files it under: cross-listed subject classes
+// and archives that were merged into newer categories
+const ARXIV_ALIASES: Record<string, string> = {
+  "math.MP": "math-ph",
+  "stat.TH": "math.ST",
+  "math.IT": "cs.IT",
+  "cs.NA": "math.NA",
+  "cs.SY": "eess.SY",
+  "q-fin.EC": "econ.GN",
+  "adap-org": "nlin.AO",
+  "chao-dyn": "nlin.CD",
+  "comp-gas": "nlin.CG",
+  "patt-sol": "nlin.PS",
+  "solv-int": "nlin.SI",
+  "cmp-lg": "cs.CL",
+  "alg-geom": "math.AG",
+  "dg-ga": "math.DG",
+  "funct-an": "math.FA",
+  "q-alg": "math.QA",
+  "mtrl-th": "cond-mat.mtrl-sci",
+  "supr-con": "cond-mat.supr-con",
+  "acc-phys": "physics.acc-ph",
+  "ao-sci": "physics.ao-ph",
+  "atom-ph": "physics.atom-ph",
+  "bayes-an": "physics.data-an",
+  "chem-ph": "physics.chem-ph",
+  "plasm-ph": "physics.plasm-ph",
+};
+
+const aliasesOf = (id: string): string[] =>
+  Object.keys(ARXIV_ALIASES).filter((alias) => ARXIV_ALIASES[alias] === id);
+
+const withAliases = (category: Category): Category => {
+  const aliases = aliasesOf(category.id);
+  return aliases.length > 0 ? { ...category, aliases } : category;
+};
+
+// Archives first, then their categories in taxonomy order
+export const ARXIV_TAXONOMY: Category[] = [
+  ...ARXIV_ARCHIVES.map(({ id, name, description }) =>
+    withAliases({ id, name, description }),
+  ),
+  ...ARXIV_ARCHIVES.flatMap((archive) =>
+    (archive.categories ?? []).map((category) =>
+      withAliases({ ...category, parent: archive.id }),
+    ),
+  ),
+];
+
+/**
+ * Look up an archive or category code, case-insensitively. Aliases
+ * resolve to the category arXiv files them under.
+ */
+export function findArxivCategory(code: string): Category | undefined {
+  const wanted = code.trim().toLowerCase();
+  const alias = Object.keys(ARXIV_ALIASES).find(
+    (key) => key.toLowerCase() === wanted,
+  );
+  const id = alias ? ARXIV_ALIASES[alias].toLowerCase() : wanted;
+  return ARXIV_TAXONOMY.find((category) => category.id.toLowerCase() === id);
+}
+
+/**
+ * Categories in an archive; empty for leaf categories and archives
+ * without subject classes
+ */
+export function arxivSubcategories(id: string): Category[] {
+  return ARXIV_TAXONOMY.filter((category) => category.parent === id);
+}
+
+/**
+ * The codes closest to an unknown one, by edit distance, for "did you
+ * mean" suggestions
+ */
+export function suggestArxivCategories(code: string, limit = 3): string[] {
+  const wanted = code.trim().toLowerCase();
+  const codes = [
+    ...ARXIV_TAXONOMY.map((category) => category.id),
+    ...Object.keys(ARXIV_ALIASES),
+  ];
+
+  return codes
+    .map((id) => ({ id, distance: editDistance(wanted, id.toLowerCase()) }))
+    .filter(({ distance }) => distance <= Math.max(2, wanted.length / 3))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ id }) => id);
+}
+
+// Levenshtein distance, one row at a time
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -1,9 +1,39 @@
-import { Category, PaperMetadata } from "../types/papers.js";
-import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { AcquireOptions, RateLimitBucket } from "../types/sources.js";
+import { RateLimiter, ReleaseSlot } from "../core/rate-limiter.js";
+import { NotAvailableError } from "../core/errors.js";
+import { getHttpClient, HttpClient } from "../core/http-client.js";
+import { logError, logInfo, logWarn } from "../core/logger.js";
+import { HtmlExtractor } from "../extractors/html-extractor.js";
+import { JatsExtractor } from "../extractors/jats-extractor.js";
+import { PdfExtractor } from "../extractors/pdf-extractor.js";
+import { TextExtractionResult } from "../extractors/base-extractor.js";
+import { getConfig } from "../config/config.js";
+import type { SciHarvesterConfig } from "../config/schemas.js";
+
+// Where a paper's full text can be read: JATS XML, a page (arXiv HTML or a
+// landing page) and a PDF, tried in that order
+export interface FullTextLinks {
+  jats?: string;
+  html?: string;
+  pdf?: string;
+}
+
+interface FullTextExtractors {
+  jats: JatsExtractor;
+  html: HtmlExtractor;
+  pdf: PdfExtractor;
+}
 
 export abstract class BaseDriver {
   protected rateLimiter: RateLimiter;
   protected source: string;
+  private fullTextExtractors?: FullTextExtractors;
 
   constructor(rateLimiter: RateLimiter, source: string) {
     this.rateLimiter = rateLimiter;
@@ -39,16 +69,214 @@ export abstract class BaseDriver {
   ): Promise<PaperMetadata[]>;
 
   /**
-   * Check rate limit before making requests
+   * Fetch the most cited papers for a concept since a date.
+   * Only drivers registered with the "topCited" capability override this.
+   */
+  async fetchTopCited(
+    concept: string,
+    since: string,
+    count: number,
+  ): Promise<PaperMetadata[]> {
+    throw new NotAvailableError(
+      `Top cited papers are not supported by ${this.source}`,
+      { source: this.source },
+    );
+  }
+
+  /**
+   * Page-aware variant of fetchLatest. `position` is the `next` of the
+   * previous page. Drivers that can resume upstream paging override the
+   * *Page methods; the defaults serve a single page with no `next`.
+   */
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    this.assertFirstPage(position);
+    return { papers: await this.fetchLatest(category, count) };
+  }
+
+  /**
+   * Page-aware variant of searchPapers
+   */
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    this.assertFirstPage(position);
+    return { papers: await this.searchPapers(query, field, count, sortBy) };
+  }
+
+  /**
+   * Page-aware variant of fetchTopCited
+   */
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    this.assertFirstPage(position);
+    return { papers: await this.fetchTopCited(concept, since, count) };
+  }
+
+  private assertFirstPage(position?: PagePosition): void {
+    if (position) {
+      throw new NotAvailableError(
+        `Pagination is not supported by ${this.source}`,
+        { source: this.source },
+      );
+    }
+  }
+
+  /**
+   * Fill in `text` and `document` from JATS, then the page, falling back to
+   * the PDF, or from the PDF alone. PDFs are only ever read by the PDF
+   * extractor. Sets `textExtractionFailed` when none gives any text. Call
+   * it after releasing the API slot: it waits on the full-text bucket.
    */
-  protected checkRateLimit(): boolean {
-    return this.rateLimiter.checkRateLimit(this.source);
+  protected async readFullText(
+    paper: PaperMetadata,
+    links: FullTextLinks,
+  ): Promise<void> {
+    const url = links.jats ?? links.html ?? links.pdf;
+    if (!url) {
+      logInfo("Skipping text extraction - no full-text links", {
+        source: this.source,
+        id: paper.id,
+      });
+      paper.textExtractionFailed = true;
+      return;
+    }
+
+    let release: ReleaseSlot;
+    try {
+      release = await this.acquire({ bucket: "fulltext" });
+    } catch {
+      logWarn("Rate limited for text extraction", {
+        source: this.source,
+        id: paper.id,
+      });
+      paper.textExtractionFailed = true;
+      return;
+    }
+
+    try {
+      const extractionResult = await this.extractFrom(links);
+
+      if (extractionResult.extractionSuccess) {
+        paper.text = extractionResult.text;
+        if (extractionResult.document) {
+          paper.document = extractionResult.document;
+        }
+        if (extractionResult.truncated) paper.textTruncated = true;
+        logInfo("Text extraction successful", {
+          source: this.source,
+          id: paper.id,
+          textLength: paper.text.length,
+          extractor: extractionResult.source,
+        });
+      } else {
+        paper.textExtractionFailed = true;
+        logWarn("Text extraction failed", {
+          source: this.source,
+          id: paper.id,
+          url,
+        });
+      }
+    } catch (error) {
+      paper.textExtractionFailed = true;
+      logError("Error during text extraction", {
+        source: this.source,
+        id: paper.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * The first successful extraction of the links, in JATS, page, PDF order
+   */
+  private async extractFrom(
+    links: FullTextLinks,
+  ): Promise<TextExtractionResult> {
+    const extractors = this.fullTextExtractor();
+
+    if (links.jats) {
+      const result = await extractors.jats.extractText(links.jats);
+      // The JATS may lack a body, e.g. when the publisher withholds it
+      if (result.extractionSuccess || (!links.html && !links.pdf)) {
+        return result;
+      }
+    }
+    if (links.html) {
+      return extractors.html.extractText(
+        links.html,
+        links.pdf !== links.html ? links.pdf : undefined,
+      );
+    }
+    return extractors.pdf.extractText(links.pdf!);
+  }
+
+  /**
+   * Extractors for readFullText, created on first use
+   */
+  private fullTextExtractor(): FullTextExtractors {
+    this.fullTextExtractors ??= {
+      jats: new JatsExtractor(this.config.extraction),
+      html: new HtmlExtractor(this.config.extraction),
+      pdf: new PdfExtractor(this.config.extraction, {
+        maxSizeMB: 50,
+        timeoutMs: 120000,
+        maxPages: 100,
+        requireConfirmation: false,
+        interactive: false,
+      }),
+    };
+    return this.fullTextExtractors;
+  }
+
+  /**
+   * Wait for a rate limit token and concurrency slot. Call the returned
+   * function when the request is done.
+   */
+  protected acquire(options: AcquireOptions = {}): Promise<ReleaseSlot> {
+    return this.rateLimiter.acquire(this.source, options);
+  }
+
+  /**
+   * Take a token only if one is free right now, e.g. for optional
+   * full-text fetches that are skipped rather than waited for
+   */
+  protected checkRateLimit(bucket: RateLimitBucket = "api"): boolean {
+    return this.rateLimiter.checkRateLimit(this.source, bucket);
   }
 
   /**
    * Get retry after time if rate limited
    */
-  protected getRetryAfter(): number {
-    return this.rateLimiter.getRetryAfter(this.source);
+  protected getRetryAfter(bucket: RateLimitBucket = "api"): number {
+    return this.rateLimiter.getRetryAfter(this.source, bucket);
+  }
+
+  /**
+   * Shared HTTP client, looked up per request so a client swapped in with
+   * setHttpClient() takes effect for existing drivers
+   */
+  protected get http(): HttpClient {
+    return getHttpClient();
+  }
+
+  /**
+   * Process-wide configuration: API keys, extraction toggles and limits
+   */
+  protected get config(): SciHarvesterConfig {
+    return getConfig();
   }
 }
@@ -2,18 +2,40 @@
  * bioRxiv/medRxiv Driver - Week 4 Implementation
  *
  * Provides access to bioRxiv and medRxiv preprint servers
- * Uses JSON API with date-based querying and incremental harvest
+ * Uses JSON API with date-based querying and incremental harvest;
+ * search runs against a local index of recent postings (biorxiv-index.ts)
  */
 
 import axios from "axios";
 import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
-import { DEFAULT_TEXT_EXTRACTION_CONFIG } from "../config/constants.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset, readToken } from "../core/pagination.js";
+import {
+  BIORXIV_INDEX_DAYS,
+  BioRxivIndex,
+  IndexSearch,
+  PreprintServer,
+  searchIndex,
+  toSubject,
+} from "./biorxiv-index.js";
 
-interface BioRxivPaper {
+export interface BioRxivPaper {
   doi: string;
   title: string;
   authors: string;
@@ -25,8 +47,10 @@ interface BioRxivPaper {
   category: string;
   jatsxml: string; // URL to JATS XML
   abstract: string;
-  published?: string; // Published date if peer-reviewed
+  published?: string; // Journal DOI once peer-reviewed, "NA" otherwise
+  license?: string; // e.g. "cc_by_nc_nd"
   server: "biorxiv" | "medrxiv";
+  indexedAt?: number; // epoch ms, set when the search index reads it
 }
 
 interface BioRxivResponse {
@@ -38,8 +62,14 @@ interface BioRxivResponse {
   collection: BioRxivPaper[];
 }
 
+// Upper bound on details calls spent filling one page of a narrow subject
+const MAX_DETAILS_REQUESTS_PER_PAGE = 5;
+
+// Upper bound on details calls one search spends extending the index
+const MAX_INDEX_REQUESTS_PER_SEARCH = 5;
+
 export class BioRxivDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
+  private readonly index = new BioRxivIndex();
   private readonly bioRxivApiBase = "https://api.biorxiv.org";
   private readonly medRxivApiBase = "https://api.medrxiv.org";
 
@@ -407,7 +437,6 @@ export class BioRxivDriver extends BaseDriver {
 
   constructor(rateLimiter: RateLimiter) {
     super(rateLimiter, "biorxiv");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
   }
 
   /**
@@ -437,14 +466,21 @@ export class BioRxivDriver extends BaseDriver {
    * Fetch latest papers from bioRxiv/medRxiv for a given category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest bioRxiv/medRxiv papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  /**
+   * Walk the last 30 days of the server's details feed in API order,
+   * 100 records per call, keeping those in the requested subject. The
+   * window is pinned on the first page so later pages don't shift, and
+   * the position records how many feed records have been consumed.
+   */
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching latest bioRxiv/medRxiv papers", { category, count });
@@ -457,64 +493,80 @@ export class BioRxivDriver extends BaseDriver {
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - 30);
 
-      const fromDate = startDate.toISOString().split("T")[0];
-      const toDate = endDate.toISOString().split("T")[0];
+      const fromDate =
+        readToken(position, "from") ?? startDate.toISOString().split("T")[0];
+      const toDate =
+        readToken(position, "to") ?? endDate.toISOString().split("T")[0];
 
-      // Build API URL
-      const apiBase =
-        server === "medrxiv" ? this.medRxivApiBase : this.bioRxivApiBase;
-      const url = `${apiBase}/details/${server}/${fromDate}/${toDate}`;
+      let offset = readOffset(position, "offset");
+      let total = Infinity;
+      let requests = 0;
+      const matches: BioRxivPaper[] = [];
 
-      const response = await axios.get<BioRxivResponse>(url, {
-        params: {
-          server: server,
-          format: "json",
-        },
-        timeout: 15000,
-        headers: {
-          "User-Agent":
-            "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); bioRxiv-client",
-        },
-      });
+      while (matches.length < count && offset < total) {
+        if (requests === MAX_DETAILS_REQUESTS_PER_PAGE) break;
+        // The first call was paid for above
+        if (requests > 0 && !this.checkRateLimit()) break;
+        requests++;
 
-      if (!response.data || !response.data.collection) {
-        logWarn("bioRxiv/medRxiv API returned unexpected response format", {
-          category,
+        const response = await this.fetchDetails(
           server,
-          responseData: response.data,
-        });
-        return [];
-      }
+          fromDate,
+          toDate,
+          offset,
+        );
+
+        if (!response || !response.collection) {
+          logWarn("bioRxiv/medRxiv API returned unexpected response format", {
+            category,
+            server,
+            responseData: response,
+          });
+          break;
+        }
 
-      let papers = response.data.collection;
+        const records = response.collection;
+        total = Number(response.messages?.[0]?.total ?? 0);
+        if (records.length === 0) break;
 
-      // Filter by category if specific subject provided
-      if (subject !== "all") {
-        papers = papers.filter(
-          (paper) =>
-            paper.category &&
-            paper.category.toLowerCase().includes(subject.toLowerCase()),
-        );
+        // Consume record by record so the next page resumes exactly where
+        // this one stopped, even mid-way through a details call
+        for (const paper of records) {
+          if (matches.length >= count) break;
+          offset++;
+
+          // Filter by category if specific subject provided
+          if (
+            subject === "all" ||
+            (paper.category &&
+              paper.category.toLowerCase().includes(subject.toLowerCase()))
+          ) {
+            matches.push(paper);
+          }
+        }
       }
 
-      // Sort by date (newest first) and limit count
-      papers = papers
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, Math.min(count, 100));
+      const next =
+        offset < total ? { from: fromDate, to: toDate, offset } : undefined;
 
-      if (papers.length === 0) {
+      if (matches.length === 0) {
         logWarn("No bioRxiv/medRxiv papers found for category", {
           category,
           server,
           subject,
         });
-        return [];
+        return { papers: [], next };
       }
 
+      // Newest first within the page
+      matches.sort(
+        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+      );
+
       // Convert to PaperMetadata format (metadata only)
-      const validPapers = papers.filter((paper) => paper.title && paper.doi);
-      const paperMetadata = await Promise.all(
-        validPapers.map((paper) => this.convertPaperToMetadata(paper, false)),
+      const validPapers = matches.filter((paper) => paper.title && paper.doi);
+      const paperMetadata = validPapers.map((paper) =>
+        this.convertPaperToMetadata(paper),
       );
 
       logInfo("Successfully fetched bioRxiv/medRxiv latest papers", {
@@ -523,7 +575,7 @@ export class BioRxivDriver extends BaseDriver {
         server,
       });
 
-      return paperMetadata;
+      return { papers: paperMetadata, next };
     } catch (error) {
       logError("Failed to fetch latest bioRxiv/medRxiv papers", {
         error: error instanceof Error ? error.message : error,
@@ -533,30 +585,84 @@ export class BioRxivDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by bioRxiv/medRxiv API");
+          throw new RateLimitedError("Rate limited by bioRxiv/medRxiv API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("bioRxiv/medRxiv API server error");
+          throw new SourceDownError("bioRxiv/medRxiv API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "bioRxiv/medRxiv API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
+  /**
+   * One call to the details endpoint: up to 100 records of the date
+   * interval, starting at record `cursor`
+   */
+  private async fetchDetails(
+    server: "biorxiv" | "medrxiv",
+    fromDate: string,
+    toDate: string,
+    cursor: number,
+  ): Promise<BioRxivResponse | undefined> {
+    const apiBase =
+      server === "medrxiv" ? this.medRxivApiBase : this.bioRxivApiBase;
+    const url = `${apiBase}/details/${server}/${fromDate}/${toDate}/${cursor}`;
+
+    const response = await this.http.get<BioRxivResponse>(url, {
+      params: {
+        server: server,
+        format: "json",
+      },
+    });
+
+    return response.data;
+  }
+
   /**
    * Fetch content for a specific bioRxiv/medRxiv paper by DOI
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching bioRxiv/medRxiv paper content", {
-        retryAfter,
-        id,
+    const details = await this.fetchPaper(id);
+    const paper = this.convertPaperToMetadata(details);
+
+    // The JATS source file, then the paper HTML page
+    await this.readFullText(paper, {
+      jats: details.jatsxml,
+      html: this.paperUrl(details),
+    });
+    if (paper.textExtractionFailed && details.abstract) {
+      paper.text = `Abstract: ${details.abstract}`;
+      delete paper.textExtractionFailed;
+      logInfo("Using abstract as text content for bioRxiv/medRxiv paper", {
+        id: details.doi,
+        textLength: paper.text.length,
       });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
     }
 
+    logInfo("Successfully fetched bioRxiv/medRxiv paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The details record of a paper by DOI, from whichever server has it
+   */
+  private async fetchPaper(id: string): Promise<BioRxivPaper> {
+    const release = await this.acquire();
+
     try {
       logInfo("Fetching bioRxiv/medRxiv paper content", { id });
 
@@ -569,16 +675,11 @@ export class BioRxivDriver extends BaseDriver {
             server === "medrxiv" ? this.medRxivApiBase : this.bioRxivApiBase;
           const url = `${apiBase}/details/doi/${id}`;
 
-          const response = await axios.get<BioRxivResponse>(url, {
+          const response = await this.http.get<BioRxivResponse>(url, {
             params: {
               server: server,
               format: "json",
             },
-            timeout: 15000,
-            headers: {
-              "User-Agent":
-                "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); bioRxiv-client",
-            },
           });
 
           if (
@@ -586,21 +687,7 @@ export class BioRxivDriver extends BaseDriver {
             response.data.collection &&
             response.data.collection.length > 0
           ) {
-            const paper = response.data.collection[0];
-
-            // Convert to paper format with full text extraction
-            const paperMetadata = await this.convertPaperToMetadata(
-              paper,
-              true,
-            );
-
-            logInfo("Successfully fetched bioRxiv/medRxiv paper content", {
-              id,
-              title: paperMetadata.title,
-              server,
-            });
-
-            return paperMetadata;
+            return response.data.collection[0];
           }
         } catch (serverError) {
           logWarn(`Failed to fetch from ${server}`, {
@@ -613,7 +700,10 @@ export class BioRxivDriver extends BaseDriver {
         }
       }
 
-      throw new Error(`Paper with DOI ${id} not found on bioRxiv or medRxiv`);
+      throw new NotFoundError(
+        `Paper with DOI ${id} not found on bioRxiv or medRxiv`,
+        { source: this.source },
+      );
     } catch (error) {
       logError("Failed to fetch bioRxiv/medRxiv paper content", {
         error: error instanceof Error ? error.message : error,
@@ -622,23 +712,34 @@ export class BioRxivDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
-          throw new Error(`Paper with DOI ${id} not found on bioRxiv/medRxiv`);
+          throw new NotFoundError(
+            `Paper with DOI ${id} not found on bioRxiv/medRxiv`,
+            { source: this.source },
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by bioRxiv/medRxiv API");
+          throw new RateLimitedError("Rate limited by bioRxiv/medRxiv API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("bioRxiv/medRxiv API server error");
+          throw new SourceDownError("bioRxiv/medRxiv API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "bioRxiv/medRxiv API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
-   * Search for papers with query and field-specific options
-   * Note: bioRxiv/medRxiv API has limited search capabilities
+   * Search postings of the last BIORXIV_INDEX_DAYS days
    */
   async searchPapers(
     query: string,
@@ -646,22 +747,232 @@ export class BioRxivDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    // bioRxiv/medRxiv API does not support advanced search functionality
-    // This is a placeholder implementation that throws an appropriate error
-    throw new Error(
-      "Search functionality is not supported by bioRxiv/medRxiv API. " +
-      "The API only supports date-based retrieval and category filtering. " +
-      "Please use fetch_latest with specific categories instead."
-    );
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  /**
+   * The API cannot search, so a first page spends a few details calls
+   * extending the local index, newest days first, then matches against
+   * it. Later pages page through the index as it was for the first page,
+   * so postings indexed in between don't shift them. Every page reports
+   * how much of the window the index covers.
+   */
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const search = this.parseSearch(query, field);
+    logInfo("Searching bioRxiv/medRxiv index", {
+      query,
+      field,
+      count,
+      sortBy,
+    });
+
+    // A failed update still leaves what was indexed before to search
+    let updateError: unknown;
+    if (!position) {
+      try {
+        await this.updateIndex(search.servers);
+      } catch (error) {
+        updateError = error;
+        logWarn("Failed to update bioRxiv/medRxiv search index", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    // Cursors pin the time of the first page's index
+    const asOf =
+      position?.as_of === undefined
+        ? Date.now()
+        : readOffset(position, "as_of");
+    const { papers, freshness } = await this.index.load(search.servers, asOf);
+    if (updateError && freshness.papers === 0) {
+      throw this.toSourceError(updateError);
+    }
+
+    if (sortBy === "citations") {
+      logWarn("bioRxiv/medRxiv has no citation counts, using date", {
+        query,
+      });
+    }
+
+    const matches = searchIndex(papers, search, sortBy);
+    const offset = readOffset(position, "offset");
+    const end = offset + count;
+    const page = matches
+      .slice(offset, end)
+      .map((paper) => this.convertPaperToMetadata(paper));
+
+    logInfo("bioRxiv/medRxiv search completed", {
+      query,
+      field,
+      resultsFound: matches.length,
+      indexed: freshness.papers,
+      pendingDays: freshness.pending_days,
+    });
+
+    return {
+      papers: page,
+      next: end < matches.length ? { offset: end, as_of: asOf } : undefined,
+      index: freshness,
+    };
+  }
+
+  /**
+   * Read the details feed into the index, one day and server at a time,
+   * newest first, stopping when the request budget is spent
+   */
+  private async updateIndex(servers: PreprintServer[]): Promise<void> {
+    const pending: Array<{ server: PreprintServer; date: string }> = [];
+    for (const date of this.index.window()) {
+      for (const server of servers) {
+        if (this.index.needsHarvest(date, await this.index.day(server, date))) {
+          pending.push({ server, date });
+        }
+      }
+    }
+    if (pending.length === 0) return;
+
+    const release = await this.acquire();
+    let requests = 0;
+
+    try {
+      harvest: for (const { server, date } of pending) {
+        let day = (await this.index.day(server, date)) ?? {
+          papers: [],
+          cursor: 0,
+          total: 0,
+          harvestedAt: 0,
+        };
+
+        do {
+          if (requests === MAX_INDEX_REQUESTS_PER_SEARCH) break harvest;
+          // The first call was paid for above
+          if (requests > 0 && !this.checkRateLimit()) break harvest;
+          requests++;
+
+          const response = await this.fetchDetails(
+            server,
+            date,
+            date,
+            day.cursor,
+          );
+          const records = response?.collection ?? [];
+          const indexedAt = Date.now();
+
+          // Past the end the feed answers with no records and no total
+          day = {
+            papers: [
+              ...day.papers,
+              ...records.map((paper) => ({ ...paper, server, indexedAt })),
+            ],
+            cursor: day.cursor + records.length,
+            total:
+              records.length > 0
+                ? Number(response?.messages?.[0]?.total ?? 0)
+                : day.cursor,
+            harvestedAt: indexedAt,
+          };
+          await this.index.saveDay(server, date, day);
+        } while (day.cursor < day.total);
+      }
+    } finally {
+      release();
+    }
+
+    logInfo("Updated bioRxiv/medRxiv search index", {
+      requests,
+      pending: pending.length,
+    });
+  }
+
+  /**
+   * Split `server:` and `category:` filters off the query and break the
+   * rest into lowercase terms, keeping quoted phrases whole
+   */
+  private parseSearch(query: string, field: string): IndexSearch {
+    if (field === "fulltext") {
+      throw new InvalidQueryError(
+        "bioRxiv/medRxiv search does not cover full text",
+        {
+          source: this.source,
+          suggestions: [
+            "Use field 'all', 'title', 'abstract' or 'author'",
+            "Search source 'europepmc' for preprint full text",
+          ],
+        },
+      );
+    }
+
+    let servers: PreprintServer[] = ["biorxiv", "medrxiv"];
+    let subject: string | undefined;
+
+    const text = query
+      .replace(
+        /\b(server|category):(\S+)/gi,
+        (_, name: string, value: string) => {
+          if (name.toLowerCase() === "server") {
+            const server = value.toLowerCase();
+            if (server !== "biorxiv" && server !== "medrxiv") {
+              throw new InvalidQueryError(`Unknown preprint server: ${value}`, {
+                source: this.source,
+                suggestions: ["Use server:biorxiv or server:medrxiv"],
+              });
+            }
+            servers = [server];
+          } else if (value.includes(":")) {
+            // A fetch_latest category such as "medrxiv:oncology"
+            const category = this.parseCategory(value);
+            servers = [category.server];
+            subject = category.subject === "all" ? undefined : category.subject;
+          } else {
+            subject = toSubject(value);
+          }
+          return " ";
+        },
+      )
+      .trim();
+
+    const terms = (text.match(/"[^"]+"|\S+/g) ?? [])
+      .map((term) => term.replace(/"/g, "").trim().toLowerCase())
+      .filter(Boolean);
+
+    if (terms.length === 0 && !subject) {
+      throw new InvalidQueryError("Search query is empty", {
+        source: this.source,
+      });
+    }
+
+    return { terms, field, servers, subject };
+  }
+
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status === 429) {
+      return new RateLimitedError("Rate limited by bioRxiv/medRxiv API", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("bioRxiv/medRxiv API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "bioRxiv/medRxiv API", this.source);
   }
 
   /**
    * Convert bioRxiv/medRxiv paper to PaperMetadata format
    */
-  private async convertPaperToMetadata(
-    paper: BioRxivPaper,
-    includeText: boolean = false,
-  ): Promise<PaperMetadata> {
+  private convertPaperToMetadata(paper: BioRxivPaper): PaperMetadata {
     // Parse authors string into array
     const authors = paper.authors
       .split(/[,;]|and\s/)
@@ -671,93 +982,46 @@ export class BioRxivDriver extends BaseDriver {
     // Format date to ISO format
     const date = paper.date || new Date().toISOString().split("T")[0];
 
-    // Construct URLs
-    const server =
-      paper.server || (paper.doi.includes("medrxiv") ? "medrxiv" : "biorxiv");
-    const paperUrl = `https://www.${server}.org/content/10.1101/${paper.doi}`;
-    const pdfUrl = `${paperUrl}.full.pdf`;
+    const server = this.serverOf(paper);
+    const pdfUrl = `${this.paperUrl(paper)}.full.pdf`;
 
     // Create base paper object
-    const paperMetadata: PaperMetadata = {
-      id: paper.doi,
-      title: paper.title || "Untitled",
-      authors,
-      date,
-      pdf_url: pdfUrl,
-      text: "", // Always include text field, empty for metadata-only
-    };
-
-    // Only extract text if requested (for fetch_content)
-    if (includeText) {
-      let textTruncated = false;
-      let textExtractionFailed = false;
+    const paperMetadata = withExtendedMetadata(
+      {
+        id: paper.doi,
+        title: paper.title || "Untitled",
+        authors,
+        date,
+        pdf_url: pdfUrl,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: paper.abstract,
+        doi: paper.doi,
+        venue: server === "medrxiv" ? "medRxiv" : "bioRxiv",
+        publisher: "Cold Spring Harbor Laboratory",
+        open_access: true,
+        oa_status: "green",
+        license: paper.license,
+        subjects: [paper.category],
+        source_url: `https://doi.org/${paper.doi}`,
+      },
+    );
 
-      try {
-        // Strategy 1: Try to extract from paper HTML page
-        if (this.checkRateLimit()) {
-          try {
-            const extractionResult =
-              await this.textExtractor.extractText(paperUrl);
-            if (extractionResult.extractionSuccess) {
-              paperMetadata.text = extractionResult.text;
-              textTruncated = extractionResult.truncated;
-              logInfo("Text extraction successful from bioRxiv/medRxiv HTML", {
-                id: paper.doi,
-                server,
-                textLength: paperMetadata.text.length,
-                truncated: textTruncated,
-              });
-            } else {
-              throw new Error("HTML extraction failed");
-            }
-          } catch (htmlError) {
-            // Strategy 2: Use abstract as fallback
-            if (paper.abstract && paper.abstract.length > 0) {
-              paperMetadata.text = `Abstract: ${paper.abstract}`;
-              logInfo(
-                "Using abstract as text content for bioRxiv/medRxiv paper",
-                {
-                  id: paper.doi,
-                  server,
-                  textLength: paperMetadata.text.length,
-                },
-              );
-            } else {
-              textExtractionFailed = true;
-              logWarn(
-                "All text extraction strategies failed for bioRxiv/medRxiv paper",
-                {
-                  id: paper.doi,
-                  server,
-                  htmlError:
-                    htmlError instanceof Error ? htmlError.message : htmlError,
-                },
-              );
-            }
-          }
-        } else {
-          textExtractionFailed = true;
-          logWarn("Rate limited for text extraction", { id: paper.doi });
-        }
-      } catch (error) {
-        textExtractionFailed = true;
-        logError("Error during text extraction for bioRxiv/medRxiv paper", {
-          id: paper.doi,
-          server,
-          error: error instanceof Error ? error.message : error,
-        });
-      }
+    return paperMetadata;
+  }
 
-      // Add warning flags if needed
-      if (textTruncated) {
-        paperMetadata.textTruncated = true;
-      }
-      if (textExtractionFailed) {
-        paperMetadata.textExtractionFailed = true;
-      }
-    }
+  private serverOf(paper: BioRxivPaper): PreprintServer {
+    return (
+      paper.server || (paper.doi.includes("medrxiv") ? "medrxiv" : "biorxiv")
+    );
+  }
 
-    return paperMetadata;
+  /**
+   * The paper's page on its server
+   */
+  private paperUrl(paper: BioRxivPaper): string {
+    return `https://www.${this.serverOf(paper)}.org/content/10.1101/${paper.doi}`;
   }
 
   /**
@@ -799,3 +1063,18 @@ export class BioRxivDriver extends BaseDriver {
     }
   }
 }
+
+export const bioRxivSource: SourceDefinition = {
+  id: "biorxiv",
+  name: "bioRxiv/medRxiv",
+  description: `bioRxiv/medRxiv preprints - Latest biology/medicine preprints, searchable over the last ${BIORXIV_INDEX_DAYS} days`,
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "'biorxiv:neuroscience', 'medrxiv:oncology', 'biology'",
+  idHint: "DOI like '10.1101/2024.01.01.123456'",
+  contentHint: "Variable full-text availability",
+  searchHint: `Title, abstract and author search over a local index of the last ${BIORXIV_INDEX_DAYS} days of postings, built a few requests per search; server:medrxiv and category:<subject> narrow it (no fulltext field)`,
+  sortHint: "relevance, date (no citation sorting)",
+  identifierFor: (ids) => ids.preprint_doi,
+  fullTextRank: 4,
+  create: (rateLimiter) => new BioRxivDriver(rateLimiter),
+};
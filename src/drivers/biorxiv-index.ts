@@ -0,0 +1,226 @@
+/**
+ * bioRxiv/medRxiv Search Index
+ *
+ * The bioRxiv API only lists postings by date, so search runs against a
+ * local index of the last BIORXIV_INDEX_DAYS days. Each server's day is
+ * one entry in the response cache's "biorxiv-index" namespace, filled from
+ * the details feed a few calls at a time by BioRxivDriver and dropped once
+ * it ages out of the window.
+ */
+
+import type { BioRxivPaper } from "./biorxiv-driver.js";
+import {
+  getResponseCache,
+  MemoryCacheStore,
+  ResponseCache,
+} from "../core/cache.js";
+import { IndexFreshness } from "../types/papers.js";
+
+export type PreprintServer = "biorxiv" | "medrxiv";
+
+// Days of postings covered by search, counting back from today
+export const BIORXIV_INDEX_DAYS = 30;
+
+const NAMESPACE = "biorxiv-index";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Postings for a date keep trickling in for a while; until a day has been
+// read this long after it, it is read again at most once per refresh
+const SETTLE_MS = 2 * DAY_MS;
+const REFRESH_MS = HOUR_MS;
+
+export interface IndexedDay {
+  papers: BioRxivPaper[];
+  cursor: number; // Feed records consumed
+  total: number; // Feed records for the day at the last harvest
+  harvestedAt: number; // epoch ms
+}
+
+export interface IndexSearch {
+  terms: string[]; // Lowercase words and quoted phrases, all required
+  field: string;
+  servers: PreprintServer[];
+  subject?: string; // Hyphenated subject, e.g. "cell-biology"
+}
+
+// Stand-in when the response cache is off, so the index still lasts as
+// long as the process
+let processCache: ResponseCache | undefined;
+
+export class BioRxivIndex {
+  private readonly cache: ResponseCache;
+
+  constructor(cache: ResponseCache = getResponseCache()) {
+    this.cache = cache.enabled
+      ? cache
+      : (processCache ??= new ResponseCache(new MemoryCacheStore()));
+  }
+
+  /**
+   * Dates in the window, newest first
+   */
+  window(now: number = Date.now()): string[] {
+    return Array.from(
+      { length: BIORXIV_INDEX_DAYS + 1 },
+      (_, days) => new Date(now - days * DAY_MS).toISOString().split("T")[0],
+    );
+  }
+
+  day(server: PreprintServer, date: string): Promise<IndexedDay | undefined> {
+    return this.cache.get<IndexedDay>(NAMESPACE, `${server}:${date}`);
+  }
+
+  saveDay(
+    server: PreprintServer,
+    date: string,
+    day: IndexedDay,
+  ): Promise<void> {
+    return this.cache.set(NAMESPACE, `${server}:${date}`, day);
+  }
+
+  /**
+   * Whether a day still has feed records to read, or may have gained some
+   * since it was last read
+   */
+  needsHarvest(
+    date: string,
+    day: IndexedDay | undefined,
+    now: number = Date.now(),
+  ): boolean {
+    if (!day || day.cursor < day.total) return true;
+    const settled = day.harvestedAt >= Date.parse(date) + SETTLE_MS;
+    return !settled && now - day.harvestedAt >= REFRESH_MS;
+  }
+
+  /**
+   * Every posting of the servers indexed by `asOf`, latest version per
+   * DOI, in the window ending then, with how much of it the index covers
+   */
+  async load(
+    servers: PreprintServer[],
+    asOf: number = Date.now(),
+  ): Promise<{ papers: BioRxivPaper[]; freshness: IndexFreshness }> {
+    const dates = this.window(asOf);
+    const latest = new Map<string, BioRxivPaper>();
+    let pendingDays = 0;
+    let harvestedAt = 0;
+
+    for (const date of dates) {
+      let complete = true;
+
+      for (const server of servers) {
+        const day = await this.day(server, date);
+        if (!day || day.cursor < day.total) complete = false;
+        if (!day) continue;
+
+        harvestedAt = Math.max(harvestedAt, day.harvestedAt);
+        for (const paper of day.papers) {
+          if ((paper.indexedAt ?? 0) > asOf) continue;
+          const seen = latest.get(paper.doi);
+          if (!seen || Number(paper.version) > Number(seen.version)) {
+            latest.set(paper.doi, paper);
+          }
+        }
+      }
+
+      if (!complete) pendingDays++;
+    }
+
+    return {
+      papers: Array.from(latest.values()),
+      freshness: {
+        from: dates[dates.length - 1],
+        to: dates[0],
+        papers: latest.size,
+        pending_days: pendingDays,
+        ...(harvestedAt > 0 && {
+          harvested_at: new Date(harvestedAt).toISOString(),
+        }),
+      },
+    };
+  }
+}
+
+/**
+ * Postings matching every search term, best first. Relevance weighs
+ * title matches above author and subject matches above the abstract;
+ * "date" sorts newest first.
+ */
+export function searchIndex(
+  papers: BioRxivPaper[],
+  search: IndexSearch,
+  sortBy: string,
+): BioRxivPaper[] {
+  const scored = papers
+    .filter(
+      (paper) =>
+        search.servers.includes(paper.server) &&
+        (!search.subject ||
+          toSubject(paper.category ?? "").includes(search.subject)),
+    )
+    .map((paper) => ({ paper, score: scorePaper(paper, search) }))
+    .filter(({ score }) => search.terms.length === 0 || score > 0);
+
+  const newestFirst = (a: BioRxivPaper, b: BioRxivPaper) =>
+    b.date.localeCompare(a.date);
+
+  return scored
+    .sort((a, b) =>
+      sortBy === "relevance"
+        ? b.score - a.score || newestFirst(a.paper, b.paper)
+        : newestFirst(a.paper, b.paper),
+    )
+    .map(({ paper }) => paper);
+}
+
+/**
+ * Subject as used in category IDs, e.g. "Cell Biology" -> "cell-biology"
+ */
+export function toSubject(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// Zero unless every term occurs in the searched fields
+function scorePaper(paper: BioRxivPaper, search: IndexSearch): number {
+  const fields: Record<string, Array<[string, number]>> = {
+    title: [[paper.title, 1]],
+    abstract: [[paper.abstract, 1]],
+    author: [[paper.authors, 1]],
+    all: [
+      [paper.title, 3],
+      [paper.authors, 2],
+      [paper.category, 2],
+      [paper.abstract, 1],
+    ],
+  };
+  const texts = (fields[search.field] ?? fields.all).map(
+    ([text, weight]) => [(text ?? "").toLowerCase(), weight] as const,
+  );
+
+  let score = 0;
+  for (const term of search.terms) {
+    const termScore = texts.reduce(
+      (total, [text, weight]) => total + weight * occurrences(text, term),
+      0,
+    );
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+function occurrences(text: string, term: string): number {
+  let count = 0;
+  for (
+    let index = text.indexOf(term);
+    index !== -1;
+    index = text.indexOf(term, index + term.length)
+  ) {
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,88 @@
+import { BaseDriver } from "./base-driver.js";
+import { getResponseCache, ResponseCache } from "../core/cache.js";
+import { logInfo } from "../core/logger.js";
+import { PaperMetadata, PaperPage } from "../types/papers.js";
+
+// Listing operations, as the plain method and its page-aware variant
+const LIST_METHODS = [
+  ["fetchLatest", "fetchLatestPage"],
+  ["fetchTopCited", "fetchTopCitedPage"],
+  ["searchPapers", "searchPapersPage"],
+] as const;
+
+/**
+ * Serve a driver's responses from the persistent cache, namespaced by
+ * source. Hits skip the driver entirely, so they cost no rate limit
+ * tokens. Returns the same instance with its methods wrapped.
+ */
+export function withResponseCache<T extends BaseDriver>(
+  driver: T,
+  source: string,
+  cache: ResponseCache = getResponseCache(),
+): T {
+  if (!cache.enabled) return driver;
+
+  const wrap = (method: string, ttl: number) => {
+    const target = driver as unknown as Record<string, unknown>;
+    const original = target[method] as (...args: unknown[]) => Promise<unknown>;
+    if (typeof original !== "function") return;
+
+    target[method] = async (...args: unknown[]) => {
+      // An omitted trailing argument and an explicit undefined are the same call
+      let keyArgs = args;
+      while (keyArgs.length > 0 && keyArgs[keyArgs.length - 1] === undefined) {
+        keyArgs = keyArgs.slice(0, -1);
+      }
+      const key = `${method}:${JSON.stringify(keyArgs)}`;
+      const cached = await cache.get(source, key);
+      if (cached !== undefined) {
+        logInfo("Serving cached driver response", { source, method });
+        return cached;
+      }
+
+      const result = await original.apply(driver, args);
+      // A page searched from a half-built index would find more next time
+      if (!(result as Partial<PaperPage>).index?.pending_days) {
+        await cache.set(source, key, result, ttl);
+      }
+      return result;
+    };
+  };
+
+  wrap("listCategories", cache.ttlFor(source));
+
+  for (const [listMethod, pageMethod] of LIST_METHODS) {
+    const ttl =
+      listMethod === "fetchLatest"
+        ? Math.min(cache.ttlFor(source), cache.ttlFor("latest"))
+        : cache.ttlFor(source);
+
+    // Drivers with native paging implement the plain method on top of the
+    // page method, so caching pages covers both without storing twice
+    const pagesNatively =
+      typeof driver[pageMethod] === "function" &&
+      driver[pageMethod] !== BaseDriver.prototype[pageMethod];
+    wrap(pagesNatively ? pageMethod : listMethod, ttl);
+  }
+
+  const fetchContent = driver.fetchContent;
+  if (typeof fetchContent === "function") {
+    driver.fetchContent = async (id: string): Promise<PaperMetadata> => {
+      const key = `fetchContent:${id}`;
+      const cached = await cache.getWithDocument<PaperMetadata>(source, key);
+      if (cached) {
+        logInfo("Serving cached paper content", { source, id });
+        return cached;
+      }
+
+      const paper = await fetchContent.call(driver, id);
+      // A failed extraction may succeed next time, so don't pin it
+      if (!paper.textExtractionFailed) {
+        await cache.setWithDocument(source, key, paper);
+      }
+      return paper;
+    };
+  }
+
+  return driver;
+}
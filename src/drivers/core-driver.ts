@@ -7,11 +7,23 @@
 
 import axios from "axios";
 import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
-import { DEFAULT_TEXT_EXTRACTION_CONFIG } from "../config/constants.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
 
 interface CorePaper {
   id: number;
@@ -28,6 +40,12 @@ interface CorePaper {
     identifiers?: string[];
   }>;
   abstract?: string;
+  citationCount?: number;
+  fieldOfStudy?: string;
+  language?: {
+    code: string;
+    name: string;
+  };
   downloadUrl?: string;
   fullText?: string;
   dataProviders?: Array<{
@@ -42,6 +60,9 @@ interface CorePaper {
   sourceFulltextUrls?: string[];
 }
 
+// CORE rejects offset paging past this many results
+const CORE_MAX_OFFSET = 10000;
+
 interface CoreSearchResponse {
   totalHits: number;
   results: CorePaper[];
@@ -49,7 +70,6 @@ interface CoreSearchResponse {
 }
 
 export class CoreDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
   private readonly apiBase = "https://api.core.ac.uk/v3";
   private readonly apiKey?: string;
 
@@ -155,16 +175,15 @@ export class CoreDriver extends BaseDriver {
 
   constructor(rateLimiter: RateLimiter) {
     super(rateLimiter, "core");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
 
     // API key is optional but recommended for higher rate limits
-    this.apiKey = process.env.CORE_API_KEY;
+    this.apiKey = this.config.apiKeys.core;
 
     if (!this.apiKey) {
+      logWarn("CORE API key not configured. Using public rate limits.");
       logWarn(
-        "CORE API key not found in environment variables. Using public rate limits.",
+        "Set apiKeys.core in the config file or CORE_API_KEY for higher rate limits.",
       );
-      logWarn("Set CORE_API_KEY environment variable for higher rate limits.");
     }
   }
 
@@ -180,14 +199,15 @@ export class CoreDriver extends BaseDriver {
    * Fetch latest papers from CORE for a given category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest CORE papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching latest CORE papers", { category, count });
@@ -195,27 +215,26 @@ export class CoreDriver extends BaseDriver {
       // Build search query for the category
       const searchQuery = this.buildSearchQuery(category);
 
-      const headers: Record<string, string> = {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); CORE-client",
-      };
+      const headers: Record<string, string> = {};
 
       if (this.apiKey) {
         headers["Authorization"] = `Bearer ${this.apiKey}`;
       }
 
-      const response = await axios.post<CoreSearchResponse>(
+      const limit = Math.min(count, 100); // CORE allows up to 100 results per request
+      const offset = readOffset(position, "offset");
+
+      const response = await this.http.post<CoreSearchResponse>(
         `${this.apiBase}/search/works`,
         {
           q: searchQuery,
-          limit: Math.min(count, 100), // CORE allows up to 100 results per request
-          offset: 0,
+          limit,
+          offset,
           sort: "publishedDate:desc", // Sort by publication date, newest first
           // Only include papers with full text available
           exclude_without_fulltext: true,
         },
         {
-          timeout: 15000,
           headers,
         },
       );
@@ -226,14 +245,14 @@ export class CoreDriver extends BaseDriver {
           searchQuery,
           responseData: response.data,
         });
-        return [];
+        return { papers: [] };
       }
 
       const results = response.data.results;
 
       if (results.length === 0) {
         logWarn("No CORE papers found for category", { category, searchQuery });
-        return [];
+        return { papers: [] };
       }
 
       // Convert results to PaperMetadata format (metadata only)
@@ -241,17 +260,18 @@ export class CoreDriver extends BaseDriver {
         (result) => result.title && result.id,
       );
 
-      const papers = await Promise.all(
-        validResults.map((result) =>
-          this.convertPaperToMetadata(result, false),
-        ),
+      const papers = validResults.map((result) =>
+        this.convertPaperToMetadata(result),
       );
 
       logInfo("Successfully fetched CORE latest papers", {
         count: papers.length,
         category,
       });
-      return papers;
+      return {
+        papers,
+        next: this.nextPage(response.data, offset, results.length),
+      };
     } catch (error) {
       logError("Failed to fetch latest CORE papers", {
         error: error instanceof Error ? error.message : error,
@@ -261,17 +281,35 @@ export class CoreDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 401) {
-          throw new Error("CORE API authentication failed. Check API key.");
+          throw new SourceDownError(
+            "CORE API authentication failed. Check API key.",
+            {
+              source: this.source,
+              suggestions: [
+                "Set CORE_API_KEY or apiKeys.core to a valid CORE API key",
+              ],
+              cause: error,
+            },
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by CORE API");
+          throw new RateLimitedError("Rate limited by CORE API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("CORE API server error");
+          throw new SourceDownError("CORE API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "CORE API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -279,50 +317,60 @@ export class CoreDriver extends BaseDriver {
    * Fetch content for a specific CORE paper by ID
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching CORE paper content", {
-        retryAfter,
-        id,
+    const result = await this.fetchWork(id);
+    const paper = this.convertPaperToMetadata(result);
+
+    // The repository copy, then the pages CORE harvested it from
+    await this.readFullText(paper, {
+      html: result.sourceFulltextUrls?.[0],
+      pdf: paper.pdf_url,
+    });
+    if (paper.textExtractionFailed && result.abstract) {
+      paper.text = `Abstract: ${result.abstract}`;
+      delete paper.textExtractionFailed;
+      logInfo("Using abstract as text content for CORE paper", {
+        id: paper.id,
+        textLength: paper.text.length,
       });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
     }
 
+    logInfo("Successfully fetched CORE paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * Fetch one work record, holding an API slot only for the request
+   */
+  private async fetchWork(id: string): Promise<CorePaper> {
+    const release = await this.acquire();
+
     try {
       logInfo("Fetching CORE paper content", { id });
 
-      const headers: Record<string, string> = {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); CORE-client",
-      };
+      const headers: Record<string, string> = {};
 
       if (this.apiKey) {
         headers["Authorization"] = `Bearer ${this.apiKey}`;
       }
 
       // Fetch paper details by ID
-      const response = await axios.get<CorePaper>(
+      const response = await this.http.get<CorePaper>(
         `${this.apiBase}/works/${id}`,
         {
-          timeout: 15000,
           headers,
         },
       );
 
       if (!response.data) {
-        throw new Error(`Paper with ID ${id} not found in CORE`);
+        throw new NotFoundError(`Paper with ID ${id} not found in CORE`, {
+          source: this.source,
+        });
       }
 
-      const result = response.data;
-
-      // Convert to paper format with full text extraction
-      const paper = await this.convertPaperToMetadata(result, true);
-
-      logInfo("Successfully fetched CORE paper content", {
-        id,
-        title: paper.title,
-      });
-      return paper;
+      return response.data;
     } catch (error) {
       logError("Failed to fetch CORE paper content", {
         error: error instanceof Error ? error.message : error,
@@ -331,30 +379,47 @@ export class CoreDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
-          throw new Error(`Paper with ID ${id} not found in CORE`);
+          throw new NotFoundError(`Paper with ID ${id} not found in CORE`, {
+            source: this.source,
+          });
         }
         if (error.response?.status === 401) {
-          throw new Error("CORE API authentication failed. Check API key.");
+          throw new SourceDownError(
+            "CORE API authentication failed. Check API key.",
+            {
+              source: this.source,
+              suggestions: [
+                "Set CORE_API_KEY or apiKeys.core to a valid CORE API key",
+              ],
+              cause: error,
+            },
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by CORE API");
+          throw new RateLimitedError("Rate limited by CORE API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("CORE API server error");
+          throw new SourceDownError("CORE API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "CORE API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
    * Convert CORE paper to PaperMetadata format
    */
-  private async convertPaperToMetadata(
-    paper: CorePaper,
-    includeText: boolean = false,
-  ): Promise<PaperMetadata> {
+  private convertPaperToMetadata(paper: CorePaper): PaperMetadata {
     // Extract authors
     const authors = paper.authors?.map((author) => author.name) || [];
 
@@ -393,118 +458,28 @@ export class CoreDriver extends BaseDriver {
     }
 
     // Create base paper object
-    const paperMetadata: PaperMetadata = {
-      id: paper.id.toString(),
-      title: paper.title || "Untitled",
-      authors,
-      date,
-      pdf_url,
-      text: "", // Always include text field, empty for metadata-only
-    };
-
-    // Only extract text if requested (for fetch_content)
-    if (includeText) {
-      let textTruncated = false;
-      let textExtractionFailed = false;
-
-      try {
-        // Strategy 1: Use abstract if available as base text
-        if (paper.abstract && paper.abstract.length > 0) {
-          paperMetadata.text = `Abstract: ${paper.abstract}`;
-          logInfo("Using abstract as base text for CORE paper", {
-            id: paper.id,
-            abstractLength: paper.abstract.length,
-          });
-        }
-
-        // Strategy 2: Try to extract from PDF URL if available and rate limit allows
-        if (pdf_url && this.checkRateLimit()) {
-          try {
-            const extractionResult =
-              await this.textExtractor.extractText(pdf_url);
-            if (
-              extractionResult.extractionSuccess &&
-              extractionResult.text.length > paperMetadata.text.length
-            ) {
-              paperMetadata.text = extractionResult.text;
-              textTruncated = extractionResult.truncated;
-              logInfo("Text extraction successful from CORE PDF", {
-                id: paper.id,
-                url: pdf_url,
-                textLength: paperMetadata.text.length,
-                truncated: textTruncated,
-              });
-            } else {
-              logWarn("PDF text extraction failed, keeping abstract", {
-                id: paper.id,
-              });
-            }
-          } catch (pdfError) {
-            logWarn("PDF text extraction failed, keeping abstract", {
-              id: paper.id,
-              pdfUrl: pdf_url,
-              error: pdfError instanceof Error ? pdfError.message : pdfError,
-            });
-          }
-        } else if (!pdf_url && !paper.abstract) {
-          textExtractionFailed = true;
-          logWarn("No text content available for CORE paper", { id: paper.id });
-        }
-
-        // Strategy 3: Try source fulltext URLs if available
-        if (
-          paperMetadata.text.length === 0 &&
-          paper.sourceFulltextUrls &&
-          this.checkRateLimit()
-        ) {
-          for (const sourceUrl of paper.sourceFulltextUrls) {
-            try {
-              const extractionResult =
-                await this.textExtractor.extractText(sourceUrl);
-              if (extractionResult.extractionSuccess) {
-                paperMetadata.text = extractionResult.text;
-                textTruncated = extractionResult.truncated;
-                logInfo("Text extraction successful from CORE source URL", {
-                  id: paper.id,
-                  sourceUrl,
-                  textLength: paperMetadata.text.length,
-                  truncated: textTruncated,
-                });
-                break;
-              }
-            } catch (sourceError) {
-              logWarn("Source URL text extraction failed", {
-                id: paper.id,
-                sourceUrl,
-                error:
-                  sourceError instanceof Error
-                    ? sourceError.message
-                    : sourceError,
-              });
-              continue;
-            }
-          }
-        }
-
-        if (paperMetadata.text.length === 0) {
-          textExtractionFailed = true;
-        }
-      } catch (error) {
-        textExtractionFailed = true;
-        logError("Error during text extraction for CORE paper", {
-          id: paper.id,
-          error: error instanceof Error ? error.message : error,
-        });
-      }
-
-      // Add warning flags if needed
-      if (textTruncated) {
-        paperMetadata.textTruncated = true;
-      }
-      if (textExtractionFailed) {
-        paperMetadata.textExtractionFailed = true;
-      }
-    }
+    const paperMetadata = withExtendedMetadata(
+      {
+        id: paper.id.toString(),
+        title: paper.title || "Untitled",
+        authors,
+        date,
+        pdf_url,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: paper.abstract,
+        doi: paper.doi,
+        venue: paper.journals?.[0]?.title,
+        publisher: paper.publisher,
+        citation_count: paper.citationCount,
+        // CORE only indexes repository copies; a download link means one is public
+        open_access: Boolean(paper.downloadUrl),
+        subjects: [paper.fieldOfStudy],
+        language: paper.language?.code,
+        source_url: `https://core.ac.uk/works/${paper.id}`,
+      },
+    );
 
     return paperMetadata;
   }
@@ -518,15 +493,17 @@ export class CoreDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when searching CORE papers", {
-        retryAfter,
-        query,
-        field,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Searching CORE papers", { query, field, count, sortBy });
@@ -568,27 +545,26 @@ export class CoreDriver extends BaseDriver {
           break;
       }
 
-      const headers: Record<string, string> = {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); CORE-client",
-      };
+      const headers: Record<string, string> = {};
 
       if (this.apiKey) {
         headers["Authorization"] = `Bearer ${this.apiKey}`;
       }
 
-      const response = await axios.post<CoreSearchResponse>(
+      const limit = Math.min(count, 100); // CORE allows up to 100 results per request
+      const offset = readOffset(position, "offset");
+
+      const response = await this.http.post<CoreSearchResponse>(
         `${this.apiBase}/search/works`,
         {
           q: searchQuery,
-          limit: Math.min(count, 100), // CORE allows up to 100 results per request
-          offset: 0,
+          limit,
+          offset,
           sort: sortParam,
           // Only include papers with full text available
           exclude_without_fulltext: true,
         },
         {
-          timeout: 15000,
           headers,
         },
       );
@@ -600,7 +576,7 @@ export class CoreDriver extends BaseDriver {
           searchQuery,
           responseData: response.data,
         });
-        return [];
+        return { papers: [] };
       }
 
       const results = response.data.results;
@@ -611,7 +587,7 @@ export class CoreDriver extends BaseDriver {
           field,
           searchQuery,
         });
-        return [];
+        return { papers: [] };
       }
 
       // Convert results to PaperMetadata format (metadata only)
@@ -619,10 +595,8 @@ export class CoreDriver extends BaseDriver {
         (result) => result.title && result.id,
       );
 
-      const papers = await Promise.all(
-        validResults.map((result) =>
-          this.convertPaperToMetadata(result, false),
-        ),
+      const papers = validResults.map((result) =>
+        this.convertPaperToMetadata(result),
       );
 
       logInfo("Successfully searched CORE papers", {
@@ -632,7 +606,10 @@ export class CoreDriver extends BaseDriver {
         sortBy,
       });
 
-      return papers;
+      return {
+        papers,
+        next: this.nextPage(response.data, offset, results.length),
+      };
     } catch (error) {
       logError("Failed to search CORE papers", {
         error: error instanceof Error ? error.message : error,
@@ -644,20 +621,53 @@ export class CoreDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 401) {
-          throw new Error("CORE API authentication failed. Check API key.");
+          throw new SourceDownError(
+            "CORE API authentication failed. Check API key.",
+            {
+              source: this.source,
+              suggestions: [
+                "Set CORE_API_KEY or apiKeys.core to a valid CORE API key",
+              ],
+              cause: error,
+            },
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by CORE API");
+          throw new RateLimitedError("Rate limited by CORE API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("CORE API server error");
+          throw new SourceDownError("CORE API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "CORE API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
+  /**
+   * Offset of the page after this one, if CORE has more hits and the
+   * offset is still inside the window CORE accepts
+   */
+  private nextPage(
+    data: CoreSearchResponse,
+    offset: number,
+    returned: number,
+  ): PagePosition | undefined {
+    const next = offset + returned;
+    return returned > 0 && next < data.totalHits && next < CORE_MAX_OFFSET
+      ? { offset: next }
+      : undefined;
+  }
+
   /**
    * Build search query for CORE based on category
    */
@@ -706,3 +716,19 @@ export class CoreDriver extends BaseDriver {
     return categoryMapping[category.toLowerCase()] || `subjects:"${category}"`;
   }
 }
+
+export const coreSource: SourceDefinition = {
+  id: "core",
+  name: "CORE",
+  description: "CORE repository (multidisciplinary) - Global academic papers",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "'computer_science', 'engineering', 'medicine'",
+  idHint: "numeric CORE ID",
+  contentHint: "Variable full-text availability",
+  searchHint:
+    "Title, abstract, author, fulltext search with advanced query language",
+  sortHint: "relevance, date (limited citation support)",
+  identifierFor: (ids) => ids.core,
+  fullTextRank: 6,
+  create: (rateLimiter) => new CoreDriver(rateLimiter),
+};
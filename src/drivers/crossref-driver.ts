@@ -0,0 +1,750 @@
+/**
+ * Crossref Driver
+ *
+ * Bibliographic search and metadata for every work with a Crossref DOI,
+ * which reaches journals none of the other sources index. Searches take
+ * Crossref filters inline (`from-pub-date:2024-01-01 type:journal-article`),
+ * journals are listed by ISSN, and `references:<DOI>` lists the references
+ * a publisher deposited with a work.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  normalizeArxivId,
+  normalizeDoi,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import {
+  ARXIV_HTML_BASE,
+  CROSSREF_API_BASE,
+  MAX_PAPER_COUNT,
+} from "../config/constants.js";
+
+// Listings keep the first authors; fetch_content returns everyone
+const MAX_LISTED_AUTHORS = 50;
+
+// Crossref serves rows up to this offset; deeper paging needs cursors
+const MAX_SEARCH_RESULTS = 10000;
+
+// Fields requested for listings; reference lists are left out
+const LISTING_FIELDS = [
+  "DOI",
+  "URL",
+  "title",
+  "subtitle",
+  "author",
+  "published",
+  "issued",
+  "container-title",
+  "publisher",
+  "is-referenced-by-count",
+  "license",
+  "link",
+  "type",
+  "subject",
+  "language",
+  "abstract",
+  "resource",
+  "relation",
+].join(",");
+
+// Filters accepted inline in search queries, as `name:value`
+const SEARCH_FILTERS = [
+  "from-pub-date",
+  "until-pub-date",
+  "type",
+  "has-full-text",
+  "has-references",
+  "issn",
+  "funder",
+];
+
+// e.g. "0028-0836"; either the print or the electronic ISSN works
+const ISSN_PATTERN = /^\d{4}-\d{3}[\dX]$/i;
+
+// Well-known journals; any ISSN works as a category
+const CROSSREF_JOURNALS: Category[] = [
+  { id: "0028-0836", name: "Nature" },
+  { id: "0036-8075", name: "Science" },
+  { id: "0092-8674", name: "Cell" },
+  { id: "0027-8424", name: "Proceedings of the National Academy of Sciences" },
+  { id: "2041-1723", name: "Nature Communications" },
+  { id: "2375-2548", name: "Science Advances" },
+  { id: "2045-2322", name: "Scientific Reports" },
+  { id: "1932-6203", name: "PLOS ONE" },
+  { id: "2050-084X", name: "eLife" },
+  { id: "0140-6736", name: "The Lancet" },
+  { id: "0028-4793", name: "New England Journal of Medicine" },
+  { id: "0098-7484", name: "JAMA" },
+  { id: "0959-8138", name: "BMJ" },
+  { id: "0896-6273", name: "Neuron" },
+  { id: "0031-9007", name: "Physical Review Letters" },
+  { id: "0002-7863", name: "Journal of the American Chemical Society" },
+  { id: "0009-2665", name: "Chemical Reviews" },
+  { id: "0003-486X", name: "Annals of Mathematics" },
+  {
+    id: "0162-8828",
+    name: "IEEE Transactions on Pattern Analysis and Machine Intelligence",
+  },
+  { id: "0002-8282", name: "American Economic Review" },
+  { id: "0012-9682", name: "Econometrica" },
+  { id: "0956-7976", name: "Psychological Science" },
+].map((journal) => ({ ...journal, description: `ISSN ${journal.id}` }));
+
+interface CrossrefDate {
+  "date-parts"?: Array<Array<number | null>>;
+}
+
+interface CrossrefReference {
+  key: string;
+  DOI?: string;
+  "article-title"?: string;
+  "volume-title"?: string;
+  "series-title"?: string;
+  "journal-title"?: string;
+  author?: string; // First author only
+  year?: string;
+  unstructured?: string;
+}
+
+interface CrossrefWork {
+  DOI: string;
+  URL?: string;
+  title?: string[];
+  subtitle?: string[];
+  author?: Array<{
+    given?: string;
+    family?: string;
+    name?: string; // Organisations
+    ORCID?: string;
+    affiliation?: Array<{ name?: string }>;
+  }>;
+  published?: CrossrefDate;
+  issued?: CrossrefDate;
+  "container-title"?: string[];
+  publisher?: string;
+  "is-referenced-by-count"?: number;
+  license?: Array<{ URL: string; "content-version"?: string }>;
+  link?: Array<{
+    URL: string;
+    "content-type"?: string;
+    "intended-application"?: string;
+  }>;
+  type?: string;
+  subject?: string[];
+  language?: string;
+  abstract?: string; // JATS markup
+  resource?: { primary?: { URL?: string } };
+  relation?: Record<string, Array<{ "id-type"?: string; id?: string }>>;
+  reference?: CrossrefReference[];
+  "references-count"?: number;
+}
+
+interface CrossrefWorkResponse {
+  message: CrossrefWork;
+}
+
+interface CrossrefListResponse {
+  message: {
+    "total-results": number;
+    items: CrossrefWork[];
+  };
+}
+
+export class CrossrefDriver extends BaseDriver {
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "crossref");
+  }
+
+  /**
+   * List well-known journals by ISSN. Any ISSN works as a category, and
+   * other text is searched as a bibliographic query.
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching Crossref categories");
+    return CROSSREF_JOURNALS;
+  }
+
+  /**
+   * Fetch the newest works in a journal or matching a topic, newest
+   * publication date first
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest Crossref works", { category, count });
+
+      // Issues are often dated ahead of their online release
+      const today = new Date().toISOString().split("T")[0];
+      const scope = this.categoryScope(category);
+      const page = await this.listPage(
+        scope.path,
+        {
+          ...scope.params,
+          filter: `until-pub-date:${today}`,
+          sort: "published",
+        },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched Crossref latest works", {
+        count: page.papers.length,
+        category,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch latest Crossref works", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch the most cited works in a journal or matching a topic,
+   * published since a date
+   */
+  async fetchTopCited(
+    concept: string,
+    since: string,
+    count: number,
+  ): Promise<PaperMetadata[]> {
+    return (await this.fetchTopCitedPage(concept, since, count)).papers;
+  }
+
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching top cited Crossref works", { concept, since, count });
+
+      const scope = this.categoryScope(concept);
+      const page = await this.listPage(
+        scope.path,
+        {
+          ...scope.params,
+          filter: `from-pub-date:${since}`,
+          sort: "is-referenced-by-count",
+        },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched Crossref top cited works", {
+        count: page.papers.length,
+        concept,
+        since,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch top cited Crossref works", {
+        error: error instanceof Error ? error.message : error,
+        concept,
+        since,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a work by DOI
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const paper = this.convertWork(await this.lookupWork(id), Infinity);
+
+    // Read the text after the API slot is released: arXiv HTML with the
+    // PDF as fallback for eprints, otherwise the publisher's landing page
+    // with any PDF link as fallback
+    await this.readFullText(paper, {
+      html: paper.arxiv_id
+        ? `${ARXIV_HTML_BASE}/${paper.arxiv_id}`
+        : paper.source_url,
+      pdf: paper.pdf_url,
+    });
+
+    logInfo("Successfully fetched Crossref work", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The work record of a DOI, holding an API slot only for the request
+   */
+  private async lookupWork(id: string): Promise<CrossrefWork> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching Crossref work", { id });
+      return await this.fetchWork(this.toDoi(id));
+    } catch (error) {
+      logError("Failed to fetch Crossref work", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search Crossref metadata. Filters such as `from-pub-date:2024-01-01`,
+   * `type:journal-article`, `has-full-text:true`, `issn:0028-0836` or
+   * `funder:10.13039/100000001` can be mixed into the query, and
+   * `references:<DOI>` lists the references deposited for a work.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching Crossref works", { query, field, count, sortBy });
+
+      const references = query.trim().match(/^references:\s*(\S+)$/i);
+      const page = references
+        ? await this.referencesPage(this.toDoi(references[1]), count, position)
+        : await this.listPage(
+            "/works",
+            this.buildSearchParams(query, field, sortBy),
+            count,
+            position,
+          );
+
+      logInfo("Crossref search completed", {
+        query,
+        field,
+        resultsFound: page.papers.length,
+      });
+      return page;
+    } catch (error) {
+      logError("Crossref search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  private async listPage(
+    path: string,
+    params: Record<string, string>,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const offset = readOffset(position, "offset");
+    const rows = Math.min(count, MAX_PAPER_COUNT, MAX_SEARCH_RESULTS - offset);
+    if (rows <= 0) return { papers: [] };
+
+    const response = await this.http.get<CrossrefListResponse>(
+      `${CROSSREF_API_BASE}${path}`,
+      {
+        params: {
+          ...params,
+          ...(params.sort && { order: "desc" }),
+          select: LISTING_FIELDS,
+          rows,
+          offset,
+          mailto: this.http.contactEmail,
+        },
+      },
+    );
+
+    const items = response.data.message?.items ?? [];
+    const total = response.data.message?.["total-results"] ?? 0;
+    const end = offset + items.length;
+    return {
+      papers: items.map((work) => this.convertWork(work, MAX_LISTED_AUTHORS)),
+      next:
+        items.length > 0 && end < Math.min(total, MAX_SEARCH_RESULTS)
+          ? { offset: end }
+          : undefined,
+    };
+  }
+
+  /**
+   * Page through the references deposited for a work. References with a
+   * DOI are looked up in one batch so they carry full metadata; the rest
+   * keep what the publisher deposited.
+   */
+  private async referencesPage(
+    doi: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const offset = readOffset(position, "offset");
+    const work = await this.fetchWork(doi);
+    const references = work.reference ?? [];
+    if (references.length === 0 && work["references-count"]) {
+      logWarn("Crossref reference list is not public", {
+        doi,
+        references: work["references-count"],
+      });
+    }
+
+    const slice = references.slice(offset, offset + count);
+    const dois = slice
+      .map((reference) => reference.DOI && normalizeDoi(reference.DOI))
+      .filter((value): value is string => Boolean(value));
+
+    const found = new Map<string, PaperMetadata>();
+    if (dois.length > 0 && this.checkRateLimit()) {
+      const response = await this.http.get<CrossrefListResponse>(
+        `${CROSSREF_API_BASE}/works`,
+        {
+          params: {
+            filter: dois.map((value) => `doi:${value}`).join(","),
+            select: LISTING_FIELDS,
+            rows: dois.length,
+            mailto: this.http.contactEmail,
+          },
+        },
+      );
+      (response.data.message?.items ?? []).forEach((item) => {
+        const paper = this.convertWork(item, MAX_LISTED_AUTHORS);
+        found.set(paper.id, paper);
+      });
+    }
+
+    const end = offset + slice.length;
+    return {
+      papers: slice.map(
+        (reference) =>
+          (reference.DOI && found.get(normalizeDoi(reference.DOI))) ||
+          this.convertReference(reference, doi),
+      ),
+      next: end < references.length ? { offset: end } : undefined,
+    };
+  }
+
+  private async fetchWork(doi: string): Promise<CrossrefWork> {
+    const response = await this.http.get<CrossrefWorkResponse>(
+      `${CROSSREF_API_BASE}/works/${encodeURIComponent(doi)}`,
+      { params: { mailto: this.http.contactEmail } },
+    );
+    const work = response.data.message;
+    if (!work?.DOI) {
+      throw new NotFoundError(`Crossref work ${doi} not found`, {
+        source: this.source,
+      });
+    }
+    return work;
+  }
+
+  /**
+   * Pull inline filters out of the query and send the rest as the
+   * Crossref field query matching the requested field
+   */
+  private buildSearchParams(
+    query: string,
+    field: string,
+    sortBy: string,
+  ): Record<string, string> {
+    if (field === "abstract" || field === "fulltext") {
+      throw new InvalidQueryError(`Crossref does not support ${field} search`, {
+        source: this.source,
+        suggestions: [
+          "Use field 'all', 'title' or 'author'",
+          "Search source 'openalex' or 'core' for abstracts and full text",
+        ],
+      });
+    }
+
+    const filters: string[] = [];
+    const pattern = new RegExp(`\\b(${SEARCH_FILTERS.join("|")}):(\\S+)`, "gi");
+    const text = query
+      .replace(pattern, (_, name: string, value: string) => {
+        filters.push(`${name.toLowerCase()}:${value}`);
+        return " ";
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (!text && filters.length === 0) {
+      throw new InvalidQueryError("Search query is empty", {
+        source: this.source,
+      });
+    }
+
+    const fieldParams: Record<string, string> = {
+      title: "query.bibliographic", // Crossref has no title-only query
+      author: "query.author",
+    };
+    const sorts: Record<string, string> = {
+      date: "published",
+      citations: "is-referenced-by-count",
+    };
+
+    return {
+      ...(text && { [fieldParams[field] ?? "query"]: text }),
+      ...(filters.length > 0 && { filter: filters.join(",") }),
+      ...(sorts[sortBy] && { sort: sorts[sortBy] }),
+    };
+  }
+
+  /**
+   * API path and params for a category: a journal ISSN or name, otherwise
+   * a bibliographic query over all works
+   */
+  private categoryScope(category: string): {
+    path: string;
+    params: Record<string, string>;
+  } {
+    const wanted = category.trim();
+    const journal = CROSSREF_JOURNALS.find(
+      (j) => j.name.toLowerCase() === wanted.toLowerCase(),
+    );
+    const issn = journal?.id ?? wanted.replace(/^issn:\s*/i, "");
+    if (ISSN_PATTERN.test(issn)) {
+      return { path: `/journals/${issn.toUpperCase()}/works`, params: {} };
+    }
+    return { path: "/works", params: { "query.bibliographic": wanted } };
+  }
+
+  /**
+   * Bare DOI from a DOI, doi.org URL or "crossref:"/"doi:" prefixed ID
+   */
+  private toDoi(id: string): string {
+    const doi = normalizeDoi(id.trim().replace(/^crossref:\s*/i, ""));
+    if (!doi.startsWith("10.")) {
+      throw new InvalidQueryError(`Not a DOI: ${id}`, {
+        source: this.source,
+        suggestions: [
+          "Crossref works are identified by DOI, like 10.1038/nature12373",
+        ],
+      });
+    }
+    return doi;
+  }
+
+  /**
+   * Convert a Crossref work to PaperMetadata
+   */
+  private convertWork(work: CrossrefWork, maxAuthors: number): PaperMetadata {
+    const doi = normalizeDoi(work.DOI);
+    const arxivId = this.findArxivId(work);
+    const pdfLink = work.link?.find(
+      (link) => link["content-type"] === "application/pdf",
+    )?.URL;
+    const license = work.license?.find((entry) =>
+      /creativecommons\.org/i.test(entry.URL),
+    )?.URL;
+
+    const authors = work.author ?? [];
+    if (authors.length > maxAuthors) {
+      logInfo("Truncated Crossref author list", {
+        id: doi,
+        authors: authors.length,
+        listed: maxAuthors,
+      });
+    }
+    const authorDetails: AuthorDetail[] = authors
+      .slice(0, maxAuthors)
+      .map((author) => ({
+        name:
+          [author.given, author.family].filter(Boolean).join(" ") ||
+          author.name ||
+          "",
+        affiliations: author.affiliation
+          ?.map((affiliation) => affiliation.name ?? "")
+          .filter(Boolean),
+        orcid: author.ORCID,
+      }))
+      .filter((author) => author.name);
+
+    const title = this.stripMarkup(work.title?.[0] ?? "");
+    const subtitle = this.stripMarkup(work.subtitle?.[0] ?? "");
+
+    return withExtendedMetadata(
+      {
+        id: doi,
+        title: (subtitle ? `${title}: ${subtitle}` : title) || "Untitled",
+        authors: authorDetails.map((author) => author.name),
+        date: this.formatDate(work.published ?? work.issued),
+        pdf_url: arxivId ? `https://arxiv.org/pdf/${arxivId}` : pdfLink,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: work.abstract,
+        doi,
+        arxiv_id: arxivId,
+        venue: work["container-title"]?.[0],
+        publisher: work.publisher,
+        citation_count: work["is-referenced-by-count"],
+        open_access: license ? true : undefined,
+        license,
+        subjects: work.subject,
+        publication_types: work.type ? [work.type] : undefined,
+        author_details: authorDetails,
+        language: work.language,
+        source_url:
+          work.resource?.primary?.URL ?? work.URL ?? `https://doi.org/${doi}`,
+      },
+    );
+  }
+
+  /**
+   * Build a record from the fields a publisher deposited for a reference
+   */
+  private convertReference(
+    reference: CrossrefReference,
+    citingDoi: string,
+  ): PaperMetadata {
+    const year =
+      reference.year?.match(/\d{4}/)?.[0] ??
+      reference.unstructured?.match(/\b(1[89]|20)\d{2}\b/)?.[0];
+    const doi = reference.DOI ? normalizeDoi(reference.DOI) : undefined;
+
+    return withExtendedMetadata(
+      {
+        id: doi ?? `${citingDoi}#${reference.key}`,
+        title:
+          reference["article-title"] ??
+          reference["volume-title"] ??
+          reference["series-title"] ??
+          reference.unstructured ??
+          "Untitled",
+        authors: reference.author ? [reference.author] : [],
+        date: year ? `${year}-01-01` : new Date().toISOString().split("T")[0],
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        doi,
+        venue: reference["journal-title"],
+        source_url: doi ? `https://doi.org/${doi}` : undefined,
+      },
+    );
+  }
+
+  /**
+   * arXiv ID of an arXiv DOI, or of the preprint a work is linked to
+   */
+  private findArxivId(work: CrossrefWork): string | undefined {
+    const preprints = work.relation?.["has-preprint"] ?? [];
+    for (const candidate of [
+      { "id-type": "doi", id: work.DOI },
+      ...preprints,
+    ]) {
+      if (!candidate.id) continue;
+      if (candidate["id-type"] === "arxiv") {
+        return normalizeArxivId(candidate.id);
+      }
+      const match = normalizeDoi(candidate.id).match(
+        /^10\.48550\/arxiv\.(.+)$/,
+      );
+      if (match) return normalizeArxivId(match[1]);
+    }
+    return undefined;
+  }
+
+  private stripMarkup(text: string): string {
+    return text
+      .replace(/<[^>]+>/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  /**
+   * Crossref dates are [year, month, day] with the month and day optional
+   */
+  private formatDate(date?: CrossrefDate): string {
+    const [year, month, day] = date?.["date-parts"]?.[0] ?? [];
+    if (!year) return new Date().toISOString().split("T")[0];
+    const part = (value?: number | null) => String(value ?? 1).padStart(2, "0");
+    return `${year}-${part(month)}-${part(day)}`;
+  }
+
+  /**
+   * Map a Crossref API failure to a typed error
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("Crossref API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "Crossref API", this.source);
+  }
+}
+
+export const crossrefSource: SourceDefinition = {
+  id: "crossref",
+  name: "Crossref",
+  description:
+    "Crossref (all disciplines) - Metadata for every work with a Crossref DOI, including journals the other sources miss, and deposited reference lists",
+  capabilities: ["search", "latest", "content", "topCited", "categories"],
+  categoryHint:
+    "Journal ISSN like '0028-0836', a journal from list_categories, or a topic",
+  idHint: "DOI like '10.1038/nature12373'",
+  contentHint:
+    "Publisher metadata for any Crossref DOI, abstracts where deposited; text from the arXiv eprint or the publisher's landing page",
+  searchHint:
+    "Bibliographic metadata with filters mixed in ('CRISPR from-pub-date:2024-01-01 type:journal-article issn:0028-0836', also has-full-text:true and funder:<DOI>); 'references:<DOI>' lists a work's deposited references (no abstract or fulltext field)",
+  sortHint: "relevance, date, citations (full support)",
+  conceptHint:
+    "Journal ISSNs like '0028-0836' or topics like 'quantum sensing'",
+  identifierFor: (ids) => ids.doi,
+  fullTextRank: 11, // Publisher landing pages, after every open copy
+  create: (rateLimiter) => new CrossrefDriver(rateLimiter),
+};
@@ -0,0 +1,799 @@
+/**
+ * DBLP Driver
+ *
+ * Computer-science bibliography from dblp.org: publication search with
+ * DBLP's query syntax, the latest volumes of a conference or journal
+ * stream, and complete author bibliographies by DBLP person ID (PID).
+ * DBLP has no abstracts or full text; records carry DOI and arXiv links
+ * so the paper itself can be fetched from a full-text source.
+ */
+
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  normalizeArxivId,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import {
+  ARXIV_HTML_BASE,
+  DBLP_API_BASE,
+  MAX_PAPER_COUNT,
+} from "../config/constants.js";
+
+// Years without a single record before a venue listing is considered done
+const MAX_EMPTY_YEARS = 3;
+
+// Element selections from DBLP's record XML
+type XmlElements = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["children"]
+>;
+
+// Well-known venues; any other DBLP stream ID like "conf/middleware" works too
+const DBLP_VENUES: Category[] = [
+  {
+    id: "conf/nips",
+    name: "NeurIPS",
+    description: "Neural Information Processing Systems",
+  },
+  {
+    id: "conf/icml",
+    name: "ICML",
+    description: "International Conference on Machine Learning",
+  },
+  {
+    id: "conf/iclr",
+    name: "ICLR",
+    description: "International Conference on Learning Representations",
+  },
+  {
+    id: "conf/aaai",
+    name: "AAAI",
+    description: "AAAI Conference on Artificial Intelligence",
+  },
+  {
+    id: "conf/ijcai",
+    name: "IJCAI",
+    description: "International Joint Conference on Artificial Intelligence",
+  },
+  {
+    id: "conf/cvpr",
+    name: "CVPR",
+    description: "Computer Vision and Pattern Recognition",
+  },
+  {
+    id: "conf/iccv",
+    name: "ICCV",
+    description: "International Conference on Computer Vision",
+  },
+  {
+    id: "conf/eccv",
+    name: "ECCV",
+    description: "European Conference on Computer Vision",
+  },
+  {
+    id: "conf/acl",
+    name: "ACL",
+    description:
+      "Annual Meeting of the Association for Computational Linguistics",
+  },
+  {
+    id: "conf/emnlp",
+    name: "EMNLP",
+    description: "Empirical Methods in Natural Language Processing",
+  },
+  {
+    id: "conf/naacl",
+    name: "NAACL",
+    description: "North American Chapter of the ACL",
+  },
+  {
+    id: "conf/kdd",
+    name: "KDD",
+    description: "Knowledge Discovery and Data Mining",
+  },
+  { id: "conf/www", name: "WWW", description: "The Web Conference" },
+  {
+    id: "conf/sigir",
+    name: "SIGIR",
+    description: "Research and Development in Information Retrieval",
+  },
+  {
+    id: "journals/pvldb",
+    name: "PVLDB",
+    description: "Proceedings of the VLDB Endowment",
+  },
+  {
+    id: "journals/pacmmod",
+    name: "PACMMOD",
+    description: "Proceedings of the ACM on Management of Data (SIGMOD)",
+  },
+  {
+    id: "conf/icse",
+    name: "ICSE",
+    description: "International Conference on Software Engineering",
+  },
+  {
+    id: "journals/pacmpl",
+    name: "PACMPL",
+    description:
+      "Proceedings of the ACM on Programming Languages (POPL, PLDI, OOPSLA, ICFP)",
+  },
+  {
+    id: "conf/osdi",
+    name: "OSDI",
+    description: "Operating Systems Design and Implementation",
+  },
+  {
+    id: "conf/sosp",
+    name: "SOSP",
+    description: "Symposium on Operating Systems Principles",
+  },
+  {
+    id: "conf/nsdi",
+    name: "NSDI",
+    description: "Networked Systems Design and Implementation",
+  },
+  {
+    id: "conf/sigcomm",
+    name: "SIGCOMM",
+    description: "ACM SIGCOMM Conference",
+  },
+  {
+    id: "conf/ccs",
+    name: "CCS",
+    description: "ACM Conference on Computer and Communications Security",
+  },
+  {
+    id: "conf/uss",
+    name: "USENIX Security",
+    description: "USENIX Security Symposium",
+  },
+  {
+    id: "conf/sp",
+    name: "IEEE S&P",
+    description: "IEEE Symposium on Security and Privacy",
+  },
+  {
+    id: "conf/stoc",
+    name: "STOC",
+    description: "Symposium on Theory of Computing",
+  },
+  {
+    id: "conf/focs",
+    name: "FOCS",
+    description: "Foundations of Computer Science",
+  },
+  {
+    id: "conf/soda",
+    name: "SODA",
+    description: "Symposium on Discrete Algorithms",
+  },
+  {
+    id: "conf/chi",
+    name: "CHI",
+    description: "Conference on Human Factors in Computing Systems",
+  },
+  {
+    id: "journals/jmlr",
+    name: "JMLR",
+    description: "Journal of Machine Learning Research",
+  },
+  {
+    id: "journals/tmlr",
+    name: "TMLR",
+    description: "Transactions on Machine Learning Research",
+  },
+  {
+    id: "journals/pami",
+    name: "TPAMI",
+    description:
+      "IEEE Transactions on Pattern Analysis and Machine Intelligence",
+  },
+  {
+    id: "journals/cacm",
+    name: "CACM",
+    description: "Communications of the ACM",
+  },
+  {
+    id: "journals/corr",
+    name: "CoRR",
+    description: "Computing Research Repository (arXiv cs)",
+  },
+];
+
+// DBLP's publication type labels, by record element name in the XML
+const RECORD_TYPES: Record<string, string> = {
+  article: "Journal Articles",
+  inproceedings: "Conference and Workshop Papers",
+  incollection: "Parts in Books or Collections",
+  book: "Books and Theses",
+  phdthesis: "Books and Theses",
+  mastersthesis: "Books and Theses",
+  proceedings: "Editorship",
+  data: "Data and Artifacts",
+};
+
+// A DBLP record, from either the JSON search API or the XML endpoints
+interface DblpEntry {
+  key: string; // e.g. "conf/nips/VaswaniSPUJGKP17"
+  title: string;
+  authors: Array<{ name: string; orcid?: string }>;
+  venue?: string;
+  year?: string;
+  type?: string;
+  doi?: string;
+  links: string[]; // Electronic editions ("ee")
+  openLinks: string[]; // Electronic editions marked open access
+}
+
+interface DblpAuthorRef {
+  "@pid"?: string;
+  text: string;
+}
+
+interface DblpHit {
+  info: {
+    key: string;
+    title: string;
+    authors?: { author: DblpAuthorRef | DblpAuthorRef[] };
+    venue?: string | string[];
+    year?: string;
+    type?: string;
+    doi?: string;
+    ee?: string | string[];
+    access?: string; // "open" or "closed"
+  };
+}
+
+interface DblpSearchResponse<T> {
+  result: {
+    hits: {
+      "@total": string;
+      "@sent": string;
+      hit?: T[];
+    };
+  };
+}
+
+interface DblpAuthorHit {
+  info: { author: string; url: string }; // url is the person page, dblp.org/pid/<pid>
+}
+
+export class DblpDriver extends BaseDriver {
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "dblp");
+  }
+
+  /**
+   * List well-known venue streams
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching DBLP venues");
+    return DBLP_VENUES;
+  }
+
+  /**
+   * Fetch records from the newest years of a venue stream
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  /**
+   * DBLP search has no date sort, so the venue is walked one year at a
+   * time from the current one. The position is the year and the record
+   * offset within it.
+   */
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const stream = this.resolveVenue(category);
+    let year = position
+      ? readOffset(position, "year")
+      : new Date().getFullYear();
+    let offset = readOffset(position, "offset");
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest DBLP papers", { category, count });
+
+      const entries: DblpEntry[] = [];
+      let emptyYears = 0;
+      let requests = 0;
+
+      while (entries.length < count && emptyYears < MAX_EMPTY_YEARS) {
+        // The first call was paid for by the caller
+        if (requests > 0 && !this.checkRateLimit()) break;
+        requests++;
+
+        const result = await this.searchPublications(
+          `stream:streams/${stream}: year:${year}:`,
+          count - entries.length,
+          offset,
+        );
+        entries.push(...result.entries);
+        offset += result.entries.length;
+
+        if (result.entries.length === 0 || offset >= result.total) {
+          emptyYears = result.total === 0 ? emptyYears + 1 : 0;
+          year--;
+          offset = 0;
+        }
+      }
+
+      logInfo("Successfully fetched DBLP latest papers", {
+        count: entries.length,
+        category,
+      });
+      return {
+        papers: entries.map((entry) => this.convertEntry(entry)),
+        next: emptyYears < MAX_EMPTY_YEARS ? { year, offset } : undefined,
+      };
+    } catch (error) {
+      logError("Failed to fetch latest DBLP papers", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a record by DBLP key, e.g. "conf/nips/VaswaniSPUJGKP17"
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const entry = await this.fetchRecord(id);
+    const paper = this.convertEntry(entry);
+
+    // Read the text after the API slot is released: arXiv HTML with the
+    // PDF as fallback for eprints, otherwise the edition DBLP marks as
+    // open access
+    const openPdf = entry.openLinks.find((link) => /\.pdf$/i.test(link));
+    await this.readFullText(
+      paper,
+      paper.arxiv_id
+        ? { html: `${ARXIV_HTML_BASE}/${paper.arxiv_id}`, pdf: paper.pdf_url }
+        : {
+            html: entry.openLinks.find((link) => link !== openPdf),
+            pdf: openPdf,
+          },
+    );
+
+    logInfo("Successfully fetched DBLP paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The record of a DBLP key, holding an API slot only for the request
+   */
+  private async fetchRecord(id: string): Promise<DblpEntry> {
+    const key = this.toRecordKey(id);
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching DBLP paper content", { id });
+
+      const xml = await this.getXml(`${DBLP_API_BASE}/rec/${key}.xml`);
+      const $ = cheerio.load(xml, { xml: true });
+      const record = $("dblp").children().first();
+      if (record.length === 0) {
+        throw new NotFoundError(`DBLP record ${id} not found`, {
+          source: this.source,
+        });
+      }
+
+      return this.parseRecord($, record);
+    } catch (error) {
+      logError("Failed to fetch DBLP paper content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`DBLP record ${id} not found`, {
+          source: this.source,
+        });
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search DBLP. Field 'all' and 'title' pass the query through, so DBLP
+   * syntax like `stream:streams/conf/nips: year:2024:` works. Field
+   * 'author' returns a bibliography: a PID like "56/953" is used as is,
+   * a name is looked up and its best match taken.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    if (field === "abstract" || field === "fulltext") {
+      throw new InvalidQueryError(`DBLP does not support ${field} search`, {
+        source: this.source,
+        suggestions: [
+          "DBLP indexes titles, authors and venues only; use field 'all' or 'author'",
+        ],
+      });
+    }
+
+    const offset = readOffset(position, "offset");
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching DBLP papers", { query, field, count, sortBy });
+
+      const page =
+        field === "author"
+          ? await this.authorBibliography(query, count, offset)
+          : await this.publicationPage(query.trim(), count, offset);
+
+      logInfo("DBLP search completed", {
+        query,
+        field,
+        resultsFound: page.papers.length,
+      });
+      return page;
+    } catch (error) {
+      logError("DBLP search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  private async publicationPage(
+    query: string,
+    count: number,
+    offset: number,
+  ): Promise<PaperPage> {
+    const result = await this.searchPublications(query, count, offset);
+    const end = offset + result.entries.length;
+
+    return {
+      papers: result.entries.map((entry) => this.convertEntry(entry)),
+      next:
+        result.entries.length > 0 && end < result.total
+          ? { offset: end }
+          : undefined,
+    };
+  }
+
+  /**
+   * One slice of an author's publication list, newest first
+   */
+  private async authorBibliography(
+    query: string,
+    count: number,
+    offset: number,
+  ): Promise<PaperPage> {
+    const pid = this.parsePid(query) ?? (await this.findAuthorPid(query));
+    if (!pid) {
+      logInfo("No DBLP author matched", { query });
+      return { papers: [] };
+    }
+
+    const xml = await this.getXml(`${DBLP_API_BASE}/pid/${pid}.xml`);
+    const $ = cheerio.load(xml, { xml: true });
+    const records = $("dblpperson > r")
+      .children()
+      .toArray()
+      .map((element) => $(element));
+
+    const end = Math.min(offset + count, records.length);
+    return {
+      papers: records
+        .slice(offset, end)
+        .map((record) => this.convertEntry(this.parseRecord($, record))),
+      next: end < records.length ? { offset: end } : undefined,
+    };
+  }
+
+  /**
+   * PID of the author search's best match for a name
+   */
+  private async findAuthorPid(name: string): Promise<string | undefined> {
+    const response = await this.http.get<DblpSearchResponse<DblpAuthorHit>>(
+      `${DBLP_API_BASE}/search/author/api`,
+      { params: { q: name.trim(), format: "json", h: 1 } },
+    );
+
+    const hits = response.data.result?.hits;
+    const match = hits?.hit?.[0]?.info;
+    if (match && Number(hits["@total"]) > 1) {
+      logInfo("Several DBLP authors match, using the best one", {
+        name,
+        author: match.author,
+        matches: hits["@total"],
+      });
+    }
+    return match?.url.match(/\/pid\/(.+?)(?:\.html)?$/)?.[1];
+  }
+
+  private async searchPublications(
+    query: string,
+    count: number,
+    offset: number,
+  ): Promise<{ entries: DblpEntry[]; total: number }> {
+    const response = await this.http.get<DblpSearchResponse<DblpHit>>(
+      `${DBLP_API_BASE}/search/publ/api`,
+      {
+        params: {
+          q: query,
+          format: "json",
+          h: Math.min(count, MAX_PAPER_COUNT),
+          f: offset,
+        },
+      },
+    );
+
+    const hits = response.data.result?.hits;
+    return {
+      entries: (hits?.hit ?? []).map((hit) => this.parseHit(hit)),
+      total: Number(hits?.["@total"] ?? 0),
+    };
+  }
+
+  private async getXml(url: string): Promise<string> {
+    const response = await this.http.get<string>(url, {
+      responseType: "text",
+    });
+    return response.data;
+  }
+
+  private parseHit(hit: DblpHit): DblpEntry {
+    const info = hit.info;
+    const authors = info.authors?.author ?? [];
+    const links = this.asArray(info.ee);
+
+    return {
+      key: info.key,
+      title: info.title,
+      authors: this.asArray(authors).map((author) => ({ name: author.text })),
+      venue: this.asArray(info.venue).join(", ") || undefined,
+      year: info.year,
+      type: info.type,
+      doi: info.doi,
+      links,
+      openLinks: info.access === "open" ? links : [],
+    };
+  }
+
+  /**
+   * Read an <article>, <inproceedings>, ... element of record or person XML
+   */
+  private parseRecord($: cheerio.CheerioAPI, record: XmlElements): DblpEntry {
+    const tag = record.prop("tagName")?.toLowerCase() ?? "";
+    const informal = record.attr("publtype") === "informal";
+    const people = record.children("author").length
+      ? record.children("author")
+      : record.children("editor");
+    const links = record.children("ee");
+
+    return {
+      key: record.attr("key") ?? "",
+      title: record.children("title").first().text(),
+      authors: people.toArray().map((person) => ({
+        name: $(person).text(),
+        orcid: $(person).attr("orcid"),
+      })),
+      venue:
+        record.children("journal").first().text() ||
+        record.children("booktitle").first().text() ||
+        record.children("school").first().text() ||
+        undefined,
+      year: record.children("year").first().text() || undefined,
+      type: informal ? "Informal and Other Publications" : RECORD_TYPES[tag],
+      links: links.toArray().map((link) => $(link).text().trim()),
+      openLinks: links
+        .filter((_, link) => $(link).attr("type") === "oa")
+        .toArray()
+        .map((link) => $(link).text().trim()),
+    };
+  }
+
+  /**
+   * Convert a DBLP record to PaperMetadata, with DOI and arXiv ID taken
+   * from the electronic edition links
+   */
+  private convertEntry(entry: DblpEntry): PaperMetadata {
+    const doi =
+      entry.doi ??
+      entry.links
+        .map((link) => link.match(/^https?:\/\/(?:dx\.)?doi\.org\/(.+)$/i)?.[1])
+        .find(Boolean);
+    const arxivId = this.findArxivId(entry, doi);
+    const authors = entry.authors.map((author) => ({
+      name: this.displayName(author.name),
+      orcid: author.orcid,
+    }));
+    const pdfLink = entry.links.find((link) => /\.pdf$/i.test(link));
+
+    return withExtendedMetadata(
+      {
+        id: entry.key,
+        title: this.cleanTitle(entry.title),
+        authors: authors.map((author) => author.name),
+        date: entry.year
+          ? `${entry.year}-01-01`
+          : new Date().toISOString().split("T")[0],
+        pdf_url: arxivId ? `https://arxiv.org/pdf/${arxivId}` : pdfLink,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        doi,
+        arxiv_id: arxivId,
+        venue: entry.venue,
+        open_access: arxivId || entry.openLinks.length > 0 ? true : undefined,
+        publication_types: entry.type ? [entry.type] : undefined,
+        author_details: authors,
+        source_url: `https://dblp.org/rec/${entry.key}`,
+      },
+    );
+  }
+
+  /**
+   * arXiv eprint from an arxiv.org link, an arXiv DOI or a CoRR key
+   * like "journals/corr/abs-2401-12345"
+   */
+  private findArxivId(entry: DblpEntry, doi?: string): string | undefined {
+    const candidates = [
+      ...entry.links.map(
+        (link) => link.match(/arxiv\.org\/(?:abs|pdf)\/([^?#]+)/i)?.[1],
+      ),
+      doi?.match(/^10\.48550\/arxiv\.(.+)$/i)?.[1],
+      entry.key
+        .match(/^journals\/corr\/abs-(\d{4})-(\d{4,5})$/)
+        ?.slice(1, 3)
+        .join("."),
+    ];
+    const found = candidates.find(Boolean);
+    return found ? normalizeArxivId(found) : undefined;
+  }
+
+  /**
+   * DBLP key from a key, a dblp.org/rec URL or "dblp:<key>"
+   */
+  private toRecordKey(id: string): string {
+    const key = id
+      .trim()
+      .replace(/^dblp:\s*/i, "")
+      .replace(/^https?:\/\/dblp\.org\/rec\//i, "")
+      .replace(/\.(html|xml|bib)$/i, "");
+
+    if (!/^[a-z]+\/[\w-]+\/[\w.-]+$/i.test(key)) {
+      throw new InvalidQueryError(`Invalid DBLP key: ${id}`, {
+        source: this.source,
+        suggestions: ["Use a DBLP key like 'conf/nips/VaswaniSPUJGKP17'"],
+      });
+    }
+    return key;
+  }
+
+  /**
+   * DBLP person ID from "56/953", "pid:56/953" or a dblp.org/pid URL
+   */
+  private parsePid(query: string): string | undefined {
+    const pid = query
+      .trim()
+      .replace(/^pid:\s*/i, "")
+      .replace(/^https?:\/\/dblp\.org\/pid\//i, "")
+      .replace(/\.(html|xml)$/i, "");
+    return /^[a-z0-9]+\/[\w-]+$/i.test(pid) ? pid : undefined;
+  }
+
+  /**
+   * Stream ID of a venue given by stream ID or name
+   */
+  private resolveVenue(category: string): string {
+    const wanted = category.trim().toLowerCase();
+    const match = DBLP_VENUES.find(
+      (venue) => venue.id === wanted || venue.name.toLowerCase() === wanted,
+    );
+    if (match) return match.id;
+
+    const stream = wanted.replace(/^streams\//, "");
+    if (/^(conf|journals|series)\/[\w-]+$/.test(stream)) return stream;
+
+    throw new InvalidQueryError(`Unknown DBLP venue: ${category}`, {
+      source: this.source,
+      suggestions: [
+        "Use list_categories with source 'dblp' for well-known venues, or a DBLP stream ID like 'conf/middleware'",
+      ],
+    });
+  }
+
+  private asArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * "Wei Wang 0001" -> "Wei Wang"; the number only tells homonyms apart
+   */
+  private displayName(name: string): string {
+    return name.replace(/\s+\d{4}$/, "").trim();
+  }
+
+  /**
+   * DBLP ends every title with a period
+   */
+  private cleanTitle(title: string): string {
+    return title.replace(/\s+/g, " ").trim().replace(/\.$/, "") || "Untitled";
+  }
+
+  /**
+   * Map a DBLP API failure to a typed error
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("DBLP API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "DBLP API", this.source);
+  }
+}
+
+export const dblpSource: SourceDefinition = {
+  id: "dblp",
+  name: "DBLP",
+  description:
+    "DBLP (computer science) - Venue listings and author bibliographies with DOI and arXiv links",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint:
+    "Venue stream like 'conf/nips' or 'journals/jmlr', or a name like 'NeurIPS'",
+  idHint: "DBLP key like 'conf/nips/VaswaniSPUJGKP17'",
+  contentHint:
+    "Bibliographic records with DOI and arXiv links (no abstracts); text from the arXiv eprint or an open access edition",
+  searchHint:
+    "DBLP syntax ('stream:streams/conf/nips: year:2024:'); field 'author' takes a PID like '56/953' or a name and returns the full bibliography (no abstract or fulltext field)",
+  sortHint: "DBLP's own order; author bibliographies newest first",
+  create: (rateLimiter) => new DblpDriver(rateLimiter),
+};
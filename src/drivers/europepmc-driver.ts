@@ -7,11 +7,23 @@
 
 import axios from "axios";
 import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
-import { DEFAULT_TEXT_EXTRACTION_CONFIG } from "../config/constants.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readToken } from "../core/pagination.js";
 
 interface EuropePMCResult {
   id: string;
@@ -26,10 +38,26 @@ interface EuropePMCResult {
       fullName: string;
       firstName?: string;
       lastName?: string;
+      authorId?: { type: string; value: string };
+      authorAffiliationDetailsList?: {
+        authorAffiliation: Array<{ affiliation: string }>;
+      };
     }>;
   };
   pubYear: string;
   journalTitle: string;
+  journalInfo?: {
+    journal?: { title?: string };
+  };
+  abstractText?: string;
+  language?: string;
+  license?: string;
+  meshHeadingList?: {
+    meshHeading: Array<{ descriptorName: string }>;
+  };
+  keywordList?: {
+    keyword: string[];
+  };
   isOpenAccess: string;
   hasFullText: string;
   hasReferences: string;
@@ -52,7 +80,6 @@ interface EuropePMCResponse {
 }
 
 export class EuropePMCDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
   private readonly apiBase = "https://www.ebi.ac.uk/europepmc/webservices/rest";
 
   // Europe PMC subject categories
@@ -123,7 +150,6 @@ export class EuropePMCDriver extends BaseDriver {
 
   constructor(rateLimiter: RateLimiter) {
     super(rateLimiter, "europepmc");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
   }
 
   /**
@@ -138,35 +164,34 @@ export class EuropePMCDriver extends BaseDriver {
    * Fetch latest papers from Europe PMC for a given category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest Europe PMC papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching latest Europe PMC papers", { category, count });
 
       // Build search query with full-text filter
       const searchQuery = this.buildSearchQuery(category);
+      const pageSize = Math.min(count, 100); // Europe PMC allows up to 100 results per page
+      const cursorMark = readToken(position, "cursorMark");
 
-      const response = await axios.get<EuropePMCResponse>(
+      const response = await this.http.get<EuropePMCResponse>(
         `${this.apiBase}/search`,
         {
           params: {
             query: `${searchQuery} AND has_fulltext:y`, // Filter for full-text availability
             format: "json",
-            pageSize: Math.min(count, 100), // Europe PMC allows up to 100 results per page
+            pageSize,
             sort: "date desc", // Sort by publication date, newest first
             resultType: "core",
-          },
-          timeout: 15000,
-          headers: {
-            "User-Agent":
-              "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); Europe-PMC-client",
+            ...(cursorMark && { cursorMark }),
           },
         },
       );
@@ -181,7 +206,7 @@ export class EuropePMCDriver extends BaseDriver {
           searchQuery,
           responseData: response.data,
         });
-        return [];
+        return { papers: [] };
       }
 
       const results = response.data.resultList.result;
@@ -191,7 +216,7 @@ export class EuropePMCDriver extends BaseDriver {
           category,
           searchQuery,
         });
-        return [];
+        return { papers: [] };
       }
 
       // Convert results to PaperMetadata format (metadata only)
@@ -199,15 +224,18 @@ export class EuropePMCDriver extends BaseDriver {
         (result) => result.title && result.hasFullText === "Y",
       );
 
-      const papers = await Promise.all(
-        validResults.map((result) => this.convertResultToPaper(result, false)),
+      const papers = validResults.map((result) =>
+        this.convertResultToPaper(result),
       );
 
       logInfo("Successfully fetched Europe PMC latest papers", {
         count: papers.length,
         category,
       });
-      return papers;
+      return {
+        papers,
+        next: this.nextPage(response.data, cursorMark, pageSize),
+      };
     } catch (error) {
       logError("Failed to fetch latest Europe PMC papers", {
         error: error instanceof Error ? error.message : error,
@@ -217,14 +245,23 @@ export class EuropePMCDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by Europe PMC API");
+          throw new RateLimitedError("Rate limited by Europe PMC API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("Europe PMC API server error");
+          throw new SourceDownError("Europe PMC API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "Europe PMC API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -232,14 +269,30 @@ export class EuropePMCDriver extends BaseDriver {
    * Fetch content for a specific Europe PMC paper by ID
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching Europe PMC paper content", {
-        retryAfter,
-        id,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    const result = await this.fetchResult(id);
+    const paper = this.convertResultToPaper(result);
+
+    // fullTextXML for open access PMC articles, otherwise (or when it
+    // fails) the Europe PMC landing page
+    await this.readFullText(paper, {
+      jats: result.pmcid
+        ? `${this.apiBase}/${result.pmcid}/fullTextXML`
+        : undefined,
+      html: paper.source_url,
+    });
+
+    logInfo("Successfully fetched Europe PMC paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The core record of one paper
+   */
+  private async fetchResult(id: string): Promise<EuropePMCResult> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching Europe PMC paper content", { id });
@@ -249,34 +302,22 @@ export class EuropePMCDriver extends BaseDriver {
 
       // Fetch paper details
       const detailsUrl = `${this.apiBase}/search`;
-      const response = await axios.get<EuropePMCResponse>(detailsUrl, {
+      const response = await this.http.get<EuropePMCResponse>(detailsUrl, {
         params: {
           query: `${source}:${cleanId}`,
           format: "json",
           resultType: "core",
         },
-        timeout: 15000,
-        headers: {
-          "User-Agent":
-            "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); Europe-PMC-client",
-        },
       });
 
       const results = response.data.resultList.result;
       if (results.length === 0) {
-        throw new Error(`Paper with ID ${id} not found in Europe PMC`);
+        throw new NotFoundError(`Paper with ID ${id} not found in Europe PMC`, {
+          source: this.source,
+        });
       }
 
-      const result = results[0];
-
-      // Convert to paper format with full text extraction
-      const paper = await this.convertResultToPaper(result, true);
-
-      logInfo("Successfully fetched Europe PMC paper content", {
-        id,
-        title: paper.title,
-      });
-      return paper;
+      return results[0];
     } catch (error) {
       logError("Failed to fetch Europe PMC paper content", {
         error: error instanceof Error ? error.message : error,
@@ -285,27 +326,36 @@ export class EuropePMCDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 404) {
-          throw new Error(`Paper with ID ${id} not found in Europe PMC`);
+          throw new NotFoundError(
+            `Paper with ID ${id} not found in Europe PMC`,
+            { source: this.source },
+          );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by Europe PMC API");
+          throw new RateLimitedError("Rate limited by Europe PMC API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("Europe PMC API server error");
+          throw new SourceDownError("Europe PMC API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "Europe PMC API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
   /**
    * Convert Europe PMC result to PaperMetadata format
    */
-  private async convertResultToPaper(
-    result: EuropePMCResult,
-    includeText: boolean = false,
-  ): Promise<PaperMetadata> {
+  private convertResultToPaper(result: EuropePMCResult): PaperMetadata {
     // Extract authors
     let authors: string[] = [];
     if (result.authorList?.author) {
@@ -345,60 +395,46 @@ export class EuropePMCDriver extends BaseDriver {
     }
 
     // Create base paper object
-    const paper: PaperMetadata = {
-      id: paperId,
-      title: result.title || "Untitled",
-      authors,
-      date,
-      pdf_url,
-      text: "", // Always include text field, empty for metadata-only
-    };
-
-    // Only extract text if requested (for fetch_content)
-    if (includeText) {
-      let textTruncated = false;
-      let textExtractionFailed = false;
-
-      try {
-        if (this.checkRateLimit()) {
-          // Extract from Europe PMC landing page
-          const extractionResult =
-            await this.textExtractor.extractText(landingUrl);
-          if (extractionResult.extractionSuccess) {
-            paper.text = extractionResult.text;
-            textTruncated = extractionResult.truncated;
-            logInfo("Text extraction successful from Europe PMC landing page", {
-              id: paperId,
-              url: landingUrl,
-              textLength: paper.text.length,
-              truncated: textTruncated,
-            });
-          } else {
-            textExtractionFailed = true;
-            logWarn("Text extraction failed from Europe PMC landing page", {
-              id: paperId,
-            });
-          }
-        } else {
-          textExtractionFailed = true;
-          logWarn("Rate limited for text extraction", { id: paperId });
-        }
-      } catch (error) {
-        textExtractionFailed = true;
-        logError("Error during text extraction for Europe PMC paper", {
-          id: paperId,
-          error: error instanceof Error ? error.message : error,
-        });
-      }
-
-      // Add warning flags if needed
-      if (textTruncated) {
-        paper.textTruncated = true;
-      }
-      if (textExtractionFailed) {
-        paper.textExtractionFailed = true;
-      }
-    }
+    const paper = withExtendedMetadata(
+      {
+        id: paperId,
+        title: result.title || "Untitled",
+        authors,
+        date,
+        pdf_url,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: result.abstractText,
+        doi: result.doi,
+        venue: result.journalInfo?.journal?.title || result.journalTitle,
+        citation_count: result.citedByCount,
+        open_access: result.isOpenAccess
+          ? result.isOpenAccess === "Y"
+          : undefined,
+        license: result.license,
+        subjects: [
+          ...(result.meshHeadingList?.meshHeading || []).map(
+            (heading) => heading.descriptorName,
+          ),
+          ...(result.keywordList?.keyword || []),
+        ],
+        author_details: (result.authorList?.author || []).map((author) => ({
+          name:
+            author.fullName ||
+            `${author.firstName || ""} ${author.lastName || ""}`.trim(),
+          affiliations: (
+            author.authorAffiliationDetailsList?.authorAffiliation || []
+          ).map((affiliation) => affiliation.affiliation),
+          orcid:
+            author.authorId?.type === "ORCID"
+              ? author.authorId.value
+              : undefined,
+        })),
+        language: result.language,
+        source_url: landingUrl,
+      },
+    );
 
     return paper;
   }
@@ -412,15 +448,17 @@ export class EuropePMCDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when searching Europe PMC papers", {
-        retryAfter,
-        query,
-        field,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Searching Europe PMC papers", { query, field, count, sortBy });
@@ -464,20 +502,19 @@ export class EuropePMCDriver extends BaseDriver {
           break;
       }
 
-      const response = await axios.get<EuropePMCResponse>(
+      const pageSize = Math.min(count, 100); // Europe PMC allows up to 100 results per page
+      const cursorMark = readToken(position, "cursorMark");
+
+      const response = await this.http.get<EuropePMCResponse>(
         `${this.apiBase}/search`,
         {
           params: {
             query: searchQuery,
             format: "json",
-            pageSize: Math.min(count, 100), // Europe PMC allows up to 100 results per page
+            pageSize,
             sort: sortParam,
             resultType: "core",
-          },
-          timeout: 15000,
-          headers: {
-            "User-Agent":
-              "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); Europe-PMC-client",
+            ...(cursorMark && { cursorMark }),
           },
         },
       );
@@ -493,7 +530,7 @@ export class EuropePMCDriver extends BaseDriver {
           searchQuery,
           responseData: response.data,
         });
-        return [];
+        return { papers: [] };
       }
 
       const results = response.data.resultList.result;
@@ -504,7 +541,7 @@ export class EuropePMCDriver extends BaseDriver {
           field,
           searchQuery,
         });
-        return [];
+        return { papers: [] };
       }
 
       // Convert results to PaperMetadata format (metadata only)
@@ -512,8 +549,8 @@ export class EuropePMCDriver extends BaseDriver {
         (result) => result.title && result.hasFullText === "Y",
       );
 
-      const papers = await Promise.all(
-        validResults.map((result) => this.convertResultToPaper(result, false)),
+      const papers = validResults.map((result) =>
+        this.convertResultToPaper(result),
       );
 
       logInfo("Successfully searched Europe PMC papers", {
@@ -523,7 +560,10 @@ export class EuropePMCDriver extends BaseDriver {
         sortBy,
       });
 
-      return papers;
+      return {
+        papers,
+        next: this.nextPage(response.data, cursorMark, pageSize),
+      };
     } catch (error) {
       logError("Failed to search Europe PMC papers", {
         error: error instanceof Error ? error.message : error,
@@ -535,17 +575,43 @@ export class EuropePMCDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by Europe PMC API");
+          throw new RateLimitedError("Rate limited by Europe PMC API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("Europe PMC API server error");
+          throw new SourceDownError("Europe PMC API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "Europe PMC API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
+  /**
+   * Europe PMC deep paging: every response carries the cursorMark for the
+   * page after it, which repeats the one sent once results are exhausted.
+   * Paging counts raw results, before the full-text filter drops any.
+   */
+  private nextPage(
+    data: EuropePMCResponse,
+    cursorMark: string | undefined,
+    pageSize: number,
+  ): PagePosition | undefined {
+    const next = data.nextCursorMark;
+    if (!next || next === (cursorMark ?? "*")) return undefined;
+    return data.resultList.result.length >= pageSize
+      ? { cursorMark: next }
+      : undefined;
+  }
+
   /**
    * Build search query for Europe PMC based on category
    */
@@ -587,3 +653,18 @@ export class EuropePMCDriver extends BaseDriver {
     }
   }
 }
+
+export const europePMCSource: SourceDefinition = {
+  id: "europepmc",
+  name: "Europe PMC",
+  description: "Europe PMC (life sciences) - European biomedical literature",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "'medicine', 'genetics', 'immunology'",
+  idHint: "'PMC1234567', a PMID like '12345678', or a DOI",
+  contentHint: "Usually the full paper text",
+  searchHint: "Title, abstract, author, fulltext search with MeSH terms",
+  sortHint: "relevance, date, citations (full support)",
+  identifierFor: (ids) => ids.pmcid || ids.pmid || ids.doi,
+  fullTextRank: 3,
+  create: (rateLimiter) => new EuropePMCDriver(rateLimiter),
+};
@@ -0,0 +1,225 @@
+/**
+ * NCBI E-utilities Base Driver
+ *
+ * Shared plumbing for drivers backed by NCBI's E-utilities (PMC, PubMed):
+ * the identity parameters NCBI asks for, esearch/esummary/efetch calls on
+ * the driver's database, retstart paging and error mapping.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { PagePosition } from "../types/papers.js";
+import {
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  EUTILS_API_BASE,
+  NCBI_API_KEY_RATE_LIMIT,
+  NCBI_RATE_LIMIT,
+} from "../config/constants.js";
+
+export interface ESearchOptions {
+  retmax: number;
+  retstart: number;
+  sort?: string; // e.g. "pub_date" or "relevance"
+}
+
+export interface ESearchResult {
+  ids: string[];
+  count: number; // Total hits, not just this page
+}
+
+interface ESearchResponse {
+  esearchresult: {
+    idlist: string[];
+    count: string;
+    retmax: string;
+    retstart: string;
+  };
+}
+
+interface ESummaryResponse<T> {
+  result: {
+    [key: string]: T;
+  };
+}
+
+export abstract class EUtilsDriver extends BaseDriver {
+  protected readonly eUtilsBase = EUTILS_API_BASE;
+  protected readonly database: string; // E-utilities `db`, e.g. "pubmed"
+  protected readonly serviceName: string; // Used in error messages
+
+  constructor(
+    rateLimiter: RateLimiter,
+    source: string,
+    database: string,
+    serviceName: string,
+  ) {
+    super(rateLimiter, source);
+    // NCBI limits E-utilities per client, so every database shares a bucket
+    rateLimiter.addSource(
+      source,
+      this.config.apiKeys.ncbi ? NCBI_API_KEY_RATE_LIMIT : NCBI_RATE_LIMIT,
+      "ncbi",
+    );
+    this.database = database;
+    this.serviceName = serviceName;
+  }
+
+  /**
+   * Parameters NCBI asks every E-utilities request to carry. With an API
+   * key NCBI allows 10 requests per second instead of 3.
+   */
+  protected eUtilsIdentity() {
+    const apiKey = this.config.apiKeys.ncbi;
+    return {
+      tool: "SciHarvester-MCP",
+      email: this.http.contactEmail,
+      ...(apiKey && { api_key: apiKey }),
+    };
+  }
+
+  /**
+   * Run a search and return one page of matching IDs
+   */
+  protected async esearch(
+    term: string,
+    options: ESearchOptions,
+  ): Promise<ESearchResult> {
+    const response = await this.http.get<ESearchResponse>(
+      `${this.eUtilsBase}/esearch.fcgi`,
+      {
+        params: {
+          db: this.database,
+          term,
+          retmax: options.retmax,
+          retstart: options.retstart,
+          retmode: "json",
+          ...(options.sort && { sort: options.sort }),
+          ...this.eUtilsIdentity(),
+        },
+      },
+    );
+
+    const result = response.data.esearchresult;
+    return { ids: result.idlist, count: Number(result.count) };
+  }
+
+  /**
+   * Fetch esummary records for a list of IDs, in the order given. IDs
+   * without a record are left out.
+   */
+  protected async esummary<T>(ids: string[]): Promise<T[]> {
+    const response = await this.http.get<ESummaryResponse<T>>(
+      `${this.eUtilsBase}/esummary.fcgi`,
+      {
+        params: {
+          db: this.database,
+          id: ids.join(","),
+          retmode: "json",
+          ...this.eUtilsIdentity(),
+        },
+      },
+    );
+
+    return ids
+      .map((id) => response.data.result?.[id])
+      .filter((summary): summary is T => Boolean(summary));
+  }
+
+  /**
+   * Fetch full records as XML
+   */
+  protected async efetch(ids: string[]): Promise<string> {
+    const response = await this.http.get<string>(
+      `${this.eUtilsBase}/efetch.fcgi`,
+      {
+        params: {
+          db: this.database,
+          id: ids.join(","),
+          retmode: "xml",
+          ...this.eUtilsIdentity(),
+        },
+        responseType: "text",
+      },
+    );
+    return response.data;
+  }
+
+  /**
+   * URL of an efetch request for one record, for extractors that fetch
+   * and cache it themselves. `database` reaches a linked record, e.g. the
+   * PMC copy of a PubMed citation.
+   */
+  protected efetchUrl(id: string, database: string = this.database): string {
+    const params = new URLSearchParams({
+      db: database,
+      id,
+      retmode: "xml",
+      ...this.eUtilsIdentity(),
+    });
+    return `${this.eUtilsBase}/efetch.fcgi?${params}`;
+  }
+
+  /**
+   * retstart of the page after this one, from the esearch hit count
+   */
+  protected nextPage(
+    search: ESearchResult,
+    retstart: number,
+  ): PagePosition | undefined {
+    const next = retstart + search.ids.length;
+    return search.ids.length > 0 && next < search.count
+      ? { retstart: next }
+      : undefined;
+  }
+
+  /**
+   * Map an E-utilities failure to a typed error
+   */
+  protected toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.code === "ECONNABORTED") {
+      return new SourceDownError(`${this.serviceName} request timed out`, {
+        source: this.source,
+        cause: error,
+      });
+    }
+    if (error.response?.status === 429) {
+      return new RateLimitedError(`Rate limited by ${this.serviceName}`, {
+        source: this.source,
+        suggestions: [
+          "Set NCBI_API_KEY or apiKeys.ncbi to raise the limit to 10 requests per second",
+        ],
+        cause: error,
+      });
+    }
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError(`${this.serviceName} server error`, {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, this.serviceName, this.source);
+  }
+
+  /**
+   * Format an esummary date ("2024/02/01") as ISO
+   */
+  protected formatDate(dateStr: string): string {
+    if (!dateStr) {
+      return new Date().toISOString().split("T")[0];
+    }
+
+    try {
+      const date = new Date(dateStr.replace(/\//g, "-"));
+      return date.toISOString().split("T")[0];
+    } catch {
+      return new Date().toISOString().split("T")[0];
+    }
+  }
+}
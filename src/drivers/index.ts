@@ -0,0 +1,93 @@
+import {
+  SourceDefinition,
+  SourceRegistry,
+  getConfiguredPlugins,
+} from "../core/source-registry.js";
+import { getConfig } from "../config/config.js";
+import type { SciHarvesterConfig } from "../config/schemas.js";
+import { logWarn } from "../core/logger.js";
+import { arxivSource } from "./arxiv-driver.js";
+import { openAlexSource } from "./openalex-driver.js";
+import { pmcSource } from "./pmc-driver.js";
+import { europePMCSource } from "./europepmc-driver.js";
+import { bioRxivSource } from "./biorxiv-driver.js";
+import { coreSource } from "./core-driver.js";
+import { semanticScholarSource } from "./semanticscholar-driver.js";
+import { pubmedSource } from "./pubmed-driver.js";
+import { osfSource } from "./osf-driver.js";
+import { inspireSource } from "./inspire-driver.js";
+import { dblpSource } from "./dblp-driver.js";
+import { adsSource } from "./ads-driver.js";
+import { crossrefSource } from "./crossref-driver.js";
+import { oaiPmhSource } from "./oai-pmh-driver.js";
+
+export const BUILTIN_SOURCES: SourceDefinition[] = [
+  arxivSource,
+  openAlexSource,
+  pmcSource,
+  europePMCSource,
+  bioRxivSource,
+  coreSource,
+  semanticScholarSource,
+  pubmedSource,
+  osfSource,
+  inspireSource,
+  dblpSource,
+  adsSource,
+  crossrefSource,
+];
+
+// Shared registry used by the tools, the CLI and the MCP server
+export const sourceRegistry = new SourceRegistry(BUILTIN_SOURCES);
+
+/**
+ * Load third-party driver packages into the shared registry.
+ * Called once at startup, before tool schemas are generated.
+ */
+export async function loadSourcePlugins(
+  plugins: string[] = getConfiguredPlugins(),
+): Promise<SourceRegistry> {
+  if (plugins.length > 0) {
+    await sourceRegistry.loadPlugins(plugins);
+  }
+  return sourceRegistry;
+}
+
+/**
+ * Register a source for each OAI-PMH repository in sources.oaiPmh. Called
+ * at startup before the source selection is applied, so these can be
+ * switched off like any other source.
+ */
+export function registerOaiPmhSources(
+  repositories: SciHarvesterConfig["sources"]["oaiPmh"] = getConfig().sources
+    .oaiPmh,
+): SourceRegistry {
+  Object.entries(repositories).forEach(([id, repository]) => {
+    sourceRegistry.register(oaiPmhSource(id, repository));
+  });
+  return sourceRegistry;
+}
+
+/**
+ * Remove sources the configuration leaves out (sources.enabled and
+ * sources.disabled). Called at startup after plugins are loaded, so plugin
+ * sources can be switched off too.
+ */
+export function applySourceSelection(
+  selection: SciHarvesterConfig["sources"] = getConfig().sources,
+): SourceRegistry {
+  const { enabled, disabled } = selection;
+  const unknown = [...(enabled ?? []), ...disabled].filter(
+    (id) => !sourceRegistry.has(id),
+  );
+  if (unknown.length > 0) {
+    logWarn("Ignoring unknown sources in configuration", { sources: unknown });
+  }
+
+  sourceRegistry.ids().forEach((id) => {
+    if ((enabled && !enabled.includes(id)) || disabled.includes(id)) {
+      sourceRegistry.unregister(id);
+    }
+  });
+  return sourceRegistry;
+}
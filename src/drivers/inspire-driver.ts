@@ -0,0 +1,633 @@
+/**
+ * INSPIRE-HEP Driver
+ *
+ * High-energy physics literature from INSPIRE's REST API: the HEP
+ * citation graph, collaboration author lists, journal publication info
+ * and arXiv eprint links. Search queries use INSPIRE's own syntax,
+ * including the SPIRES-style `find a ...`, `t ...` and `topcite 500+`.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  normalizeArxivId,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import {
+  ARXIV_HTML_BASE,
+  INSPIRE_API_BASE,
+  MAX_PAPER_COUNT,
+} from "../config/constants.js";
+
+// Large pages of big-collaboration records get very heavy
+const MAX_PAGE_SIZE = 100;
+
+// Listings keep the first authors; fetch_content returns everyone
+const MAX_LISTED_AUTHORS = 50;
+
+// Metadata fields requested for each record
+const RECORD_FIELDS = [
+  "control_number",
+  "titles",
+  "abstracts",
+  "authors.full_name",
+  "authors.affiliations",
+  "authors.ids",
+  "collaborations",
+  "arxiv_eprints",
+  "dois",
+  "publication_info",
+  "citation_count",
+  "inspire_categories",
+  "document_type",
+  "earliest_date",
+  "license",
+  "documents",
+].join(",");
+
+// INSPIRE subject categories (inspire_categories.term)
+const INSPIRE_CATEGORIES: Category[] = [
+  {
+    id: "Theory-HEP",
+    name: "Theory-HEP",
+    description: "High-energy physics theory (arXiv hep-th)",
+  },
+  {
+    id: "Phenomenology-HEP",
+    name: "Phenomenology-HEP",
+    description: "High-energy physics phenomenology (arXiv hep-ph)",
+  },
+  {
+    id: "Experiment-HEP",
+    name: "Experiment-HEP",
+    description: "High-energy physics experiment (arXiv hep-ex)",
+  },
+  {
+    id: "Lattice",
+    name: "Lattice",
+    description: "Lattice field theory (arXiv hep-lat)",
+  },
+  {
+    id: "Astrophysics",
+    name: "Astrophysics",
+    description: "Astrophysics and astroparticle physics",
+  },
+  {
+    id: "Gravitation and Cosmology",
+    name: "Gravitation and Cosmology",
+    description: "General relativity, quantum cosmology (arXiv gr-qc)",
+  },
+  {
+    id: "Theory-Nucl",
+    name: "Theory-Nucl",
+    description: "Nuclear theory (arXiv nucl-th)",
+  },
+  {
+    id: "Experiment-Nucl",
+    name: "Experiment-Nucl",
+    description: "Nuclear experiment (arXiv nucl-ex)",
+  },
+  {
+    id: "Math and Math Physics",
+    name: "Math and Math Physics",
+    description: "Mathematical physics",
+  },
+  {
+    id: "Instrumentation",
+    name: "Instrumentation",
+    description: "Detectors and instrumentation",
+  },
+  {
+    id: "Accelerators",
+    name: "Accelerators",
+    description: "Accelerator physics",
+  },
+  {
+    id: "Computing",
+    name: "Computing",
+    description: "Computing and software for physics",
+  },
+  {
+    id: "Data Analysis and Statistics",
+    name: "Data Analysis and Statistics",
+    description: "Statistical methods and data analysis",
+  },
+  {
+    id: "Quantum Physics",
+    name: "Quantum Physics",
+    description: "Quantum physics (arXiv quant-ph)",
+  },
+  {
+    id: "Condensed Matter",
+    name: "Condensed Matter",
+    description: "Condensed matter physics",
+  },
+  {
+    id: "General Physics",
+    name: "General Physics",
+    description: "Physics outside the categories above",
+  },
+  { id: "Other", name: "Other", description: "Other subjects" },
+];
+
+interface InspireAuthor {
+  full_name: string; // "Last, First"
+  affiliations?: Array<{ value: string }>;
+  ids?: Array<{ schema: string; value: string }>;
+}
+
+interface InspireRecordMetadata {
+  control_number: number;
+  titles?: Array<{ title: string }>;
+  abstracts?: Array<{ value: string; source?: string }>;
+  authors?: InspireAuthor[];
+  collaborations?: Array<{ value: string }>;
+  arxiv_eprints?: Array<{ value: string; categories?: string[] }>;
+  dois?: Array<{ value: string }>;
+  publication_info?: Array<{
+    journal_title?: string;
+    journal_volume?: string;
+  }>;
+  citation_count?: number;
+  inspire_categories?: Array<{ term: string }>;
+  document_type?: string[];
+  earliest_date?: string; // "2019", "2019-07" or "2019-07-15"
+  license?: Array<{ license?: string; url?: string }>;
+  documents?: Array<{ url: string; hidden?: boolean }>;
+}
+
+interface InspireRecord {
+  id: string;
+  metadata: InspireRecordMetadata;
+}
+
+interface InspireSearchResponse {
+  hits: {
+    hits: InspireRecord[];
+    total: number;
+  };
+}
+
+export class InspireDriver extends BaseDriver {
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "inspire");
+  }
+
+  /**
+   * List INSPIRE subject categories
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching INSPIRE categories");
+    return INSPIRE_CATEGORIES;
+  }
+
+  /**
+   * Fetch the newest records in a subject category
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const subject = this.resolveCategory(category);
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest INSPIRE papers", { category, count });
+
+      const page = await this.searchPage(
+        { subject, sort: "mostrecent" },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched INSPIRE latest papers", {
+        count: page.papers.length,
+        category,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch latest INSPIRE papers", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch the most cited records in a subject category since a date
+   */
+  async fetchTopCited(
+    concept: string,
+    since: string,
+    count: number,
+  ): Promise<PaperMetadata[]> {
+    return (await this.fetchTopCitedPage(concept, since, count)).papers;
+  }
+
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const subject = this.resolveCategory(concept);
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching top cited INSPIRE papers", { concept, since, count });
+
+      const today = new Date().toISOString().split("T")[0];
+      const page = await this.searchPage(
+        { q: `de ${since}->${today}`, subject, sort: "mostcited" },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched INSPIRE top cited papers", {
+        count: page.papers.length,
+        concept,
+        since,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch top cited INSPIRE papers", {
+        error: error instanceof Error ? error.message : error,
+        concept,
+        since,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a record by INSPIRE record number, arXiv ID or DOI
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const paper = this.convertRecord(await this.fetchRecord(id), Infinity);
+
+    // Read the text after the API slot is released
+    await this.readFullText(paper, {
+      html: paper.arxiv_id ? `${ARXIV_HTML_BASE}/${paper.arxiv_id}` : undefined,
+      pdf: paper.pdf_url,
+    });
+
+    logInfo("Successfully fetched INSPIRE paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The record of an INSPIRE record number, arXiv ID or DOI, holding an
+   * API slot only for the request
+   */
+  private async fetchRecord(id: string): Promise<InspireRecord> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching INSPIRE paper content", { id });
+
+      const response = await this.http.get<InspireRecord>(
+        `${INSPIRE_API_BASE}/${this.toRecordPath(id)}`,
+        { params: { fields: RECORD_FIELDS } },
+      );
+      return response.data;
+    } catch (error) {
+      logError("Failed to fetch INSPIRE paper content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`INSPIRE record ${id} not found`, {
+          source: this.source,
+        });
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search INSPIRE. With field 'all' the query is passed through, so
+   * SPIRES-style queries (`find a witten and t anomalies`, `topcite 500+`)
+   * work as they do on the INSPIRE website.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching INSPIRE papers", { query, field, count, sortBy });
+
+      const sorts: Record<string, string> = {
+        date: "mostrecent",
+        citations: "mostcited",
+      };
+      const page = await this.searchPage(
+        {
+          q: this.buildQuery(query, field),
+          ...(sorts[sortBy] && { sort: sorts[sortBy] }),
+        },
+        count,
+        position,
+      );
+
+      logInfo("INSPIRE search completed", {
+        query,
+        field,
+        resultsFound: page.papers.length,
+      });
+      return page;
+    } catch (error) {
+      logError("INSPIRE search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * One page of literature search results. The position is a record
+   * offset, turned into a page number plus the records to skip on it.
+   */
+  private async searchPage(
+    params: Record<string, string>,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const size = Math.min(count, MAX_PAGE_SIZE, MAX_PAPER_COUNT);
+    let offset = readOffset(position, "offset");
+    let total = Infinity;
+    let requests = 0;
+    const records: InspireRecord[] = [];
+
+    while (records.length < count && offset < total) {
+      // The first call was paid for by the caller
+      if (requests > 0 && !this.checkRateLimit()) break;
+      requests++;
+
+      const response = await this.http.get<InspireSearchResponse>(
+        `${INSPIRE_API_BASE}/literature`,
+        {
+          params: {
+            ...params,
+            size,
+            page: Math.floor(offset / size) + 1,
+            fields: RECORD_FIELDS,
+          },
+        },
+      );
+
+      const batch = response.data.hits?.hits ?? [];
+      total = response.data.hits?.total ?? 0;
+      const skip = offset % size;
+      const taken = batch.slice(skip, skip + count - records.length);
+      if (taken.length === 0) break;
+
+      records.push(...taken);
+      offset += taken.length;
+    }
+
+    return {
+      papers: records.map((record) =>
+        this.convertRecord(record, MAX_LISTED_AUTHORS),
+      ),
+      next: offset < total ? { offset } : undefined,
+    };
+  }
+
+  /**
+   * Restrict a plain query to the requested field with INSPIRE keywords
+   */
+  private buildQuery(query: string, field: string): string {
+    const trimmed = query.trim();
+    switch (field) {
+      case "title":
+        return `t ${trimmed}`;
+      case "author":
+        return `a ${trimmed}`;
+      case "abstract":
+        return `abstracts.value:"${trimmed.replace(/"/g, "")}"`;
+      case "fulltext":
+        return `fulltext ${trimmed}`;
+      default:
+        return trimmed;
+    }
+  }
+
+  /**
+   * Convert an INSPIRE literature record to PaperMetadata
+   */
+  private convertRecord(
+    record: InspireRecord,
+    maxAuthors: number,
+  ): PaperMetadata {
+    const metadata = record.metadata;
+    const id = String(metadata.control_number ?? record.id);
+    const arxiv = metadata.arxiv_eprints?.[0];
+    const arxivId = arxiv ? normalizeArxivId(arxiv.value) : undefined;
+
+    // Collaborations lead the author list, as in HEP citations
+    const authorDetails: AuthorDetail[] = [
+      ...(metadata.collaborations ?? []).map((collaboration) => ({
+        name: /collaboration$/i.test(collaboration.value)
+          ? collaboration.value
+          : `${collaboration.value} Collaboration`,
+      })),
+      ...(metadata.authors ?? []).slice(0, maxAuthors).map((author) => ({
+        name: this.displayName(author.full_name),
+        affiliations: author.affiliations?.map((a) => a.value),
+        orcid: author.ids?.find((authorId) => authorId.schema === "ORCID")
+          ?.value,
+      })),
+    ];
+    const authorCount = metadata.authors?.length ?? 0;
+    if (authorCount > maxAuthors) {
+      logInfo("Truncated INSPIRE author list", {
+        id,
+        authors: authorCount,
+        listed: maxAuthors,
+      });
+    }
+
+    const journal = metadata.publication_info?.find(
+      (info) => info.journal_title,
+    );
+    const license = metadata.license?.[0];
+    const document = metadata.documents?.find((doc) => !doc.hidden);
+
+    return withExtendedMetadata(
+      {
+        id,
+        title: metadata.titles?.[0]?.title ?? "Untitled",
+        authors: authorDetails.map((author) => author.name),
+        date: this.formatDate(metadata.earliest_date),
+        pdf_url: arxivId ? `https://arxiv.org/pdf/${arxivId}` : document?.url,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: metadata.abstracts?.[0]?.value,
+        doi: metadata.dois?.[0]?.value,
+        arxiv_id: arxivId,
+        venue: journal
+          ? [journal.journal_title, journal.journal_volume]
+              .filter(Boolean)
+              .join(" ")
+          : arxivId && "arXiv",
+        citation_count: metadata.citation_count,
+        open_access: arxivId ? true : undefined,
+        oa_status: arxivId ? "green" : undefined,
+        license: license?.url ?? license?.license,
+        subjects: [
+          ...(metadata.inspire_categories ?? []).map((c) => c.term),
+          ...(arxiv?.categories ?? []),
+        ],
+        publication_types: metadata.document_type,
+        author_details: authorDetails,
+        source_url: `https://inspirehep.net/literature/${id}`,
+      },
+    );
+  }
+
+  /**
+   * API path for an ID: record numbers, arXiv IDs (with or without the
+   * "arXiv:" prefix) and DOIs each have their own endpoint
+   */
+  private toRecordPath(id: string): string {
+    const trimmed = id.trim().replace(/^inspire:\s*/i, "");
+    if (/^\d+$/.test(trimmed)) return `literature/${trimmed}`;
+
+    const doi = trimmed.match(/^(?:doi:\s*)?(10\.\d{4,9}\/\S+)$/i);
+    if (doi) return `doi/${doi[1]}`;
+
+    const arxivId = normalizeArxivId(trimmed);
+    if (
+      /^\d{4}\.\d{4,5}$/.test(arxivId) ||
+      /^[a-z-]+(\.[A-Z]{2})?\/\d{7}$/.test(arxivId)
+    ) {
+      return `arxiv/${arxivId}`;
+    }
+
+    throw new InvalidQueryError(`Invalid INSPIRE identifier: ${id}`, {
+      source: this.source,
+      suggestions: [
+        "Use an INSPIRE record number like '1745937', an arXiv ID or a DOI",
+      ],
+    });
+  }
+
+  private resolveCategory(category: string): string {
+    const wanted = category.trim().toLowerCase();
+    const match = INSPIRE_CATEGORIES.find((c) => c.id.toLowerCase() === wanted);
+    if (!match) {
+      throw new InvalidQueryError(`Unknown INSPIRE category: ${category}`, {
+        source: this.source,
+        suggestions: [
+          "Use list_categories with source 'inspire' for valid categories",
+        ],
+      });
+    }
+    return match.id;
+  }
+
+  /**
+   * "Witten, Edward" -> "Edward Witten"
+   */
+  private displayName(fullName: string): string {
+    const [last, first] = fullName.split(/,\s*/, 2);
+    return first ? `${first} ${last}` : fullName;
+  }
+
+  /**
+   * INSPIRE dates may lack the month or day
+   */
+  private formatDate(date?: string): string {
+    if (!date) return new Date().toISOString().split("T")[0];
+    const [year, month = "01", day = "01"] = date.split("-");
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * Map an INSPIRE API failure to a typed error
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("INSPIRE API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "INSPIRE API", this.source);
+  }
+}
+
+export const inspireSource: SourceDefinition = {
+  id: "inspire",
+  name: "INSPIRE-HEP",
+  description:
+    "INSPIRE-HEP (high-energy physics) - Citation graph, collaborations and arXiv links",
+  capabilities: ["search", "latest", "content", "topCited", "categories"],
+  categoryHint: "Subject categories like 'Theory-HEP' or 'Experiment-HEP'",
+  idHint: "Record number like '1745937', arXiv ID or DOI",
+  contentHint:
+    "Abstracts, citations and journal links; text from the arXiv eprint or an attached PDF",
+  searchHint:
+    "INSPIRE and SPIRES-style syntax ('find a witten and t anomalies', 'topcite 500+') with field 'all'",
+  sortHint: "relevance, date, citations (full support)",
+  conceptHint: "Subject categories like 'Theory-HEP' or 'Experiment-HEP'",
+  identifierFor: (ids) => (ids.arxiv ? `arXiv:${ids.arxiv}` : ids.doi),
+  fullTextRank: 10, // arXiv serves the same eprints first
+  create: (rateLimiter) => new InspireDriver(rateLimiter),
+};
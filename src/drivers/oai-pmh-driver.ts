@@ -0,0 +1,692 @@
+/**
+ * OAI-PMH Driver
+ *
+ * Harvests any repository that speaks OAI-PMH 2.0 - HAL, Zenodo, DSpace
+ * and EPrints instances, arXiv - straight from the source instead of
+ * waiting for an aggregator. Each repository in `sources.oaiPmh` becomes
+ * a source of its own: sets are its categories, ListRecords over recent
+ * days backs fetch_latest and GetRecord backs fetch_content. Records are
+ * read as Dublin Core (oai_dc), arXiv or JATS metadata.
+ */
+
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import {
+  clipDocument,
+  DraftDocument,
+  layoutDocument,
+  readJats,
+} from "../extractors/document-model.js";
+import {
+  normalizeArxivId,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readOffset, readToken } from "../core/pagination.js";
+import { ARXIV_HTML_BASE } from "../config/constants.js";
+import type { OaiPmhRepository } from "../config/schemas.js";
+
+// Element selections from an OAI-PMH response
+type XmlElements = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["children"]
+>;
+
+// What the three metadata formats have in common
+interface OaiFields {
+  title?: string;
+  authors: AuthorDetail[];
+  date?: string;
+  abstract?: string;
+  doi?: string;
+  arxivId?: string;
+  venue?: string;
+  publisher?: string;
+  license?: string;
+  subjects: string[];
+  types: string[];
+  language?: string;
+  links: string[]; // Landing pages and files, in record order
+  body?: DraftDocument; // JATS article, when the repository includes its body
+}
+
+// A protocol-level error, reported with HTTP 200 and an <error> element
+class OaiPmhError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export class OaiPmhDriver extends BaseDriver {
+  constructor(
+    rateLimiter: RateLimiter,
+    source: string,
+    private readonly repository: OaiPmhRepository,
+  ) {
+    super(rateLimiter, source);
+  }
+
+  /**
+   * List the repository's sets (ListSets), following resumption tokens
+   */
+  async listCategories(): Promise<Category[]> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching OAI-PMH sets", { source: this.source });
+
+      const categories: Category[] = [];
+      let token: string | undefined;
+      do {
+        const $ = await this.request({
+          verb: "ListSets",
+          ...(token && { resumptionToken: token }),
+        });
+        $("ListSets > set").each((_, element) => {
+          const set = $(element);
+          const description = set.children("setDescription").text().trim();
+          categories.push({
+            id: set.children("setSpec").text().trim(),
+            name: set.children("setName").text().trim(),
+            ...(description && { description }),
+          });
+        });
+        token = this.resumptionToken($, "ListSets");
+      } while (token && this.checkRateLimit());
+
+      if (token) {
+        logWarn("Rate limited while listing OAI-PMH sets", {
+          source: this.source,
+          listed: categories.length,
+        });
+      }
+      return categories;
+    } catch (error) {
+      if (error instanceof OaiPmhError && error.code === "noSetHierarchy") {
+        return [];
+      }
+      logError("Failed to fetch OAI-PMH sets", {
+        error: error instanceof Error ? error.message : error,
+        source: this.source,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch records added or changed in a set over the last few days
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  /**
+   * The date window is pinned by the first page. Upstream batches have a
+   * size the repository picks, so the position is the resumption token of
+   * the current batch plus the records already taken from it.
+   */
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const until = readToken(position, "until") ?? this.daysAgo(0);
+    const from =
+      readToken(position, "from") ?? this.daysAgo(this.repository.latestDays);
+    let token = readToken(position, "token");
+    let skip = readOffset(position, "skip");
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest OAI-PMH records", {
+        source: this.source,
+        category,
+        count,
+      });
+
+      const papers: PaperMetadata[] = [];
+      let requests = 0;
+      let next: PagePosition | undefined;
+
+      while (papers.length < count) {
+        // The first call was paid for by the caller
+        if (requests > 0 && !this.checkRateLimit()) {
+          next = { from, until, skip, ...(token && { token }) };
+          break;
+        }
+        requests++;
+
+        const $ = await this.listRecords(category, from, until, token);
+        const batch = this.parseRecords($("ListRecords").children("record"));
+        const taken = batch.slice(skip, skip + count - papers.length);
+        papers.push(...taken);
+
+        if (skip + taken.length < batch.length) {
+          next = {
+            from,
+            until,
+            skip: skip + taken.length,
+            ...(token && { token }),
+          };
+          break;
+        }
+
+        skip = 0;
+        token = this.resumptionToken($, "ListRecords");
+        if (!token) break;
+        next = { from, until, skip, token };
+      }
+
+      logInfo("Successfully fetched latest OAI-PMH records", {
+        source: this.source,
+        count: papers.length,
+        category,
+      });
+      return { papers, next };
+    } catch (error) {
+      logError("Failed to fetch latest OAI-PMH records", {
+        error: error instanceof Error ? error.message : error,
+        source: this.source,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a record by OAI identifier (GetRecord)
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const { paper, body } = await this.fetchRecord(id);
+
+    // Read the text after the API slot is released
+    await this.extractFullText(paper, body);
+
+    logInfo("Successfully fetched OAI-PMH record", {
+      source: this.source,
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The metadata and any JATS body of a record, holding an API slot only
+   * for the request
+   */
+  private async fetchRecord(
+    id: string,
+  ): Promise<{ paper: PaperMetadata; body?: DraftDocument }> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching OAI-PMH record", { source: this.source, id });
+
+      const $ = await this.request({
+        verb: "GetRecord",
+        identifier: id.trim(),
+        metadataPrefix: this.repository.metadataPrefix,
+      });
+      const record = $("GetRecord").children("record").first();
+      const fields = record.length ? this.parseFields(record) : undefined;
+      if (!fields) {
+        throw new NotFoundError(`OAI-PMH record ${id} not found`, {
+          source: this.source,
+        });
+      }
+
+      return { paper: this.convertRecord(record, fields), body: fields.body };
+    } catch (error) {
+      logError("Failed to fetch OAI-PMH record", {
+        error: error instanceof Error ? error.message : error,
+        source: this.source,
+        id,
+      });
+
+      if (error instanceof OaiPmhError && error.code === "idDoesNotExist") {
+        throw new NotFoundError(`OAI-PMH record ${id} not found`, {
+          source: this.source,
+        });
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * OAI-PMH has no search verb
+   */
+  async searchPapers(): Promise<PaperMetadata[]> {
+    throw new InvalidQueryError(
+      `Source "${this.source}" is an OAI-PMH repository and cannot be searched`,
+      {
+        source: this.source,
+        suggestions: ["Use fetch_latest with a set from list_categories"],
+      },
+    );
+  }
+
+  private async listRecords(
+    set: string,
+    from: string,
+    until: string,
+    token?: string,
+  ): Promise<cheerio.CheerioAPI> {
+    try {
+      return await this.request(
+        token
+          ? { verb: "ListRecords", resumptionToken: token }
+          : {
+              verb: "ListRecords",
+              metadataPrefix: this.repository.metadataPrefix,
+              set,
+              from,
+              until,
+            },
+      );
+    } catch (error) {
+      // An empty window is an error in OAI-PMH, not an empty list
+      if (error instanceof OaiPmhError && error.code === "noRecordsMatch") {
+        return cheerio.load("<OAI-PMH/>", { xml: true });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issue one OAI-PMH request. A resumption token replaces every other
+   * argument but the verb.
+   */
+  private async request(
+    params: Record<string, string>,
+  ): Promise<cheerio.CheerioAPI> {
+    const response = await this.http.get<string>(this.repository.baseUrl, {
+      params,
+      responseType: "text",
+    });
+
+    const $ = cheerio.load(response.data, { xml: true });
+    const error = $("OAI-PMH > error").first();
+    if (error.length) {
+      throw new OaiPmhError(
+        error.attr("code") ?? "unknown",
+        error.text().trim() || "OAI-PMH error",
+      );
+    }
+    return $;
+  }
+
+  private resumptionToken(
+    $: cheerio.CheerioAPI,
+    verb: string,
+  ): string | undefined {
+    return $(`${verb} > resumptionToken`).first().text().trim() || undefined;
+  }
+
+  private parseRecords(records: XmlElements): PaperMetadata[] {
+    return records
+      .toArray()
+      .map((_, index) => {
+        const record = records.eq(index);
+        const fields = this.parseFields(record);
+        return fields ? this.convertRecord(record, fields) : undefined;
+      })
+      .filter((paper): paper is PaperMetadata => Boolean(paper));
+  }
+
+  /**
+   * Read the metadata of a record in the configured format; deleted
+   * records have none
+   */
+  private parseFields(record: XmlElements): OaiFields | undefined {
+    const header = record.children("header");
+    const metadata = record.children("metadata").children().first();
+    if (header.attr("status") === "deleted" || metadata.length === 0) {
+      return undefined;
+    }
+
+    switch (this.repository.metadataPrefix) {
+      case "arXiv":
+        return this.parseArxiv(metadata);
+      case "jats":
+        return this.parseJats(metadata);
+      default:
+        return this.parseDublinCore(metadata);
+    }
+  }
+
+  private parseDublinCore(dc: XmlElements): OaiFields {
+    const identifiers = this.texts(dc, "identifier");
+    const links = identifiers.filter((value) => /^https?:\/\//i.test(value));
+    const doi = identifiers
+      .map(
+        (value) =>
+          value.match(
+            /^(?:doi:\s*|info:doi\/|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i,
+          )?.[1],
+      )
+      .find(Boolean);
+    const arxiv = links
+      .map((link) => link.match(/arxiv\.org\/abs\/([^?#]+)/i)?.[1])
+      .find(Boolean);
+
+    return {
+      title: this.texts(dc, "title")[0],
+      authors: this.texts(dc, "creator").map((name) => ({
+        name: this.displayName(name),
+      })),
+      date: this.texts(dc, "date").find((date) => /^\d{4}/.test(date)),
+      abstract: this.texts(dc, "description")[0],
+      doi,
+      arxivId: arxiv ? normalizeArxivId(arxiv) : undefined,
+      venue: this.texts(dc, "source")[0],
+      publisher: this.texts(dc, "publisher")[0],
+      license: this.texts(dc, "rights").find((rights) =>
+        /creativecommons\.org|^cc[ -]/i.test(rights),
+      ),
+      subjects: this.texts(dc, "subject"),
+      types: this.texts(dc, "type").map((type) =>
+        type.replace(/^info:eu-repo\/semantics\//, ""),
+      ),
+      language: this.texts(dc, "language")[0],
+      links,
+    };
+  }
+
+  private parseArxiv(arxiv: XmlElements): OaiFields {
+    const id = normalizeArxivId(this.texts(arxiv, "id")[0] ?? "");
+    const authors = this.find(arxiv, "author")
+      .toArray()
+      .map((author) => {
+        const node = arxiv.find(author);
+        const name = [
+          this.texts(node, "forenames")[0],
+          this.texts(node, "keyname")[0],
+          this.texts(node, "suffix")[0],
+        ]
+          .filter(Boolean)
+          .join(" ");
+        const affiliations = this.texts(node, "affiliation");
+        return {
+          name,
+          ...(affiliations.length && { affiliations }),
+        };
+      });
+
+    return {
+      title: this.texts(arxiv, "title")[0],
+      authors,
+      date: this.texts(arxiv, "created")[0],
+      abstract: this.texts(arxiv, "abstract")[0],
+      doi: this.texts(arxiv, "doi")[0],
+      arxivId: id || undefined,
+      venue: this.texts(arxiv, "journal-ref")[0] ?? "arXiv",
+      license: this.texts(arxiv, "license")[0],
+      subjects: (this.texts(arxiv, "categories")[0] ?? "").split(/\s+/),
+      types: [],
+      links: id ? [`https://arxiv.org/abs/${id}`] : [],
+    };
+  }
+
+  private parseJats(article: XmlElements): OaiFields {
+    const meta = this.find(article, "article-meta").first();
+    const journal = this.find(article, "journal-meta").first();
+    const date = this.find(meta, "pub-date").first();
+    const doi = this.find(meta, "article-id")
+      .filter((_, id) => id.attribs["pub-id-type"] === "doi")
+      .first()
+      .text()
+      .trim();
+    const license = this.find(meta, "license").first();
+
+    const authors = this.find(meta, "contrib")
+      .filter((_, contrib) => {
+        const type = contrib.attribs["contrib-type"];
+        return !type || type === "author";
+      })
+      .toArray()
+      .map((contrib) => {
+        const node = article.find(contrib);
+        const name =
+          [this.texts(node, "given-names")[0], this.texts(node, "surname")[0]]
+            .filter(Boolean)
+            .join(" ") || this.texts(node, "collab")[0];
+        const orcid = this.find(node, "contrib-id")
+          .filter((_, id) => id.attribs["contrib-id-type"] === "orcid")
+          .first()
+          .text()
+          .replace(/^https?:\/\/orcid\.org\//, "")
+          .trim();
+        return { name: name ?? "", ...(orcid && { orcid }) };
+      })
+      .filter((author) => author.name);
+
+    const body = this.find(article, "body").first();
+
+    return {
+      title: this.texts(meta, "article-title")[0],
+      authors,
+      date: date.length
+        ? [
+            this.texts(date, "year")[0],
+            this.texts(date, "month")[0]?.padStart(2, "0"),
+            this.texts(date, "day")[0]?.padStart(2, "0"),
+          ]
+            .filter(Boolean)
+            .join("-")
+        : undefined,
+      abstract: this.texts(meta, "abstract")[0],
+      doi: doi || undefined,
+      venue: this.texts(journal, "journal-title")[0],
+      publisher: this.texts(journal, "publisher-name")[0],
+      license:
+        license.attr("xlink:href") ?? (license.text().trim() || undefined),
+      subjects: this.texts(meta, "kwd"),
+      types: [article.attr("article-type")].filter((type): type is string =>
+        Boolean(type),
+      ),
+      language: article.attr("xml:lang"),
+      links: [],
+      body: body.text().trim() ? readJats(article) : undefined,
+    };
+  }
+
+  private convertRecord(record: XmlElements, fields: OaiFields): PaperMetadata {
+    const header = record.children("header");
+    const id = header.children("identifier").text().trim();
+    const pdfLink = fields.links.find((link) => /\.pdf($|\?)/i.test(link));
+    const landingPage = fields.links.find((link) => link !== pdfLink);
+
+    return withExtendedMetadata(
+      {
+        id,
+        title: fields.title || "Untitled",
+        authors: fields.authors.map((author) => author.name),
+        date: this.formatDate(
+          fields.date ?? header.children("datestamp").text().trim(),
+        ),
+        pdf_url: fields.arxivId
+          ? `https://arxiv.org/pdf/${fields.arxivId}`
+          : pdfLink,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: fields.abstract,
+        doi: fields.doi,
+        arxiv_id: fields.arxivId,
+        venue: fields.venue,
+        publisher: fields.publisher,
+        open_access: fields.arxivId || pdfLink ? true : undefined,
+        license: fields.license,
+        subjects: [
+          ...fields.subjects,
+          ...header
+            .children("setSpec")
+            .toArray()
+            .map((set) => record.find(set).text().trim()),
+        ],
+        publication_types: fields.types,
+        author_details: fields.authors,
+        language: fields.language,
+        source_url: landingPage,
+      },
+    );
+  }
+
+  /**
+   * JATS body text when the record carries it; otherwise arXiv HTML for
+   * eprints, or the landing page with its PDF as fallback
+   */
+  private async extractFullText(
+    paper: PaperMetadata,
+    body?: DraftDocument,
+  ): Promise<void> {
+    if (body) {
+      const { text, document } = layoutDocument(body);
+      const limit = this.config.extraction.maxTextLength;
+      paper.text = text.slice(0, limit);
+      paper.document = clipDocument(document, paper.text.length);
+      if (text.length > limit) paper.textTruncated = true;
+      return;
+    }
+
+    await this.readFullText(paper, {
+      html: paper.arxiv_id
+        ? `${ARXIV_HTML_BASE}/${paper.arxiv_id}`
+        : paper.source_url,
+      pdf: paper.pdf_url,
+    });
+  }
+
+  /**
+   * Descendants by local name, whatever namespace prefix the repository
+   * uses ("dc:title", "title")
+   */
+  private find(node: XmlElements, name: string): XmlElements {
+    return node
+      .find("*")
+      .filter((_, element) => this.localName(element) === name);
+  }
+
+  private texts(node: XmlElements, name: string): string[] {
+    return this.find(node, name)
+      .toArray()
+      .map((element) => this.clean(node.find(element).text()))
+      .filter(Boolean);
+  }
+
+  private localName(element: { tagName: string }): string {
+    return element.tagName.split(":").pop() ?? "";
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * "Curie, Marie" -> "Marie Curie"; names without a comma are kept
+   */
+  private displayName(name: string): string {
+    const [last, first] = name.split(/,\s*/, 2);
+    return first ? `${first} ${last}` : name;
+  }
+
+  /**
+   * Dates may be a year, a month or a full timestamp
+   */
+  private formatDate(date: string): string {
+    if (!date) return this.daysAgo(0);
+    const [year, month = "01", day = "01"] = date.slice(0, 10).split("-");
+    return `${year}-${month}-${day}`;
+  }
+
+  private daysAgo(days: number): string {
+    const date = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return date.toISOString().split("T")[0];
+  }
+
+  /**
+   * Map OAI-PMH protocol errors and HTTP failures to typed errors. A 503
+   * with Retry-After is OAI-PMH flow control, not an outage.
+   */
+  private toSourceError(error: unknown): unknown {
+    if (error instanceof OaiPmhError) {
+      return new InvalidQueryError(
+        `OAI-PMH repository "${this.source}" rejected the request (${error.code}): ${error.message}`,
+        {
+          source: this.source,
+          suggestions: [
+            `Use list_categories with source '${this.source}' for valid sets`,
+          ],
+        },
+      );
+    }
+    if (!axios.isAxiosError(error)) return error;
+
+    const retryAfter = Number(error.response?.headers?.["retry-after"]);
+    if (error.response?.status === 503 && Number.isFinite(retryAfter)) {
+      return new RateLimitedError(
+        `OAI-PMH repository "${this.source}" asked to retry later`,
+        { source: this.source, retryAfter, cause: error },
+      );
+    }
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError(
+        `OAI-PMH repository "${this.source}" server error`,
+        { source: this.source, cause: error },
+      );
+    }
+    return fromHttpError(
+      error,
+      `OAI-PMH repository "${this.source}"`,
+      this.source,
+    );
+  }
+}
+
+/**
+ * Source definition for one configured repository
+ */
+export function oaiPmhSource(
+  id: string,
+  repository: OaiPmhRepository,
+): SourceDefinition {
+  return {
+    id,
+    name: repository.name ?? id,
+    description:
+      repository.description ??
+      `OAI-PMH repository at ${new URL(repository.baseUrl).host}`,
+    capabilities: ["latest", "content", "categories"],
+    categoryHint: "OAI-PMH set spec from list_categories",
+    idHint: "OAI identifier like 'oai:hal.science:hal-01234567'",
+    contentHint:
+      "Repository metadata; text from a JATS body, an arXiv eprint or the record's landing page",
+    create: (rateLimiter) => new OaiPmhDriver(rateLimiter, id, repository),
+  };
+}
@@ -1,14 +1,28 @@
 import axios from "axios";
 import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { SourceDefinition } from "../core/source-registry.js";
 import {
-  OPENALEX_API_BASE,
-  DEFAULT_TEXT_EXTRACTION_CONFIG,
-} from "../config/constants.js";
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { OPENALEX_API_BASE } from "../config/constants.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
 import { DOIResolver } from "../resolvers/doi-resolver.js";
+import {
+  abstractFromInvertedIndex,
+  withExtendedMetadata,
+} from "../core/paper-metadata.js";
+import { readToken } from "../core/pagination.js";
 
 interface OpenAlexConcept {
   id: string;
@@ -26,10 +40,15 @@ interface OpenAlexConceptsResponse {
   };
 }
 
+// Work fields every request selects; keep in sync with OpenAlexWork
+const WORK_SELECT_FIELDS =
+  "id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language";
+
 interface OpenAlexLocation {
   source?: {
     id: string;
     display_name: string;
+    host_organization_name?: string;
   };
   landing_page_url?: string;
   pdf_url?: string;
@@ -49,13 +68,18 @@ interface OpenAlexWork {
     author: {
       id: string;
       display_name: string;
+      orcid?: string | null;
     };
+    institutions?: Array<{
+      display_name: string;
+    }>;
   }>;
   primary_location?: OpenAlexLocation;
   best_oa_location?: OpenAlexLocation;
   locations?: OpenAlexLocation[];
   open_access?: {
     is_oa: boolean;
+    oa_status?: string;
     oa_date?: string;
     oa_url?: string;
     any_repository_has_fulltext?: boolean;
@@ -65,33 +89,38 @@ interface OpenAlexWork {
     id: string;
     display_name: string;
   }>;
+  abstract_inverted_index?: Record<string, number[]> | null;
+  language?: string | null;
 }
 
 interface OpenAlexWorksResponse {
   results: OpenAlexWork[];
   meta: {
     count: number;
-    page: number;
+    page: number | null;
+    next_cursor?: string | null;
   };
 }
 
+interface FullTextResolution {
+  url?: string;
+  source: string;
+  resolver_path: string;
+}
+
 export class OpenAlexDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
   private doiResolver: DOIResolver;
-  private readonly politePoolEmail = "contact@sciharvestermcp.org";
 
   constructor(rateLimiter: RateLimiter) {
     super(rateLimiter, "openalex");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
-    this.doiResolver = new DOIResolver();
+    this.doiResolver = new DOIResolver(rateLimiter);
   }
 
   /**
-   * Get common request headers for OpenAlex API with polite pool access
+   * Get common request headers for OpenAlex API
    */
   private getRequestHeaders() {
     return {
-      "User-Agent": `SciHarvester-MCP/0.1.27 (mailto:${this.politePoolEmail}); latest-science-mcp`,
       Accept: "application/json",
     };
   }
@@ -101,7 +130,7 @@ export class OpenAlexDriver extends BaseDriver {
    */
   private getRequestParams(additionalParams: Record<string, any> = {}) {
     return {
-      mailto: this.politePoolEmail,
+      mailto: this.http.contactEmail,
       ...additionalParams,
     };
   }
@@ -111,17 +140,13 @@ export class OpenAlexDriver extends BaseDriver {
    * Fetches top-level concepts with highest paper counts
    */
   async listCategories(): Promise<Category[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching OpenAlex concepts", { retryAfter });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching OpenAlex concepts");
 
       // Fetch top-level concepts (level 0) with highest works count
-      const response = await axios.get<OpenAlexConceptsResponse>(
+      const response = await this.http.get<OpenAlexConceptsResponse>(
         `${OPENALEX_API_BASE}/concepts`,
         {
           params: this.getRequestParams({
@@ -155,19 +180,29 @@ export class OpenAlexDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 403) {
-          throw new Error(
+          throw new InvalidQueryError(
             "OpenAlex API access forbidden - check request parameters",
+            { source: this.source, cause: error },
           );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by OpenAlex API");
+          throw new RateLimitedError("Rate limited by OpenAlex API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("OpenAlex API server error");
+          throw new SourceDownError("OpenAlex API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "OpenAlex API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -175,14 +210,15 @@ export class OpenAlexDriver extends BaseDriver {
    * Fetch latest papers from OpenAlex for a given concept/category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest OpenAlex papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching latest OpenAlex papers", { category, count });
@@ -194,24 +230,23 @@ export class OpenAlexDriver extends BaseDriver {
         filter: conceptFilter,
       });
 
-      const response = await axios.get<OpenAlexWorksResponse>(
+      const response = await this.http.get<OpenAlexWorksResponse>(
         `${OPENALEX_API_BASE}/works`,
         {
           params: this.getRequestParams({
             filter: conceptFilter,
             sort: "publication_date:desc",
             per_page: Math.min(count, 200), // OpenAlex max per_page is 200
-            select:
-              "id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts",
+            select: WORK_SELECT_FIELDS,
+            cursor: readToken(position, "cursor") ?? "*",
           }),
-          timeout: 15000,
           headers: this.getRequestHeaders(),
         },
       );
 
       // Process works in parallel for better performance (metadata only)
       const paperPromises = response.data.results.map((work) =>
-        this.convertWorkToPaper(work, false),
+        this.convertWorkToPaper(work),
       ); // false = metadata only
       const papers = await Promise.all(paperPromises);
 
@@ -220,7 +255,7 @@ export class OpenAlexDriver extends BaseDriver {
         category,
       });
 
-      return papers;
+      return { papers, next: this.nextPage(response.data) };
     } catch (error) {
       logError("Failed to fetch latest OpenAlex papers", {
         error: error instanceof Error ? error.message : error,
@@ -231,19 +266,29 @@ export class OpenAlexDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 403) {
-          throw new Error(
+          throw new InvalidQueryError(
             `OpenAlex API access forbidden - invalid category format: ${category}`,
+            { source: this.source, cause: error },
           );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by OpenAlex API");
+          throw new RateLimitedError("Rate limited by OpenAlex API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("OpenAlex API server error");
+          throw new SourceDownError("OpenAlex API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "OpenAlex API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -255,14 +300,16 @@ export class OpenAlexDriver extends BaseDriver {
     since: string,
     count: number,
   ): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching top cited OpenAlex papers", {
-        retryAfter,
-        concept,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchTopCitedPage(concept, since, count)).papers;
+  }
+
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching top cited OpenAlex papers", { concept, since, count });
@@ -272,23 +319,22 @@ export class OpenAlexDriver extends BaseDriver {
       const dateFilter = `publication_date:>${since}`;
       const combinedFilter = `${conceptFilter},${dateFilter}`;
 
-      const response = await axios.get<OpenAlexWorksResponse>(
+      const response = await this.http.get<OpenAlexWorksResponse>(
         `${OPENALEX_API_BASE}/works`,
         {
           params: this.getRequestParams({
             filter: combinedFilter,
             sort: "cited_by_count:desc",
             per_page: Math.min(count, 200), // OpenAlex max per_page is 200
-            select:
-              "id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts",
+            select: WORK_SELECT_FIELDS,
+            cursor: readToken(position, "cursor") ?? "*",
           }),
-          timeout: 15000,
           headers: this.getRequestHeaders(),
         },
       );
 
       const paperPromises = response.data.results.map((work) =>
-        this.convertWorkToPaper(work, false),
+        this.convertWorkToPaper(work),
       ); // false = metadata only
       const papers = await Promise.all(paperPromises);
       logInfo("Successfully fetched OpenAlex top cited papers", {
@@ -297,7 +343,7 @@ export class OpenAlexDriver extends BaseDriver {
         since,
       });
 
-      return papers;
+      return { papers, next: this.nextPage(response.data) };
     } catch (error) {
       logError("Failed to fetch top cited OpenAlex papers", {
         error: error instanceof Error ? error.message : error,
@@ -308,19 +354,29 @@ export class OpenAlexDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 403) {
-          throw new Error(
+          throw new InvalidQueryError(
             `OpenAlex API access forbidden - invalid concept format: ${concept}`,
+            { source: this.source, cause: error },
           );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by OpenAlex API");
+          throw new RateLimitedError("Rate limited by OpenAlex API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("OpenAlex API server error");
+          throw new SourceDownError("OpenAlex API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "OpenAlex API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -328,15 +384,39 @@ export class OpenAlexDriver extends BaseDriver {
    * Fetch content for a specific OpenAlex work by ID
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching OpenAlex paper content", {
-        retryAfter,
-        id,
+    const work = await this.fetchWork(id);
+    const fullText = await this.resolveFullText(work);
+    const paper = await this.convertWorkToPaper(work, fullText);
+
+    // Read the text after the API slot is released
+    if (fullText.url) {
+      await this.readFullText(
+        paper,
+        fullText.source === "html"
+          ? { html: fullText.url, pdf: paper.pdf_url }
+          : { pdf: fullText.url },
+      );
+    } else {
+      logInfo("Skipping text extraction - no full-text URL found", {
+        id: paper.id,
+        resolver_path: fullText.resolver_path,
       });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
     }
 
+    logInfo("Successfully fetched OpenAlex paper content", {
+      id,
+      title: paper.title,
+    });
+
+    return paper;
+  }
+
+  /**
+   * Fetch one work record, holding an API slot only for the request
+   */
+  private async fetchWork(id: string): Promise<OpenAlexWork> {
+    const release = await this.acquire();
+
     try {
       logInfo("Fetching OpenAlex paper content", { id });
 
@@ -346,22 +426,14 @@ export class OpenAlexDriver extends BaseDriver {
         ? `${OPENALEX_API_BASE}/works/${cleanId}`
         : `${OPENALEX_API_BASE}/works/https://openalex.org/${cleanId}`;
 
-      const response = await axios.get<OpenAlexWork>(workUrl, {
+      const response = await this.http.get<OpenAlexWork>(workUrl, {
         params: this.getRequestParams({
-          select:
-            "id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts",
+          select: WORK_SELECT_FIELDS,
         }),
-        timeout: 15000,
         headers: this.getRequestHeaders(),
       });
 
-      const paper = await this.convertWorkToPaper(response.data, true);
-      logInfo("Successfully fetched OpenAlex paper content", {
-        id,
-        title: paper.title,
-      });
-
-      return paper;
+      return response.data;
     } catch (error) {
       logError("Failed to fetch OpenAlex paper content", {
         error: error instanceof Error ? error.message : error,
@@ -370,22 +442,34 @@ export class OpenAlexDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 403) {
-          throw new Error(
+          throw new InvalidQueryError(
             `OpenAlex API access forbidden - invalid work ID: ${id}`,
+            { source: this.source, cause: error },
           );
         }
         if (error.response?.status === 404) {
-          throw new Error(`Paper with ID ${id} not found on OpenAlex`);
+          throw new NotFoundError(`Paper with ID ${id} not found on OpenAlex`, {
+            source: this.source,
+          });
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by OpenAlex API");
+          throw new RateLimitedError("Rate limited by OpenAlex API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("OpenAlex API server error");
+          throw new SourceDownError("OpenAlex API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "OpenAlex API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
@@ -396,7 +480,7 @@ export class OpenAlexDriver extends BaseDriver {
    */
   private async resolveFullText(
     work: OpenAlexWork,
-  ): Promise<{ url?: string; source: string; resolver_path: string }> {
+  ): Promise<FullTextResolution> {
     let resolver_path = "";
 
     // Step 1: Try best_oa_location first (highest quality open access)
@@ -500,7 +584,7 @@ export class OpenAlexDriver extends BaseDriver {
    */
   private async convertWorkToPaper(
     work: OpenAlexWork,
-    includeText: boolean = false,
+    fullTextResult?: FullTextResolution,
   ): Promise<PaperMetadata> {
     // Extract authors
     const authors = work.authorships.map(
@@ -512,94 +596,44 @@ export class OpenAlexDriver extends BaseDriver {
       work.publication_date || new Date().toISOString().split("T")[0];
 
     // Resolve full-text URL using improved resolver (now with DOI fallback)
-    const fullTextResult = await this.resolveFullText(work);
+    fullTextResult ??= await this.resolveFullText(work);
     const pdf_url =
       fullTextResult.source === "pdf"
         ? fullTextResult.url
         : work.primary_location?.pdf_url;
 
     // Create base paper object
-    const paper: PaperMetadata = {
-      id: this.extractWorkId(work.id),
-      title: work.title || work.display_name || "Untitled",
-      authors,
-      date,
-      pdf_url,
-      text: "", // Always include text field, empty for metadata-only
-    };
-
-    // Only extract text if requested (for fetch_content)
-    if (includeText) {
-      let textTruncated = false;
-      let textExtractionFailed = false;
-      let resolverPath = fullTextResult.resolver_path;
-
-      try {
-        // Use improved full-text resolution
-        if (
-          fullTextResult.url &&
-          fullTextResult.source === "html" &&
-          this.checkRateLimit()
-        ) {
-          const extractionResult = await this.textExtractor.extractText(
-            fullTextResult.url,
-          );
-
-          if (extractionResult.extractionSuccess) {
-            paper.text = extractionResult.text;
-            textTruncated = extractionResult.truncated;
-            logInfo("Text extraction successful for OpenAlex paper", {
-              id: this.extractWorkId(work.id),
-              textLength: paper.text.length,
-              truncated: textTruncated,
-              source: extractionResult.source,
-              resolver_path: resolverPath,
-            });
-          } else {
-            textExtractionFailed = true;
-            logWarn("Text extraction failed for OpenAlex paper", {
-              id: this.extractWorkId(work.id),
-              resolver_path: resolverPath,
-            });
-          }
-        } else {
-          // Log why text extraction was skipped
-          if (!fullTextResult.url) {
-            logInfo("Skipping text extraction - no full-text URL found", {
-              id: this.extractWorkId(work.id),
-              resolver_path: resolverPath,
-            });
-          } else if (fullTextResult.source !== "html") {
-            logInfo("Skipping text extraction - non-HTML source", {
-              id: this.extractWorkId(work.id),
-              source_type: fullTextResult.source,
-              resolver_path: resolverPath,
-            });
-          } else if (!this.checkRateLimit()) {
-            textExtractionFailed = true;
-            logWarn("Rate limited for text extraction", {
-              id: this.extractWorkId(work.id),
-              resolver_path: resolverPath,
-            });
-          }
-        }
-      } catch (error) {
-        textExtractionFailed = true;
-        logError("Error during text extraction for OpenAlex paper", {
-          id: this.extractWorkId(work.id),
-          error: error instanceof Error ? error.message : error,
-          resolver_path: resolverPath,
-        });
-      }
-
-      // Add warning flags if needed
-      if (textTruncated) {
-        paper.textTruncated = true;
-      }
-      if (textExtractionFailed) {
-        paper.textExtractionFailed = true;
-      }
-    }
+    const paper = withExtendedMetadata(
+      {
+        id: this.extractWorkId(work.id),
+        title: work.title || work.display_name || "Untitled",
+        authors,
+        date,
+        pdf_url,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: abstractFromInvertedIndex(work.abstract_inverted_index),
+        doi: work.doi,
+        venue: work.primary_location?.source?.display_name,
+        publisher: work.primary_location?.source?.host_organization_name,
+        citation_count: work.cited_by_count,
+        open_access: work.open_access?.is_oa,
+        oa_status: work.open_access?.oa_status,
+        license:
+          work.best_oa_location?.license || work.primary_location?.license,
+        subjects: (work.concepts || []).map((concept) => concept.display_name),
+        author_details: work.authorships.map((authorship) => ({
+          name: authorship.author.display_name,
+          affiliations: (authorship.institutions || []).map(
+            (institution) => institution.display_name,
+          ),
+          orcid: authorship.author.orcid || undefined,
+        })),
+        language: work.language,
+        source_url: work.primary_location?.landing_page_url || work.id,
+      },
+    );
 
     return paper;
   }
@@ -672,15 +706,17 @@ export class OpenAlexDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when searching OpenAlex papers", {
-        retryAfter,
-        query,
-        field,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Searching OpenAlex papers", { query, field, count, sortBy });
@@ -704,7 +740,8 @@ export class OpenAlexDriver extends BaseDriver {
       let requestParams: any = {
         sort: sortParam,
         per_page: Math.min(count, 200),
-        select: "id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts",
+        select: WORK_SELECT_FIELDS,
+        cursor: readToken(position, "cursor") ?? "*",
       };
 
       // Map field to OpenAlex search syntax
@@ -728,18 +765,17 @@ export class OpenAlexDriver extends BaseDriver {
           break;
       }
 
-      const response = await axios.get<OpenAlexWorksResponse>(
+      const response = await this.http.get<OpenAlexWorksResponse>(
         `${OPENALEX_API_BASE}/works`,
         {
           params: this.getRequestParams(requestParams),
-          timeout: 15000,
           headers: this.getRequestHeaders(),
         },
       );
 
       // Process works in parallel for better performance (metadata only)
       const paperPromises = response.data.results.map((work) =>
-        this.convertWorkToPaper(work, false),
+        this.convertWorkToPaper(work),
       );
       const papers = await Promise.all(paperPromises);
 
@@ -750,7 +786,7 @@ export class OpenAlexDriver extends BaseDriver {
         sortBy,
       });
 
-      return papers;
+      return { papers, next: this.nextPage(response.data) };
     } catch (error) {
       logError("Failed to search OpenAlex papers", {
         error: error instanceof Error ? error.message : error,
@@ -762,22 +798,41 @@ export class OpenAlexDriver extends BaseDriver {
 
       if (axios.isAxiosError(error)) {
         if (error.response?.status === 403) {
-          throw new Error(
+          throw new InvalidQueryError(
             `OpenAlex API access forbidden - invalid search query: ${query}`,
+            { source: this.source, cause: error },
           );
         }
         if (error.response?.status === 429) {
-          throw new Error("Rate limited by OpenAlex API");
+          throw new RateLimitedError("Rate limited by OpenAlex API", {
+            source: this.source,
+            cause: error,
+          });
         }
         if (error.response?.status && error.response.status >= 500) {
-          throw new Error("OpenAlex API server error");
+          throw new SourceDownError("OpenAlex API server error", {
+            source: this.source,
+            cause: error,
+          });
         }
+        throw fromHttpError(error, "OpenAlex API", this.source);
       }
 
       throw error;
+    } finally {
+      release();
     }
   }
 
+  /**
+   * OpenAlex cursor paging: the first request sends cursor=* and each
+   * response names the cursor for the next page until results run out
+   */
+  private nextPage(data: OpenAlexWorksResponse): PagePosition | undefined {
+    const cursor = data.meta?.next_cursor;
+    return cursor && data.results.length > 0 ? { cursor } : undefined;
+  }
+
   /**
    * Extract concept ID from OpenAlex URL format
    * e.g., "https://openalex.org/C41008148" -> "C41008148"
@@ -807,3 +862,22 @@ export class OpenAlexDriver extends BaseDriver {
     return id;
   }
 }
+
+export const openAlexSource: SourceDefinition = {
+  id: "openalex",
+  name: "OpenAlex",
+  description:
+    "OpenAlex academic papers (all fields) - Massive database, good metadata",
+  capabilities: ["search", "latest", "content", "topCited", "categories"],
+  categoryHint: "concept names like 'machine learning' or IDs like 'C41008148'",
+  idHint: "'W2741809807'",
+  contentHint: "Abstracts and rich metadata",
+  searchHint:
+    "Title, abstract, author, fulltext, and general search with relevance scoring",
+  sortHint: "relevance, date, citations (full support)",
+  conceptHint:
+    "Concept names like 'machine learning' or 'computational biology', or concept IDs like 'C41008148'",
+  identifierFor: (ids) => ids.openalex,
+  fullTextRank: 5, // Only has text when an open access HTML copy is found
+  create: (rateLimiter) => new OpenAlexDriver(rateLimiter),
+};
@@ -0,0 +1,608 @@
+/**
+ * OSF Preprints Driver
+ *
+ * Covers the preprint servers hosted on OSF (PsyArXiv, SocArXiv,
+ * EarthArXiv, engrXiv and others) through the OSF JSON:API. Each server
+ * is an OSF "provider", used here as the category.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError, logWarn } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import { OSF_API_BASE } from "../config/constants.js";
+
+// JSON:API page size limit for the preprints endpoint
+const MAX_PAGE_SIZE = 100;
+
+// Preprint GUIDs are five characters; versions add a "_v<n>" suffix
+const PREPRINT_ID_PATTERN = /^([a-z0-9]{5})(_v\d+)?$/i;
+
+interface OsfUser {
+  attributes: {
+    full_name: string;
+    social?: { orcid?: string };
+  };
+}
+
+interface OsfContributor {
+  attributes: {
+    bibliographic: boolean;
+    index: number;
+    unregistered_contributor?: string | null;
+  };
+  embeds?: {
+    users?: { data?: OsfUser };
+  };
+}
+
+interface OsfFile {
+  attributes: { name: string };
+  links: { download?: string };
+}
+
+interface OsfPreprint {
+  id: string; // e.g. "abcde_v2"
+  attributes: {
+    title: string;
+    description?: string;
+    date_published?: string | null;
+    date_created: string;
+    doi?: string | null; // Journal DOI once published
+    tags?: string[];
+    subjects?: Array<Array<{ id: string; text: string }>>;
+    is_published?: boolean;
+    version?: number;
+  };
+  relationships: {
+    provider?: { data?: { id: string } };
+    primary_file?: { links?: { related?: { href?: string } } };
+  };
+  embeds?: {
+    contributors?: { data?: OsfContributor[] };
+    primary_file?: { data?: OsfFile };
+  };
+  links: {
+    html?: string;
+    preprint_doi?: string;
+  };
+}
+
+interface OsfListResponse {
+  data: OsfPreprint[];
+  links?: { next?: string | null; meta?: { total?: number } };
+  meta?: { total?: number };
+}
+
+interface OsfPreprintResponse {
+  data: OsfPreprint;
+}
+
+// Filters assembled from a search query or category
+type PreprintFilters = Record<string, string>;
+
+export class OsfDriver extends BaseDriver {
+  private readonly downloadBase = "https://osf.io/download";
+
+  // OSF preprint providers
+  private readonly providers = [
+    {
+      id: "psyarxiv",
+      name: "PsyArXiv",
+      description: "Psychological sciences",
+    },
+    { id: "socarxiv", name: "SocArXiv", description: "Social sciences" },
+    {
+      id: "eartharxiv",
+      name: "EarthArXiv",
+      description: "Earth and planetary sciences",
+    },
+    { id: "engrxiv", name: "engrXiv", description: "Engineering" },
+    { id: "edarxiv", name: "EdArXiv", description: "Education research" },
+    { id: "lawarxiv", name: "LawArXiv", description: "Legal scholarship" },
+    {
+      id: "metaarxiv",
+      name: "MetaArXiv",
+      description: "Meta-research and research methods",
+    },
+    {
+      id: "mindrxiv",
+      name: "MindRxiv",
+      description: "Mind and contemplative practices",
+    },
+    {
+      id: "sportrxiv",
+      name: "SportRxiv",
+      description: "Sport, exercise and health science",
+    },
+    {
+      id: "marxiv",
+      name: "MarXiv",
+      description: "Ocean and marine-climate sciences",
+    },
+    { id: "paleorxiv", name: "PaleorXiv", description: "Paleontology" },
+    {
+      id: "africarxiv",
+      name: "AfricArXiv",
+      description: "African research",
+    },
+    {
+      id: "indiarxiv",
+      name: "IndiaRxiv",
+      description: "Research from India",
+    },
+    {
+      id: "mediarxiv",
+      name: "MediArXiv",
+      description: "Media, film and communication studies",
+    },
+    {
+      id: "thesiscommons",
+      name: "Thesis Commons",
+      description: "Theses and dissertations",
+    },
+    {
+      id: "osf",
+      name: "OSF Preprints",
+      description: "Multidisciplinary preprints",
+    },
+  ];
+
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "osf");
+  }
+
+  /**
+   * List OSF preprint providers
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching OSF preprint providers");
+    return this.providers;
+  }
+
+  /**
+   * Fetch the latest preprints from one provider
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest OSF preprints", { category, count });
+
+      const page = await this.listPreprints(
+        { provider: this.parseProvider(category) },
+        count,
+        position,
+      );
+
+      if (page.papers.length === 0) {
+        logWarn("No OSF preprints found for provider", { category });
+      } else {
+        logInfo("Successfully fetched OSF latest preprints", {
+          count: page.papers.length,
+          category,
+        });
+      }
+      return page;
+    } catch (error) {
+      logError("Failed to fetch latest OSF preprints", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a preprint by GUID or OSF DOI. A GUID without a version is
+   * followed to its latest version; text comes from the primary file.
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const paper = this.convertPreprint(await this.fetchPreprint(id));
+
+    // Read the text after the API slot is released. Only primary files
+    // that are PDFs have a pdf_url.
+    await this.readFullText(paper, { pdf: paper.pdf_url });
+
+    logInfo("Successfully fetched OSF preprint content", {
+      id,
+      preprintId: paper.id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * The latest version of a preprint with its contributors and primary
+   * file, holding an API slot only for the requests
+   */
+  private async fetchPreprint(id: string): Promise<OsfPreprint> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching OSF preprint content", { id });
+
+      const preprintId = await this.resolveVersion(this.toPreprintId(id));
+      const params = new URLSearchParams([
+        ["embed", "contributors"],
+        ["embed", "primary_file"],
+      ]);
+      const response = await this.http.get<OsfPreprintResponse>(
+        `${OSF_API_BASE}/preprints/${preprintId}/`,
+        { params },
+      );
+      return response.data.data;
+    } catch (error) {
+      logError("Failed to fetch OSF preprint content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`OSF preprint ${id} not found`, {
+          source: this.source,
+        });
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search preprint titles or abstracts. OSF filters on substrings rather
+   * than ranking matches, so results are always newest first. Queries may
+   * narrow the search with `provider:<id>` and `tag:<tag>`.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const filters = this.buildSearchFilters(query, field);
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching OSF preprints", {
+        query,
+        field,
+        count,
+        sortBy,
+        filters,
+      });
+
+      if (sortBy === "citations") {
+        logWarn("OSF does not support citation sorting, using date", {
+          query,
+        });
+      }
+
+      const page = await this.listPreprints(filters, count, position);
+
+      logInfo("OSF search completed", {
+        query,
+        field,
+        resultsFound: page.papers.length,
+      });
+      return page;
+    } catch (error) {
+      logError("OSF search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * List published preprints matching the filters, newest first. The
+   * position is an offset; it is turned into a JSON:API page number plus
+   * the records to skip on that page, so `count` may change between pages.
+   */
+  private async listPreprints(
+    filters: PreprintFilters,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const pageSize = Math.min(count, MAX_PAGE_SIZE);
+    let offset = readOffset(position, "offset");
+    let total = Infinity;
+    let requests = 0;
+    const preprints: OsfPreprint[] = [];
+
+    while (preprints.length < count && offset < total) {
+      // The first call was paid for by the caller
+      if (requests > 0 && !this.checkRateLimit()) break;
+      requests++;
+
+      const params = new URLSearchParams({
+        "filter[is_published]": "true",
+        sort: "-date_published",
+        "page[size]": String(pageSize),
+        page: String(Math.floor(offset / pageSize) + 1),
+        embed: "contributors",
+      });
+      Object.entries(filters).forEach(([name, value]) =>
+        params.set(`filter[${name}]`, value),
+      );
+
+      const response = await this.http.get<OsfListResponse>(
+        `${OSF_API_BASE}/preprints/`,
+        { params },
+      );
+
+      const batch = response.data.data ?? [];
+      total =
+        response.data.links?.meta?.total ?? response.data.meta?.total ?? 0;
+      if (batch.length === 0) break;
+
+      const skip = offset % pageSize;
+      const taken = batch.slice(skip, skip + count - preprints.length);
+      if (taken.length === 0) break;
+      preprints.push(...taken);
+      offset += taken.length;
+      if (!response.data.links?.next) total = offset;
+    }
+
+    return {
+      papers: preprints.map((preprint) => this.convertPreprint(preprint)),
+      next: offset < total ? { offset } : undefined,
+    };
+  }
+
+  /**
+   * Pick the latest published version of a preprint GUID. Versioned IDs
+   * are returned as given.
+   */
+  private async resolveVersion(preprintId: string): Promise<string> {
+    if (preprintId.includes("_v") || !this.checkRateLimit()) {
+      return preprintId;
+    }
+
+    try {
+      const response = await this.http.get<OsfListResponse>(
+        `${OSF_API_BASE}/preprints/${preprintId}/versions/`,
+      );
+      const latest = (response.data.data ?? [])
+        .filter((version) => version.attributes.is_published !== false)
+        .sort(
+          (a, b) => (b.attributes.version ?? 0) - (a.attributes.version ?? 0),
+        )[0];
+
+      if (latest && latest.id !== preprintId) {
+        logInfo("Following OSF preprint to its latest version", {
+          id: preprintId,
+          version: latest.id,
+        });
+      }
+      return latest?.id ?? preprintId;
+    } catch (error) {
+      // Preprints from before versioning have no versions listing
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return preprintId;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Turn the search query into JSON:API filters
+   */
+  private buildSearchFilters(query: string, field: string): PreprintFilters {
+    if (field === "author" || field === "fulltext") {
+      throw new InvalidQueryError(
+        `OSF Preprints does not support ${field} search`,
+        {
+          source: this.source,
+          suggestions: ["Use field 'all', 'title' or 'abstract'"],
+        },
+      );
+    }
+
+    const filters: PreprintFilters = {};
+    const text = query
+      .replace(/\b(provider|tag):(\S+)/gi, (_, name: string, value: string) => {
+        if (name.toLowerCase() === "provider") {
+          filters.provider = this.parseProvider(value);
+        } else {
+          filters.tags = value;
+        }
+        return " ";
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (text) {
+      filters[field === "abstract" ? "description" : "title"] = text;
+    }
+    if (Object.keys(filters).length === 0) {
+      throw new InvalidQueryError("Search query is empty", {
+        source: this.source,
+      });
+    }
+    return filters;
+  }
+
+  /**
+   * Convert an OSF preprint resource to PaperMetadata
+   */
+  private convertPreprint(preprint: OsfPreprint): PaperMetadata {
+    const { attributes } = preprint;
+    const providerId = preprint.relationships.provider?.data?.id;
+    const provider = this.providers.find((p) => p.id === providerId);
+
+    const authorDetails: AuthorDetail[] = (
+      preprint.embeds?.contributors?.data ?? []
+    )
+      .filter((contributor) => contributor.attributes.bibliographic)
+      .sort((a, b) => a.attributes.index - b.attributes.index)
+      .map((contributor) => {
+        const user = contributor.embeds?.users?.data?.attributes;
+        return {
+          name:
+            contributor.attributes.unregistered_contributor ||
+            user?.full_name ||
+            "",
+          orcid: user?.social?.orcid || undefined,
+        };
+      })
+      .filter((author) => author.name);
+
+    // Subjects come as paths from the top of the taxonomy
+    const subjects = (attributes.subjects ?? []).flatMap((path) =>
+      path.map((subject) => subject.text),
+    );
+
+    const date = (attributes.date_published ?? attributes.date_created).split(
+      "T",
+    )[0];
+
+    return withExtendedMetadata(
+      {
+        id: preprint.id,
+        title: attributes.title || "Untitled",
+        authors: authorDetails.map((author) => author.name),
+        date,
+        pdf_url: this.downloadUrl(preprint),
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: attributes.description,
+        // Prefer the preprint's own DOI; the journal DOI is another work
+        doi: preprint.links.preprint_doi ?? attributes.doi,
+        venue: provider?.name ?? providerId,
+        open_access: true,
+        oa_status: "green",
+        subjects: [...subjects, ...(attributes.tags ?? [])],
+        author_details: authorDetails,
+        source_url: preprint.links.html,
+      },
+    );
+  }
+
+  /**
+   * Download link of the primary file, unless it is known not to be a
+   * PDF (some preprints are Word documents). List responses only carry
+   * the file's API link, whose last path segment is the file ID.
+   */
+  private downloadUrl(preprint: OsfPreprint): string | undefined {
+    const file = preprint.embeds?.primary_file?.data;
+    if (file) {
+      return /\.pdf$/i.test(file.attributes.name)
+        ? file.links.download
+        : undefined;
+    }
+
+    const href = preprint.relationships.primary_file?.links?.related?.href;
+    const fileId = href?.match(/\/files\/([^/]+)\/?$/)?.[1];
+    return fileId ? `${this.downloadBase}/${fileId}/` : undefined;
+  }
+
+  /**
+   * Accept a provider ID or display name, e.g. "psyarxiv" or "PsyArXiv"
+   */
+  private parseProvider(category: string): string {
+    const trimmed = category.trim().toLowerCase();
+    const provider = this.providers.find(
+      (p) => p.id === trimmed || p.name.toLowerCase() === trimmed,
+    );
+    // OSF adds providers over time; pass unknown IDs through
+    return provider?.id ?? trimmed;
+  }
+
+  /**
+   * Accept a GUID ("abcde", "abcde_v2"), an OSF URL or an OSF DOI
+   * ("10.31234/osf.io/abcde")
+   */
+  private toPreprintId(id: string): string {
+    const trimmed = id.trim();
+    const match =
+      trimmed.match(PREPRINT_ID_PATTERN) ??
+      trimmed.match(/osf\.io\/(?:preprints\/[^/]+\/)?([a-z0-9]{5})(_v\d+)?/i);
+    if (!match) {
+      throw new InvalidQueryError(`Invalid OSF preprint ID: ${id}`, {
+        source: this.source,
+        suggestions: [
+          "Use a preprint GUID such as 'abcde' or 'abcde_v2', or an OSF DOI",
+        ],
+      });
+    }
+    return `${match[1].toLowerCase()}${match[2] ?? ""}`;
+  }
+
+  /**
+   * Map an OSF API failure to a typed error
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("OSF API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "OSF API", this.source);
+  }
+}
+
+export const osfSource: SourceDefinition = {
+  id: "osf",
+  name: "OSF Preprints",
+  description:
+    "OSF Preprints - PsyArXiv, SocArXiv, EarthArXiv and other community preprint servers",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "Provider IDs like 'psyarxiv', 'socarxiv' or 'eartharxiv'",
+  idHint: "Preprint GUID like 'abcde' or 'abcde_v2'",
+  contentHint: "Abstracts; text from the primary file when it is a PDF",
+  searchHint:
+    "Title or abstract substring search; provider:psyarxiv and tag:<tag> narrow it (no author or fulltext field)",
+  sortHint: "always newest first",
+  identifierFor: (ids) =>
+    [ids.preprint_doi, ids.doi]
+      .map((doi) => doi?.match(/^10\.\d+\/osf\.io\/([a-z0-9]{5})$/)?.[1])
+      .find(Boolean),
+  fullTextRank: 9, // PDFs only
+  create: (rateLimiter) => new OsfDriver(rateLimiter),
+};
@@ -6,22 +6,20 @@
  */
 
 import axios from "axios";
-import * as cheerio from "cheerio";
-import { BaseDriver } from "./base-driver.js";
-import { Category, PaperMetadata } from "../types/papers.js";
+import { EUtilsDriver } from "./eutils-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import { NotFoundError } from "../core/errors.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { HtmlExtractor } from "../extractors/html-extractor.js";
-import { DEFAULT_TEXT_EXTRACTION_CONFIG } from "../config/constants.js";
-
-interface PMCSearchResult {
-  esearchresult: {
-    idlist: string[];
-    count: string;
-    retmax: string;
-    retstart: string;
-  };
-}
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import { MAX_PAPER_COUNT } from "../config/constants.js";
 
 interface PMCSummary {
   uid: string;
@@ -35,17 +33,15 @@ interface PMCSummary {
   pmcid: string;
   doi?: string;
   elocationid?: string;
+  fulljournalname?: string;
+  source?: string; // Abbreviated journal title
+  articleids?: Array<{
+    idtype: string;
+    value: string;
+  }>;
 }
 
-interface PMCSummaryResult {
-  result: {
-    [key: string]: PMCSummary;
-  };
-}
-
-export class PMCDriver extends BaseDriver {
-  private textExtractor: HtmlExtractor;
-  private readonly eUtilsBase = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+export class PMCDriver extends EUtilsDriver {
   private readonly pmcBase = "https://www.ncbi.nlm.nih.gov/pmc";
 
   // PMC subject categories mapped to search terms
@@ -97,8 +93,7 @@ export class PMCDriver extends BaseDriver {
   ];
 
   constructor(rateLimiter: RateLimiter) {
-    super(rateLimiter, "pmc");
-    this.textExtractor = new HtmlExtractor(DEFAULT_TEXT_EXTRACTION_CONFIG);
+    super(rateLimiter, "pmc", "pmc", "PMC E-utilities API");
   }
 
   /**
@@ -113,14 +108,15 @@ export class PMCDriver extends BaseDriver {
    * Fetch latest papers from PMC for a given category
    */
   async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching latest PMC papers", {
-        retryAfter,
-        category,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching latest PMC papers", { category, count });
@@ -128,89 +124,69 @@ export class PMCDriver extends BaseDriver {
       // Build search query for the category
       const searchQuery = this.buildSearchQuery(category);
 
+      const retmax = Math.min(count, MAX_PAPER_COUNT);
+      const retstart = readOffset(position, "retstart");
+
       // Step 1: Search for PMC IDs
-      const searchUrl = `${this.eUtilsBase}/esearch.fcgi`;
-      const searchResponse = await axios.get<PMCSearchResult>(searchUrl, {
-        params: {
-          db: "pmc",
-          term: searchQuery,
-          retmax: Math.min(count, 100), // PMC allows up to 100 results per request
-          retmode: "json",
-          sort: "pub_date",
-          tool: "SciHarvester-MCP",
-          email: "contact@sciharvestermcp.org",
-        },
-        timeout: 15000,
+      const search = await this.esearch(searchQuery, {
+        retmax,
+        retstart,
+        sort: "pub_date",
       });
-
-      const pmcIds = searchResponse.data.esearchresult.idlist;
+      const pmcIds = search.ids;
 
       if (pmcIds.length === 0) {
         logWarn("No PMC papers found for category", { category, searchQuery });
-        return [];
+        return { papers: [] };
       }
 
       // Step 2: Fetch detailed summaries
-      const summaryUrl = `${this.eUtilsBase}/esummary.fcgi`;
-      const summaryResponse = await axios.get<PMCSummaryResult>(summaryUrl, {
-        params: {
-          db: "pmc",
-          id: pmcIds.join(","),
-          retmode: "json",
-          tool: "SciHarvester-MCP",
-          email: "contact@sciharvestermcp.org",
-        },
-        timeout: 15000,
-      });
-
-      // Convert summaries to PaperMetadata format (metadata only)
-      const validSummaries = pmcIds
-        .map((id) => summaryResponse.data.result[id])
-        .filter((summary) => summary && summary.title);
+      const validSummaries = await this.fetchSummaries(pmcIds);
 
-      const papers = await Promise.all(
-        validSummaries.map((summary) =>
-          this.convertSummaryToPaper(summary, false),
-        ),
+      const papers = validSummaries.map((summary) =>
+        this.convertSummaryToPaper(summary),
       );
 
       logInfo("Successfully fetched PMC latest papers", {
         count: papers.length,
         category,
       });
-      return papers;
+      return { papers, next: this.nextPage(search, retstart) };
     } catch (error) {
       logError("Failed to fetch latest PMC papers", {
         error: error instanceof Error ? error.message : error,
         category,
         count,
       });
-
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 429) {
-          throw new Error("Rate limited by PMC E-utilities API");
-        }
-        if (error.response?.status && error.response.status >= 500) {
-          throw new Error("PMC E-utilities API server error");
-        }
-      }
-
-      throw error;
+      throw this.toSourceError(error);
+    } finally {
+      release();
     }
   }
 
   /**
-   * Fetch content for a specific PMC paper by ID
+   * Fetch content for a specific PMC paper by ID. JATS from efetch is read
+   * first, the article page when PMC withholds the full text from the XML.
    */
   async fetchContent(id: string): Promise<PaperMetadata> {
-    if (!this.checkRateLimit()) {
-      const retryAfter = this.getRetryAfter();
-      logWarn("Rate limited when fetching PMC paper content", {
-        retryAfter,
-        id,
-      });
-      throw new Error(`Rate limited. Retry after ${retryAfter} seconds`);
-    }
+    const paper = await this.fetchSummary(id);
+    await this.readFullText(paper, {
+      jats: this.efetchUrl(paper.id.replace(/^PMC/i, "")),
+      html: paper.source_url,
+    });
+
+    logInfo("Successfully fetched PMC paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * Metadata of one PMC paper from esummary
+   */
+  private async fetchSummary(id: string): Promise<PaperMetadata> {
+    const release = await this.acquire();
 
     try {
       logInfo("Fetching PMC paper content", { id });
@@ -219,60 +195,35 @@ export class PMCDriver extends BaseDriver {
       const cleanId = this.cleanPMCId(id);
 
       // Step 1: Get paper summary
-      const summaryUrl = `${this.eUtilsBase}/esummary.fcgi`;
-      const summaryResponse = await axios.get<PMCSummaryResult>(summaryUrl, {
-        params: {
-          db: "pmc",
-          id: cleanId,
-          retmode: "json",
-          tool: "SciHarvester-MCP",
-          email: "contact@sciharvestermcp.org",
-        },
-        timeout: 15000,
-      });
-
-      const summary = summaryResponse.data.result[cleanId];
+      const [summary] = await this.esummary<PMCSummary>([cleanId]);
       if (!summary) {
-        throw new Error(`PMC paper with ID ${id} not found`);
+        throw new NotFoundError(`PMC paper with ID ${id} not found`, {
+          source: this.source,
+        });
       }
 
-      // Step 2: Convert to paper format with full text extraction
-      const paper = await this.convertSummaryToPaper(summary, true);
-
-      logInfo("Successfully fetched PMC paper content", {
-        id,
-        title: paper.title,
-      });
-      return paper;
+      return this.convertSummaryToPaper(summary);
     } catch (error) {
       logError("Failed to fetch PMC paper content", {
         error: error instanceof Error ? error.message : error,
         id,
       });
 
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 404) {
-          throw new Error(`Paper with PMC ID ${id} not found`);
-        }
-        if (error.response?.status === 429) {
-          throw new Error("Rate limited by PMC E-utilities API");
-        }
-        if (error.response?.status && error.response.status >= 500) {
-          throw new Error("PMC E-utilities API server error");
-        }
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`Paper with PMC ID ${id} not found`, {
+          source: this.source,
+        });
       }
-
-      throw error;
+      throw this.toSourceError(error);
+    } finally {
+      release();
     }
   }
 
   /**
    * Convert PMC summary to PaperMetadata format
    */
-  private async convertSummaryToPaper(
-    summary: PMCSummary,
-    includeText: boolean = false,
-  ): Promise<PaperMetadata> {
+  private convertSummaryToPaper(summary: PMCSummary): PaperMetadata {
     // Extract authors
     const authors =
       summary.authors
@@ -286,66 +237,31 @@ export class PMCDriver extends BaseDriver {
     const pmcId = summary.pmcid || summary.uid;
     const pmcUrl = `${this.pmcBase}/articles/${pmcId}/`;
 
-    // Create base paper object
-    const paper: PaperMetadata = {
-      id: pmcId,
-      title: summary.title || "Untitled",
-      authors,
-      date,
-      pdf_url: `${this.pmcBase}/articles/${pmcId}/pdf/`,
-      text: "", // Always include text field, empty for metadata-only
-    };
-
-    // Only extract text if requested (for fetch_content)
-    if (includeText) {
-      let textTruncated = false;
-      let textExtractionFailed = false;
-
-      try {
-        if (this.checkRateLimit()) {
-          // Try to extract text from PMC HTML page
-          const extractionResult = await this.textExtractor.extractText(pmcUrl);
-
-          if (extractionResult.extractionSuccess) {
-            paper.text = extractionResult.text;
-            textTruncated = extractionResult.truncated;
-            logInfo("Text extraction successful for PMC paper", {
-              id: pmcId,
-              textLength: paper.text.length,
-              truncated: textTruncated,
-              source: extractionResult.source,
-            });
-          } else {
-            textExtractionFailed = true;
-            logWarn("Text extraction failed for PMC paper", { id: pmcId });
-          }
-        } else {
-          textExtractionFailed = true;
-          logWarn("Rate limited for text extraction", { id: pmcId });
-        }
-      } catch (error) {
-        textExtractionFailed = true;
-        logError("Error during text extraction for PMC paper", {
-          id: pmcId,
-          error: error instanceof Error ? error.message : error,
-        });
-      }
-
-      // Add warning flags if needed
-      if (textTruncated) {
-        paper.textTruncated = true;
-      }
-      if (textExtractionFailed) {
-        paper.textExtractionFailed = true;
-      }
-    }
-
-    return paper;
+    // Create base paper object; esummary carries no abstract
+    return withExtendedMetadata(
+      {
+        id: pmcId,
+        title: summary.title || "Untitled",
+        authors,
+        date,
+        pdf_url: `${this.pmcBase}/articles/${pmcId}/pdf/`,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        doi:
+          summary.doi ||
+          summary.articleids?.find((articleId) => articleId.idtype === "doi")
+            ?.value,
+        venue: summary.fulljournalname || summary.source,
+        open_access: true, // Everything in PMC is free to read
+        source_url: pmcUrl,
+      },
+    );
   }
 
   /**
    * Search for papers with query and field-specific options
-   * Note: PMC E-utilities API has limited search capabilities
+   * Uses E-utilities field tags; citation sorting is not supported by PMC
    */
   async searchPapers(
     query: string,
@@ -353,13 +269,85 @@ export class PMCDriver extends BaseDriver {
     count: number,
     sortBy: string,
   ): Promise<PaperMetadata[]> {
-    // PMC E-utilities API has limited advanced search functionality
-    // This is a placeholder implementation that throws an appropriate error
-    throw new Error(
-      "Advanced search functionality is not fully supported by PMC E-utilities API. " +
-      "The API primarily supports MeSH term searches and basic field searches. " +
-      "Please use fetch_latest with specific medical categories instead, or try EuropePMC for advanced search."
-    );
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching PMC papers", { query, field, count, sortBy });
+
+      if (sortBy === "citations") {
+        logWarn("PMC does not support citation sorting, using relevance", {
+          query,
+        });
+      }
+
+      const retstart = readOffset(position, "retstart");
+
+      const search = await this.esearch(this.buildFieldQuery(query, field), {
+        retmax: Math.min(count, MAX_PAPER_COUNT),
+        retstart,
+        sort: sortBy === "date" ? "pub_date" : "relevance",
+      });
+      const pmcIds = search.ids;
+
+      if (pmcIds.length === 0) {
+        logInfo("No PMC papers found for search", { query, field });
+        return { papers: [] };
+      }
+
+      const summaries = await this.fetchSummaries(pmcIds);
+      const papers = summaries.map((summary) =>
+        this.convertSummaryToPaper(summary),
+      );
+
+      logInfo("PMC search completed", {
+        query,
+        field,
+        resultsFound: papers.length,
+      });
+      return { papers, next: this.nextPage(search, retstart) };
+    } catch (error) {
+      logError("PMC search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch esummary records for a list of PMC IDs, preserving order
+   */
+  private async fetchSummaries(pmcIds: string[]): Promise<PMCSummary[]> {
+    const summaries = await this.esummary<PMCSummary>(pmcIds);
+    return summaries.filter((summary) => summary.title);
+  }
+
+  /**
+   * Build an E-utilities search term restricted to the requested field
+   */
+  private buildFieldQuery(query: string, field: string): string {
+    const fieldTags: Record<string, string> = {
+      title: "Title",
+      abstract: "Abstract",
+      author: "Author",
+      fulltext: "Body - All Words",
+    };
+
+    const tag = fieldTags[field];
+    return tag ? `(${query})[${tag}]` : query;
   }
 
   /**
@@ -395,21 +383,21 @@ export class PMCDriver extends BaseDriver {
   private cleanPMCId(id: string): string {
     return id.replace(/^PMC/, "");
   }
-
-  /**
-   * Format date from PMC format to ISO format
-   */
-  private formatDate(dateStr: string): string {
-    if (!dateStr) {
-      return new Date().toISOString().split("T")[0];
-    }
-
-    try {
-      // PMC dates are often in YYYY/MM/DD format
-      const date = new Date(dateStr.replace(/\//g, "-"));
-      return date.toISOString().split("T")[0];
-    } catch {
-      return new Date().toISOString().split("T")[0];
-    }
-  }
 }
+
+export const pmcSource: SourceDefinition = {
+  id: "pmc",
+  name: "PubMed Central",
+  description:
+    "PubMed Central (biomedical) - Full-text open access, high quality",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "'medicine', 'biology', 'neuroscience', 'oncology'",
+  idHint: "'PMC1234567' or '1234567'",
+  contentHint: "Usually the full paper text",
+  searchHint:
+    "Title, abstract, author, body text search via E-utilities field tags",
+  sortHint: "relevance, date (no citation sorting)",
+  identifierFor: (ids) => ids.pmcid,
+  fullTextRank: 2,
+  create: (rateLimiter) => new PMCDriver(rateLimiter),
+};
@@ -0,0 +1,561 @@
+/**
+ * PubMed Driver
+ *
+ * Covers all of PubMed (db=pubmed), including the abstract-only records
+ * PMC doesn't hold. Records are fetched as efetch XML for the abstract,
+ * MeSH headings, publication types and PMC links; full text is only
+ * available when a record links to a PMC copy.
+ */
+
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { EUtilsDriver } from "./eutils-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  AuthorDetail,
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import { logInfo, logError, logWarn } from "../core/logger.js";
+import { InvalidQueryError, NotFoundError } from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset } from "../core/pagination.js";
+import { MAX_PAPER_COUNT } from "../config/constants.js";
+
+// `type:` shortcuts accepted in search queries, as PubMed [pt] clauses
+const PUBLICATION_TYPE_FILTERS: Record<string, string> = {
+  rct: '"randomized controlled trial"[pt]',
+  "clinical-trial": '"clinical trial"[pt]',
+  "meta-analysis": '"meta-analysis"[pt]',
+  "systematic-review": '"systematic review"[pt]',
+  review: '"review"[pt]',
+  guideline: '"guideline"[pt] OR "practice guideline"[pt]',
+  "case-report": '"case reports"[pt]',
+  observational: '"observational study"[pt]',
+};
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Element selections from the efetch XML document
+type XmlElements = ReturnType<
+  ReturnType<cheerio.CheerioAPI["root"]>["children"]
+>;
+
+// A parsed efetch record with the PMC link kept for text extraction
+interface PubMedRecord {
+  paper: PaperMetadata;
+  pmcid?: string;
+}
+
+export class PubMedDriver extends EUtilsDriver {
+  private readonly pubmedBase = "https://pubmed.ncbi.nlm.nih.gov";
+  private readonly pmcBase = "https://www.ncbi.nlm.nih.gov/pmc";
+
+  // Broad MeSH headings; fetch_latest accepts any other MeSH term too
+  private readonly meshCategories = [
+    { id: "Neoplasms", name: "Neoplasms", description: "Cancer research" },
+    {
+      id: "Cardiovascular Diseases",
+      name: "Cardiovascular Diseases",
+      description: "Heart and vascular disease",
+    },
+    {
+      id: "Communicable Diseases",
+      name: "Communicable Diseases",
+      description: "Infectious disease",
+    },
+    { id: "COVID-19", name: "COVID-19", description: "SARS-CoV-2 infection" },
+    {
+      id: "Diabetes Mellitus",
+      name: "Diabetes Mellitus",
+      description: "Diabetes and glucose metabolism",
+    },
+    {
+      id: "Mental Disorders",
+      name: "Mental Disorders",
+      description: "Psychiatry and mental health",
+    },
+    {
+      id: "Nervous System Diseases",
+      name: "Nervous System Diseases",
+      description: "Neurology",
+    },
+    {
+      id: "Immune System Diseases",
+      name: "Immune System Diseases",
+      description: "Immunology and autoimmunity",
+    },
+    {
+      id: "Respiratory Tract Diseases",
+      name: "Respiratory Tract Diseases",
+      description: "Pulmonology",
+    },
+    { id: "Genetics", name: "Genetics", description: "Genetic studies" },
+    {
+      id: "Drug Therapy",
+      name: "Drug Therapy",
+      description: "Pharmacological treatment",
+    },
+    {
+      id: "Surgical Procedures, Operative",
+      name: "Surgical Procedures, Operative",
+      description: "Surgery",
+    },
+    {
+      id: "Public Health",
+      name: "Public Health",
+      description: "Population health",
+    },
+    { id: "Pediatrics", name: "Pediatrics", description: "Child health" },
+  ];
+
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "pubmed", "pubmed", "PubMed E-utilities API");
+  }
+
+  /**
+   * List suggested MeSH headings
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Fetching PubMed categories");
+    return this.meshCategories;
+  }
+
+  /**
+   * Fetch the latest PubMed records under a MeSH heading
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest PubMed papers", { category, count });
+
+      // Categories with their own field tags are used as given
+      const term = category.includes("[")
+        ? category
+        : `"${category.trim()}"[MeSH Terms]`;
+      const retstart = readOffset(position, "retstart");
+      const search = await this.esearch(term, {
+        retmax: Math.min(count, MAX_PAPER_COUNT),
+        retstart,
+        sort: "pub_date",
+      });
+
+      if (search.ids.length === 0) {
+        logWarn("No PubMed papers found for category", { category, term });
+        return { papers: [] };
+      }
+
+      const papers = (await this.fetchRecords(search.ids)).map(
+        (record) => record.paper,
+      );
+
+      logInfo("Successfully fetched PubMed latest papers", {
+        count: papers.length,
+        category,
+      });
+      return { papers, next: this.nextPage(search, retstart) };
+    } catch (error) {
+      logError("Failed to fetch latest PubMed papers", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a PubMed record by PMID. Text comes from the linked PMC copy
+   * when there is one; otherwise only the abstract is available.
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const { paper, pmcid } = await this.fetchRecord(id);
+    await this.extractFullText(paper, pmcid);
+
+    logInfo("Successfully fetched PubMed paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * One parsed PubMed record by PMID
+   */
+  private async fetchRecord(id: string): Promise<PubMedRecord> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching PubMed paper content", { id });
+
+      const pmid = id.trim().replace(/^pmid:\s*/i, "");
+      if (!/^\d+$/.test(pmid)) {
+        throw new InvalidQueryError(`Invalid PMID: ${id}`, {
+          source: this.source,
+          suggestions: ["Use a numeric PMID such as '31452104'"],
+        });
+      }
+
+      const [record] = await this.fetchRecords([pmid]);
+      if (!record) {
+        throw new NotFoundError(`PubMed record with PMID ${pmid} not found`, {
+          source: this.source,
+        });
+      }
+
+      return record;
+    } catch (error) {
+      logError("Failed to fetch PubMed paper content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`PubMed record with PMID ${id} not found`, {
+          source: this.source,
+        });
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search PubMed. Queries may use PubMed syntax directly - MeSH terms,
+   * [tiab]/[au]/[pt] field tags, Boolean operators - and `type:` filters
+   * such as type:rct or type:meta-analysis.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const term = this.buildSearchTerm(query, field);
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching PubMed papers", { query, field, count, sortBy, term });
+
+      if (sortBy === "citations") {
+        logWarn("PubMed does not support citation sorting, using relevance", {
+          query,
+        });
+      }
+
+      const retstart = readOffset(position, "retstart");
+      const search = await this.esearch(term, {
+        retmax: Math.min(count, MAX_PAPER_COUNT),
+        retstart,
+        sort: sortBy === "date" ? "pub_date" : "relevance",
+      });
+
+      if (search.ids.length === 0) {
+        logInfo("No PubMed papers found for search", { query, field });
+        return { papers: [] };
+      }
+
+      const papers = (await this.fetchRecords(search.ids)).map(
+        (record) => record.paper,
+      );
+
+      logInfo("PubMed search completed", {
+        query,
+        field,
+        resultsFound: papers.length,
+      });
+      return { papers, next: this.nextPage(search, retstart) };
+    } catch (error) {
+      logError("PubMed search failed", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Build the esearch term: pull out `type:` filters, restrict the rest
+   * to the requested field and AND the two together
+   */
+  private buildSearchTerm(query: string, field: string): string {
+    const fieldTags: Record<string, string> = {
+      title: "ti",
+      abstract: "tiab", // PubMed has no abstract-only tag
+      author: "au",
+    };
+
+    if (field === "fulltext") {
+      throw new InvalidQueryError("PubMed does not index full text", {
+        source: this.source,
+        suggestions: [
+          "Use field 'all' or 'abstract', or search source 'pmc' for full text",
+        ],
+      });
+    }
+
+    const types: string[] = [];
+    const text = query
+      .replace(/\btype:([a-z-]+)/gi, (_, alias: string) => {
+        const filter = PUBLICATION_TYPE_FILTERS[alias.toLowerCase()];
+        if (!filter) {
+          throw new InvalidQueryError(`Unknown publication type: ${alias}`, {
+            source: this.source,
+            suggestions: [
+              `Use one of: ${Object.keys(PUBLICATION_TYPE_FILTERS)
+                .map((name) => `type:${name}`)
+                .join(", ")}`,
+            ],
+          });
+        }
+        types.push(filter);
+        return " ";
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+
+    const tag = fieldTags[field];
+    const clauses = [];
+    if (text) clauses.push(tag ? `(${text})[${tag}]` : `(${text})`);
+    if (types.length > 0) clauses.push(`(${types.join(" OR ")})`);
+
+    if (clauses.length === 0) {
+      throw new InvalidQueryError("Search query is empty", {
+        source: this.source,
+      });
+    }
+    // Plain `all` queries go through untouched so PubMed's own
+    // automatic term mapping applies
+    return !tag && types.length === 0 ? text : clauses.join(" AND ");
+  }
+
+  /**
+   * efetch the records for a list of PMIDs, in the order given
+   */
+  private async fetchRecords(pmids: string[]): Promise<PubMedRecord[]> {
+    const xml = await this.efetch(pmids);
+    const $ = cheerio.load(xml, { xml: true });
+
+    const records = new Map<string, PubMedRecord>();
+    $("PubmedArticle").each((_, element) => {
+      const record = this.parseArticle($, $(element));
+      if (record) records.set(record.paper.id, record);
+    });
+
+    return pmids
+      .map((pmid) => records.get(pmid))
+      .filter((record): record is PubMedRecord => Boolean(record));
+  }
+
+  /**
+   * Convert one PubmedArticle element to PaperMetadata
+   */
+  private parseArticle(
+    $: cheerio.CheerioAPI,
+    article: XmlElements,
+  ): PubMedRecord | null {
+    const citation = article.children("MedlineCitation");
+    const pmid = citation.children("PMID").first().text().trim();
+    const title = this.cleanText(
+      citation.find("Article > ArticleTitle").first().text() ||
+        citation.find("Article > VernacularTitle").first().text(),
+    );
+    if (!pmid || !title) return null;
+
+    const authorDetails: AuthorDetail[] = citation
+      .find("AuthorList > Author")
+      .toArray()
+      .map((author) => {
+        const node = $(author);
+        const name =
+          node.children("CollectiveName").text().trim() ||
+          [node.children("ForeName").text(), node.children("LastName").text()]
+            .map((part) => part.trim())
+            .filter(Boolean)
+            .join(" ");
+        return {
+          name,
+          affiliations: node
+            .find("AffiliationInfo > Affiliation")
+            .toArray()
+            .map((affiliation) => this.cleanText($(affiliation).text())),
+          orcid:
+            node.children('Identifier[Source="ORCID"]').text().trim() ||
+            undefined,
+        };
+      })
+      .filter((author) => author.name);
+
+    // Structured abstracts come as labelled sections
+    const abstract = citation
+      .find("Abstract > AbstractText")
+      .toArray()
+      .map((section) => {
+        const label = $(section).attr("Label");
+        const text = this.cleanText($(section).text());
+        return label ? `${label}: ${text}` : text;
+      })
+      .join(" ");
+
+    const articleIds = article.find("PubmedData > ArticleIdList > ArticleId");
+    const idOfType = (type: string) =>
+      articleIds
+        .filter((_, node) => $(node).attr("IdType") === type)
+        .first()
+        .text()
+        .trim() || undefined;
+    const pmcid = idOfType("pmc");
+    const doi =
+      idOfType("doi") ||
+      citation.find('ELocationID[EIdType="doi"]').first().text().trim();
+
+    const meshHeadings = citation
+      .find("MeshHeadingList > MeshHeading > DescriptorName")
+      .toArray()
+      .map((descriptor) => $(descriptor).text());
+    const keywords = citation
+      .find("KeywordList > Keyword")
+      .toArray()
+      .map((keyword) => this.cleanText($(keyword).text()));
+
+    const paper = withExtendedMetadata(
+      {
+        id: pmid,
+        title,
+        authors: authorDetails.map((author) => author.name),
+        date: this.parseArticleDate(citation),
+        pdf_url: pmcid ? `${this.pmcBase}/articles/${pmcid}/pdf/` : undefined,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract,
+        doi,
+        venue: citation.find("Article > Journal > Title").first().text(),
+        // PubMed itself only has abstracts; a PMC copy is free to read
+        open_access: pmcid ? true : undefined,
+        subjects: [...meshHeadings, ...keywords],
+        publication_types: citation
+          .find("PublicationTypeList > PublicationType")
+          .toArray()
+          .map((type) => $(type).text()),
+        author_details: authorDetails,
+        language: citation.find("Article > Language").first().text(),
+        source_url: `${this.pubmedBase}/${pmid}/`,
+      },
+    );
+
+    return { paper, pmcid };
+  }
+
+  /**
+   * Read the text of the linked PMC copy the way the PMC driver does: JATS
+   * from efetch, then the article page
+   */
+  private async extractFullText(
+    paper: PaperMetadata,
+    pmcid?: string,
+  ): Promise<void> {
+    if (!pmcid) {
+      logInfo("Skipping text extraction - no PMC copy", { id: paper.id });
+      paper.textExtractionFailed = true;
+      return;
+    }
+
+    await this.readFullText(paper, {
+      jats: this.efetchUrl(pmcid.replace(/^PMC/i, ""), "pmc"),
+      html: `${this.pmcBase}/articles/${pmcid}/`,
+    });
+  }
+
+  /**
+   * Electronic publication date when given, else the journal issue date,
+   * which may lack a month or day or be free text ("2021 Jan-Feb")
+   */
+  private parseArticleDate(citation: XmlElements): string {
+    const electronic = citation.find("Article > ArticleDate").first();
+    const issue = citation.find("Article > Journal > JournalIssue > PubDate");
+    const node = electronic.length > 0 ? electronic : issue.first();
+
+    let year = node.children("Year").text().trim();
+    let month = node.children("Month").text().trim();
+    let day = node.children("Day").text().trim();
+
+    if (!year) {
+      const medlineDate = node.children("MedlineDate").text();
+      const match = medlineDate.match(/(\d{4})(?:\s+([A-Za-z]{3}))?/);
+      if (!match) return new Date().toISOString().split("T")[0];
+      year = match[1];
+      month = match[2] ?? "";
+      day = "";
+    }
+
+    const monthIndex = /^\d+$/.test(month)
+      ? Number(month)
+      : MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${year}-${pad(monthIndex || 1)}-${pad(Number(day) || 1)}`;
+  }
+
+  private cleanText(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+  }
+}
+
+export const pubmedSource: SourceDefinition = {
+  id: "pubmed",
+  name: "PubMed",
+  description:
+    "PubMed (biomedical) - All MEDLINE records with abstracts, MeSH and publication types",
+  capabilities: ["search", "latest", "content", "categories"],
+  categoryHint: "MeSH headings like 'Neoplasms' or 'Diabetes Mellitus'",
+  idHint: "PMID like '31452104'",
+  contentHint:
+    "Abstracts, MeSH headings and publication types; text when the record links to PMC",
+  searchHint:
+    "MeSH terms and [tiab]/[au]/[pt] field tags; type:rct, type:meta-analysis, type:review etc. filter by publication type (no fulltext field)",
+  sortHint: "relevance, date (no citation sorting)",
+  identifierFor: (ids) => ids.pmid,
+  fullTextRank: 8, // Text only via a linked PMC copy, which PMC serves first
+  create: (rateLimiter) => new PubMedDriver(rateLimiter),
+};
@@ -0,0 +1,610 @@
+/**
+ * Semantic Scholar Driver
+ *
+ * Uses the Semantic Scholar Academic Graph API for search, lookups by any
+ * external ID and citation data, including influential citation counts and
+ * TLDR summaries. Full text comes from the paper's open access PDF or, for
+ * arXiv papers, the arXiv HTML rendering.
+ */
+
+import axios from "axios";
+import { BaseDriver } from "./base-driver.js";
+import { SourceDefinition } from "../core/source-registry.js";
+import {
+  Category,
+  PagePosition,
+  PaperMetadata,
+  PaperPage,
+} from "../types/papers.js";
+import {
+  ARXIV_HTML_BASE,
+  SEMANTIC_SCHOLAR_API_BASE,
+} from "../config/constants.js";
+import { logInfo, logError } from "../core/logger.js";
+import {
+  InvalidQueryError,
+  NotFoundError,
+  SourceDownError,
+  fromHttpError,
+} from "../core/errors.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { withExtendedMetadata } from "../core/paper-metadata.js";
+import { readOffset, readToken } from "../core/pagination.js";
+
+interface SemanticScholarPaper {
+  paperId: string;
+  externalIds?: Record<string, string | number> | null;
+  url?: string;
+  title: string | null;
+  abstract?: string | null;
+  venue?: string | null;
+  publicationVenue?: { name?: string } | null;
+  journal?: { name?: string } | null;
+  year?: number | null;
+  publicationDate?: string | null;
+  authors?: Array<{ authorId: string | null; name: string }>;
+  citationCount?: number | null;
+  influentialCitationCount?: number | null;
+  isOpenAccess?: boolean;
+  openAccessPdf?: {
+    url?: string | null;
+    status?: string | null;
+    license?: string | null;
+  } | null;
+  fieldsOfStudy?: string[] | null;
+  s2FieldsOfStudy?: Array<{ category: string; source: string }> | null;
+  tldr?: { text?: string | null } | null;
+}
+
+// Relevance search pages with offset/limit
+interface SemanticScholarSearchResponse {
+  total: number;
+  offset: number;
+  next?: number;
+  data?: SemanticScholarPaper[];
+}
+
+// Bulk search returns up to 1000 papers per call and a token for the rest
+interface SemanticScholarBulkResponse {
+  total: number;
+  token?: string | null;
+  data?: SemanticScholarPaper[];
+}
+
+// Fields every listing selects; TLDRs are only served for single papers
+const SEARCH_FIELDS =
+  "paperId,externalIds,url,title,abstract,venue,publicationVenue,journal,year,publicationDate,authors,citationCount,influentialCitationCount,isOpenAccess,openAccessPdf,fieldsOfStudy,s2FieldsOfStudy";
+const PAPER_FIELDS = `${SEARCH_FIELDS},tldr`;
+
+// Relevance search only reaches the first 1000 results
+const MAX_SEARCH_RESULTS = 1000;
+
+// Fields of study Semantic Scholar classifies papers into
+const FIELDS_OF_STUDY = [
+  "Computer Science",
+  "Medicine",
+  "Chemistry",
+  "Biology",
+  "Materials Science",
+  "Physics",
+  "Geology",
+  "Psychology",
+  "Art",
+  "History",
+  "Geography",
+  "Sociology",
+  "Business",
+  "Political Science",
+  "Economics",
+  "Philosophy",
+  "Mathematics",
+  "Engineering",
+  "Environmental Science",
+  "Agricultural and Food Sciences",
+  "Education",
+  "Law",
+  "Linguistics",
+];
+
+// ID prefixes the Graph API accepts, keyed by lowercase spelling
+const ID_PREFIXES: Record<string, string> = {
+  doi: "DOI",
+  arxiv: "ARXIV",
+  pmid: "PMID",
+  pmcid: "PMCID",
+  mag: "MAG",
+  acl: "ACL",
+  corpusid: "CorpusId",
+  url: "URL",
+};
+
+export class SemanticScholarDriver extends BaseDriver {
+  constructor(rateLimiter: RateLimiter) {
+    super(rateLimiter, "semanticscholar");
+  }
+
+  /**
+   * Send the API key when one is configured; without it requests share
+   * the public pool and are throttled much sooner
+   */
+  private getRequestHeaders(): Record<string, string> {
+    const apiKey = this.config.apiKeys.semanticScholar;
+    return {
+      Accept: "application/json",
+      ...(apiKey && { "x-api-key": apiKey }),
+    };
+  }
+
+  /**
+   * List Semantic Scholar fields of study
+   */
+  async listCategories(): Promise<Category[]> {
+    logInfo("Listing Semantic Scholar fields of study");
+    return FIELDS_OF_STUDY.map((field) => ({
+      id: field,
+      name: field,
+      description: `Papers Semantic Scholar classifies under ${field}`,
+    }));
+  }
+
+  /**
+   * Fetch the most recently published papers in a field of study
+   */
+  async fetchLatest(category: string, count: number): Promise<PaperMetadata[]> {
+    return (await this.fetchLatestPage(category, count)).papers;
+  }
+
+  async fetchLatestPage(
+    category: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching latest Semantic Scholar papers", { category, count });
+
+      const page = await this.bulkSearchPage(
+        {
+          fieldsOfStudy: this.resolveFieldOfStudy(category),
+          sort: "publicationDate:desc",
+        },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched Semantic Scholar latest papers", {
+        count: page.papers.length,
+        category,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch latest Semantic Scholar papers", {
+        error: error instanceof Error ? error.message : error,
+        category,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch the most cited papers in a field of study published since a date
+   */
+  async fetchTopCited(
+    concept: string,
+    since: string,
+    count: number,
+  ): Promise<PaperMetadata[]> {
+    return (await this.fetchTopCitedPage(concept, since, count)).papers;
+  }
+
+  async fetchTopCitedPage(
+    concept: string,
+    since: string,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching top cited Semantic Scholar papers", {
+        concept,
+        since,
+        count,
+      });
+
+      const page = await this.bulkSearchPage(
+        {
+          fieldsOfStudy: this.resolveFieldOfStudy(concept),
+          publicationDateOrYear: `${since}:`,
+          sort: "citationCount:desc",
+        },
+        count,
+        position,
+      );
+
+      logInfo("Successfully fetched Semantic Scholar top cited papers", {
+        count: page.papers.length,
+        concept,
+        since,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to fetch top cited Semantic Scholar papers", {
+        error: error instanceof Error ? error.message : error,
+        concept,
+        since,
+        count,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fetch a paper by Semantic Scholar ID or any external ID the Graph API
+   * knows, e.g. "DOI:10.1038/nature14539", "ARXIV:1706.03762", "PMID:...",
+   * "CorpusId:..." - bare DOIs and arXiv IDs are recognised too
+   */
+  async fetchContent(id: string): Promise<PaperMetadata> {
+    const paper = await this.fetchPaper(id);
+
+    // Read after the API slot is released, under the full-text bucket
+    await this.readFullText(paper, {
+      html: paper.arxiv_id ? `${ARXIV_HTML_BASE}/${paper.arxiv_id}` : undefined,
+      pdf: paper.pdf_url,
+    });
+
+    logInfo("Successfully fetched Semantic Scholar paper content", {
+      id,
+      title: paper.title,
+    });
+    return paper;
+  }
+
+  /**
+   * Metadata of one paper from the Graph API
+   */
+  private async fetchPaper(id: string): Promise<PaperMetadata> {
+    const release = await this.acquire();
+
+    try {
+      logInfo("Fetching Semantic Scholar paper content", { id });
+
+      const paperId = this.toPaperId(id);
+      const response = await this.http.get<SemanticScholarPaper>(
+        `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperId}`,
+        {
+          params: { fields: PAPER_FIELDS },
+          headers: this.getRequestHeaders(),
+        },
+      );
+
+      return this.convertPaper(response.data);
+    } catch (error) {
+      logError("Failed to fetch Semantic Scholar paper content", {
+        error: error instanceof Error ? error.message : error,
+        id,
+      });
+
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(
+          `Paper with ID ${id} not found on Semantic Scholar`,
+          { source: this.source },
+        );
+      }
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Search titles and abstracts. Relevance order pages through the search
+   * endpoint; date and citation order use bulk search, which can sort.
+   */
+  async searchPapers(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+  ): Promise<PaperMetadata[]> {
+    return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+  }
+
+  async searchPapersPage(
+    query: string,
+    field: string,
+    count: number,
+    sortBy: string,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    if (field !== "all") {
+      throw new InvalidQueryError(
+        `Semantic Scholar does not support ${field} search`,
+        {
+          source: this.source,
+          suggestions: [
+            "Use field 'all' - Semantic Scholar always matches titles and abstracts together",
+          ],
+        },
+      );
+    }
+
+    const release = await this.acquire();
+
+    try {
+      logInfo("Searching Semantic Scholar papers", {
+        query,
+        field,
+        count,
+        sortBy,
+      });
+
+      let page: PaperPage;
+      if (sortBy === "date" || sortBy === "citations") {
+        page = await this.bulkSearchPage(
+          {
+            query,
+            sort:
+              sortBy === "date" ? "publicationDate:desc" : "citationCount:desc",
+          },
+          count,
+          position,
+        );
+      } else {
+        const offset = readOffset(position, "offset");
+        const response = await this.http.get<SemanticScholarSearchResponse>(
+          `${SEMANTIC_SCHOLAR_API_BASE}/paper/search`,
+          {
+            params: {
+              query,
+              offset,
+              limit: Math.min(count, 100, MAX_SEARCH_RESULTS - offset),
+              fields: SEARCH_FIELDS,
+            },
+            headers: this.getRequestHeaders(),
+          },
+        );
+
+        const results = response.data.data ?? [];
+        const next = response.data.next;
+        page = {
+          papers: results.map((paper) => this.convertPaper(paper)),
+          next:
+            results.length > 0 &&
+            next !== undefined &&
+            next < MAX_SEARCH_RESULTS
+              ? { offset: next }
+              : undefined,
+        };
+      }
+
+      logInfo("Successfully searched Semantic Scholar papers", {
+        query,
+        field,
+        count: page.papers.length,
+        sortBy,
+      });
+      return page;
+    } catch (error) {
+      logError("Failed to search Semantic Scholar papers", {
+        error: error instanceof Error ? error.message : error,
+        query,
+        field,
+        count,
+        sortBy,
+      });
+      throw this.toSourceError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * One page from bulk search. Each call returns a batch of up to 1000
+   * papers and a token for the next batch, so a position is the batch's
+   * token plus how far into it the previous page got.
+   */
+  private async bulkSearchPage(
+    params: Record<string, string>,
+    count: number,
+    position?: PagePosition,
+  ): Promise<PaperPage> {
+    const token = readToken(position, "token");
+    const skip = readOffset(position, "skip");
+
+    const response = await this.http.get<SemanticScholarBulkResponse>(
+      `${SEMANTIC_SCHOLAR_API_BASE}/paper/search/bulk`,
+      {
+        params: { ...params, fields: SEARCH_FIELDS, ...(token && { token }) },
+        headers: this.getRequestHeaders(),
+      },
+    );
+
+    const batch = response.data.data ?? [];
+    const end = skip + count;
+    const papers = batch
+      .slice(skip, end)
+      .map((paper) => this.convertPaper(paper));
+
+    let next: PagePosition | undefined;
+    if (end < batch.length) {
+      next = { ...(token && { token }), skip: end };
+    } else if (response.data.token && batch.length > 0) {
+      next = { token: response.data.token };
+    }
+    return { papers, next };
+  }
+
+  /**
+   * Convert a Graph API paper to PaperMetadata
+   */
+  private convertPaper(paper: SemanticScholarPaper): PaperMetadata {
+    const externalIds = paper.externalIds ?? {};
+    const arxivId = externalIds.ArXiv ? String(externalIds.ArXiv) : undefined;
+    const pdf_url =
+      paper.openAccessPdf?.url ||
+      (arxivId ? `https://arxiv.org/pdf/${arxivId}` : undefined);
+
+    const date =
+      paper.publicationDate ||
+      (paper.year
+        ? `${paper.year}-01-01`
+        : new Date().toISOString().split("T")[0]);
+
+    return withExtendedMetadata(
+      {
+        id: paper.paperId,
+        title: paper.title || "Untitled",
+        authors: (paper.authors ?? []).map((author) => author.name),
+        date,
+        pdf_url,
+        text: "", // Always include text field, empty for metadata-only
+      },
+      {
+        abstract: paper.abstract,
+        doi: externalIds.DOI ? String(externalIds.DOI) : undefined,
+        arxiv_id: arxivId,
+        venue:
+          paper.publicationVenue?.name || paper.journal?.name || paper.venue,
+        citation_count: paper.citationCount,
+        influential_citation_count: paper.influentialCitationCount,
+        tldr: paper.tldr?.text,
+        open_access: paper.isOpenAccess,
+        oa_status: paper.openAccessPdf?.status,
+        license: this.normalizeS2License(paper.openAccessPdf?.license),
+        subjects: [
+          ...(paper.fieldsOfStudy ?? []),
+          ...(paper.s2FieldsOfStudy ?? []).map((field) => field.category),
+        ],
+        author_details: (paper.authors ?? []).map((author) => ({
+          name: author.name,
+          author_id: author.authorId ?? undefined,
+        })),
+        source_url: paper.url,
+      },
+    );
+  }
+
+  /**
+   * Map an ID to the form the Graph API expects: a 40-character paper ID
+   * or PREFIX:value
+   */
+  private toPaperId(id: string): string {
+    const trimmed = id.trim();
+
+    if (/^[0-9a-f]{40}$/i.test(trimmed)) return trimmed.toLowerCase();
+
+    const prefixed = trimmed.match(/^([a-z]+):\s*(.+)$/i);
+    const prefix = prefixed && ID_PREFIXES[prefixed[1].toLowerCase()];
+    if (prefixed && prefix) {
+      // The API wants PMC IDs without their "PMC" prefix
+      const value =
+        prefix === "PMCID" ? prefixed[2].replace(/^PMC/i, "") : prefixed[2];
+      return `${prefix}:${value}`;
+    }
+
+    if (/^10\.\d{4,9}\//.test(trimmed)) return `DOI:${trimmed}`;
+    if (/^\d{4}\.\d{4,5}(v\d+)?$/.test(trimmed)) {
+      return `ARXIV:${trimmed.replace(/v\d+$/, "")}`;
+    }
+    if (/^PMC\d+$/i.test(trimmed)) return `PMCID:${trimmed.slice(3)}`;
+    if (/^\d+$/.test(trimmed)) return `CorpusId:${trimmed}`;
+
+    throw new InvalidQueryError(`Unrecognised Semantic Scholar ID: ${id}`, {
+      source: this.source,
+      suggestions: [
+        "Use a Semantic Scholar paper ID or a prefixed ID such as DOI:10.1038/nature14539, ARXIV:1706.03762, PMID:31452104 or CorpusId:215416146",
+      ],
+    });
+  }
+
+  /**
+   * Match a category to a field of study, ignoring case and accepting
+   * underscores for spaces (e.g. "computer_science")
+   */
+  private resolveFieldOfStudy(category: string): string {
+    const wanted = category.trim().replace(/_/g, " ").toLowerCase();
+    const field = FIELDS_OF_STUDY.find((name) => name.toLowerCase() === wanted);
+    if (!field) {
+      throw new InvalidQueryError(
+        `Unknown Semantic Scholar field of study: ${category}`,
+        {
+          source: this.source,
+          suggestions: [
+            "Use list_categories with source 'semanticscholar' for valid fields",
+          ],
+        },
+      );
+    }
+    return field;
+  }
+
+  /**
+   * Semantic Scholar spells licenses without separators, e.g. "CCBYNCSA"
+   */
+  private normalizeS2License(license?: string | null): string | undefined {
+    if (!license) return undefined;
+    const upper = license.toUpperCase();
+    if (upper === "CC0") return "cc0";
+    if (!/^CCBY/.test(upper)) return license;
+    return ["cc", ...(upper.slice(2).match(/BY|NC|ND|SA/g) ?? [])]
+      .join("-")
+      .toLowerCase();
+  }
+
+  /**
+   * Map Graph API failures to typed errors; 429s and anything else are
+   * left to fromHttpError, which keeps the Retry-After
+   */
+  private toSourceError(error: unknown): unknown {
+    if (!axios.isAxiosError(error)) return error;
+
+    if (error.response?.status === 403) {
+      return new SourceDownError(
+        "Semantic Scholar API authentication failed. Check API key.",
+        {
+          source: this.source,
+          suggestions: [
+            "Set SEMANTIC_SCHOLAR_API_KEY or apiKeys.semanticScholar to a valid key, or leave it unset",
+          ],
+          cause: error,
+        },
+      );
+    }
+    if (error.response?.status && error.response.status >= 500) {
+      return new SourceDownError("Semantic Scholar API server error", {
+        source: this.source,
+        cause: error,
+      });
+    }
+    return fromHttpError(error, "Semantic Scholar API", this.source);
+  }
+}
+
+export const semanticScholarSource: SourceDefinition = {
+  id: "semanticscholar",
+  name: "Semantic Scholar",
+  description:
+    "Semantic Scholar (all fields, strongest in CS) - Citation data, influential citations and TLDRs",
+  capabilities: ["search", "latest", "content", "topCited", "categories"],
+  categoryHint: "fields of study like 'Computer Science' or 'Medicine'",
+  idHint: "'DOI:10.1038/nature14539', 'ARXIV:1706.03762' or a paper ID",
+  contentHint:
+    "Abstracts, TLDR summaries and citation data; text from open access PDFs",
+  searchHint: "Titles and abstracts together (field 'all' only)",
+  sortHint: "relevance, date, citations (full support)",
+  conceptHint: "Fields of study like 'Computer Science' or 'Medicine'",
+  identifierFor: (ids) =>
+    (ids.doi && `DOI:${ids.doi}`) ||
+    (ids.arxiv && `ARXIV:${ids.arxiv}`) ||
+    (ids.pmid && `PMID:${ids.pmid}`) ||
+    undefined,
+  fullTextRank: 7, // Open access PDFs only, found by the other sources first
+  create: (rateLimiter) => new SemanticScholarDriver(rateLimiter),
+};
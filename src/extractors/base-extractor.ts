@@ -1,8 +1,13 @@
+import { toMCPError } from "../core/errors.js";
+import { MCPErrorCode } from "../types/mcp.js";
+import { PaperDocument } from "../types/papers.js";
+
 export interface TextExtractionResult {
   text: string;
   truncated: boolean;
   extractionSuccess: boolean;
-  source: "arxiv-html" | "ar5iv" | "openalex-html" | "pdf" | "failed";
+  source: "arxiv-html" | "ar5iv" | "openalex-html" | "jats" | "pdf" | "failed";
+  document?: PaperDocument; // Sections found in `text`
   metadata?: {
     [key: string]: any;
   };
@@ -29,15 +34,25 @@ export abstract class BaseExtractor {
 
   abstract extractText(url: string): Promise<TextExtractionResult>;
 
-  protected createFailedResult(): TextExtractionResult {
+  protected createFailedResult(error?: unknown): TextExtractionResult {
     return {
       text: "",
       truncated: false,
       extractionSuccess: false,
       source: "failed",
+      ...(error !== undefined && { metadata: this.describeFailure(error) }),
     };
   }
 
+  // Message and MCP error code of the failure, for callers that report it
+  protected describeFailure(error: unknown): {
+    error: string;
+    errorCode: MCPErrorCode;
+  } {
+    const { code, message } = toMCPError(error);
+    return { error: message, errorCode: code };
+  }
+
   protected checkTextLength(text: string): {
     text: string;
     truncated: boolean;
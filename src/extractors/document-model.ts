@@ -0,0 +1,717 @@
+/**
+ * Document Model
+ *
+ * Extractors lay a paper out as plain text - headings on lines of their
+ * own, blocks separated by blank lines - and describe its structure as
+ * character ranges of that text. The text is cached once and any part of
+ * it can be cut out later, as fetch_content does for `sections` and
+ * `toc_only`.
+ */
+
+import * as cheerio from "cheerio";
+import {
+  DocumentCaption,
+  DocumentSection,
+  PaperDocument,
+  PaperReference,
+  PaperTable,
+} from "../types/papers.js";
+import {
+  parseReferenceList,
+  readJatsReference,
+  readLatexmlReference,
+} from "./reference-parser.js";
+import { rewriteJatsMath } from "./math.js";
+import { readJatsTable } from "./tables.js";
+
+// Element selections, from HTML or XML
+type Elements = ReturnType<ReturnType<cheerio.CheerioAPI["root"]>["children"]>;
+
+// A section as read from the source, before layout
+export interface DraftSection {
+  title: string;
+  number?: string;
+  paragraphs: string[];
+  sections: DraftSection[];
+}
+
+export interface DraftDocument {
+  title?: string;
+  abstract: string[]; // Paragraphs
+  sections: DraftSection[];
+  appendix: DraftSection[];
+  references: PaperReference[];
+  captions?: DocumentCaption[];
+  funding?: string[];
+  tables?: PaperTable[];
+}
+
+// One line of a table of contents
+export interface OutlineEntry {
+  number?: string;
+  title: string;
+  level: number;
+  characters: number; // Length of the section's text, subsections included
+}
+
+export interface SectionSelection {
+  text: string;
+  missing: string[]; // Requested names no section matched
+}
+
+// Names agents ask for, and the headings papers use for them
+const SECTION_ALIASES: Record<string, string[]> = {
+  introduction: ["introduction", "intro"],
+  methods: [
+    "methods",
+    "method",
+    "methodology",
+    "materials and methods",
+    "methods and materials",
+    "experimental procedures",
+    "experimental setup",
+    "approach",
+  ],
+  results: ["results", "findings", "experiments", "evaluation"],
+  discussion: ["discussion"],
+  conclusion: [
+    "conclusion",
+    "conclusions",
+    "concluding remarks",
+    "summary",
+    "outlook",
+  ],
+  "related work": ["related work", "prior work", "literature review"],
+};
+
+// JATS elements holding a figure or table
+const FLOATS = ["fig", "fig-group", "table-wrap", "table-wrap-group"];
+
+/**
+ * Lay a draft out as text, recording where each part ends up
+ */
+export function layoutDocument(draft: DraftDocument): {
+  text: string;
+  document: PaperDocument;
+} {
+  let text = "";
+
+  const write = (block: string): boolean => {
+    const cleaned = collapse(block);
+    if (!cleaned) return false;
+    text += (text ? "\n\n" : "") + cleaned;
+    return true;
+  };
+
+  const writeSection = (
+    title: string,
+    number: string | undefined,
+    level: number,
+    paragraphs: string[],
+    children: DraftSection[] = [],
+  ): DocumentSection | undefined => {
+    const start = text ? text.length + 2 : 0;
+    let written = write([number, title].filter(Boolean).join(" "));
+    for (const paragraph of paragraphs) written = write(paragraph) || written;
+
+    const sections = children
+      .map((child) =>
+        writeSection(
+          child.title,
+          child.number,
+          level + 1,
+          child.paragraphs,
+          child.sections,
+        ),
+      )
+      .filter((section): section is DocumentSection => Boolean(section));
+    if (!written && sections.length === 0) return undefined;
+
+    return {
+      title: collapse(title),
+      ...(number && { number }),
+      level,
+      start,
+      end: text.length,
+      ...(sections.length > 0 && { sections }),
+    };
+  };
+
+  const writeAll = (sections: DraftSection[]): DocumentSection[] =>
+    sections
+      .map((section) =>
+        writeSection(
+          section.title,
+          section.number,
+          1,
+          section.paragraphs,
+          section.sections,
+        ),
+      )
+      .filter((section): section is DocumentSection => Boolean(section));
+
+  const title = draft.title ? collapse(draft.title) : "";
+  write(title);
+  const abstract = draft.abstract.some((paragraph) => collapse(paragraph))
+    ? writeSection("Abstract", undefined, 1, draft.abstract)
+    : undefined;
+  const sections = writeAll(draft.sections);
+  const appendix = writeAll(draft.appendix);
+  const references =
+    draft.references.length > 0
+      ? writeSection(
+          "References",
+          undefined,
+          1,
+          draft.references.map((reference) => reference.raw),
+        )
+      : undefined;
+
+  return {
+    text,
+    document: {
+      ...(title && { title }),
+      ...(abstract && { abstract }),
+      sections,
+      appendix,
+      ...(references && { references, bibliography: draft.references }),
+      ...(draft.captions?.length && { captions: draft.captions }),
+      ...(draft.funding?.length && { funding: draft.funding }),
+      ...(draft.tables?.length && { tables: draft.tables }),
+    },
+  };
+}
+
+/**
+ * The document of a text cut to `length` characters: later sections are
+ * dropped and the one spanning the cut ends there
+ */
+export function clipDocument(
+  document: PaperDocument,
+  length: number,
+): PaperDocument {
+  const clip = (section?: DocumentSection): DocumentSection | undefined => {
+    if (!section || section.start >= length) return undefined;
+    const sections = clipAll(section.sections ?? []);
+    return {
+      ...section,
+      end: Math.min(section.end, length),
+      sections: sections.length > 0 ? sections : undefined,
+    };
+  };
+  const clipAll = (sections: DocumentSection[]): DocumentSection[] =>
+    sections
+      .map(clip)
+      .filter((section): section is DocumentSection => Boolean(section));
+
+  return {
+    title: document.title,
+    abstract: clip(document.abstract),
+    sections: clipAll(document.sections),
+    appendix: clipAll(document.appendix),
+    references: clip(document.references),
+    bibliography: document.bibliography,
+    captions: document.captions,
+    funding: document.funding,
+    tables: document.tables,
+  };
+}
+
+/**
+ * Sections of LaTeXML output (arXiv HTML, ar5iv); undefined when the page
+ * has no sectioning to go by
+ */
+export function readLatexml(
+  $: cheerio.CheerioAPI,
+  root: Elements,
+): DraftDocument | undefined {
+  const topLevel = (selector: string) =>
+    root
+      .find(selector)
+      .filter(
+        (_, element) =>
+          $(element).parents(".ltx_section, .ltx_appendix").length === 0,
+      );
+
+  const readSection = (section: Elements): DraftSection => {
+    const heading = section.children(".ltx_title").first();
+    const tag = heading.find(".ltx_tag").first();
+    const number = tag.text().trim().replace(/\.$/, "");
+    tag.remove();
+
+    const paragraphs: string[] = [];
+    const sections: DraftSection[] = [];
+    section.children().each((_, child) => {
+      const node = $(child);
+      if (node.is(".ltx_title")) return;
+      if (
+        node.is(
+          ".ltx_subsection, .ltx_subsubsection, .ltx_paragraph, .ltx_subparagraph",
+        )
+      ) {
+        sections.push(readSection(node));
+      } else if (node.is(".ltx_table")) {
+        // The cells are read as a table; only the caption stays in the text
+        paragraphs.push(node.find(".ltx_caption").first().text());
+      } else {
+        paragraphs.push(node.text());
+      }
+    });
+
+    return {
+      title: heading.text(),
+      ...(number && { number: number.replace(/^Appendix\s+/i, "") }),
+      paragraphs,
+      sections,
+    };
+  };
+
+  const sections = topLevel(".ltx_section")
+    .toArray()
+    .map((section) => readSection($(section)));
+  if (sections.length === 0) return undefined;
+
+  const abstract = root.find(".ltx_abstract").first().clone();
+  abstract.children(".ltx_title").remove();
+
+  return {
+    title: root.find(".ltx_title_document").first().text() || undefined,
+    abstract: abstract.length ? [abstract.text()] : [],
+    sections,
+    appendix: topLevel(".ltx_appendix")
+      .toArray()
+      .map((section) => readSection($(section))),
+    references: root
+      .find(".ltx_bibliography .ltx_bibitem")
+      .toArray()
+      .map((item) => readLatexmlReference($, $(item))),
+  };
+}
+
+/**
+ * Sections of a JATS article: <sec> in the body, <app> and <ref> in the
+ * back matter. Figure and table captions stay where they float - table
+ * cells are read apart from the text - and the acknowledgements and
+ * funding close the body. Formulas are rewritten as LaTeX in the article
+ * itself. Elements are matched by local name, whatever namespace prefix
+ * the publisher used.
+ */
+export function readJats(article: Elements): DraftDocument {
+  rewriteJatsMath(article);
+  const named = (node: Elements, name: string) =>
+    node.children().filter((_, element) => localName(element) === name);
+  const descendants = (node: Elements, name: string) =>
+    node.find("*").filter((_, element) => localName(element) === name);
+  const captions: DocumentCaption[] = [];
+  const tables: PaperTable[] = [];
+
+  // "Figure 2. Caption", or one such line per member of a group
+  const readFloat = (float: Elements): string[] => {
+    const name = localName(float[0]);
+    if (name === "fig-group" || name === "table-wrap-group") {
+      return float
+        .children()
+        .filter((_, element) => FLOATS.includes(localName(element)))
+        .toArray()
+        .flatMap((member) => readFloat(float.find(member)));
+    }
+
+    const label = collapse(named(float, "label").first().text());
+    const captionNode = named(float, "caption").first();
+    const blocks = captionNode
+      .children()
+      .toArray()
+      .map((block) => collapse(captionNode.find(block).text()))
+      .filter(Boolean);
+    const caption = blocks.length
+      ? blocks.join(" ")
+      : collapse(captionNode.text());
+    const printed = label.replace(/[.:]$/, "");
+    const table =
+      name === "table-wrap"
+        ? readJatsTable(float, printed, caption)
+        : undefined;
+    if (table) tables.push(table);
+    if (!label && !caption) return [];
+
+    captions.push({
+      type: name === "table-wrap" ? "table" : "figure",
+      ...(printed && { label: printed }),
+      caption,
+    });
+    return [[label, caption].filter(Boolean).join(" ")];
+  };
+
+  const readSection = (section: Elements): DraftSection => {
+    const label = named(section, "label").first().text().trim();
+    const paragraphs: string[] = [];
+    const sections: DraftSection[] = [];
+
+    const children = section.children();
+    children.each((index, element) => {
+      const child = children.eq(index);
+      const name = localName(element);
+      if (name === "sec") sections.push(readSection(child));
+      else if (FLOATS.includes(name)) paragraphs.push(...readFloat(child));
+      else if (!["title", "label"].includes(name)) {
+        // Floats placed inside a paragraph follow it
+        const floats = child
+          .find("*")
+          .filter((_, node) => ["fig", "table-wrap"].includes(localName(node)));
+        if (floats.length === 0) {
+          paragraphs.push(child.text());
+          return;
+        }
+        const text = child.clone();
+        text
+          .find("*")
+          .filter((_, node) => ["fig", "table-wrap"].includes(localName(node)))
+          .remove();
+        paragraphs.push(
+          text.text(),
+          ...floats.toArray().flatMap((float) => readFloat(child.find(float))),
+        );
+      }
+    });
+
+    return {
+      title: named(section, "title").first().text(),
+      ...(label && { number: label.replace(/\.$/, "") }),
+      paragraphs,
+      sections,
+    };
+  };
+
+  const front = descendants(article, "article-meta").first();
+  const body = descendants(article, "body").first();
+  const back = descendants(article, "back").first();
+  const abstract = descendants(front, "abstract").first();
+  const abstractParagraphs = descendants(abstract, "p")
+    .toArray()
+    .map((paragraph) => abstract.find(paragraph).text());
+  const main = readSection(body);
+
+  // Floats collected after the body rather than placed in it
+  const floating = descendants(article, "floats-group")
+    .children()
+    .toArray()
+    .flatMap((float) => readFloat(article.find(float)));
+
+  const acknowledgements = descendants(back, "ack")
+    .toArray()
+    .map((ack) => readSection(back.find(ack)))
+    .map((ack) => ({ ...ack, title: ack.title || "Acknowledgements" }));
+  const backSections = named(back, "sec")
+    .toArray()
+    .map((section) => readSection(back.find(section)));
+
+  const funding = readJatsFunding(front, back, descendants);
+
+  return {
+    title: descendants(front, "article-title").first().text() || undefined,
+    abstract:
+      abstractParagraphs.length > 0 || abstract.length === 0
+        ? abstractParagraphs
+        : [abstract.text()],
+    sections: [
+      // Text before the first <sec> becomes an untitled section
+      ...(main.paragraphs.length
+        ? [{ title: "", paragraphs: main.paragraphs, sections: [] }]
+        : []),
+      ...main.sections,
+      ...(floating.length
+        ? [{ title: "Figures and Tables", paragraphs: floating, sections: [] }]
+        : []),
+      ...acknowledgements,
+      ...backSections,
+      ...(funding.length
+        ? [{ title: "Funding", paragraphs: funding, sections: [] }]
+        : []),
+    ],
+    appendix: descendants(back, "app")
+      .toArray()
+      .map((app) => readSection(back.find(app))),
+    references: descendants(back, "ref")
+      .toArray()
+      .map((ref) => readJatsReference(back.find(ref))),
+    captions,
+    funding,
+    tables,
+  };
+}
+
+/**
+ * Funding statements of a JATS article; grants are listed as "Source
+ * (award IDs)" where the article has no statement
+ */
+function readJatsFunding(
+  front: Elements,
+  back: Elements,
+  descendants: (node: Elements, name: string) => Elements,
+): string[] {
+  const group = descendants(front, "funding-group");
+  const statements = descendants(group, "funding-statement")
+    .toArray()
+    .map((statement) => collapse(group.find(statement).text()));
+  const awards = statements.length
+    ? []
+    : descendants(group, "award-group")
+        .toArray()
+        .map((award) => {
+          const node = group.find(award);
+          const source = descendants(node, "funding-source")
+            .toArray()
+            .map((name) => collapse(node.find(name).text()))
+            .join(", ");
+          const ids = descendants(node, "award-id")
+            .toArray()
+            .map((id) => collapse(node.find(id).text()))
+            .join(", ");
+          return ids ? `${source} (${ids})`.trim() : source;
+        });
+  const notes = descendants(back, "fn")
+    .filter((_, note) =>
+      ["financial-disclosure", "supported-by"].includes(
+        note.attribs["fn-type"],
+      ),
+    )
+    .toArray()
+    .map((note) => collapse(back.find(note).text()));
+
+  return [...new Set([...statements, ...awards, ...notes])].filter(Boolean);
+}
+
+// Headings extracted PDF text usually has on a line of their own
+const NAMED_HEADING =
+  /^(abstract|introduction|background|related work|preliminaries|methods?|materials and methods|methodology|experiments?|experimental setup|results|results and discussion|discussion|conclusions?|concluding remarks|acknowledge?ments?|references|bibliography|appendix|appendices|supplementary (?:material|information))[.:]?$/i;
+const NUMBERED_HEADING =
+  /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+([A-Z][^\n]{1,80})$/;
+const APPENDIX_HEADING = /^appendix\s+([A-Z])[.:]?\s*([^\n]{0,80})$/i;
+
+type HeadingKind = "abstract" | "body" | "appendix" | "references";
+
+interface Heading {
+  kind: HeadingKind;
+  title: string;
+  number?: string;
+  level: number;
+  start: number;
+}
+
+/**
+ * Guess the sections of text without markup (PDF) from its heading lines:
+ * well-known section names, and numbered headings that follow on from the
+ * previous one. Undefined when fewer than two headings are found.
+ */
+export function outlineText(text: string): PaperDocument | undefined {
+  const headings: Heading[] = [];
+  let kind: HeadingKind = "body";
+  let chapter = 0;
+
+  for (const line of text.matchAll(/^[^\n]+$/gm)) {
+    const content = line[0].trim();
+    const start = line.index ?? 0;
+    const numbered = content.match(NUMBERED_HEADING);
+    const appendix = content.match(APPENDIX_HEADING);
+    const named = content.match(NAMED_HEADING);
+
+    if (/^abstract\b/i.test(content) && headings.length === 0) {
+      headings.push({ kind: "abstract", title: "Abstract", level: 1, start });
+    } else if (appendix) {
+      kind = "appendix";
+      headings.push({
+        kind,
+        title: appendix[2].trim() || "Appendix",
+        number: appendix[1].toUpperCase(),
+        level: 1,
+        start,
+      });
+    } else if (named) {
+      const title = named[1];
+      if (/^(references|bibliography)$/i.test(title)) kind = "references";
+      else if (/^append/i.test(title)) kind = "appendix";
+      else if (kind === "references") kind = "body";
+      headings.push({ kind, title, level: 1, start });
+    } else if (
+      numbered &&
+      kind !== "references" &&
+      isHeadingText(numbered[2])
+    ) {
+      const parts = numbered[1].split(".").map(Number);
+      const follows =
+        parts.length === 1 ? parts[0] === chapter + 1 : parts[0] === chapter;
+      if (!follows) continue;
+      chapter = parts[0];
+      headings.push({
+        kind,
+        title: numbered[2].trim(),
+        number: numbered[1],
+        level: parts.length,
+        start,
+      });
+    }
+  }
+
+  if (headings.length < 2) return undefined;
+
+  // A heading's section runs to the next one of its level or above, or
+  // the next one of another part of the paper
+  const ends = headings.map((heading, index) => {
+    const next = headings
+      .slice(index + 1)
+      .find(
+        (other) => other.level <= heading.level || other.kind !== heading.kind,
+      );
+    return next ? next.start - 1 : text.length;
+  });
+
+  const nest = (kind: HeadingKind): DocumentSection[] => {
+    const roots: DocumentSection[] = [];
+    const open: DocumentSection[] = [];
+    headings.forEach((heading, index) => {
+      if (heading.kind !== kind) return;
+      const section: DocumentSection = {
+        title: heading.title,
+        ...(heading.number && { number: heading.number }),
+        level: heading.level,
+        start: heading.start,
+        end: ends[index],
+      };
+      while (open.length && open[open.length - 1].level >= section.level) {
+        open.pop();
+      }
+      const parent = open[open.length - 1];
+      if (parent) (parent.sections ??= []).push(section);
+      else roots.push(section);
+      open.push(section);
+    });
+    return roots;
+  };
+
+  const [abstract] = nest("abstract");
+  const [references] = nest("references");
+  return {
+    ...(abstract && { abstract }),
+    sections: nest("body"),
+    appendix: nest("appendix"),
+    ...(references && {
+      references,
+      bibliography: parseReferenceList(
+        text.slice(references.start, references.end),
+      ),
+    }),
+  };
+}
+
+/**
+ * Flat table of contents in reading order
+ */
+export function outlineDocument(document: PaperDocument): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  const visit = (section: DocumentSection) => {
+    entries.push({
+      ...(section.number && { number: section.number }),
+      title: section.title,
+      level: section.level,
+      characters: section.end - section.start,
+    });
+    section.sections?.forEach(visit);
+  };
+
+  if (document.abstract) visit(document.abstract);
+  document.sections.forEach(visit);
+  document.appendix.forEach(visit);
+  if (document.references) visit(document.references);
+  return entries;
+}
+
+/**
+ * Cut the requested sections out of a text, in reading order. Names may
+ * be "abstract", "references", "appendix", a section number ("3.2") or a
+ * heading; common names like "methods" also match their usual variants
+ * ("Materials and Methods", "Methodology").
+ */
+export function selectSections(
+  text: string,
+  document: PaperDocument,
+  names: string[],
+): SectionSelection {
+  const selected: DocumentSection[] = [];
+  const missing: string[] = [];
+
+  for (const name of names) {
+    const found = findSections(document, normalize(name));
+    if (found.length === 0) missing.push(name);
+    selected.push(...found);
+  }
+
+  // Sections inside another selected one are already part of it
+  const ranges = selected
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter(
+      (section, index, sorted) =>
+        index === 0 || section.start >= sorted[index - 1].end,
+    );
+
+  return {
+    text: ranges
+      .map((section) => text.slice(section.start, section.end).trim())
+      .join("\n\n"),
+    missing,
+  };
+}
+
+function findSections(
+  document: PaperDocument,
+  name: string,
+): DocumentSection[] {
+  if (name === "abstract") return document.abstract ? [document.abstract] : [];
+  if (name === "references" || name === "bibliography") {
+    return document.references ? [document.references] : [];
+  }
+  if (name === "appendix" || name === "appendices") return document.appendix;
+
+  const aliases = Object.entries(SECTION_ALIASES).find(
+    ([canonical, variants]) => canonical === name || variants.includes(name),
+  )?.[1] ?? [name];
+
+  const matches = (section: DocumentSection) => {
+    if (section.number?.toLowerCase() === name) return true;
+    const title = ` ${normalize(section.title)} `;
+    return aliases.some((alias) => title.includes(` ${alias} `));
+  };
+
+  // The outermost matching sections; their subsections come with them
+  const search = (sections: DocumentSection[]): DocumentSection[] =>
+    sections.flatMap((section) =>
+      matches(section) ? [section] : search(section.sections ?? []),
+    );
+  return search([...document.sections, ...document.appendix]);
+}
+
+function normalize(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}.]+/gu, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function isHeadingText(title: string): boolean {
+  const words = title.trim().split(/\s+/);
+  const letters = title.replace(/[^\p{L}]/gu, "").length;
+  return (
+    words.length <= 12 &&
+    letters >= title.length / 2 &&
+    !/[.,;]$/.test(title.trim())
+  );
+}
+
+function localName(element: { tagName?: string }): string {
+  return (element.tagName ?? "").split(":").pop() ?? "";
+}
@@ -1,5 +1,5 @@
 import * as cheerio from "cheerio";
-import axios from "axios";
+import { getHttpClient } from "../core/http-client.js";
 import {
   BaseExtractor,
   TextExtractionResult,
@@ -8,6 +8,19 @@ import {
 import { TextCleaner } from "./text-cleaner.js";
 import { PdfExtractor } from "./pdf-extractor.js";
 import { logger } from "../core/logger.js";
+import { getResponseCache } from "../core/cache.js";
+import {
+  InvalidQueryError,
+  NotAvailableError,
+  SourceDownError,
+} from "../core/errors.js";
+import {
+  clipDocument,
+  layoutDocument,
+  readLatexml,
+} from "./document-model.js";
+import { rewriteHtmlMath } from "./math.js";
+import { readHtmlTables, tableDocument } from "./tables.js";
 
 export class HtmlExtractor extends BaseExtractor {
   private textCleaner: TextCleaner;
@@ -30,6 +43,27 @@ export class HtmlExtractor extends BaseExtractor {
   }
 
   async extractText(url: string, fallbackPdfUrl?: string): Promise<TextExtractionResult> {
+    const cacheKey = fallbackPdfUrl ? `${url} ${fallbackPdfUrl}` : url;
+    const cached = await getResponseCache().getWithDocument<TextExtractionResult>(
+      "fulltext",
+      cacheKey,
+    );
+    if (cached) {
+      logger.info("Using cached text extraction", { url });
+      return cached;
+    }
+
+    const result = await this.extractUncached(url, fallbackPdfUrl);
+    if (result.extractionSuccess) {
+      await getResponseCache().setWithDocument("fulltext", cacheKey, result);
+    }
+    return result;
+  }
+
+  private async extractUncached(
+    url: string,
+    fallbackPdfUrl?: string,
+  ): Promise<TextExtractionResult> {
     try {
       logger.info("Starting HTML text extraction", { url });
 
@@ -73,7 +107,7 @@ export class HtmlExtractor extends BaseExtractor {
         url,
         error: (error as Error).message,
       });
-      return this.createFailedResult();
+      return this.createFailedResult(error);
     }
   }
 
@@ -89,7 +123,7 @@ export class HtmlExtractor extends BaseExtractor {
         logger.warn("arXiv HTML extraction failed and fallback disabled", {
           url,
         });
-        return this.createFailedResult();
+        return this.createFailedResult(error);
       }
 
       // Try ar5iv fallback
@@ -106,7 +140,7 @@ export class HtmlExtractor extends BaseExtractor {
           originalError: (error as Error).message,
           fallbackError: (fallbackError as Error).message,
         });
-        return this.createFailedResult();
+        return this.createFailedResult(fallbackError);
       }
     }
 
@@ -129,20 +163,29 @@ export class HtmlExtractor extends BaseExtractor {
         url,
         error: (error as Error).message,
       });
-      return this.createFailedResult();
+      return this.createFailedResult(error);
     }
   }
 
   private async fetchHtml(url: string): Promise<string> {
-    const response = await axios.get(url, {
+    const response = await getHttpClient().get(url, {
       timeout: 10000,
-      headers: {
-        "User-Agent": "Scientific Paper Harvester MCP Server/1.0",
-      },
     });
 
     if (response.status !== 200) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw new SourceDownError(
+        `HTTP ${response.status}: ${response.statusText}`,
+      );
+    }
+
+    // A PDF or other file served in place of a page is not text to clean
+    const contentType = String(response.headers?.["content-type"] ?? "");
+    const isPage =
+      !contentType || /text\/html|application\/xhtml\+xml/i.test(contentType);
+    if (!isPage || String(response.data).startsWith("%PDF-")) {
+      throw new NotAvailableError(
+        `Expected an HTML page but got ${contentType || "a PDF"}`,
+      );
     }
 
     return response.data;
@@ -159,13 +202,36 @@ export class HtmlExtractor extends BaseExtractor {
       $(
         "nav, header, footer, aside, script, style, .sidebar, .navigation",
       ).remove();
+      rewriteHtmlMath($("body"));
+      const tables = readHtmlTables($, $("body"));
 
       // arXiv/ar5iv specific selectors
       let content = "";
 
       // Try LaTeX document structure first (common in ar5iv)
       const latexDoc = $(".ltx_document");
-      if (latexDoc.length > 0) {
+      const draft = latexDoc.length > 0 ? readLatexml($, latexDoc) : undefined;
+      if (draft) {
+        // Sectioned papers are laid out block by block, keeping their outline
+        const laidOut = layoutDocument({ ...draft, tables });
+        const { text, truncated } = this.checkTextLength(laidOut.text);
+
+        logger.info("arXiv text extraction successful", {
+          source,
+          sections: laidOut.document.sections.length,
+          tables: tables.length,
+          finalLength: text.length,
+          truncated,
+        });
+
+        return {
+          text,
+          truncated,
+          extractionSuccess: true,
+          source,
+          document: clipDocument(laidOut.document, text.length),
+        };
+      } else if (latexDoc.length > 0) {
         content = latexDoc.text();
       } else {
         // Fallback to article or main content
@@ -198,13 +264,14 @@ export class HtmlExtractor extends BaseExtractor {
         truncated,
         extractionSuccess: true,
         source,
+        ...(tables.length > 0 && { document: tableDocument(tables) }),
       };
     } catch (error) {
       logger.error("arXiv HTML processing failed", {
         source,
         error: (error as Error).message,
       });
-      return this.createFailedResult();
+      return this.createFailedResult(error);
     }
   }
 
@@ -216,6 +283,8 @@ export class HtmlExtractor extends BaseExtractor {
       $(
         "nav, header, footer, aside, script, style, .sidebar, .navigation",
       ).remove();
+      rewriteHtmlMath($("body"));
+      const tables = readHtmlTables($, $("body"));
 
       // Common academic paper selectors
       let content = "";
@@ -266,12 +335,13 @@ export class HtmlExtractor extends BaseExtractor {
         truncated,
         extractionSuccess: true,
         source: "openalex-html",
+        ...(tables.length > 0 && { document: tableDocument(tables) }),
       };
     } catch (error) {
       logger.error("OpenAlex HTML processing failed", {
         error: (error as Error).message,
       });
-      return this.createFailedResult();
+      return this.createFailedResult(error);
     }
   }
 
@@ -281,7 +351,9 @@ export class HtmlExtractor extends BaseExtractor {
       /(?:arxiv\.org\/(?:html|abs|pdf)\/|ar5iv\.labs\.arxiv\.org\/html\/)([0-9]{4}\.[0-9]{4,5})/,
     );
     if (!matches) {
-      throw new Error(`Could not extract arXiv ID from URL: ${url}`);
+      throw new InvalidQueryError(
+        `Could not extract arXiv ID from URL: ${url}`,
+      );
     }
     return matches[1];
   }
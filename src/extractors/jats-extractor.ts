@@ -0,0 +1,107 @@
+/**
+ * JATS Extractor
+ *
+ * Reads full text from JATS XML - PMC efetch records, Europe PMC
+ * fullTextXML and bioRxiv/medRxiv source files. The markup gives the
+ * sections, figure and table captions, references and funding exactly,
+ * where scraping the same article's HTML page can only guess at them, so
+ * drivers try it first and fall back to HtmlExtractor.
+ */
+
+import * as cheerio from "cheerio";
+import { getHttpClient } from "../core/http-client.js";
+import { BaseExtractor, TextExtractionResult } from "./base-extractor.js";
+import { logger } from "../core/logger.js";
+import { getResponseCache } from "../core/cache.js";
+import { NotAvailableError, SourceDownError } from "../core/errors.js";
+import { clipDocument, layoutDocument, readJats } from "./document-model.js";
+
+export class JatsExtractor extends BaseExtractor {
+  async extractText(url: string): Promise<TextExtractionResult> {
+    const cached =
+      await getResponseCache().getWithDocument<TextExtractionResult>(
+        "fulltext",
+        url,
+      );
+    if (cached) {
+      logger.info("Using cached text extraction", { url });
+      return cached;
+    }
+
+    const result = await this.extractUncached(url);
+    if (result.extractionSuccess) {
+      await getResponseCache().setWithDocument("fulltext", url, result);
+    }
+    return result;
+  }
+
+  /**
+   * Text and document of a JATS article, or of the first article in a
+   * wrapper such as <pmc-articleset>. Fails for records without a body,
+   * which publishers that withhold the full text still deliver.
+   */
+  processJats(xml: string): TextExtractionResult {
+    const $ = cheerio.load(xml, { xml: true });
+    const article = $.root()
+      .find("*")
+      .filter((_, element) => localName(element) === "article")
+      .first();
+    const body = article
+      .find("*")
+      .filter((_, element) => localName(element) === "body")
+      .first();
+    if (!body.text().trim()) {
+      return this.createFailedResult(
+        new NotAvailableError("The JATS record has no article body"),
+      );
+    }
+
+    const laidOut = layoutDocument(readJats(article));
+    const { text, truncated } = this.checkTextLength(laidOut.text);
+
+    logger.info("JATS text extraction successful", {
+      sections: laidOut.document.sections.length,
+      captions: laidOut.document.captions?.length ?? 0,
+      references: laidOut.document.bibliography?.length ?? 0,
+      finalLength: text.length,
+      truncated,
+    });
+
+    return {
+      text,
+      truncated,
+      extractionSuccess: true,
+      source: "jats",
+      document: clipDocument(laidOut.document, text.length),
+    };
+  }
+
+  private async extractUncached(url: string): Promise<TextExtractionResult> {
+    try {
+      logger.info("Starting JATS text extraction", { url });
+
+      const response = await getHttpClient().get<string>(url, {
+        timeout: 15000,
+        responseType: "text",
+        headers: { Accept: "application/xml, text/xml" },
+      });
+      if (response.status !== 200) {
+        throw new SourceDownError(
+          `HTTP ${response.status}: ${response.statusText}`,
+        );
+      }
+
+      return this.processJats(response.data);
+    } catch (error) {
+      logger.warn("JATS text extraction failed", {
+        url,
+        error: (error as Error).message,
+      });
+      return this.createFailedResult(error);
+    }
+  }
+}
+
+function localName(element: { tagName?: string }): string {
+  return (element.tagName ?? "").split(":").pop() ?? "";
+}
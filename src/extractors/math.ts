@@ -0,0 +1,190 @@
+/**
+ * Mathematics as LaTeX
+ *
+ * Text taken from MathML with .text() runs every token together, so
+ * equations are rewritten in place before any text is read: the content
+ * of each math element is replaced by LaTeX, $…$ inline and $$…$$ for
+ * display math followed by its equation number. The elements themselves
+ * stay, so block-level formulas are still read as blocks. The TeX comes
+ * from what the source kept of the author's input - LaTeXML's `alttext`,
+ * a TeX annotation or JATS <tex-math> - and only otherwise from the
+ * MathML itself.
+ */
+
+import * as cheerio from "cheerio";
+
+// Element selections, from HTML or XML
+type Elements = ReturnType<ReturnType<cheerio.CheerioAPI["root"]>["children"]>;
+
+/**
+ * Rewrite the math of LaTeXML output (arXiv HTML, ar5iv), or of any HTML
+ * page using MathML
+ */
+export function rewriteHtmlMath(root: Elements): void {
+  // Innermost equation rows: one numbered equation, or one line of an
+  // aligned group, each possibly split over several cells
+  root
+    .find(".ltx_equation")
+    .filter(
+      (_, element) => root.find(element).find(".ltx_equation").length === 0,
+    )
+    .each((_, element) => {
+      const equation = root.find(element);
+      const tex = elements(equation.find("math"))
+        .map((math) => mathTex(math))
+        .join(" ");
+      const number = collapse(
+        equation.find(".ltx_tag_equation").first().text(),
+      );
+      equation.text(display(tex, number));
+    });
+
+  elements(root.find("math")).forEach((math) => {
+    const tex = mathTex(math);
+    math.text(math.attr("display") === "block" ? display(tex) : inline(tex));
+  });
+}
+
+/**
+ * Rewrite the math of a JATS article: <disp-formula> with its label,
+ * <inline-formula>, and bare <tex-math> or <mml:math>
+ */
+export function rewriteJatsMath(article: Elements): void {
+  const named = (name: string) =>
+    article.find("*").filter((_, element) => localName(element) === name);
+
+  elements(named("disp-formula")).forEach((formula) => {
+    const label = collapse(
+      formula
+        .children()
+        .filter((_, element) => localName(element) === "label")
+        .text(),
+    );
+    formula.text(display(formulaTex(formula), label));
+  });
+  elements(named("inline-formula")).forEach((formula) =>
+    formula.text(inline(formulaTex(formula))),
+  );
+  elements(named("tex-math")).forEach((tex) =>
+    tex.text(inline(texMath(tex.text()))),
+  );
+  elements(named("math")).forEach((math) => math.text(inline(mathTex(math))));
+}
+
+// TeX of a JATS formula, preferring <tex-math> over MathML
+function formulaTex(formula: Elements): string {
+  const descendant = (name: string) =>
+    formula
+      .find("*")
+      .filter((_, element) => localName(element) === name)
+      .first();
+
+  const tex = descendant("tex-math");
+  if (tex.length) return texMath(tex.text());
+  const math = descendant("math");
+  if (math.length) return mathTex(math);
+  return collapse(formula.text());
+}
+
+// The formula of a <tex-math>, which PMC wraps in a whole LaTeX document
+function texMath(source: string): string {
+  const body = source.match(/\\begin\{document\}([\s\S]*)\\end\{document\}/);
+  return collapse(body ? body[1] : source)
+    .replace(/^(\$\$|\$|\\\[|\\\()\s*/, "")
+    .replace(/\s*(\$\$|\$|\\\]|\\\))$/, "");
+}
+
+// TeX of a MathML <math>: its alttext, a TeX annotation, or a rendering
+function mathTex(math: Elements): string {
+  const alttext = math.attr("alttext");
+  if (alttext?.trim()) return stripDisplayStyle(alttext);
+
+  const annotation = math
+    .find("*")
+    .filter(
+      (_, element) =>
+        localName(element) === "annotation" &&
+        /tex/i.test(element.attribs.encoding ?? ""),
+    )
+    .first();
+  if (annotation.length) return stripDisplayStyle(annotation.text());
+
+  return collapse(mathml(math));
+}
+
+/**
+ * Approximate LaTeX for presentation MathML, for formulas published
+ * without their TeX
+ */
+function mathml(node: Elements): string {
+  const name = localName(node[0]);
+  const parts = elements(node.children()).map(mathml);
+  const [first = "", second = "", third = ""] = parts;
+
+  switch (name) {
+    case "mi":
+    case "mn":
+    case "mo":
+      return collapse(node.text());
+    case "mtext":
+      return `\\text{${collapse(node.text())}}`;
+    case "msup":
+      return `${first}^{${second}}`;
+    case "msub":
+      return `${first}_{${second}}`;
+    case "msubsup":
+    case "munderover":
+      return `${first}_{${second}}^{${third}}`;
+    case "mfrac":
+      return `\\frac{${first}}{${second}}`;
+    case "msqrt":
+      return `\\sqrt{${parts.join(" ")}}`;
+    case "mroot":
+      return `\\sqrt[${second}]{${first}}`;
+    case "mover":
+      return `\\overset{${second}}{${first}}`;
+    case "munder":
+      return `\\underset{${second}}{${first}}`;
+    case "mfenced":
+      return `${node.attr("open") ?? "("}${parts.join(node.attr("separators") ?? ",")}${node.attr("close") ?? ")"}`;
+    case "mtable":
+      return `\\begin{matrix} ${parts.join(" \\\\ ")} \\end{matrix}`;
+    case "mtr":
+      return parts.join(" & ");
+    case "semantics":
+      return first;
+    case "annotation":
+    case "annotation-xml":
+    case "none":
+    case "mprescripts":
+      return "";
+    default:
+      return parts.length ? parts.join(" ") : collapse(node.text());
+  }
+}
+
+function inline(tex: string): string {
+  return tex ? `$${tex}$` : "";
+}
+
+// Display math, set off from the text around it, with its number
+function display(tex: string, number?: string): string {
+  if (!tex) return number ? ` ${number} ` : " ";
+  return ` ${[`$$${tex}$$`, number].filter(Boolean).join(" ")} `;
+}
+
+function stripDisplayStyle(tex: string): string {
+  return collapse(tex.replace(/^\s*\\displaystyle\b/, ""));
+}
+
+function elements(selection: Elements): Elements[] {
+  return selection.toArray().map((_, index) => selection.eq(index));
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function localName(element: { tagName?: string }): string {
+  return (element.tagName ?? "").split(":").pop() ?? "";
+}
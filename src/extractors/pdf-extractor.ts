@@ -1,7 +1,15 @@
-import axios from "axios";
+import { getHttpClient } from "../core/http-client.js";
 import { BaseExtractor, TextExtractionResult, ExtractionConfig } from "./base-extractor.js";
 import { TextCleaner } from "./text-cleaner.js";
+import { outlineText } from "./document-model.js";
+import { readTextTables, tableDocument } from "./tables.js";
 import { logInfo, logWarn, logError } from "../core/logger.js";
+import { getResponseCache } from "../core/cache.js";
+import {
+  NotAvailableError,
+  SciHarvesterError,
+  SourceDownError,
+} from "../core/errors.js";
 
 export interface PdfExtractionOptions {
   maxSizeMB: number;
@@ -52,6 +60,21 @@ export class PdfExtractor extends BaseExtractor {
     onProgress?: (progress: PdfExtractionProgress) => void,
     onConfirm?: (metadata: PdfMetadata) => Promise<boolean>
   ): Promise<TextExtractionResult> {
+    const cached = await getResponseCache().getWithDocument<TextExtractionResult>(
+      "pdf",
+      url,
+    );
+    if (cached) {
+      logInfo("Using cached PDF text", { url });
+      onProgress?.({
+        phase: "complete",
+        progress: 100,
+        message: "PDF text loaded from cache",
+        cancellable: false,
+      });
+      return cached;
+    }
+
     try {
       this.abortController = new AbortController();
       
@@ -121,6 +144,10 @@ export class PdfExtractor extends BaseExtractor {
         cancellable: false,
       });
 
+      if (result.extractionSuccess) {
+        await getResponseCache().setWithDocument("pdf", url, result);
+      }
+
       return result;
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
@@ -142,18 +169,15 @@ export class PdfExtractor extends BaseExtractor {
         error: error instanceof Error ? error.message : String(error),
       });
       
-      return this.createFailedResult();
+      return this.createFailedResult(error);
     }
   }
 
   private async checkPdfMetadata(url: string): Promise<PdfMetadata> {
     try {
-      const response = await axios.head(url, {
+      const response = await getHttpClient().head(url, {
         timeout: 10000,
         signal: this.abortController?.signal,
-        headers: {
-          "User-Agent": "Scientific Paper Harvester MCP Server/1.0",
-        },
       });
 
       const sizeBytes = parseInt(response.headers["content-length"] || "0", 10);
@@ -161,7 +185,7 @@ export class PdfExtractor extends BaseExtractor {
 
       // Check if size exceeds limits
       if (sizeMB > this.options.maxSizeMB) {
-        throw new Error(
+        throw new NotAvailableError(
           `PDF too large: ${sizeMB.toFixed(1)}MB (limit: ${this.options.maxSizeMB}MB)`
         );
       }
@@ -174,6 +198,8 @@ export class PdfExtractor extends BaseExtractor {
       };
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") throw error;
+      // Only the HEAD request failing is recoverable, not the size check
+      if (error instanceof SciHarvesterError) throw error;
       
       logWarn("Could not check PDF metadata, proceeding with download", {
         url,
@@ -190,18 +216,15 @@ export class PdfExtractor extends BaseExtractor {
   }
 
   private async downloadPdf(url: string, metadata: PdfMetadata): Promise<Buffer> {
-    const response = await axios.get(url, {
+    const response = await getHttpClient().get(url, {
       responseType: "arraybuffer",
       timeout: this.options.timeoutMs,
       signal: this.abortController?.signal,
-      headers: {
-        "User-Agent": "Scientific Paper Harvester MCP Server/1.0",
-      },
       maxContentLength: this.options.maxSizeMB * 1024 * 1024, // Convert MB to bytes
     });
 
     if (response.status !== 200) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw new SourceDownError(`HTTP ${response.status}: ${response.statusText}`);
     }
 
     return Buffer.from(response.data);
@@ -246,11 +269,19 @@ export class PdfExtractor extends BaseExtractor {
       sizeMB: metadata.sizeMB,
     });
 
+    const outline = outlineText(text);
+    // Columns are told apart by the spacing cleaning collapses
+    const tables = readTextTables(extractedText);
+    const document = tables.length
+      ? { ...(outline ?? tableDocument([])), tables }
+      : outline;
+
     return {
       text,
       truncated,
       extractionSuccess: true,
       source: "pdf",
+      ...(document && { document }),
       metadata: {
         pageCount,
         pdfSize: metadata.sizeMB,
@@ -267,7 +298,7 @@ export class PdfExtractor extends BaseExtractor {
     }
   }
 
-  protected createFailedResult(): TextExtractionResult {
+  protected createFailedResult(error?: unknown): TextExtractionResult {
     return {
       text: "",
       truncated: false,
@@ -276,6 +307,7 @@ export class PdfExtractor extends BaseExtractor {
       metadata: {
         extractionFailed: true,
         fallbackAvailable: true,
+        ...(error !== undefined && this.describeFailure(error)),
       },
     };
   }
@@ -0,0 +1,361 @@
+/**
+ * Reference Parser
+ *
+ * Turns bibliography entries into PaperReference records. LaTeXML and
+ * JATS mark the parts of an entry up; printed entries (PDF text, or
+ * markup that only wraps the whole entry) are split with heuristics for
+ * the common styles: "Authors. Title. Venue, year.", APA's
+ * "Authors (year). Title. Venue.", Vancouver's "Surname AB, ... Title."
+ * and IEEE's quoted titles.
+ */
+
+import * as cheerio from "cheerio";
+import { normalizeArxivId, normalizeDoi } from "../core/paper-metadata.js";
+import { PaperReference } from "../types/papers.js";
+
+// Element selections, from HTML or XML
+type Elements = ReturnType<ReturnType<cheerio.CheerioAPI["root"]>["children"]>;
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+const ARXIV_ID =
+  /(?:arxiv:\s*|arxiv\.org\/(?:abs|pdf)\/)(\d{4}\.\d{4,5}|[a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?/i;
+const YEAR = /\b((?:1[6-9]|20)\d{2})[a-z]?\b/g;
+const LABEL = /^\s*(?:\[([^\]]{1,20})\]|\((\d{1,4})\)|(\d{1,4})\.(?=\s))\s*/;
+const PHYSICS_CITATION =
+  /^(.+?),\s+((?:\p{Lu}\p{L}*\.?\s?)+)\s\d+[,:]\s*[\w-]+\s*\((?:19|20)\d{2}\)/u;
+const VANCOUVER_AUTHORS =
+  /^((?:[\p{Lu}][\p{L}'’-]+(?: [\p{Lu}][\p{L}'’-]+)* [\p{Lu}]{1,3}(?:, (?:and )?)?)+)(?:,? et al)?\.\s+/u;
+
+/**
+ * Parse one printed entry. A leading "[12]", "(12)" or "12." becomes the
+ * label.
+ */
+export function parseReference(raw: string, label?: string): PaperReference {
+  const printed = collapse(raw);
+  const labelMatch = label === undefined ? printed.match(LABEL) : null;
+  const entry = labelMatch ? printed.slice(labelMatch[0].length) : printed;
+  const parts = splitEntry(entry);
+
+  return compact({
+    raw: printed,
+    label:
+      label ??
+      (labelMatch
+        ? (labelMatch[1] ?? labelMatch[2] ?? labelMatch[3])
+        : undefined),
+    authors: parseAuthors(parts.authors),
+    // A "title" without words is a year or page range left over
+    title:
+      parts.title && /\p{L}{2}/u.test(parts.title) ? parts.title : undefined,
+    venue: parts.venue,
+    ...identifiersIn(entry),
+  });
+}
+
+/**
+ * Split the text of a references section (heading first) into entries:
+ * at "[n]" or "n." markers when the list is numbered, otherwise where a
+ * line ending a sentence is followed by one starting with a surname
+ */
+export function parseReferenceList(section: string): PaperReference[] {
+  const body = section.replace(/^[^\n]*\n?/, "").replace(/-\n(?=\p{Ll})/gu, "");
+  let entries: string[];
+
+  if (/^\s*\[\d+\]/.test(body)) {
+    entries = body.split(/\s(?=\[\d+\]\s)/);
+  } else if (/^\s*1\.\s/.test(body)) {
+    entries = [];
+    let next = 1;
+    let current = "";
+    for (const line of body.split("\n")) {
+      if (line.trim().startsWith(`${next}. `)) {
+        if (current) entries.push(current);
+        current = line;
+        next++;
+      } else {
+        current += `\n${line}`;
+      }
+    }
+    if (current) entries.push(current);
+  } else {
+    entries = [];
+    let current = "";
+    for (const line of body.split("\n")) {
+      const startsEntry =
+        /[.)]\s*$/.test(current) &&
+        /^[\p{Lu}][\p{L}'’-]+,?\s+\p{Lu}/u.test(line);
+      if (startsEntry) {
+        entries.push(current);
+        current = line;
+      } else {
+        current += current ? `\n${line}` : line;
+      }
+    }
+    if (current) entries.push(current);
+  }
+
+  return entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 10)
+    .map((entry) => parseReference(entry));
+}
+
+/**
+ * A LaTeXML bibitem: its tag is the label and its \newblock parts are
+ * authors (and year), title and venue
+ */
+export function readLatexmlReference(
+  $: cheerio.CheerioAPI,
+  item: Elements,
+): PaperReference {
+  const label = collapse(item.find(".ltx_tag_bibitem").first().text());
+  const blocks = item
+    .find(".ltx_bibblock")
+    .toArray()
+    .map((block) => collapse($(block).text()))
+    .filter(Boolean);
+  const links = item
+    .find("a[href]")
+    .toArray()
+    .map((link) => $(link).attr("href") ?? "")
+    .join(" ");
+  const raw = collapse([label, ...blocks].join(" ")) || collapse(item.text());
+  const bare = label.replace(/^\[|\]$/g, "") || undefined;
+
+  if (blocks.length < 2) {
+    return { ...parseReference(blocks[0] ?? raw, bare), raw };
+  }
+
+  return compact({
+    raw,
+    label: bare,
+    authors: parseAuthors(
+      blocks[0].replace(/\(?\b(19|20)\d{2}[a-z]?\)?\.?$/, ""),
+    ),
+    title: trimPunctuation(blocks[1]),
+    venue: venueOf(blocks.slice(2).join(" ")),
+    ...identifiersIn(`${blocks.join(" ")} ${links}`),
+  });
+}
+
+/**
+ * A JATS <ref> holding an <element-citation> or <mixed-citation>
+ */
+export function readJatsReference(ref: Elements): PaperReference {
+  const named = (node: Elements, name: string) =>
+    node.find("*").filter((_, element) => localName(element) === name);
+  const first = (name: string) => collapse(named(ref, name).first().text());
+
+  const authors = named(ref, "name")
+    .toArray()
+    .map((name) => {
+      const node = ref.find(name);
+      return collapse(
+        `${collapse(named(node, "given-names").text())} ${collapse(named(node, "surname").text())}`,
+      );
+    })
+    .concat(
+      named(ref, "collab")
+        .toArray()
+        .map((collab) => collapse(ref.find(collab).text())),
+    )
+    .filter(Boolean);
+
+  const mixed = named(ref, "mixed-citation").first();
+  const articleTitle = first("article-title") || first("chapter-title");
+  const source = first("source");
+  const title = articleTitle || source || undefined;
+  const venue = articleTitle ? source || undefined : undefined;
+  const year = Number(first("year").match(/\d{4}/)?.[0]) || undefined;
+  const pubIds = named(ref, "pub-id").toArray();
+  const pubId = (type: string) =>
+    pubIds
+      .filter((id) => id.attribs["pub-id-type"] === type)
+      .map((id) => collapse(ref.find(id).text()))[0];
+  const label = first("label") || undefined;
+
+  const raw = mixed.length
+    ? collapse(mixed.text())
+    : [authors.join(", "), title, venue, year].filter(Boolean).join(". ");
+  const found = identifiersIn(`${collapse(ref.text())} ${raw}`);
+  const doi = pubId("doi");
+  const arxiv = pubId("arxiv");
+
+  if (!title && authors.length === 0) {
+    return { ...parseReference(raw, label), raw };
+  }
+
+  return compact({
+    raw,
+    label,
+    authors,
+    title,
+    venue,
+    year: year ?? found.year,
+    doi: doi ? normalizeDoi(doi) : found.doi,
+    arxiv_id: arxiv ? normalizeArxivId(arxiv) : found.arxiv_id,
+  });
+}
+
+// Authors, title and venue of an entry without its label
+function splitEntry(entry: string): {
+  authors: string;
+  title?: string;
+  venue?: string;
+} {
+  // IEEE: A. Smith and B. Jones, "Title," Venue, 2020.
+  const quoted = entry.match(/^(.*?)[,.]?\s*[“"](.+?)[,.]?[”"][,.]?\s*(.*)$/);
+  if (quoted) {
+    return {
+      authors: quoted[1],
+      title: trimPunctuation(quoted[2]),
+      venue: venueOf(quoted[3]),
+    };
+  }
+
+  // Physics: A. Smith et al., Phys. Rev. Lett. 116, 061102 (2016).
+  const journal = entry.match(PHYSICS_CITATION);
+  if (journal) {
+    return { authors: journal[1], venue: trimPunctuation(journal[2]) };
+  }
+
+  // APA: Smith, J., & Jones, B. (2020). Title. Venue, 12, 1-10.
+  const apa = entry.match(/^(.+?)\s*\((?:19|20)\d{2}[a-z]?\)\.?\s*(.*)$/);
+  if (apa && !/\d/.test(apa[1])) {
+    const [title, ...rest] = sentences(apa[2]);
+    return {
+      authors: apa[1],
+      title: title && trimPunctuation(title),
+      venue: venueOf(rest.join(" ")),
+    };
+  }
+
+  // Vancouver: Smith J, Jones AB. Title. Venue. 2020;12:1-10.
+  const vancouver = entry.match(VANCOUVER_AUTHORS);
+  if (vancouver) {
+    const [title, ...rest] = sentences(entry.slice(vancouver[0].length));
+    return {
+      authors: vancouver[1],
+      title: title && trimPunctuation(title),
+      venue: venueOf(rest.join(" ")),
+    };
+  }
+
+  // Authors. Title. Venue, year.
+  const etAl = entry.match(/^(.+?\bet al)\.?,?\s+(.*)$/);
+  const [authors, ...rest] = etAl ? [etAl[1], etAl[2]] : sentences(entry);
+  const [title, ...venue] = etAl ? sentences(rest[0]) : rest;
+  return {
+    authors: authors ?? "",
+    title: title && trimPunctuation(title),
+    venue: venueOf(venue.join(" ")),
+  };
+}
+
+/**
+ * Split at sentence ends, but not after initials ("J. Smith") or
+ * inside abbreviations of one letter
+ */
+function sentences(text: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/\.\s+(?=[\p{Lu}\d"“])/gu)) {
+    const end = match.index ?? 0;
+    const word =
+      text
+        .slice(start, end)
+        .split(/[\s.-]/)
+        .pop() ?? "";
+    if (/^\p{Lu}$/u.test(word)) continue;
+    parts.push(text.slice(start, end));
+    start = end + match[0].length;
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * "Smith, J., Jones, B. and Doe, A." or "J. Smith, B. Jones and A. Doe"
+ * as "J. Smith", "B. Jones", "A. Doe"
+ */
+function parseAuthors(text: string): string[] {
+  const pieces = text
+    .replace(/\bet al\.?/, "")
+    .split(/\s*(?:,\s*(?:and\s+|&\s*)?|;\s*|\s+and\s+|\s+&\s+)\s*/)
+    .map((piece) => trimPunctuation(piece))
+    .filter(Boolean);
+
+  const authors: string[] = [];
+  for (const piece of pieces) {
+    const initials = /^(?:\p{Lu}\.?[\s-]?){1,3}$/u.test(piece);
+    const trailing = piece.match(/^(\p{Lu}.+) (\p{Lu}{1,3})$/u);
+    const previous = authors[authors.length - 1];
+    if (initials && previous && !/\s/.test(previous)) {
+      authors[authors.length - 1] = `${withDots(piece)} ${previous}`;
+    } else if (trailing) {
+      authors.push(`${withDots(trailing[2])} ${trailing[1]}`);
+    } else {
+      authors.push(piece);
+    }
+  }
+  return authors.filter((author) => author.length <= 100);
+}
+
+// Journal or proceedings name, without "In", volume, pages or year
+function venueOf(text: string): string | undefined {
+  const venue = trimPunctuation(
+    text
+      .replace(/^in:?\s+/i, "")
+      .replace(/(?:,|;|\s)\s*(?:vol\.|pp\.|pages|\(?\d).*$/i, ""),
+  );
+  return venue || undefined;
+}
+
+function identifiersIn(text: string): {
+  year?: number;
+  doi?: string;
+  arxiv_id?: string;
+} {
+  const doi = text.match(DOI)?.[1].replace(/[.,;)\]]+$/, "");
+  const arxiv = text.match(ARXIV_ID)?.[1];
+  const latest = new Date().getFullYear() + 1;
+  // Years are looked for outside the DOI, whose suffix often holds numbers
+  const year = [...text.replace(DOI, " ").matchAll(YEAR)]
+    .map((match) => Number(match[1]))
+    .find((candidate) => candidate <= latest);
+
+  return {
+    ...(year && { year }),
+    ...(doi && { doi: normalizeDoi(doi) }),
+    ...(arxiv && { arxiv_id: normalizeArxivId(arxiv) }),
+  };
+}
+
+// Drop empty optional fields
+function compact(reference: PaperReference): PaperReference {
+  return Object.fromEntries(
+    Object.entries(reference).filter(
+      ([key, value]) =>
+        key === "authors" || (value !== undefined && value !== ""),
+    ),
+  ) as PaperReference;
+}
+
+function withDots(initials: string): string {
+  return initials
+    .replace(/\s+/g, "")
+    .replace(/(\p{Lu})(?!\.)/gu, "$1.")
+    .replace(/\.(?=\p{Lu})/gu, ". ");
+}
+
+function trimPunctuation(text: string): string {
+  return text.trim().replace(/^[\s,.;:]+|[\s,.;:]+$/g, "");
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function localName(element: { tagName?: string }): string {
+  return (element.tagName ?? "").split(":").pop() ?? "";
+}
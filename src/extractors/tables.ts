@@ -0,0 +1,312 @@
+/**
+ * Tables
+ *
+ * Tables are read as rows of cell text, apart from the running text where
+ * they would come out as a run of numbers: LaTeXML `ltx_tabular` and HTML
+ * <table> elements, JATS <table-wrap>, and - best effort - the aligned
+ * columns that follow a "Table N" caption in PDF text. get_tables renders
+ * them as Markdown or CSV.
+ */
+
+import * as cheerio from "cheerio";
+import { PaperDocument, PaperTable } from "../types/papers.js";
+
+// Element selections, from HTML or XML
+type Elements = ReturnType<ReturnType<cheerio.CheerioAPI["root"]>["children"]>;
+
+const TABLE_LABEL = /^(table\s+[a-z]?\d+[a-z]?|table\s+[ivxlc]+)\b[.:]?\s*/i;
+const NUMERIC_CELL = /^(?:[-+−±]?[\d.,]+%?|[±–—-]|n\/?a)$/i;
+
+// Rows of a PDF table read before giving up on a caption
+const MAX_TEXT_TABLE_LINES = 80;
+
+// Widest colspan honoured; larger values are markup errors
+const MAX_SPAN = 50;
+
+/**
+ * Tables of an HTML page: LaTeXML tabulars with the caption of the table
+ * float around them, or plain <table> elements. Equation layouts, tables
+ * nested in other tables and single rows or columns, which lay out a
+ * page rather than data, are skipped.
+ */
+export function readHtmlTables(
+  $: cheerio.CheerioAPI,
+  root: Elements,
+): PaperTable[] {
+  return root
+    .find(".ltx_tabular, table")
+    .filter((_, element) => {
+      const table = $(element);
+      return (
+        !table.is(".ltx_equation, .ltx_equationgroup, .ltx_eqn_table") &&
+        table.parents(".ltx_tabular, table").length === 0
+      );
+    })
+    .toArray()
+    .map((element) => {
+      const table = $(element);
+      const { label, caption } = splitCaption(htmlCaption(table));
+      const rows = table
+        .find(".ltx_tr, tr")
+        .filter((_, row) => $(row).closest(".ltx_tabular, table").is(table))
+        .toArray()
+        .map((row) => $(row));
+
+      const header = rows.findIndex(
+        (row) =>
+          row.parents(".ltx_thead, thead").length === 0 &&
+          row.children(".ltx_td:not(.ltx_th), td").length > 0,
+      );
+      const cells = gridCells(
+        rows.map((row) =>
+          row
+            .children(".ltx_td, .ltx_th, td, th")
+            .toArray()
+            .map((cell) => ({
+              text: $(cell).text(),
+              columns: Number($(cell).attr("colspan")) || 1,
+              rows: Number($(cell).attr("rowspan")) || 1,
+            })),
+        ),
+      );
+
+      return makeTable(label, caption, cells, header < 0 ? 0 : header);
+    })
+    .filter(
+      (table): table is PaperTable =>
+        table !== undefined &&
+        table.rows.length > 1 &&
+        table.rows[0].length > 1,
+    );
+}
+
+/**
+ * The table of a JATS <table-wrap>, with the label and caption read from
+ * it; undefined when it holds only an image of the table
+ */
+export function readJatsTable(
+  wrap: Elements,
+  label: string,
+  caption: string,
+): PaperTable | undefined {
+  const named = (node: Elements, name: string) =>
+    node.find("*").filter((_, element) => localName(element) === name);
+  const table = named(wrap, "table").first();
+
+  const rows = named(table, "tr")
+    .toArray()
+    .map((row) => table.find(row));
+
+  const header = rows.findIndex((row) =>
+    row
+      .parents()
+      .toArray()
+      .every((parent) => localName(parent) !== "thead"),
+  );
+  const cells = gridCells(
+    rows.map((row) =>
+      row
+        .children()
+        .filter((_, cell) => ["td", "th"].includes(localName(cell)))
+        .toArray()
+        .map((cell) => ({
+          text: row.find(cell).text(),
+          columns: Number(cell.attribs.colspan) || 1,
+          rows: Number(cell.attribs.rowspan) || 1,
+        })),
+    ),
+  );
+
+  return makeTable(
+    label || undefined,
+    caption || undefined,
+    cells,
+    header < 0 ? 0 : header,
+  );
+}
+
+/**
+ * Best-effort tables of PDF text: after a line starting "Table N", the
+ * lines that split into the same number of columns - at runs of spaces or
+ * tabs, or into a row label followed by numbers. A line of words just
+ * before them becomes the header when it has as many words as columns.
+ */
+export function readTextTables(text: string): PaperTable[] {
+  const lines = text.split("\n");
+  const tables: PaperTable[] = [];
+  const seen = new Set<string>();
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const match = line.match(TABLE_LABEL);
+    if (!match) continue;
+
+    const label = collapse(match[1]).replace(/^table/i, "Table");
+    const caption = collapse(line.slice(match[0].length));
+    // A caption starts with a capital; "Table 2 shows" is running text
+    if (seen.has(label.toLowerCase()) || !/^\p{Lu}/u.test(caption)) continue;
+
+    let header: string | undefined;
+    const rows: string[][] = [];
+    const end = Math.min(lines.length, index + 1 + MAX_TEXT_TABLE_LINES);
+    for (let next = index + 1; next < end; next++) {
+      const candidate = lines[next].trim();
+      if (!candidate) {
+        if (rows.length > 0) break;
+        continue;
+      }
+
+      const cells = textRow(candidate);
+      if (rows.length === 0 && !/\d/.test(candidate)) {
+        header = candidate; // The last line of words before the rows
+      } else if (
+        cells &&
+        (rows.length === 0 || cells.length === rows[0].length)
+      ) {
+        rows.push(cells);
+      } else {
+        break;
+      }
+    }
+    if (rows.length < 2) continue;
+
+    const columns = rows[0].length;
+    const headerCells = header
+      ? [header.split(/\t|\s{2,}/), header.split(/\s+/)].find(
+          (cells) => cells.length === columns,
+        )
+      : undefined;
+    const table = makeTable(
+      label,
+      caption,
+      headerCells ? [headerCells, ...rows] : rows,
+      headerCells ? 1 : 0,
+    );
+    if (table) {
+      seen.add(label.toLowerCase());
+      tables.push(table);
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * The document of a text whose sections are unknown, carrying its tables
+ */
+export function tableDocument(tables: PaperTable[]): PaperDocument {
+  return { sections: [], appendix: [], tables };
+}
+
+/**
+ * A table as Markdown. The header rows are merged into one; tables
+ * without one use their first row.
+ */
+export function tableMarkdown(table: PaperTable): string {
+  const width = table.rows[0]?.length ?? 0;
+  const headerRows = table.rows.slice(0, Math.max(table.header_rows, 1));
+  const header = Array.from({ length: width }, (_, column) =>
+    collapse(headerRows.map((row) => row[column]).join(" ")),
+  );
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`;
+
+  return [
+    line(header),
+    line(header.map(() => "---")),
+    ...table.rows.slice(headerRows.length).map(line),
+  ].join("\n");
+}
+
+// A table as CSV (RFC 4180), header rows included
+export function tableCsv(table: PaperTable): string {
+  const field = (cell: string) =>
+    /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return table.rows.map((row) => row.map(field).join(",")).join("\n");
+}
+
+// Split "Table 2: Results on..." into its label and caption
+function splitCaption(text: string): { label?: string; caption?: string } {
+  const match = text.match(TABLE_LABEL);
+  const label = match ? collapse(match[1]) : undefined;
+  const caption = collapse(match ? text.slice(match[0].length) : text);
+  return { ...(label && { label }), ...(caption && { caption }) };
+}
+
+function htmlCaption(table: Elements): string {
+  const float = table.closest(".ltx_table, figure, .table-wrap");
+  const caption = table.children("caption").first();
+  if (caption.length) return collapse(caption.text());
+  return collapse(
+    float.find(".ltx_caption, figcaption, .caption").first().text(),
+  );
+}
+
+// Cells of a PDF text line, or undefined when it is not a table row
+function textRow(line: string): string[] | undefined {
+  const spaced = line.split(/\t|\s{2,}/).filter(Boolean);
+  if (spaced.length >= 2) return spaced;
+
+  const tokens = line.split(/\s+/);
+  let first = tokens.length;
+  while (first > 0 && NUMERIC_CELL.test(tokens[first - 1])) first--;
+  if (first === tokens.length) return undefined;
+  if (first === 0) return tokens.length >= 2 ? tokens : undefined;
+  return [tokens.slice(0, first).join(" "), ...tokens.slice(first)];
+}
+
+/**
+ * Rows of cells laid out on a grid: a cell spanning several columns or
+ * rows keeps its text in its first slot and leaves the others empty
+ */
+function gridCells(
+  rows: { text: string; columns: number; rows: number }[][],
+): string[][] {
+  const grid: string[][] = rows.map(() => []);
+  rows.forEach((cells, row) => {
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[row][column] !== undefined) column++;
+      const height = Math.min(cell.rows, rows.length - row);
+      const width = Math.min(cell.columns, MAX_SPAN);
+      for (let down = 0; down < height; down++) {
+        for (let across = 0; across < width; across++) {
+          grid[row + down][column + across] =
+            down === 0 && across === 0 ? collapse(cell.text) : "";
+        }
+      }
+      column += width;
+    }
+  });
+  return grid.map((cells) => Array.from(cells, (cell) => cell ?? ""));
+}
+
+// Rows padded to the same width; undefined for tables with no content
+function makeTable(
+  label: string | undefined,
+  caption: string | undefined,
+  rows: string[][],
+  headerRows: number,
+): PaperTable | undefined {
+  const kept = rows.filter((row) => row.some(Boolean));
+  const width = Math.max(0, ...kept.map((row) => row.length));
+  if (kept.length === 0 || width === 0) return undefined;
+
+  return {
+    ...(label && { label }),
+    ...(caption && { caption }),
+    header_rows: Math.min(headerRows, kept.length),
+    rows: kept.map((row) => [
+      ...row,
+      ...Array<string>(width - row.length).fill(""),
+    ]),
+  };
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function localName(element: { tagName?: string }): string {
+  return (element.tagName ?? "").split(":").pop() ?? "";
+}
@@ -2,11 +2,24 @@
  * DOI Resolver Module - Week 2 Implementation
  *
  * Provides a fallback chain: Unpaywall → Crossref → Semantic Scholar Academic Graph (S2AG)
- * Implements 24h LRU cache and rate limiting for external APIs
+ * Implements 24h LRU cache (backed by the persistent response cache);
+ * requests wait for the shared rate limiter
  */
 
-import axios from "axios";
+import { getHttpClient } from "../core/http-client.js";
+import { getConfig } from "../config/config.js";
+import {
+  CROSSREF_API_BASE,
+  SEMANTIC_SCHOLAR_API_BASE,
+} from "../config/constants.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import { getResponseCache } from "../core/cache.js";
+import { RateLimiter, ReleaseSlot } from "../core/rate-limiter.js";
+import {
+  fromHttpError,
+  InvalidQueryError,
+  RateLimitedError,
+} from "../core/errors.js";
 
 export interface DOIResolutionResult {
   doi: string;
@@ -131,16 +144,33 @@ class LRUCache<T> {
   }
 }
 
+type ResolverService = "unpaywall" | "crossref" | "s2ag";
+
+// Rate limiter buckets of the services; S2AG requests share the Semantic
+// Scholar source's limits, Crossref's those of the Crossref source
+const RATE_LIMIT_SOURCES: Record<ResolverService, string> = {
+  unpaywall: "unpaywall",
+  crossref: "crossref",
+  s2ag: "semanticscholar",
+};
+
+const SERVICE_NAMES: Record<ResolverService, string> = {
+  unpaywall: "Unpaywall",
+  crossref: "Crossref",
+  s2ag: "S2AG",
+};
+
 export class DOIResolver {
   private cache: LRUCache<DOIResolutionResult>;
-  private requestCounts: Map<string, { count: number; resetTime: number }>;
-  private readonly UNPAYWALL_RATE_LIMIT = 100000; // 100k requests per day
-  private readonly CROSSREF_RATE_LIMIT = 50; // 50 requests per second
-  private readonly S2AG_RATE_LIMIT = 100; // 100 requests per minute
-
-  constructor(cacheSize: number = 10000, cacheTtlHours: number = 24) {
+  private rateLimiter: RateLimiter;
+
+  constructor(
+    rateLimiter: RateLimiter,
+    cacheSize: number = 10000,
+    cacheTtlHours: number = 24,
+  ) {
+    this.rateLimiter = rateLimiter;
     this.cache = new LRUCache<DOIResolutionResult>(cacheSize, cacheTtlHours);
-    this.requestCounts = new Map();
   }
 
   /**
@@ -148,11 +178,24 @@ export class DOIResolver {
    */
   async resolveDOI(doi: string): Promise<DOIResolutionResult> {
     const normalizedDoi = this.normalizeDOI(doi);
+    if (!normalizedDoi.startsWith("10.")) {
+      throw new InvalidQueryError(
+        `Invalid DOI "${doi}": DOIs start with "10."`,
+      );
+    }
 
     logInfo("Starting DOI resolution", { doi: normalizedDoi });
 
-    // Check cache first
-    const cached = this.cache.get(normalizedDoi);
+    // Check the in-memory cache first, then the persistent one
+    let cached = this.cache.get(normalizedDoi);
+    if (!cached) {
+      cached =
+        (await getResponseCache().get<DOIResolutionResult>(
+          "doi",
+          normalizedDoi,
+        )) ?? null;
+      if (cached) this.cache.set(normalizedDoi, cached);
+    }
     if (cached) {
       logInfo("DOI resolution cache hit", {
         doi: normalizedDoi,
@@ -164,67 +207,81 @@ export class DOIResolver {
     let resolverPath = "";
 
     // Step 1: Try Unpaywall (best for open access detection)
-    try {
-      if (this.checkRateLimit("unpaywall")) {
-        resolverPath += "unpaywall";
+    let release = await this.acquire("unpaywall", normalizedDoi);
+    if (release) {
+      resolverPath += "unpaywall";
+      try {
         const unpaywallResult = await this.resolveWithUnpaywall(normalizedDoi);
         if (unpaywallResult.fullTextUrl || unpaywallResult.pdfUrl) {
           const result = { ...unpaywallResult, resolverPath, cached: false };
-          this.cache.set(normalizedDoi, result);
+          await this.remember(normalizedDoi, result);
           return result;
         }
-      } else {
-        logWarn("Unpaywall rate limit exceeded, skipping", {
+      } catch (error) {
+        const failure = fromHttpError(error, "Unpaywall API");
+        logWarn("Unpaywall resolution failed", {
           doi: normalizedDoi,
+          code: failure.code,
+          error: error instanceof Error ? error.message : error,
         });
+      } finally {
+        release();
       }
-    } catch (error) {
-      logWarn("Unpaywall resolution failed", {
-        doi: normalizedDoi,
-        error: error instanceof Error ? error.message : error,
-      });
     }
 
     // Step 2: Try Crossref (good for DOI metadata and links)
-    try {
-      if (this.checkRateLimit("crossref")) {
-        resolverPath += resolverPath ? ",crossref" : "crossref";
+    release = await this.acquire("crossref", normalizedDoi);
+    if (release) {
+      resolverPath += resolverPath ? ",crossref" : "crossref";
+      try {
         const crossrefResult = await this.resolveWithCrossref(normalizedDoi);
         if (crossrefResult.fullTextUrl || crossrefResult.landingPageUrl) {
           const result = { ...crossrefResult, resolverPath, cached: false };
-          this.cache.set(normalizedDoi, result);
+          await this.remember(normalizedDoi, result);
           return result;
         }
-      } else {
-        logWarn("Crossref rate limit exceeded, skipping", {
+      } catch (error) {
+        const failure = fromHttpError(error, "Crossref API");
+        logWarn("Crossref resolution failed", {
           doi: normalizedDoi,
+          code: failure.code,
+          error: error instanceof Error ? error.message : error,
         });
+      } finally {
+        release();
       }
-    } catch (error) {
-      logWarn("Crossref resolution failed", {
-        doi: normalizedDoi,
-        error: error instanceof Error ? error.message : error,
-      });
     }
 
     // Step 3: Try Semantic Scholar Academic Graph (S2AG)
-    try {
-      if (this.checkRateLimit("s2ag")) {
-        resolverPath += resolverPath ? ",s2ag" : "s2ag";
+    release = await this.acquire("s2ag", normalizedDoi);
+    if (release) {
+      resolverPath += resolverPath ? ",s2ag" : "s2ag";
+      try {
         const s2agResult = await this.resolveWithS2AG(normalizedDoi);
         if (s2agResult.fullTextUrl || s2agResult.pdfUrl) {
           const result = { ...s2agResult, resolverPath, cached: false };
-          this.cache.set(normalizedDoi, result);
+          await this.remember(normalizedDoi, result);
           return result;
         }
-      } else {
-        logWarn("S2AG rate limit exceeded, skipping", { doi: normalizedDoi });
+      } catch (error) {
+        const failure = fromHttpError(error, "Semantic Scholar API");
+        logWarn("S2AG resolution failed", {
+          doi: normalizedDoi,
+          code: failure.code,
+          error: error instanceof Error ? error.message : error,
+        });
+      } finally {
+        release();
       }
-    } catch (error) {
-      logWarn("S2AG resolution failed", {
-        doi: normalizedDoi,
-        error: error instanceof Error ? error.message : error,
-      });
+    }
+
+    // Every service was over its limit, so nothing was actually tried.
+    // Don't cache that as "no full text": it may resolve once limits reset.
+    if (!resolverPath) {
+      throw new RateLimitedError(
+        "DOI resolution rate limited by Unpaywall, Crossref and S2AG",
+        { retryAfter: this.getRetryAfter() },
+      );
     }
 
     // No resolution found
@@ -236,7 +293,7 @@ export class DOIResolver {
       cached: false,
     };
 
-    this.cache.set(normalizedDoi, noResult);
+    await this.remember(normalizedDoi, noResult);
     logInfo("DOI resolution failed across all sources", {
       doi: normalizedDoi,
       resolverPath,
@@ -245,20 +302,24 @@ export class DOIResolver {
     return noResult;
   }
 
+  private async remember(
+    doi: string,
+    result: DOIResolutionResult,
+  ): Promise<void> {
+    this.cache.set(doi, result);
+    await getResponseCache().set("doi", doi, result);
+  }
+
   /**
    * Resolve DOI using Unpaywall API
    */
   private async resolveWithUnpaywall(
     doi: string,
   ): Promise<DOIResolutionResult> {
-    const url = `https://api.unpaywall.org/v2/${doi}?email=contact@sciharvestermcp.org`;
+    const url = `https://api.unpaywall.org/v2/${doi}?email=${getHttpClient().contactEmail}`;
 
-    const response = await axios.get<UnpaywallResponse>(url, {
+    const response = await getHttpClient().get<UnpaywallResponse>(url, {
       timeout: 10000,
-      headers: {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); DOI-resolver",
-      },
     });
 
     const data = response.data;
@@ -282,8 +343,6 @@ export class DOIResolver {
       license = firstLocation.license;
     }
 
-    this.incrementRequestCount("unpaywall");
-
     return {
       doi,
       fullTextUrl,
@@ -300,14 +359,10 @@ export class DOIResolver {
    * Resolve DOI using Crossref API
    */
   private async resolveWithCrossref(doi: string): Promise<DOIResolutionResult> {
-    const url = `https://api.crossref.org/works/${doi}`;
+    const url = `${CROSSREF_API_BASE}/works/${doi}`;
 
-    const response = await axios.get<CrossrefResponse>(url, {
+    const response = await getHttpClient().get<CrossrefResponse>(url, {
       timeout: 10000,
-      headers: {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); DOI-resolver",
-      },
     });
 
     const work = response.data.message;
@@ -333,8 +388,6 @@ export class DOIResolver {
       license = work.license[0].URL;
     }
 
-    this.incrementRequestCount("crossref");
-
     return {
       doi,
       fullTextUrl,
@@ -351,17 +404,15 @@ export class DOIResolver {
    * Resolve DOI using Semantic Scholar Academic Graph (S2AG)
    */
   private async resolveWithS2AG(doi: string): Promise<DOIResolutionResult> {
-    const url = `https://api.semanticscholar.org/graph/v1/paper/DOI:${doi}`;
+    const url = `${SEMANTIC_SCHOLAR_API_BASE}/paper/DOI:${doi}`;
 
-    const response = await axios.get<S2AGResponse>(url, {
+    const apiKey = getConfig().apiKeys.semanticScholar;
+    const response = await getHttpClient().get<S2AGResponse>(url, {
       timeout: 10000,
       params: {
         fields: "paperId,externalIds,openAccessPdf,url,isOpenAccess",
       },
-      headers: {
-        "User-Agent":
-          "SciHarvester-MCP/0.1.27 (mailto:contact@sciharvestermcp.org); DOI-resolver",
-      },
+      ...(apiKey && { headers: { "x-api-key": apiKey } }),
     });
 
     const data = response.data;
@@ -370,8 +421,6 @@ export class DOIResolver {
     const fullTextUrl = pdfUrl || data.url;
     const isOpenAccess = data.isOpenAccess || Boolean(data.openAccessPdf);
 
-    this.incrementRequestCount("s2ag");
-
     return {
       doi,
       fullTextUrl,
@@ -396,49 +445,33 @@ export class DOIResolver {
   }
 
   /**
-   * Simple rate limiting check
+   * Wait for a request slot of a service in the fallback chain; null, so
+   * the service is skipped, when the wait would exceed maxWait
    */
-  private checkRateLimit(service: string): boolean {
-    const now = Date.now();
-    const counts = this.requestCounts.get(service);
-
-    if (!counts) {
-      this.requestCounts.set(service, { count: 0, resetTime: now + 60000 });
-      return true;
-    }
-
-    // Reset counter if time window has passed
-    if (now > counts.resetTime) {
-      this.requestCounts.set(service, { count: 0, resetTime: now + 60000 });
-      return true;
-    }
-
-    // Check service-specific limits
-    switch (service) {
-      case "unpaywall":
-        return counts.count < this.UNPAYWALL_RATE_LIMIT / (24 * 60); // Per minute approximation
-      case "crossref":
-        return counts.count < this.CROSSREF_RATE_LIMIT;
-      case "s2ag":
-        return counts.count < this.S2AG_RATE_LIMIT;
-      default:
-        return true;
+  private async acquire(
+    service: ResolverService,
+    doi: string,
+  ): Promise<ReleaseSlot | null> {
+    try {
+      return await this.rateLimiter.acquire(RATE_LIMIT_SOURCES[service]);
+    } catch {
+      logWarn(`${SERVICE_NAMES[service]} rate limit exceeded, skipping`, {
+        doi,
+      });
+      return null;
     }
   }
 
   /**
-   * Increment request count for rate limiting
+   * Seconds until the first service in the fallback chain has a request
+   * to spare
    */
-  private incrementRequestCount(service: string): void {
-    const counts = this.requestCounts.get(service);
-    if (counts) {
-      counts.count++;
-    } else {
-      this.requestCounts.set(service, {
-        count: 1,
-        resetTime: Date.now() + 60000,
-      });
-    }
+  private getRetryAfter(): number {
+    return Math.min(
+      ...Object.values(RATE_LIMIT_SOURCES).map((source) =>
+        this.rateLimiter.getRetryAfter(source),
+      ),
+    );
   }
 
   /**
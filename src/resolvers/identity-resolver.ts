@@ -0,0 +1,481 @@
+/**
+ * Paper Identity Resolver
+ *
+ * Collects every known identifier for a work (DOI, arXiv ID, PMID, PMCID,
+ * OpenAlex W-ID, CORE ID) by following cross-links between services:
+ * OpenAlex `ids`, Europe PMC pmid/pmcid/doi, arXiv `<arxiv:doi>` and the
+ * bioRxiv/medRxiv `published` DOI.
+ */
+
+import axios from "axios";
+import { logInfo, logWarn } from "../core/logger.js";
+import { RateLimiter, ReleaseSlot } from "../core/rate-limiter.js";
+import { getHttpClient } from "../core/http-client.js";
+import { getConfig } from "../config/config.js";
+import { InvalidQueryError } from "../core/errors.js";
+import { normalizeArxivId, normalizeDoi } from "../core/paper-metadata.js";
+import { ARXIV_API_BASE, OPENALEX_API_BASE } from "../config/constants.js";
+import {
+  IdentifierType,
+  IdentityLookup,
+  PaperIdentifiers,
+  PaperIdentity,
+} from "../types/papers.js";
+
+export interface OpenAlexIdsResponse {
+  id: string;
+  title?: string;
+  doi?: string;
+  ids?: {
+    openalex?: string;
+    doi?: string;
+    pmid?: string;
+    pmcid?: string;
+  };
+  locations?: Array<{ landing_page_url?: string }>;
+}
+
+interface EuropePMCLiteResponse {
+  resultList: {
+    result: Array<{
+      pmid?: string;
+      pmcid?: string;
+      doi?: string;
+      title?: string;
+    }>;
+  };
+}
+
+interface BioRxivDetailsResponse {
+  collection?: Array<{
+    doi: string;
+    title: string;
+    published?: string; // Journal DOI once peer reviewed, "NA" otherwise
+  }>;
+}
+
+interface CoreWorkResponse {
+  id: number;
+  title?: string;
+  doi?: string;
+  arxivId?: string;
+  pubmedId?: string;
+}
+
+type LookupService = "openalex" | "europepmc" | "arxiv" | "biorxiv" | "core";
+
+interface LookupOutcome {
+  identifiers: PaperIdentifiers;
+  title?: string;
+}
+
+// DataCite DOIs minted by arXiv for every preprint
+const ARXIV_DOI_PREFIX = "10.48550/arxiv.";
+
+// bioRxiv and medRxiv share Cold Spring Harbor's DOI prefix
+const BIORXIV_DOI_PREFIX = "10.1101/";
+
+const NEW_ARXIV_ID = /^\d{4}\.\d{4,5}(v\d+)?$/;
+const OLD_ARXIV_ID = /^[a-z-]+(\.[a-z]{2})?\/\d{7}(v\d+)?$/i;
+
+/**
+ * Detect the type of a raw identifier and normalise it.
+ * Bare numbers are read as PMIDs unless a "core:" prefix is given.
+ */
+export function parseIdentifier(raw: string): {
+  type: IdentifierType;
+  value: string;
+} {
+  const trimmed = raw.trim();
+  const prefixed = trimmed.match(/^(doi|arxiv|pmid|pmcid|openalex|core):\s*(.+)$/i);
+  const explicit = prefixed?.[1].toLowerCase() as IdentifierType | undefined;
+  const value = prefixed ? prefixed[2].trim() : trimmed;
+
+  if (explicit === "doi" || /^(https?:\/\/)?(dx\.)?doi\.org\//i.test(value) || /^10\.\d{4,9}\/\S+$/.test(value)) {
+    const doi = normalizeDoi(value);
+    if (doi.startsWith(ARXIV_DOI_PREFIX)) {
+      return { type: "arxiv", value: normalizeArxivId(doi.slice(ARXIV_DOI_PREFIX.length)) };
+    }
+    return { type: "doi", value: doi };
+  }
+
+  const arxivUrl = value.match(/arxiv\.org\/(?:abs|pdf|html)\/(.+?)(?:\.pdf)?\/?$/i);
+  if (explicit === "arxiv" || arxivUrl || NEW_ARXIV_ID.test(value) || OLD_ARXIV_ID.test(value)) {
+    return { type: "arxiv", value: normalizeArxivId(arxivUrl ? arxivUrl[1] : value) };
+  }
+
+  if (explicit === "pmcid" || /^PMC\d+$/i.test(value)) {
+    return { type: "pmcid", value: normalizePmcid(value) };
+  }
+
+  const openAlexUrl = value.match(/openalex\.org\/(W\d+)$/i);
+  if (explicit === "openalex" || openAlexUrl || /^W\d+$/i.test(value)) {
+    return { type: "openalex", value: (openAlexUrl ? openAlexUrl[1] : value).toUpperCase() };
+  }
+
+  if (explicit === "core" && /^\d+$/.test(value)) {
+    return { type: "core", value };
+  }
+
+  const pubmedUrl = value.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/i);
+  if (explicit === "pmid" || pubmedUrl || /^\d{1,9}$/.test(value)) {
+    return { type: "pmid", value: pubmedUrl ? pubmedUrl[1] : value };
+  }
+
+  throw new InvalidQueryError(
+    `Unrecognised identifier "${raw}". Expected a DOI, arXiv ID, PMID, PMCID, ` +
+      `OpenAlex W-ID, or a prefixed ID such as "core:12345678"`,
+  );
+}
+
+function normalizePmcid(id: string): string {
+  const digits = id.replace(/^.*?(PMC)?(\d+)\/?$/i, "$2");
+  return `PMC${digits}`;
+}
+
+/**
+ * Identifiers of an OpenAlex work: its W-ID and `ids`, with arXiv DOIs
+ * and arxiv.org locations read as arXiv IDs
+ */
+export function openAlexIdentifiers(work: OpenAlexIdsResponse): PaperIdentifiers {
+  const ids = work.ids || {};
+  const identifiers: PaperIdentifiers = {
+    openalex: work.id.replace(/^.*\//, ""),
+  };
+
+  const doi = ids.doi || work.doi;
+  if (doi) {
+    const normalized = normalizeDoi(doi);
+    if (normalized.startsWith(ARXIV_DOI_PREFIX)) {
+      identifiers.arxiv = normalizeArxivId(normalized.slice(ARXIV_DOI_PREFIX.length));
+    } else {
+      identifiers.doi = normalized;
+    }
+  }
+  if (ids.pmid) identifiers.pmid = ids.pmid.replace(/^.*\/(\d+)\/?$/, "$1");
+  if (ids.pmcid) identifiers.pmcid = normalizePmcid(ids.pmcid);
+
+  const arxivLocation = work.locations
+    ?.map((location) => location.landing_page_url?.match(/arxiv\.org\/abs\/([^\s?#]+)/i))
+    .find((match) => match);
+  if (arxivLocation) {
+    identifiers.arxiv = normalizeArxivId(arxivLocation[1]);
+  }
+
+  return identifiers;
+}
+
+export class IdentityResolver {
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter) {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Resolve an identifier of any supported type to every identifier we can
+   * find for the same work. Lookups that fail or are rate limited are
+   * reported rather than thrown, so partial identities are still returned.
+   */
+  async resolve(rawId: string): Promise<PaperIdentity> {
+    const { type, value } = parseIdentifier(rawId);
+    const identity: PaperIdentity = {
+      input: rawId,
+      inputType: type,
+      identifiers: { [type]: value },
+      lookups: [],
+    };
+
+    if (type === "doi" && value.startsWith(BIORXIV_DOI_PREFIX)) {
+      identity.identifiers.preprint_doi = value;
+    }
+
+    logInfo("Resolving paper identity", { id: rawId, type, value });
+
+    // Each service is asked once; new identifiers from one lookup can make
+    // another service applicable, so keep going until nothing changes
+    const attempted = new Set<LookupService>();
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const service of this.applicableServices(identity.identifiers)) {
+        if (attempted.has(service)) continue;
+        attempted.add(service);
+        progress = true;
+        await this.runLookup(service, identity);
+      }
+    }
+
+    logInfo("Paper identity resolved", {
+      id: rawId,
+      identifiers: identity.identifiers,
+      lookups: identity.lookups.length,
+    });
+
+    return identity;
+  }
+
+  /**
+   * Services that can be queried with the identifiers collected so far
+   */
+  private applicableServices(ids: PaperIdentifiers): LookupService[] {
+    const services: LookupService[] = [];
+    if (ids.openalex || ids.doi || ids.pmid || ids.pmcid || ids.arxiv) {
+      services.push("openalex");
+    }
+    if ((ids.pmid || ids.pmcid || ids.doi) && !(ids.pmid && ids.pmcid && ids.doi)) {
+      services.push("europepmc");
+    }
+    if (ids.arxiv) services.push("arxiv");
+    if (ids.preprint_doi || ids.doi?.startsWith(BIORXIV_DOI_PREFIX)) {
+      services.push("biorxiv");
+    }
+    if (ids.core) services.push("core");
+    return services;
+  }
+
+  private async runLookup(
+    service: LookupService,
+    identity: PaperIdentity,
+  ): Promise<void> {
+    const query = this.lookupQuery(service, identity.identifiers);
+
+    let release: ReleaseSlot;
+    try {
+      release = await this.rateLimiter.acquire(service);
+    } catch {
+      logWarn("Rate limited during identity lookup", { service, query });
+      identity.lookups.push({ service, query, status: "rate_limited" });
+      return;
+    }
+
+    try {
+      const outcome = await this.lookup(service, query);
+      if (!outcome) {
+        identity.lookups.push({ service, query, status: "not_found" });
+        return;
+      }
+
+      this.mergeIdentifiers(identity.identifiers, outcome.identifiers);
+      identity.title = identity.title || outcome.title;
+      identity.lookups.push({ service, query, status: "found" });
+    } catch (error) {
+      const notFound = axios.isAxiosError(error) && error.response?.status === 404;
+      if (!notFound) {
+        logWarn("Identity lookup failed", {
+          service,
+          query,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+      identity.lookups.push({
+        service,
+        query,
+        status: notFound ? "not_found" : "failed",
+        ...(!notFound && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Pick the identifier a service is best keyed on
+   */
+  private lookupQuery(service: LookupService, ids: PaperIdentifiers): string {
+    switch (service) {
+      case "openalex":
+        if (ids.openalex) return ids.openalex;
+        if (ids.doi) return `doi:${ids.doi}`;
+        if (ids.pmid) return `pmid:${ids.pmid}`;
+        if (ids.pmcid) return `pmcid:${ids.pmcid}`;
+        return `doi:${ARXIV_DOI_PREFIX}${ids.arxiv}`;
+      case "europepmc":
+        if (ids.pmcid) return `PMCID:${ids.pmcid}`;
+        if (ids.pmid) return `EXT_ID:${ids.pmid} AND SRC:MED`;
+        return `DOI:"${ids.doi}"`;
+      case "arxiv":
+        return ids.arxiv!;
+      case "biorxiv":
+        return ids.preprint_doi || ids.doi!;
+      case "core":
+        return ids.core!;
+    }
+  }
+
+  private lookup(
+    service: LookupService,
+    query: string,
+  ): Promise<LookupOutcome | null> {
+    switch (service) {
+      case "openalex":
+        return this.lookupOpenAlex(query);
+      case "europepmc":
+        return this.lookupEuropePMC(query);
+      case "arxiv":
+        return this.lookupArxiv(query);
+      case "biorxiv":
+        return this.lookupBioRxiv(query);
+      case "core":
+        return this.lookupCore(query);
+    }
+  }
+
+  /**
+   * OpenAlex work `ids`, plus an arXiv ID from any arxiv.org location
+   */
+  private async lookupOpenAlex(query: string): Promise<LookupOutcome | null> {
+    const response = await getHttpClient().get<OpenAlexIdsResponse>(
+      `${OPENALEX_API_BASE}/works/${query}`,
+      {
+        params: {
+          select: "id,title,doi,ids,locations",
+          mailto: getHttpClient().contactEmail,
+        },
+        timeout: 10000,
+        headers: { Accept: "application/json" },
+      },
+    );
+
+    const work = response.data;
+    if (!work?.id) return null;
+
+    return { identifiers: openAlexIdentifiers(work), title: work.title };
+  }
+
+  /**
+   * Europe PMC search, which cross-links PubMed, PMC and DOIs
+   */
+  private async lookupEuropePMC(query: string): Promise<LookupOutcome | null> {
+    const response = await getHttpClient().get<EuropePMCLiteResponse>(
+      "https://www.ebi.ac.uk/europepmc/webservices/rest/search",
+      {
+        params: { query, format: "json", resultType: "lite", pageSize: 1 },
+        timeout: 10000,
+      },
+    );
+
+    const result = response.data?.resultList?.result?.[0];
+    if (!result) return null;
+
+    return {
+      identifiers: {
+        ...(result.pmid && { pmid: result.pmid }),
+        ...(result.pmcid && { pmcid: normalizePmcid(result.pmcid) }),
+        ...(result.doi && { doi: normalizeDoi(result.doi) }),
+      },
+      title: result.title,
+    };
+  }
+
+  /**
+   * arXiv Atom entry; `<arxiv:doi>` holds the journal DOI when the author
+   * has added one
+   */
+  private async lookupArxiv(arxivId: string): Promise<LookupOutcome | null> {
+    const response = await getHttpClient().get<string>(ARXIV_API_BASE, {
+      params: { id_list: arxivId, max_results: 1 },
+    });
+
+    const entry = String(response.data).match(/<entry>(.*?)<\/entry>/s)?.[1];
+    if (!entry || !/<id>/.test(entry)) return null;
+
+    const doi = entry.match(/<arxiv:doi[^>]*>(.*?)<\/arxiv:doi>/s)?.[1];
+    const title = entry.match(/<title>(.*?)<\/title>/s)?.[1];
+
+    return {
+      identifiers: {
+        arxiv: arxivId,
+        ...(doi && { doi: normalizeDoi(doi) }),
+      },
+      title: title?.replace(/\s+/g, " ").trim(),
+    };
+  }
+
+  /**
+   * bioRxiv, then medRxiv; `published` links a preprint to its journal DOI
+   */
+  private async lookupBioRxiv(doi: string): Promise<LookupOutcome | null> {
+    for (const server of ["biorxiv", "medrxiv"]) {
+      const response = await getHttpClient().get<BioRxivDetailsResponse>(
+        `https://api.biorxiv.org/details/${server}/${doi}`,
+        { timeout: 15000 },
+      );
+
+      const collection = response.data?.collection;
+      if (!collection || collection.length === 0) continue;
+
+      // The collection lists every version; the latest one carries the link
+      const latest = collection[collection.length - 1];
+      const published =
+        latest.published && latest.published !== "NA"
+          ? normalizeDoi(latest.published)
+          : undefined;
+
+      return {
+        identifiers: {
+          preprint_doi: normalizeDoi(latest.doi),
+          ...(published && { doi: published }),
+        },
+        title: latest.title,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * CORE work record, which carries DOI, arXiv and PubMed cross-links
+   */
+  private async lookupCore(coreId: string): Promise<LookupOutcome | null> {
+    const headers: Record<string, string> = {};
+    const apiKey = getConfig().apiKeys.core;
+    if (apiKey) {
+      headers["Authorization"] = `Bearer ${apiKey}`;
+    }
+
+    const response = await getHttpClient().get<CoreWorkResponse>(
+      `https://api.core.ac.uk/v3/works/${coreId}`,
+      { headers },
+    );
+
+    const work = response.data;
+    if (!work?.id) return null;
+
+    return {
+      identifiers: {
+        core: String(work.id),
+        ...(work.doi && { doi: normalizeDoi(work.doi) }),
+        ...(work.arxivId && { arxiv: normalizeArxivId(work.arxivId) }),
+        ...(work.pubmedId && { pmid: work.pubmedId }),
+      },
+      title: work.title,
+    };
+  }
+
+  /**
+   * Fill in identifiers we don't have yet. A journal DOI reported for a
+   * preprint replaces the preprint DOI, which moves to `preprint_doi`.
+   */
+  private mergeIdentifiers(
+    target: PaperIdentifiers,
+    found: PaperIdentifiers,
+  ): void {
+    if (
+      found.doi &&
+      target.doi?.startsWith(BIORXIV_DOI_PREFIX) &&
+      !found.doi.startsWith(BIORXIV_DOI_PREFIX)
+    ) {
+      target.preprint_doi = target.preprint_doi || target.doi;
+      target.doi = found.doi;
+    }
+
+    for (const key of Object.keys(found) as Array<keyof PaperIdentifiers>) {
+      if (!target[key] && found[key]) {
+        target[key] = found[key];
+      }
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Reference Resolver
+ *
+ * Finds the entries of a paper's reference list in OpenAlex, so they can
+ * be followed with fetch_content or get_references. Entries citing a DOI
+ * or arXiv ID are looked up together in filter queries of up to 50 DOIs;
+ * the rest are searched by title, one request each, for as long as the
+ * OpenAlex rate limit allows. Lookups are kept in the response cache.
+ */
+
+import { logInfo, logWarn } from "../core/logger.js";
+import { RateLimiter, ReleaseSlot } from "../core/rate-limiter.js";
+import { getHttpClient } from "../core/http-client.js";
+import { getResponseCache } from "../core/cache.js";
+import { OPENALEX_API_BASE } from "../config/constants.js";
+import { PaperIdentifiers, PaperReference } from "../types/papers.js";
+import {
+  OpenAlexIdsResponse,
+  openAlexIdentifiers,
+} from "./identity-resolver.js";
+
+const SELECT = "id,title,doi,ids,locations";
+const DOI_BATCH_SIZE = 50;
+
+interface OpenAlexWorksResponse {
+  results: OpenAlexIdsResponse[];
+}
+
+export class ReferenceResolver {
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter) {
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * The entries with `identifiers` added to those found in OpenAlex.
+   * Failed or rate-limited lookups leave entries as they were.
+   */
+  async resolve(references: PaperReference[]): Promise<PaperReference[]> {
+    const found = new Map<PaperReference, PaperIdentifiers>();
+
+    const byDoi = new Map<string, PaperReference[]>();
+    for (const reference of references) {
+      const doi = this.lookupDoi(reference);
+      if (doi) byDoi.set(doi, [...(byDoi.get(doi) ?? []), reference]);
+    }
+    const works = await this.lookupDois([...byDoi.keys()]);
+    for (const [doi, identifiers] of works) {
+      for (const reference of byDoi.get(doi) ?? []) {
+        found.set(reference, identifiers);
+      }
+    }
+
+    for (const reference of references) {
+      if (found.has(reference) || this.lookupDoi(reference)) continue;
+      if (!reference.title || reference.title.length < 12) continue;
+
+      const identifiers = await this.lookupTitle(
+        reference.title,
+        reference.year,
+      );
+      if (identifiers === false) break; // Rate limited
+      if (identifiers) found.set(reference, identifiers);
+    }
+
+    logInfo("Resolved reference list", {
+      references: references.length,
+      resolved: found.size,
+    });
+
+    return references.map((reference) => {
+      const identifiers = found.get(reference);
+      return identifiers ? { ...reference, identifiers } : reference;
+    });
+  }
+
+  // DOI OpenAlex knows an entry by; arXiv eprints have DataCite DOIs
+  private lookupDoi(reference: PaperReference): string | undefined {
+    if (reference.doi && !/[,|]/.test(reference.doi)) return reference.doi;
+    if (reference.arxiv_id) return `10.48550/arxiv.${reference.arxiv_id}`;
+    return undefined;
+  }
+
+  /**
+   * Identifiers of the works with these DOIs, from the cache or from
+   * OpenAlex filter queries
+   */
+  private async lookupDois(
+    dois: string[],
+  ): Promise<Map<string, PaperIdentifiers>> {
+    const cache = getResponseCache();
+    const found = new Map<string, PaperIdentifiers>();
+    const missing: string[] = [];
+
+    for (const doi of dois) {
+      const cached = await cache.get<PaperIdentifiers | null>(
+        "openalex",
+        `reference-doi:${doi}`,
+      );
+      if (cached === undefined) missing.push(doi);
+      else if (cached) found.set(doi, cached);
+    }
+
+    for (let start = 0; start < missing.length; start += DOI_BATCH_SIZE) {
+      const batch = missing.slice(start, start + DOI_BATCH_SIZE);
+      const release = await this.acquire();
+      if (!release) {
+        logWarn("Rate limited while resolving references by DOI", {
+          unresolved: missing.length - start,
+        });
+        break;
+      }
+
+      try {
+        const works = await this.searchWorks({
+          filter: `doi:${batch.join("|")}`,
+          per_page: DOI_BATCH_SIZE,
+        });
+        const byDoi = new Map(
+          works.map((work) => [
+            (work.doi ?? "")
+              .replace(/^https?:\/\/doi\.org\//i, "")
+              .toLowerCase(),
+            openAlexIdentifiers(work),
+          ]),
+        );
+
+        for (const doi of batch) {
+          const identifiers = byDoi.get(doi) ?? null;
+          if (identifiers) found.set(doi, identifiers);
+          await cache.set("openalex", `reference-doi:${doi}`, identifiers);
+        }
+      } catch (error) {
+        logWarn("Reference lookup by DOI failed", {
+          dois: batch.length,
+          error: error instanceof Error ? error.message : error,
+        });
+      } finally {
+        release();
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Identifiers of the work with this title (and year, when known);
+   * undefined when there is none or the lookup failed, false when rate
+   * limited
+   */
+  private async lookupTitle(
+    title: string,
+    year?: number,
+  ): Promise<PaperIdentifiers | undefined | false> {
+    const cache = getResponseCache();
+    const key = `reference-title:${normalizeTitle(title)}:${year ?? ""}`;
+    const cached = await cache.get<PaperIdentifiers | null>("openalex", key);
+    if (cached !== undefined) return cached ?? undefined;
+
+    const release = await this.acquire();
+    if (!release) {
+      logWarn("Rate limited while resolving references by title", { title });
+      return false;
+    }
+
+    try {
+      const works = await this.searchWorks({
+        search: title.replace(/[,:|]/g, " "),
+        ...(year && { filter: `publication_year:${year - 1}-${year + 1}` }),
+        per_page: 3,
+      });
+      const match = works.find((work) => sameTitle(work.title ?? "", title));
+      const identifiers = match ? openAlexIdentifiers(match) : null;
+      await cache.set("openalex", key, identifiers);
+      return identifiers ?? undefined;
+    } catch (error) {
+      logWarn("Reference lookup by title failed", {
+        title,
+        error: error instanceof Error ? error.message : error,
+      });
+      return undefined;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * An OpenAlex request slot if a token is free now, else null: lookups
+   * beyond the rate limit are left for a later call rather than queued
+   */
+  private async acquire(): Promise<ReleaseSlot | null> {
+    try {
+      return await this.rateLimiter.acquire("openalex", { maxWait: 0 });
+    } catch {
+      return null;
+    }
+  }
+
+  private async searchWorks(
+    params: Record<string, string | number>,
+  ): Promise<OpenAlexIdsResponse[]> {
+    const response = await getHttpClient().get<OpenAlexWorksResponse>(
+      `${OPENALEX_API_BASE}/works`,
+      {
+        params: {
+          ...params,
+          select: SELECT,
+          mailto: getHttpClient().contactEmail,
+        },
+        timeout: 10000,
+        headers: { Accept: "application/json" },
+      },
+    );
+    return response.data?.results ?? [];
+  }
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/<[^>]+>/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Equal once normalized, or one a prefix of the other (subtitles)
+function sameTitle(candidate: string, title: string): boolean {
+  const a = normalizeTitle(candidate);
+  const b = normalizeTitle(title);
+  if (!a || !b) return false;
+  return (
+    a === b ||
+    (Math.min(a.length, b.length) >= 20 && (a.startsWith(b) || b.startsWith(a)))
+  );
+}
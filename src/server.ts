@@ -7,10 +7,23 @@ import { listCategories } from "./tools/list-categories.js";
 import { fetchLatest } from "./tools/fetch-latest.js";
 import { fetchTopCited } from "./tools/fetch-top-cited.js";
 import { fetchContent } from "./tools/fetch-content.js";
+import { getReferences } from "./tools/get-references.js";
+import { getTables } from "./tools/get-tables.js";
+import { resolveIdentifiers } from "./tools/resolve-identifiers.js";
 import { searchPapers } from "./tools/search-papers.js";
+import { searchAll } from "./tools/search-all.js";
 import { fetchPdfContent } from "./tools/fetch-pdf-content.js";
+import { cacheStats } from "./tools/cache-stats.js";
+import { cacheClear, cacheClearSchema } from "./tools/cache-clear.js";
+import { rateLimitStatus, rateLimitStatusSchema } from "./tools/rate-limit-status.js";
 import { RateLimiter } from "./core/rate-limiter.js";
 import { logInfo, logError, logWarn } from "./core/logger.js";
+import { toMCPError } from "./core/errors.js";
+import type { SourceCapability } from "./core/source-registry.js";
+import type { IndexFreshness } from "./types/papers.js";
+import type { FetchContentResult } from "./tools/fetch-content.js";
+import { sourceRegistry, loadSourcePlugins, registerOaiPmhSources, applySourceSelection } from "./drivers/index.js";
+import { getConfig } from "./config/config.js";
 
 // Detect if we should run in CLI mode or MCP server mode
 // CLI mode: when command line arguments are provided
@@ -32,6 +45,31 @@ if (shouldRunCLI) {
 }
 
 async function startMCPServer() {
+  // Invalid settings should stop the server now, not fail its first request
+  try {
+    getConfig();
+  } catch (error) {
+    logError('Invalid configuration', {
+      error: error instanceof Error ? error.message : error,
+    });
+    process.exit(1);
+  }
+
+  // Third-party drivers and OAI-PMH repositories must be registered before
+  // tool schemas are built
+  try {
+    registerOaiPmhSources();
+    await loadSourcePlugins();
+    applySourceSelection();
+  } catch (error) {
+    logError('Failed to load source plugins', {
+      error: error instanceof Error ? error.message : error,
+    });
+    process.exit(1);
+  }
+
+  const sourceNames = sourceRegistry.list().map((definition) => definition.name);
+
   // Create a single rate limiter instance for the whole application
   let globalRateLimiter: RateLimiter | null = null;
 
@@ -42,32 +80,84 @@ async function startMCPServer() {
     return globalRateLimiter;
   }
 
+  // Trailing content block that tells the agent how to get the next page
+  function nextCursorContent(nextCursor?: string) {
+    return nextCursor
+      ? [{ type: "text" as const, text: `More results available. next_cursor: ${nextCursor}` }]
+      : [];
+  }
+
+  // Coverage of a source searched through a locally built index
+  function indexContent(index?: IndexFreshness) {
+    if (!index) return [];
+    const pending = index.pending_days > 0
+      ? ` ${index.pending_days} days are still being harvested; repeat the search later for fuller coverage.`
+      : '';
+    return [{
+      type: "text" as const,
+      text: `Searched a local index of ${index.papers} papers posted ${index.from} to ${index.to}, last updated ${index.harvested_at ?? 'never'}.${pending}`
+    }];
+  }
+
+  // Outline of a paper fetched by sections, and what could not be matched
+  function sectionContent(result: FetchContentResult, requested: boolean) {
+    if (!requested) return [];
+    const missing = result.missing_sections?.length
+      ? ` No section matched: ${result.missing_sections.join(', ')}.`
+      : '';
+    const outline = result.toc
+      ? `Table of contents:\n${JSON.stringify(result.toc, null, 2)}`
+      : `No section structure was found in this paper${result.content.text ? '; the text is returned whole' : ''}.`;
+    return [{ type: "text" as const, text: `${outline}${missing}` }];
+  }
+
+  // Failed tool result: the message plus a structured MCPError for agents.
+  // Other sources with the same capability are offered as fallbacks.
+  function toolError(error: unknown, capability?: SourceCapability, source?: string) {
+    const alternatives = capability
+      ? sourceRegistry.ids(capability).filter((id) => id !== source)
+      : [];
+    const mcpError = toMCPError(error, alternatives);
+    return {
+      isError: true,
+      content: [
+        { type: "text" as const, text: `Error: ${mcpError.message}` },
+        { type: "text" as const, text: JSON.stringify({ error: mcpError }, null, 2) }
+      ]
+    };
+  }
+
   const server = new McpServer({
     name: "SciHarvester",
     version: "0.1.38",
     description: `
       🔬 SciHarvester: Advanced Scientific Literature Access System
       
-      A comprehensive MCP server providing LLMs with real-time access to 6 major academic databases:
-      arXiv, OpenAlex, PMC, Europe PMC, bioRxiv/medRxiv, and CORE.
+      A comprehensive MCP server providing LLMs with real-time access to ${sourceNames.length} academic databases:
+      ${sourceNames.join(", ")}.
       
       📊 CAPABILITIES:
       • Browse categories and research fields across all sources
       • Fetch latest papers with full metadata and text content  
       • Find highly cited influential papers by research concept
       • Retrieve complete paper content including full text when available
+      • Parse reference lists and resolve the cited papers to identifiers
+      • Extract results tables as Markdown or CSV
       
       🎯 OPTIMAL USAGE PATTERNS:
       1. Start with list_categories to explore available fields
       2. Use fetch_latest for current research in specific areas
       3. Use fetch_top_cited to find influential papers in a field
       4. Use fetch_content to get full text and detailed analysis
+      5. Use get_references to follow a paper's reference list backward
+      6. Use get_tables to read a paper's results tables as data
       
       ⚡ PERFORMANCE NOTES:
-      • Rate limited to protect source APIs
+      • Rate limited to protect source APIs; requests queue briefly, see rate_limit_status
       • arXiv and OpenAlex are fastest for large queries
       • PMC sources provide highest quality full-text content
       • Start with small counts (5-10) and increase as needed
+      • Responses and extracted text are cached on disk; see cache_stats and cache_clear
       
       🔍 RESEARCH WORKFLOW:
       Literature Review → Category Exploration → Latest Papers → Influential Papers → Full Content
@@ -77,24 +167,28 @@ async function startMCPServer() {
   // Add list_categories tool
   server.tool("list_categories", 
     {
-      source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]).describe(`
+      source: sourceRegistry.sourceEnum("categories").describe(`
         Data source to fetch categories from:
-        • 'arxiv' - arXiv.org preprint categories (physics, computer science, mathematics, etc.)
-        • 'openalex' - OpenAlex research concepts (AI, machine learning, quantum computing, etc.) 
-        • 'pmc' - PubMed Central biomedical categories (medicine, biology, neuroscience, etc.)
-        • 'europepmc' - Europe PMC life sciences categories (similar to PMC but European focus)
-        • 'biorxiv' - bioRxiv/medRxiv preprint categories (biology, medicine preprints)
-        • 'core' - CORE academic paper repository categories (multidisciplinary)
+${sourceRegistry.describeSources("categories", "        ")}
         
         USAGE TIP: Always call this first to understand available categories before using fetch_latest.
+        arXiv lists its archives (cs, math, cond-mat, ...) at the top level; pass one as parent to see its categories.
+      `),
+      parent: z.string().min(1).optional().describe(`
+        List only the direct children of this category, e.g. parent='cs' for arXiv's computer science categories.
+        Omit for the top level.
+      `),
+      query: z.string().min(1).optional().describe(`
+        Case-insensitive text matched against category codes, names, descriptions and aliases at every level,
+        e.g. query='learning' or query='math.MP'. Combines with parent.
       `)
     },
-    async ({ source }) => {
+    async ({ source, parent, query }) => {
       try {
-        logInfo('MCP tool called', { tool: 'list_categories', source });
+        logInfo('MCP tool called', { tool: 'list_categories', source, parent, query });
         
         // Call the tool function
-        const result = await listCategories({ source });
+        const result = await listCategories({ source, parent, query });
         
         return {
           content: [
@@ -114,15 +208,7 @@ async function startMCPServer() {
           source 
         });
         
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolError(error, "categories", source);
       }
     }
   );
@@ -130,14 +216,9 @@ async function startMCPServer() {
   // Add fetch_latest tool
   server.tool("fetch_latest",
     {
-      source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]).describe(`
+      source: sourceRegistry.sourceEnum("latest").describe(`
         Data source to fetch latest papers from:
-        • 'arxiv' - arXiv.org preprints (physics, CS, math, etc.) - Very fast, comprehensive
-        • 'openalex' - OpenAlex academic papers (all fields) - Massive database, good metadata
-        • 'pmc' - PubMed Central (biomedical) - Full-text open access, high quality
-        • 'europepmc' - Europe PMC (life sciences) - European biomedical literature
-        • 'biorxiv' - bioRxiv/medRxiv preprints - Latest biology/medicine preprints
-        • 'core' - CORE repository (multidisciplinary) - Global academic papers
+${sourceRegistry.describeSources("latest", "        ")}
         
         PERFORMANCE TIPS: 
         - arXiv and OpenAlex are fastest for large queries
@@ -148,12 +229,7 @@ async function startMCPServer() {
         Category or field to search within the chosen source:
         
         CATEGORY FORMATS BY SOURCE:
-        • arXiv: Use codes like 'cs.AI', 'physics.quan-ph', 'math.NT'
-        • OpenAlex: Use concept names like 'machine learning', 'quantum computing' or IDs like 'C41008148'
-        • PMC: Use names like 'medicine', 'biology', 'neuroscience', 'oncology'
-        • Europe PMC: Similar to PMC - 'medicine', 'genetics', 'immunology'
-        • bioRxiv: Use 'biology', 'neuroscience', 'bioinformatics', 'genetics'
-        • CORE: Use broad terms like 'computer science', 'engineering', 'medicine'
+${sourceRegistry.describeFormats("latest", "categoryHint", "        ")}
         
         IMPORTANT: Call list_categories first to see exact available options for your chosen source.
       `),
@@ -167,14 +243,19 @@ async function startMCPServer() {
         • Large dataset: 100-200 papers
         
         NOTE: Larger counts take longer and may hit rate limits. Start small and increase as needed.
+      `),
+      cursor: z.string().min(1).optional().describe(`
+        Opaque next_cursor from a previous fetch_latest call, to get the next page.
+        Repeat the same source and category; count may change between pages.
+        Omit for the first page.
       `)
     },
-    async ({ source, category, count = 50 }) => {
+    async ({ source, category, count = 50, cursor }) => {
       try {
-        logInfo('MCP tool called', { tool: 'fetch_latest', source, category, count });
+        logInfo('MCP tool called', { tool: 'fetch_latest', source, category, count, cursor });
         
         const rateLimiter = getRateLimiter();
-        const result = await fetchLatest({ source, category, count }, rateLimiter);
+        const result = await fetchLatest({ source, category, count, cursor }, rateLimiter);
         
         return {
           content: [
@@ -185,7 +266,8 @@ async function startMCPServer() {
             {
               type: "text",
               text: JSON.stringify(result.content, null, 2)
-            }
+            },
+            ...nextCursorContent(result.next_cursor)
           ]
         };
       } catch (error) {
@@ -194,15 +276,7 @@ async function startMCPServer() {
           source, category, count 
         });
         
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolError(error, "latest", source);
       }
     }
   );
@@ -210,13 +284,15 @@ async function startMCPServer() {
   // Add fetch_top_cited tool  
   server.tool("fetch_top_cited",
     {
+      source: sourceRegistry.sourceEnum("topCited").optional().describe(`
+        Source with citation data to rank papers by (default: 'openalex'):
+${sourceRegistry.describeSources("topCited", "        ")}
+      `),
       concept: z.string().describe(`
         Research concept or field to search for highly cited papers.
         
-        CONCEPT FORMATS:
-        • Natural language: 'machine learning', 'artificial intelligence', 'quantum computing', 'cancer treatment'
-        • OpenAlex concept IDs: 'C41008148' (for specific concepts)
-        • Interdisciplinary terms: 'computational biology', 'materials science', 'climate change'
+        CONCEPT FORMATS BY SOURCE:
+${sourceRegistry.describeFormats("topCited", "conceptHint", "        ")}
         
         EXAMPLES BY FIELD:
         • AI/CS: 'deep learning', 'natural language processing', 'computer vision'
@@ -248,14 +324,19 @@ async function startMCPServer() {
         • Complete survey: 100-200 papers (exhaustive coverage)
         
         NOTE: Results are ranked by citation count, so you get the most influential papers first.
+      `),
+      cursor: z.string().min(1).optional().describe(`
+        Opaque next_cursor from a previous fetch_top_cited call, to get the next page.
+        Repeat the same source, concept and since; count may change between pages.
+        Omit for the first page.
       `)
     },
-    async ({ concept, since, count = 50 }) => {
+    async ({ source, concept, since, count = 50, cursor }) => {
       try {
-        logInfo('MCP tool called', { tool: 'fetch_top_cited', concept, since, count });
+        logInfo('MCP tool called', { tool: 'fetch_top_cited', source, concept, since, count, cursor });
         
         const rateLimiter = getRateLimiter();
-        const result = await fetchTopCited({ concept, since, count }, rateLimiter);
+        const result = await fetchTopCited({ source, concept, since, count, cursor }, rateLimiter);
         
         return {
           content: [
@@ -266,7 +347,8 @@ async function startMCPServer() {
             {
               type: "text",
               text: JSON.stringify(result.content, null, 2)
-            }
+            },
+            ...nextCursorContent(result.next_cursor)
           ]
         };
       } catch (error) {
@@ -275,15 +357,7 @@ async function startMCPServer() {
           concept, since, count 
         });
         
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolError(error, "topCited", source);
       }
     }
   );
@@ -291,30 +365,25 @@ async function startMCPServer() {
   // Add fetch_content tool
   server.tool("fetch_content",
     {
-      source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]).describe(`
-        Data source where the target paper is located:
-        • 'arxiv' - arXiv.org preprints (fast, full-text available)
-        • 'openalex' - OpenAlex academic database (metadata + abstracts)  
-        • 'pmc' - PubMed Central (full-text biomedical papers, slower but comprehensive)
-        • 'europepmc' - Europe PMC (full-text life sciences papers)
-        • 'biorxiv' - bioRxiv/medRxiv preprints (biology/medicine preprints)
-        • 'core' - CORE repository (academic papers, variable text availability)
+      source: sourceRegistry.sourceEnum("content").optional().describe(`
+        Data source where the target paper is located. Omit it to let the server
+        resolve the ID and pick the source with the best full text:
+${sourceRegistry.describeSources("content", "        ")}
         
         CONTENT AVAILABILITY:
-        - arXiv, PMC, Europe PMC: Usually provide full paper text
-        - OpenAlex: Provides abstracts and rich metadata
-        - bioRxiv, CORE: Variable full-text availability
+${sourceRegistry.describeFormats("content", "contentHint", "        ")}
       `),
       paper_id: z.string().describe(`
         Paper ID from the respective source (obtain from fetch_latest or fetch_top_cited results):
         
         ID FORMATS BY SOURCE:
-        • arXiv: '2506.21552', '1234.5678v2' (arXiv ID format)
-        • OpenAlex: 'W2741809807' (Work ID starting with 'W')
-        • PMC: 'PMC1234567' or '1234567' (PMC ID with or without prefix)
-        • Europe PMC: 'PMC1234567', 'PMID:12345678', or DOI
-        • bioRxiv: DOI format like '10.1101/2024.01.01.123456'
-        • CORE: Usually numeric ID or DOI
+${sourceRegistry.describeFormats("content", "idHint", "        ")}
+        
+        WITHOUT A SOURCE, any identifier works:
+        • DOI: '10.1038/s41586-020-2649-2'
+        • arXiv: '2401.12345' or 'arXiv:2401.12345'
+        • PMCID: 'PMC7095418', PMID: '32015507'
+        • OpenAlex: 'W2741809807', CORE: 'core:12345678'
         
         IMPORTANT: 
         - Copy exact IDs from previous fetch_latest/fetch_top_cited results
@@ -324,22 +393,35 @@ async function startMCPServer() {
         USAGE WORKFLOW:
         1. Use fetch_latest or fetch_top_cited to find papers
         2. Copy the 'id' field from results  
-        3. Use that exact ID with matching source in fetch_content
+        3. Use that exact ID with matching source in fetch_content, or any ID without a source
+      `),
+      sections: z.array(z.string().min(1)).min(1).optional().describe(`
+        Return only these sections as text instead of the whole paper, e.g. ["abstract", "methods", "conclusion"].
+        Accepts "abstract", "references", "appendix", section numbers ("3.2") and heading words ("related work");
+        common names match their usual variants ("methods" finds "Materials and Methods" or "Methodology").
+        Sections come from arXiv HTML, JATS markup or PDF headings; papers without a structure return their full text.
+      `),
+      toc_only: z.boolean().optional().describe(`
+        Return metadata and the table of contents (section numbers, titles, levels, lengths) without text.
+        Use it on long papers to choose sections before fetching them.
       `)
     },
-    async ({ source, paper_id }) => {
-              try {
-          logInfo('MCP tool called', { tool: 'fetch_content', source, id: paper_id });
-          
-          const rateLimiter = getRateLimiter();
-          const result = await fetchContent({ source, id: paper_id }, rateLimiter);
+    async ({ source, paper_id, sections, toc_only }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'fetch_content', source, id: paper_id, sections, toc_only });
+        
+        const rateLimiter = getRateLimiter();
+        const result = await fetchContent({ source, id: paper_id, sections, toc_only }, rateLimiter);
         
         return {
           content: [
             {
               type: "text",
-              text: `Retrieved paper "${result.content.title}" from ${source}:`
+              text: source
+                ? `Retrieved paper "${result.content.title}" from ${result.source}:`
+                : `Retrieved paper "${result.content.title}" from ${result.source} (resolved identifiers: ${JSON.stringify(result.identity?.identifiers)}):`
             },
+            ...sectionContent(result, sections !== undefined || toc_only === true),
             {
               type: "text",
               text: JSON.stringify(result.content, null, 2)
@@ -352,15 +434,159 @@ async function startMCPServer() {
           source, id: paper_id 
         });
         
+        return toolError(error, "content", source);
+      }
+    }
+  );
+
+  // Add get_references tool
+  server.tool("get_references",
+    {
+      source: sourceRegistry.sourceEnum("content").optional().describe(`
+        Data source to read the paper's full text from, as in fetch_content.
+        Omit it to resolve the ID and pick the source with the best full text.
+      `),
+      paper_id: z.string().describe(`
+        ID of the paper whose reference list to return: an ID from the given source,
+        or without a source any DOI, arXiv ID, PMCID, PMID or OpenAlex ID.
+      `),
+      count: z.number().min(1).max(200).default(50).describe(`
+        Number of reference entries per page (1-200, default: 50).
+      `),
+      cursor: z.string().min(1).optional().describe(`
+        Opaque next_cursor from a previous get_references call, to get the next page.
+        Repeat the same source and paper_id. Omit for the first page.
+      `),
+      resolve: z.boolean().default(true).describe(`
+        Look the entries up in OpenAlex and add their identifiers (DOI, arXiv ID, OpenAlex ID, ...),
+        so they can be passed to fetch_content or get_references (default: true).
+        Entries are matched by DOI or arXiv ID, then by title while the rate limit allows.
+      `)
+    },
+    async ({ source, paper_id, count = 50, cursor, resolve = true }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'get_references', source, id: paper_id, count, cursor, resolve });
+        
+        const rateLimiter = getRateLimiter();
+        const result = await getReferences({ source, id: paper_id, count, cursor, resolve }, rateLimiter);
+        const resolved = result.resolved !== undefined ? `, ${result.resolved} resolved to identifiers` : '';
+        
         return {
-          isError: true,
           content: [
             {
               type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
+              text: `Found ${result.references.length} of ${result.total} references of "${result.paper.title}" from ${result.paper.source}${resolved}:`
+            },
+            {
+              type: "text",
+              text: JSON.stringify(result.references, null, 2)
+            },
+            ...nextCursorContent(result.next_cursor)
+          ]
+        };
+      } catch (error) {
+        logError('Error in get_references tool', { 
+          error: error instanceof Error ? error.message : error,
+          source, id: paper_id 
+        });
+        
+        return toolError(error, "content", source);
+      }
+    }
+  );
+
+  // Add get_tables tool
+  server.tool("get_tables",
+    {
+      source: sourceRegistry.sourceEnum("content").optional().describe(`
+        Data source to read the paper's full text from, as in fetch_content.
+        Omit it to resolve the ID and pick the source with the best full text.
+      `),
+      paper_id: z.string().describe(`
+        ID of the paper whose tables to return: an ID from the given source,
+        or without a source any DOI, arXiv ID, PMCID, PMID or OpenAlex ID.
+      `),
+      format: z.enum(["markdown", "csv"]).default("markdown").describe(`
+        How to render each table (default: markdown).
+        • markdown: a pipe table, header rows merged into one
+        • csv: RFC 4180, header rows included
+        Tables are read from arXiv HTML, HTML pages with <table> markup and JATS;
+        from PDF text only where the columns following a "Table N" caption can be told apart.
+      `)
+    },
+    async ({ source, paper_id, format = "markdown" }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'get_tables', source, id: paper_id, format });
+        
+        const rateLimiter = getRateLimiter();
+        const result = await getTables({ source, id: paper_id, format }, rateLimiter);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${result.tables.length} tables in "${result.paper.title}" from ${result.paper.source}:`
+            },
+            {
+              type: "text",
+              text: JSON.stringify(result.tables, null, 2)
             }
           ]
         };
+      } catch (error) {
+        logError('Error in get_tables tool', { 
+          error: error instanceof Error ? error.message : error,
+          source, id: paper_id 
+        });
+        
+        return toolError(error, "content", source);
+      }
+    }
+  );
+
+  // Add resolve_identifiers tool
+  server.tool("resolve_identifiers",
+    {
+      id: z.string().min(1).describe(`
+        Any identifier for a paper:
+        • DOI: '10.1038/s41586-020-2649-2' or 'https://doi.org/...'
+        • arXiv: '2401.12345', 'arXiv:2401.12345' or an arxiv.org URL
+        • PMCID: 'PMC7095418'
+        • PMID: '32015507' (bare numbers are read as PMIDs)
+        • OpenAlex: 'W2741809807'
+        • CORE: 'core:12345678'
+        
+        Returns every identifier found for the same work (DOI, preprint DOI, arXiv ID,
+        PMID, PMCID, OpenAlex ID, CORE ID) and the sources fetch_content would try,
+        in order, for full text.
+      `)
+    },
+    async ({ id }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'resolve_identifiers', id });
+        
+        const rateLimiter = getRateLimiter();
+        const result = await resolveIdentifiers({ id }, rateLimiter);
+        
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Resolved ${result.content.inputType} "${id}" to ${Object.keys(result.content.identifiers).length} identifiers:`
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ ...result.content, fullTextSources: result.fullTextSources }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logError('Error in resolve_identifiers tool', { 
+          error: error instanceof Error ? error.message : error,
+          id 
+        });
+        
+        return toolError(error);
       }
     }
   );
@@ -368,18 +594,12 @@ async function startMCPServer() {
   // Add search_papers tool
   server.tool("search_papers",
     {
-      source: z.enum(["arxiv", "openalex", "europepmc", "core"]).describe(`
+      source: sourceRegistry.sourceEnum("search").describe(`
         Data source to search within:
-        • 'arxiv' - arXiv.org preprints (physics, CS, math, etc.) - Fast, comprehensive search
-        • 'openalex' - OpenAlex academic papers (all fields) - Massive database, good search capabilities
-        • 'europepmc' - Europe PMC (life sciences) - Biomedical literature with full-text search
-        • 'core' - CORE repository (multidisciplinary) - Global academic papers with advanced search
+${sourceRegistry.describeSources("search", "        ")}
         
         SEARCH CAPABILITIES BY SOURCE:
-        - arXiv: Title, abstract, author, and general search with Boolean operators
-        - OpenAlex: Title, abstract, author, fulltext, and general search with relevance scoring
-        - Europe PMC: Title, abstract, author, fulltext search with MeSH terms
-        - CORE: Title, abstract, author, fulltext search with advanced query language
+${sourceRegistry.describeFormats("search", "searchHint", "        ")}
       `),
       query: z.string().min(1).max(1500).describe(`
         Search query (max 1500 characters).
@@ -431,20 +651,22 @@ async function startMCPServer() {
         • 'citations' - Most cited papers first (best for influential work)
         
         AVAILABILITY BY SOURCE:
-        • arXiv: relevance, date (no citation sorting)
-        • OpenAlex: relevance, date, citations (full support)
-        • Europe PMC: relevance, date, citations (full support)
-        • CORE: relevance, date (limited citation support)
+${sourceRegistry.describeFormats("search", "sortHint", "        ")}
         
         TIP: Use 'relevance' for exploration, 'date' for current topics, 'citations' for established fields.
+      `),
+      cursor: z.string().min(1).optional().describe(`
+        Opaque next_cursor from a previous search_papers call, to get the next page.
+        Repeat the same source, query, field and sortBy; count may change between pages.
+        Omit for the first page.
       `)
     },
-    async ({ source, query, field = "all", count = 50, sortBy = "relevance" }) => {
+    async ({ source, query, field = "all", count = 50, sortBy = "relevance", cursor }) => {
       try {
-        logInfo('MCP tool called', { tool: 'search_papers', source, query, field, count, sortBy });
+        logInfo('MCP tool called', { tool: 'search_papers', source, query, field, count, sortBy, cursor });
         
         const rateLimiter = getRateLimiter();
-        const result = await searchPapers({ source, query, field, count, sortBy }, rateLimiter);
+        const result = await searchPapers({ source, query, field, count, sortBy, cursor }, rateLimiter);
         
         return {
           content: [
@@ -455,7 +677,9 @@ async function startMCPServer() {
             {
               type: "text",
               text: JSON.stringify(result.content, null, 2)
-            }
+            },
+            ...indexContent(result.index),
+            ...nextCursorContent(result.next_cursor)
           ]
         };
       } catch (error) {
@@ -464,15 +688,78 @@ async function startMCPServer() {
           source, query, field, count, sortBy 
         });
         
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        return toolError(error, "search", source);
+      }
+    }
+  );
+
+  // Add search_all tool
+  server.tool("search_all",
+    {
+      query: z.string().min(1).max(1500).describe(`
+        Search query (max 1500 characters), sent unchanged to every source.
+        
+        Keep queries to plain keywords or quoted phrases - source-specific
+        syntax (Boolean operators, MeSH tags) is not understood everywhere.
+      `),
+      field: z.enum(["all", "title", "abstract", "author", "fulltext"]).optional().default("all").describe(`
+        Search field to focus on (default: 'all'): 'all', 'title', 'abstract', 'author' or 'fulltext'
+      `),
+      count: z.number().min(1).max(200).default(50).describe(`
+        Number of merged results to return (1-200, default: 50).
+        Each source is asked for this many results before merging.
+      `),
+      sortBy: z.enum(["relevance", "date", "citations"]).optional().default("relevance").describe(`
+        Sort order (default: 'relevance'):
+        • 'relevance' / 'citations' - Each source sorts its own results, then rankings are fused
+          so papers ranked highly by several sources come first
+        • 'date' - Merged results ordered newest first
+      `),
+      sources: z.array(sourceRegistry.sourceEnum("search")).min(1).optional().describe(`
+        Restrict the search to these sources (default: all of them, except
+        sources that need an API token that isn't set):
+${sourceRegistry.describeSources("search", "        ")}
+      `)
+    },
+    async ({ query, field = "all", count = 50, sortBy = "relevance", sources }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'search_all', query, field, count, sortBy, sources });
+        
+        const rateLimiter = getRateLimiter();
+        const result = await searchAll({ query, field, count, sortBy, sources }, rateLimiter);
+        const succeeded = result.sources.filter((report) => report.status === "ok");
+        
+        const content = [
+          {
+            type: "text" as const,
+            text: `Found ${result.content.length} papers across ${succeeded.length}/${result.sources.length} sources for "${query}" in ${field} field, sorted by ${sortBy}:`
+          },
+          {
+            type: "text" as const,
+            text: JSON.stringify({ sources: result.sources, papers: result.content }, null, 2)
+          }
+        ];
+        
+        if (result.partial) {
+          const failures = result.sources
+            .filter((report) => report.status !== "ok")
+            .map((report) => report.status === "rate_limited"
+              ? `${report.source} (rate limited, retry after ${report.retryAfter}s)`
+              : `${report.source} (${report.error})`);
+          content.unshift({
+            type: "text" as const,
+            text: `Partial results - some sources did not respond: ${failures.join(", ")}`
+          });
+        }
+        
+        return { content };
+      } catch (error) {
+        logError('Error in search_all tool', { 
+          error: error instanceof Error ? error.message : error,
+          query, field, count, sortBy, sources 
+        });
+        
+        return toolError(error);
       }
     }
   );
@@ -602,12 +889,17 @@ async function startMCPServer() {
             };
           }
           
+          const message = result.error || "PDF extraction failed";
           return {
             isError: true,
             content: [
               {
                 type: "text",
-                text: result.error || "PDF extraction failed"
+                text: message
+              },
+              {
+                type: "text",
+                text: JSON.stringify({ error: { code: result.code ?? "Internal", message } }, null, 2)
               }
             ]
           };
@@ -638,15 +930,121 @@ async function startMCPServer() {
           url, maxSizeMB, maxPages, timeout
         });
         
+        return toolError(error);
+      }
+    }
+  );
+
+  // Add cache_stats tool
+  server.tool("cache_stats",
+    {},
+    async () => {
+      try {
+        logInfo('MCP tool called', { tool: 'cache_stats' });
+
+        const result = await cacheStats();
+        const stats = result.content;
+
         return {
-          isError: true,
           content: [
             {
               type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
+              text: stats.enabled
+                ? `Cache (${stats.backend}) holds ${stats.entries} entries, ${(stats.bytes / (1024 * 1024)).toFixed(1)}MB of ${(stats.maxBytes / (1024 * 1024)).toFixed(0)}MB:`
+                : 'Caching is disabled (SCIHARVESTER_CACHE=off)'
+            },
+            {
+              type: "text",
+              text: JSON.stringify(stats, null, 2)
             }
           ]
         };
+      } catch (error) {
+        logError('Error in cache_stats tool', {
+          error: error instanceof Error ? error.message : error
+        });
+
+        return toolError(error);
+      }
+    }
+  );
+
+  // Add rate_limit_status tool
+  server.tool("rate_limit_status",
+    {
+      source: rateLimitStatusSchema.shape.source.describe(`
+        Optional source ID (${sourceRegistry.ids().join(', ')}); omit to report every source.
+        Each source has an 'api' bucket for searches and metadata and a 'fulltext'
+        bucket for full-text page fetches. Requests queue for up to 30 seconds
+        before failing as RateLimited.
+      `)
+    },
+    async ({ source }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'rate_limit_status', source });
+
+        const result = await rateLimitStatus({ source }, getRateLimiter());
+        const waiting = result.content.filter((status) => status.waitSeconds > 0);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: waiting.length > 0
+                ? `Requests would wait: ${waiting.map((status) => `${status.source} ${status.bucket} ${status.waitSeconds}s`).join(', ')}`
+                : 'No source is rate limited right now'
+            },
+            {
+              type: "text",
+              text: JSON.stringify(result.content, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logError('Error in rate_limit_status tool', {
+          error: error instanceof Error ? error.message : error,
+          source
+        });
+
+        return toolError(error);
+      }
+    }
+  );
+
+  // Add cache_clear tool
+  server.tool("cache_clear",
+    {
+      namespace: cacheClearSchema.shape.namespace.describe(`
+        Optional namespace to clear; omit to clear the whole cache:
+        • A source ID (${sourceRegistry.ids().join(', ')}) - cached search, latest and content responses
+        • 'fulltext' - text extracted from HTML pages
+        • 'pdf' - text extracted from PDFs
+        • 'doi' - DOI open-access resolutions
+        • 'document' - section structure, references and tables of extracted text
+        • 'biorxiv-index' - the local bioRxiv/medRxiv search index
+      `)
+    },
+    async ({ namespace }) => {
+      try {
+        logInfo('MCP tool called', { tool: 'cache_clear', namespace });
+
+        const result = await cacheClear({ namespace });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Removed ${result.content.removed} cached entries from ${result.content.namespace === 'all' ? 'all namespaces' : `"${result.content.namespace}"`}`
+            }
+          ]
+        };
+      } catch (error) {
+        logError('Error in cache_clear tool', {
+          error: error instanceof Error ? error.message : error,
+          namespace
+        });
+
+        return toolError(error);
       }
     }
   );
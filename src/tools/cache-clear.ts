@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { getResponseCache } from "../core/cache.js";
+import { logInfo } from "../core/logger.js";
+
+// Zod schema for input validation
+export const cacheClearSchema = z.object({
+  namespace: z
+    .string()
+    .regex(/^[a-z][a-z0-9_-]*$/, "Namespace must be a source ID, 'fulltext', 'pdf', 'doi', 'document' or 'biorxiv-index'")
+    .optional(), // omit to clear everything
+});
+
+export type CacheClearInput = z.infer<typeof cacheClearSchema>;
+
+/**
+ * MCP tool: cache_clear
+ * Remove cached entries, either all of them or one namespace
+ */
+export async function cacheClear(
+  input: CacheClearInput,
+): Promise<{ content: { namespace: string; removed: number } }> {
+  logInfo("cache_clear tool called", { namespace: input.namespace });
+
+  const removed = await getResponseCache().clear(input.namespace);
+
+  return {
+    content: { namespace: input.namespace ?? "all", removed },
+  };
+}
@@ -0,0 +1,20 @@
+import { getResponseCache, CacheStats } from "../core/cache.js";
+import { logInfo } from "../core/logger.js";
+
+/**
+ * MCP tool: cache_stats
+ * Report size, hit rate and per-namespace usage of the persistent cache
+ */
+export async function cacheStats(): Promise<{ content: CacheStats }> {
+  logInfo("cache_stats tool called");
+
+  const stats = await getResponseCache().stats();
+
+  logInfo("cache_stats completed", {
+    backend: stats.backend,
+    entries: stats.entries,
+    bytes: stats.bytes,
+  });
+
+  return { content: stats };
+}
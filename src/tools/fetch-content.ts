@@ -1,80 +1,192 @@
 import { z } from "zod";
-import { ArxivDriver } from "../drivers/arxiv-driver.js";
-import { OpenAlexDriver } from "../drivers/openalex-driver.js";
-import { PMCDriver } from "../drivers/pmc-driver.js";
-import { EuropePMCDriver } from "../drivers/europepmc-driver.js";
-import { BioRxivDriver } from "../drivers/biorxiv-driver.js";
-import { CoreDriver } from "../drivers/core-driver.js";
+import { sourceRegistry } from "../drivers/index.js";
 import { RateLimiter } from "../core/rate-limiter.js";
-import { logInfo, logError } from "../core/logger.js";
-import { PaperMetadata } from "../types/papers.js";
+import { logInfo, logWarn, logError } from "../core/logger.js";
+import {
+  NotAvailableError,
+  NotFoundError,
+  SciHarvesterError,
+  SourceDownError,
+} from "../core/errors.js";
+import { IdentityResolver } from "../resolvers/identity-resolver.js";
+import { PaperIdentity, PaperMetadata, SourceId } from "../types/papers.js";
+import {
+  OutlineEntry,
+  outlineDocument,
+  selectSections,
+} from "../extractors/document-model.js";
 
 // Zod schema for input validation
 export const fetchContentSchema = z.object({
-  source: z.enum(["arxiv", "openalex", "pmc", "europepmc", "biorxiv", "core"]),
+  source: sourceRegistry.sourceSchema("content").optional(), // resolve the ID and pick a source when omitted
   id: z.string().min(1),
+  sections: z.array(z.string().min(1)).min(1).optional(), // e.g. ["abstract", "methods", "3.2"]
+  toc_only: z.boolean().optional(), // outline without any text
 });
 
 export type FetchContentInput = z.infer<typeof fetchContentSchema>;
 
+// A paper with its document model, for tools that read the document
+export interface FetchedPaper {
+  content: PaperMetadata;
+  source: SourceId;
+  identity?: PaperIdentity; // Present when the source was chosen by resolution
+}
+
+// The document model stays internal: get_references and get_tables serve
+// its bibliography and tables, fetch_content only its outline
+export interface FetchContentResult {
+  content: Omit<PaperMetadata, "document">;
+  source: SourceId;
+  identity?: PaperIdentity;
+  toc?: OutlineEntry[]; // With sections or toc_only, when the text has a structure
+  missing_sections?: string[]; // Requested sections the paper has no match for
+}
+
 /**
- * MCP tool: fetch_content
- * Fetches full metadata for a specific paper by ID from arXiv or OpenAlex
+ * Narrow the paper's text to the requested sections, or to nothing but
+ * its outline. A text without known structure is returned whole, with
+ * every requested section reported missing.
  */
-export async function fetchContent(
+function selectContent(
+  result: FetchedPaper,
   input: FetchContentInput,
+): FetchContentResult {
+  const { document, ...paper } = result.content;
+  if (!input.sections && !input.toc_only) return { ...result, content: paper };
+
+  // A document may carry only tables, with no sections to select from
+  const toc = document ? outlineDocument(document) : [];
+  if (!document || toc.length === 0) {
+    return {
+      ...result,
+      content: input.toc_only ? { ...paper, text: "" } : paper,
+      ...(input.sections && { missing_sections: input.sections }),
+    };
+  }
+
+  if (input.toc_only) {
+    return { ...result, content: { ...paper, text: "" }, toc };
+  }
+
+  const { text, missing } = selectSections(
+    paper.text,
+    document,
+    input.sections ?? [],
+  );
+  return {
+    ...result,
+    content: { ...paper, text },
+    toc,
+    ...(missing.length > 0 && { missing_sections: missing }),
+  };
+}
+
+/**
+ * Resolve any identifier and try the sources that can serve it, best full
+ * text first. A paper without text is only returned if no source has text.
+ */
+async function fetchContentByIdentity(
+  id: string,
+  rateLimiter: RateLimiter,
+): Promise<FetchedPaper> {
+  const identity = await new IdentityResolver(rateLimiter).resolve(id);
+  const candidates = sourceRegistry.fullTextCandidates(identity.identifiers);
+
+  if (candidates.length === 0) {
+    throw new NotAvailableError(
+      `No registered source can serve "${id}". ` +
+        `Resolved identifiers: ${JSON.stringify(identity.identifiers)}`,
+    );
+  }
+
+  const failures: string[] = [];
+  let allNotFound = true;
+  let withoutText: FetchedPaper | undefined;
+
+  for (const candidate of candidates) {
+    try {
+      const driver = sourceRegistry.createDriver(
+        candidate.source,
+        rateLimiter,
+        "content",
+      );
+      const paper = await driver.fetchContent(candidate.id);
+
+      if (paper.text && !paper.textExtractionFailed) {
+        return { content: paper, source: candidate.source, identity };
+      }
+
+      withoutText = withoutText || {
+        content: paper,
+        source: candidate.source,
+        identity,
+      };
+      failures.push(`${candidate.source}: no full text`);
+      allNotFound = false;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logWarn("fetch_content candidate source failed", {
+        id,
+        source: candidate.source,
+        candidateId: candidate.id,
+        error: message,
+      });
+      failures.push(`${candidate.source}: ${message}`);
+      allNotFound &&=
+        error instanceof SciHarvesterError && error.code === "NotFound";
+    }
+  }
+
+  if (withoutText) {
+    return withoutText;
+  }
+
+  // Only claim the paper doesn't exist when every source said so
+  const message = `Could not fetch "${id}" from any source. ${failures.join("; ")}`;
+  throw allNotFound ? new NotFoundError(message) : new SourceDownError(message);
+}
+
+/**
+ * Fetch a paper with its document model. Without a source, the ID may be
+ * any identifier (DOI, arXiv, PMID, PMCID, OpenAlex).
+ */
+export async function fetchPaper(
+  input: Pick<FetchContentInput, "source" | "id">,
   rateLimiter: RateLimiter,
-): Promise<{ content: PaperMetadata }> {
+): Promise<FetchedPaper> {
   try {
     logInfo("fetch_content tool called", {
       source: input.source,
       id: input.id,
     });
 
-    let paper: PaperMetadata;
+    if (!input.source) {
+      const result = await fetchContentByIdentity(input.id, rateLimiter);
 
-    switch (input.source) {
-      case "arxiv": {
-        const driver = new ArxivDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      case "openalex": {
-        const driver = new OpenAlexDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      case "pmc": {
-        const driver = new PMCDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      case "europepmc": {
-        const driver = new EuropePMCDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      case "biorxiv": {
-        const driver = new BioRxivDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      case "core": {
-        const driver = new CoreDriver(rateLimiter);
-        paper = await driver.fetchContent(input.id);
-        break;
-      }
-      default:
-        throw new Error(`Unsupported source: ${input.source}`);
+      logInfo("fetch_content completed successfully", {
+        source: result.source,
+        id: input.id,
+        title: result.content.title,
+      });
+
+      return result;
     }
 
+    const driver = sourceRegistry.createDriver(
+      input.source,
+      rateLimiter,
+      "content",
+    );
+    const paper = await driver.fetchContent(input.id);
+
     logInfo("fetch_content completed successfully", {
       source: input.source,
       id: input.id,
       title: paper.title,
     });
 
-    return { content: paper };
+    return { content: paper, source: input.source };
   } catch (error) {
     logError("fetch_content tool failed", {
       error: error instanceof Error ? error.message : error,
@@ -85,11 +197,23 @@ export async function fetchContent(
   }
 }
 
+/**
+ * MCP tool: fetch_content
+ * Fetches full metadata and text for a specific paper by ID from any registered source,
+ * narrowed to the requested sections or outline.
+ */
+export async function fetchContent(
+  input: FetchContentInput,
+  rateLimiter: RateLimiter,
+): Promise<FetchContentResult> {
+  return selectContent(await fetchPaper(input, rateLimiter), input);
+}
+
 // Temporary: Directly print paper text for debugging/direct output
 export async function fetchContentAndPrintText(
   input: FetchContentInput,
   rateLimiter: RateLimiter,
-): Promise<{ content: PaperMetadata }> {
+): Promise<FetchContentResult> {
   const result = await fetchContent(input, rateLimiter);
   if (result.content.text) {
     process.stdout.write(result.content.text);
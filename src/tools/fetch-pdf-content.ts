@@ -2,6 +2,8 @@ import { z } from "zod";
 import { PdfExtractor, PdfMetadata, PdfExtractionProgress } from "../extractors/pdf-extractor.js";
 import { DEFAULT_TEXT_EXTRACTION_CONFIG } from "../config/constants.js";
 import { logInfo, logError, logWarn } from "../core/logger.js";
+import { toMCPError } from "../core/errors.js";
+import { MCPErrorCode } from "../types/mcp.js";
 
 // Input validation schema
 export const fetchPdfContentSchema = z.object({
@@ -27,6 +29,7 @@ export interface FetchPdfContentResult {
     contextWarning?: string;
   };
   error?: string;
+  code?: MCPErrorCode; // Set when success is false
   cancelled?: boolean;
 }
 
@@ -98,6 +101,7 @@ export async function fetchPdfContent(
       return {
         success: false,
         error: "PDF extraction failed",
+        code: result.metadata?.errorCode ?? "Internal",
       };
     }
 
@@ -132,6 +136,7 @@ export async function fetchPdfContent(
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error during PDF extraction",
+      code: toMCPError(error).code,
     };
   }
 }
@@ -1,51 +1,73 @@
 import { z } from "zod";
-import { OpenAlexDriver } from "../drivers/openalex-driver.js";
+import { sourceRegistry } from "../drivers/index.js";
 import { RateLimiter } from "../core/rate-limiter.js";
 import { logInfo, logError } from "../core/logger.js";
+import { CursorScope, decodeCursor, encodeCursor } from "../core/pagination.js";
 import { DEFAULT_PAPER_COUNT, MAX_PAPER_COUNT } from "../config/constants.js";
 import { PaperMetadata } from "../types/papers.js";
 
 // Zod schema for input validation
 export const fetchTopCitedSchema = z.object({
+  source: sourceRegistry.sourceSchema("topCited").optional(), // defaults to openalex
   concept: z.string().min(1),
   since: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
   count: z.number().min(1).max(MAX_PAPER_COUNT).default(DEFAULT_PAPER_COUNT),
+  cursor: z.string().min(1).optional(), // next_cursor from the previous page
 });
 
 export type FetchTopCitedInput = z.infer<typeof fetchTopCitedSchema>;
 
 /**
  * MCP tool: fetch_top_cited
- * Fetches the top cited papers from OpenAlex for a given concept since a specific date
- * Note: This tool is OpenAlex-specific as arXiv doesn't provide citation data
+ * Fetches the top cited papers for a given concept since a specific date
+ * Note: Only sources with citation data (OpenAlex by default) support this
  */
 export async function fetchTopCited(
   input: FetchTopCitedInput,
   rateLimiter: RateLimiter,
-): Promise<{ content: PaperMetadata[] }> {
+): Promise<{ content: PaperMetadata[]; next_cursor?: string }> {
   try {
+    const source = input.source ?? "openalex";
+
     logInfo("fetch_top_cited tool called", {
+      source,
       concept: input.concept,
       since: input.since,
       count: input.count,
+      cursor: input.cursor,
     });
 
-    const driver = new OpenAlexDriver(rateLimiter);
-    const papers = await driver.fetchTopCited(
+    const scope: CursorScope = {
+      source,
+      operation: "topCited",
+      params: [input.concept, input.since],
+    };
+    const position = input.cursor
+      ? decodeCursor(input.cursor, scope)
+      : undefined;
+
+    const driver = sourceRegistry.createDriver(source, rateLimiter, "topCited");
+    const { papers, next } = await driver.fetchTopCitedPage(
       input.concept,
       input.since,
       input.count,
+      position,
     );
 
     logInfo("fetch_top_cited completed successfully", {
+      source,
       concept: input.concept,
       since: input.since,
       papersReturned: papers.length,
+      hasMore: !!next,
     });
 
-    return { content: papers };
+    return {
+      content: papers,
+      ...(next && { next_cursor: encodeCursor(scope, next) }),
+    };
   } catch (error) {
     logError("fetch_top_cited tool failed", {
       error: error instanceof Error ? error.message : error,
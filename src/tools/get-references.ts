@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { sourceRegistry } from "../drivers/index.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { logInfo, logError } from "../core/logger.js";
+import { NotAvailableError } from "../core/errors.js";
+import {
+  CursorScope,
+  decodeCursor,
+  encodeCursor,
+  readOffset,
+} from "../core/pagination.js";
+import { DEFAULT_PAPER_COUNT, MAX_PAPER_COUNT } from "../config/constants.js";
+import { ReferenceResolver } from "../resolvers/reference-resolver.js";
+import { PaperReference, SourceId } from "../types/papers.js";
+import { fetchPaper } from "./fetch-content.js";
+
+// Zod schema for input validation
+export const getReferencesSchema = z.object({
+  source: sourceRegistry.sourceSchema("content").optional(), // resolve the ID and pick a source when omitted
+  id: z.string().min(1),
+  count: z.number().min(1).max(MAX_PAPER_COUNT).default(DEFAULT_PAPER_COUNT),
+  cursor: z.string().min(1).optional(), // next_cursor from the previous page
+  resolve: z.boolean().default(true), // look the entries up in OpenAlex
+});
+
+export type GetReferencesInput = z.infer<typeof getReferencesSchema>;
+
+export interface GetReferencesResult {
+  paper: { id: string; title: string; source: SourceId };
+  references: PaperReference[];
+  total: number; // Entries in the whole reference list
+  resolved?: number; // Entries of this page found in OpenAlex
+  next_cursor?: string;
+}
+
+/**
+ * MCP tool: get_references
+ * Parses the reference list out of a paper's full text and resolves its
+ * entries to identifiers, a page at a time
+ */
+export async function getReferences(
+  input: GetReferencesInput,
+  rateLimiter: RateLimiter,
+): Promise<GetReferencesResult> {
+  const { source, id, count, cursor, resolve } = input;
+
+  try {
+    logInfo("get_references tool called", { source, id, count, cursor });
+
+    const scope: CursorScope = {
+      source: source ?? "any",
+      operation: "references",
+      params: [id],
+    };
+    const offset = readOffset(
+      cursor ? decodeCursor(cursor, scope) : undefined,
+      "offset",
+    );
+
+    const { content: paper, source: paperSource } = await fetchPaper(
+      { source, id },
+      rateLimiter,
+    );
+    const bibliography = paper.document?.bibliography;
+    if (!bibliography?.length) {
+      throw new NotAvailableError(
+        `No reference list could be read from the text of "${id}" (${paperSource})`,
+        {
+          source: paperSource,
+          suggestions: [
+            paper.doi
+              ? `Use search_papers with source 'crossref' and query 'references:${paper.doi}' for the references the publisher deposited`
+              : "Use search_papers with source 'crossref' and query 'references:<DOI>' for the references a publisher deposited",
+            "Reference lists are read from arXiv HTML, JATS and PDF text; try fetch_content with another source",
+          ],
+        },
+      );
+    }
+
+    const page = bibliography.slice(offset, offset + count);
+    const references = resolve
+      ? await new ReferenceResolver(rateLimiter).resolve(page)
+      : page;
+    const nextOffset = offset + page.length;
+
+    logInfo("get_references completed successfully", {
+      source: paperSource,
+      id,
+      total: bibliography.length,
+      returned: references.length,
+    });
+
+    return {
+      paper: { id: paper.id, title: paper.title, source: paperSource },
+      references,
+      total: bibliography.length,
+      ...(resolve && {
+        resolved: references.filter((reference) => reference.identifiers)
+          .length,
+      }),
+      ...(nextOffset < bibliography.length && {
+        next_cursor: encodeCursor(scope, { offset: nextOffset }),
+      }),
+    };
+  } catch (error) {
+    logError("get_references tool failed", {
+      error: error instanceof Error ? error.message : error,
+      source,
+      id,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { sourceRegistry } from "../drivers/index.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { logInfo, logError } from "../core/logger.js";
+import { NotAvailableError } from "../core/errors.js";
+import { tableCsv, tableMarkdown } from "../extractors/tables.js";
+import { SourceId } from "../types/papers.js";
+import { fetchPaper } from "./fetch-content.js";
+
+// Zod schema for input validation
+export const getTablesSchema = z.object({
+  source: sourceRegistry.sourceSchema("content").optional(), // resolve the ID and pick a source when omitted
+  id: z.string().min(1),
+  format: z.enum(["markdown", "csv"]).default("markdown"),
+});
+
+export type GetTablesInput = z.infer<typeof getTablesSchema>;
+
+export interface RenderedTable {
+  label?: string; // As printed, e.g. "Table 2"
+  caption?: string;
+  rows: number; // Body rows, headings excluded
+  columns: number;
+  content: string; // The table in the requested format
+}
+
+export interface GetTablesResult {
+  paper: { id: string; title: string; source: SourceId };
+  format: "markdown" | "csv";
+  tables: RenderedTable[];
+}
+
+/**
+ * MCP tool: get_tables
+ * Returns the tables read from a paper's full text as Markdown or CSV,
+ * each with its label and caption
+ */
+export async function getTables(
+  input: GetTablesInput,
+  rateLimiter: RateLimiter,
+): Promise<GetTablesResult> {
+  const { source, id, format } = input;
+
+  try {
+    logInfo("get_tables tool called", { source, id, format });
+
+    const { content: paper, source: paperSource } = await fetchPaper(
+      { source, id },
+      rateLimiter,
+    );
+    if (!paper.text || paper.textExtractionFailed) {
+      throw new NotAvailableError(
+        `No full text of "${id}" could be read from ${paperSource}`,
+        {
+          source: paperSource,
+          suggestions: [
+            "Try get_tables with another source, or without one to let the ID be resolved",
+          ],
+        },
+      );
+    }
+
+    const render = format === "csv" ? tableCsv : tableMarkdown;
+    const tables = (paper.document?.tables ?? []).map((table) => ({
+      ...(table.label && { label: table.label }),
+      ...(table.caption && { caption: table.caption }),
+      rows: table.rows.length - table.header_rows,
+      columns: table.rows[0]?.length ?? 0,
+      content: render(table),
+    }));
+
+    logInfo("get_tables completed successfully", {
+      source: paperSource,
+      id,
+      tables: tables.length,
+    });
+
+    return {
+      paper: { id: paper.id, title: paper.title, source: paperSource },
+      format,
+      tables,
+    };
+  } catch (error) {
+    logError("get_tables tool failed", {
+      error: error instanceof Error ? error.message : error,
+      source,
+      id,
+    });
+    throw error;
+  }
+}
@@ -1,13 +1,9 @@
-import { CategoryList } from "../types/papers.js";
+import { Category, CategoryList } from "../types/papers.js";
 import { ListCategoriesParams } from "../config/schemas.js";
-import { ArxivDriver } from "../drivers/arxiv-driver.js";
-import { OpenAlexDriver } from "../drivers/openalex-driver.js";
-import { PMCDriver } from "../drivers/pmc-driver.js";
-import { EuropePMCDriver } from "../drivers/europepmc-driver.js";
-import { BioRxivDriver } from "../drivers/biorxiv-driver.js";
-import { CoreDriver } from "../drivers/core-driver.js";
+import { sourceRegistry } from "../drivers/index.js";
 import { RateLimiter } from "../core/rate-limiter.js";
 import { logInfo } from "../core/logger.js";
+import { InvalidQueryError } from "../core/errors.js";
 
 // Create a single rate limiter instance for the whole application
 let globalRateLimiter: RateLimiter | null = null;
@@ -22,40 +18,70 @@ function getRateLimiter(): RateLimiter {
 export async function listCategories(
   params: ListCategoriesParams,
 ): Promise<CategoryList> {
-  const { source } = params;
+  const { source, parent, query } = params;
 
-  logInfo("MCP tool called", { tool: "list_categories", source });
+  logInfo("MCP tool called", {
+    tool: "list_categories",
+    source,
+    parent,
+    query,
+  });
 
   const rateLimiter = getRateLimiter();
-  let driver;
-
-  switch (source) {
-    case "arxiv":
-      driver = new ArxivDriver(rateLimiter);
-      break;
-    case "openalex":
-      driver = new OpenAlexDriver(rateLimiter);
-      break;
-    case "pmc":
-      driver = new PMCDriver(rateLimiter);
-      break;
-    case "europepmc":
-      driver = new EuropePMCDriver(rateLimiter);
-      break;
-    case "biorxiv":
-      driver = new BioRxivDriver(rateLimiter);
-      break;
-    case "core":
-      driver = new CoreDriver(rateLimiter);
-      break;
-    default:
-      throw new Error(`Unsupported source: ${source}`);
-  }
+  const driver = sourceRegistry.createDriver(source, rateLimiter, "categories");
 
   const categories = await driver.listCategories();
 
   return {
     source,
-    categories,
+    categories: filterCategories(categories, source, parent, query),
   };
 }
+
+/**
+ * Narrow a hierarchical category list. `parent` selects its direct
+ * children and `query` matches codes, names, descriptions and aliases at
+ * any level; with neither, only the top level is listed.
+ */
+function filterCategories(
+  categories: Category[],
+  source: string,
+  parent?: string,
+  query?: string,
+): Category[] {
+  let selected = categories;
+
+  if (parent) {
+    const wanted = parent.toLowerCase();
+    const match = categories.find(
+      (category) =>
+        category.id.toLowerCase() === wanted ||
+        category.aliases?.some((alias) => alias.toLowerCase() === wanted),
+    );
+    if (!match) {
+      throw new InvalidQueryError(`Unknown parent category: ${parent}`, {
+        source,
+        suggestions: [
+          `Use list_categories with source '${source}' and no parent to see the top level`,
+        ],
+      });
+    }
+    selected = categories.filter((category) => category.parent === match.id);
+  }
+
+  if (query) {
+    const wanted = query.toLowerCase();
+    selected = selected.filter((category) =>
+      [
+        category.id,
+        category.name,
+        category.description ?? "",
+        ...(category.aliases ?? []),
+      ].some((text) => text.toLowerCase().includes(wanted)),
+    );
+  }
+
+  return parent || query
+    ? selected
+    : selected.filter((category) => !category.parent);
+}
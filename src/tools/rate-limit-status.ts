@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { sourceRegistry } from "../drivers/index.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { logInfo } from "../core/logger.js";
+import { RateLimitStatus } from "../types/sources.js";
+
+// Zod schema for input validation
+export const rateLimitStatusSchema = z.object({
+  source: sourceRegistry.sourceSchema().optional(), // omit for every source
+});
+
+export type RateLimitStatusInput = z.infer<typeof rateLimitStatusSchema>;
+
+/**
+ * MCP tool: rate_limit_status
+ * Report free tokens, queued requests and the expected wait per source, so
+ * a caller can pick a source that answers now or decide to wait
+ */
+export async function rateLimitStatus(
+  input: RateLimitStatusInput,
+  rateLimiter: RateLimiter,
+): Promise<{ content: RateLimitStatus[] }> {
+  logInfo("rate_limit_status tool called", { source: input.source });
+
+  // Registered sources get their buckets with their first driver; list
+  // them before any request was made too
+  sourceRegistry.ids().forEach((id) => rateLimiter.addSource(id));
+
+  return { content: rateLimiter.getStatus(input.source) };
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { logInfo, logError } from "../core/logger.js";
+import { IdentityResolver } from "../resolvers/identity-resolver.js";
+import { sourceRegistry } from "../drivers/index.js";
+import { PaperIdentity } from "../types/papers.js";
+
+// Zod schema for input validation
+export const resolveIdentifiersSchema = z.object({
+  id: z.string().min(1),
+});
+
+export type ResolveIdentifiersInput = z.infer<typeof resolveIdentifiersSchema>;
+
+/**
+ * MCP tool: resolve_identifiers
+ * Maps any paper identifier to every identifier known for the same work,
+ * plus the sources fetch_content would try for full text
+ */
+export async function resolveIdentifiers(
+  input: ResolveIdentifiersInput,
+  rateLimiter: RateLimiter,
+): Promise<{
+  content: PaperIdentity;
+  fullTextSources: Array<{ source: string; id: string }>;
+}> {
+  try {
+    logInfo("resolve_identifiers tool called", { id: input.id });
+
+    const identity = await new IdentityResolver(rateLimiter).resolve(input.id);
+    const fullTextSources = sourceRegistry.fullTextCandidates(
+      identity.identifiers,
+    );
+
+    logInfo("resolve_identifiers completed successfully", {
+      id: input.id,
+      identifiers: identity.identifiers,
+      fullTextSources: fullTextSources.map((candidate) => candidate.source),
+    });
+
+    return { content: identity, fullTextSources };
+  } catch (error) {
+    logError("resolve_identifiers tool failed", {
+      error: error instanceof Error ? error.message : error,
+      id: input.id,
+    });
+    throw error;
+  }
+}
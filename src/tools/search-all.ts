@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { sourceRegistry } from "../drivers/index.js";
+import { RateLimiter } from "../core/rate-limiter.js";
+import { logInfo, logWarn, logError } from "../core/logger.js";
+import {
+  RateLimitedError,
+  SourceDownError,
+  toMCPError,
+} from "../core/errors.js";
+import { mergeRankedResults, RankedList } from "../core/result-merger.js";
+import { DEFAULT_PAPER_COUNT, MAX_PAPER_COUNT } from "../config/constants.js";
+import { FederatedPaper, SourceReport } from "../types/papers.js";
+
+// Zod schema for input validation
+export const searchAllSchema = z.object({
+  query: z.string().min(1).max(1500),
+  field: z.enum(["all", "title", "abstract", "author", "fulltext"]).optional().default("all"),
+  count: z.number().min(1).max(MAX_PAPER_COUNT).default(DEFAULT_PAPER_COUNT),
+  sortBy: z.enum(["relevance", "date", "citations"]).optional().default("relevance"),
+  sources: z.array(sourceRegistry.sourceSchema("search")).min(1).optional(), // defaults to every configured search-capable source
+});
+
+export type SearchAllInput = z.infer<typeof searchAllSchema>;
+
+export interface SearchAllResult {
+  content: FederatedPaper[];
+  sources: SourceReport[];
+  partial: boolean; // true when at least one source failed or was rate limited
+}
+
+/**
+ * Run one source's search and turn any failure into a report entry
+ * instead of rejecting, so one slow or broken source can't sink the rest
+ */
+async function searchSource(
+  source: string,
+  input: SearchAllInput,
+  rateLimiter: RateLimiter,
+): Promise<{ list?: RankedList; report: SourceReport }> {
+  const started = Date.now();
+
+  try {
+    const driver = sourceRegistry.createDriver(source, rateLimiter, "search");
+    const papers = await driver.searchPapers(
+      input.query,
+      input.field,
+      input.count,
+      input.sortBy,
+    );
+
+    return {
+      list: { source, papers },
+      report: {
+        source,
+        status: "ok",
+        count: papers.length,
+        durationMs: Date.now() - started,
+      },
+    };
+  } catch (error) {
+    const { code, message, retryAfter } = toMCPError(error);
+    const rateLimited = code === "RateLimited";
+
+    logWarn("search_all source failed", { source, code, error: message });
+
+    return {
+      report: {
+        source,
+        status: rateLimited ? "rate_limited" : "failed",
+        count: 0,
+        durationMs: Date.now() - started,
+        error: message,
+        ...(rateLimited && {
+          retryAfter: retryAfter ?? rateLimiter.getRetryAfter(source),
+        }),
+      },
+    };
+  }
+}
+
+/**
+ * MCP tool: search_all
+ * Search every search-capable source concurrently and merge the results
+ */
+export async function searchAll(
+  input: SearchAllInput,
+  rateLimiter: RateLimiter,
+): Promise<SearchAllResult> {
+  const sources = input.sources ?? sourceRegistry.configuredIds("search");
+
+  logInfo("search_all tool called", {
+    sources,
+    query: input.query,
+    field: input.field,
+    count: input.count,
+    sortBy: input.sortBy,
+  });
+
+  // Each driver draws from its own rate limiter bucket, so fanning out
+  // concurrently never spends more than one token per source
+  const outcomes = await Promise.all(
+    sources.map((source) => searchSource(source, input, rateLimiter)),
+  );
+
+  const reports = outcomes.map((outcome) => outcome.report);
+  const lists = outcomes
+    .map((outcome) => outcome.list)
+    .filter((list): list is RankedList => list !== undefined);
+
+  if (lists.length === 0) {
+    const summary = reports
+      .map((report) => `${report.source}: ${report.error}`)
+      .join("; ");
+    logError("search_all failed on every source", { query: input.query, summary });
+    const message = `All sources failed for search_all. ${summary}`;
+
+    // Only report rate limiting when waiting would actually help everywhere
+    if (reports.every((report) => report.status === "rate_limited")) {
+      throw new RateLimitedError(message, {
+        retryAfter: Math.min(
+          ...reports.map((report) => report.retryAfter ?? 0),
+        ),
+      });
+    }
+    throw new SourceDownError(message);
+  }
+
+  const papers = mergeRankedResults(lists, {
+    sortBy: input.sortBy,
+    limit: input.count,
+  });
+
+  logInfo("search_all completed", {
+    query: input.query,
+    papersReturned: papers.length,
+    succeeded: lists.length,
+    failed: reports.length - lists.length,
+  });
+
+  return {
+    content: papers,
+    sources: reports,
+    partial: lists.length < reports.length,
+  };
+}
@@ -1,20 +1,19 @@
 import { z } from "zod";
-import { ArxivDriver } from "../drivers/arxiv-driver.js";
-import { OpenAlexDriver } from "../drivers/openalex-driver.js";
-import { EuropePMCDriver } from "../drivers/europepmc-driver.js";
-import { CoreDriver } from "../drivers/core-driver.js";
+import { sourceRegistry } from "../drivers/index.js";
 import { RateLimiter } from "../core/rate-limiter.js";
 import { logInfo, logError } from "../core/logger.js";
+import { CursorScope, decodeCursor, encodeCursor } from "../core/pagination.js";
 import { DEFAULT_PAPER_COUNT, MAX_PAPER_COUNT } from "../config/constants.js";
-import { PaperMetadata } from "../types/papers.js";
+import { IndexFreshness, PaperMetadata } from "../types/papers.js";
 
 // Zod schema for input validation
 export const searchPapersSchema = z.object({
-  source: z.enum(["arxiv", "openalex", "europepmc", "core"]),
+  source: sourceRegistry.sourceSchema("search"),
   query: z.string().min(1).max(1500), // Max 1500 chars based on EuropePMC limit
   field: z.enum(["all", "title", "abstract", "author", "fulltext"]).optional().default("all"),
   count: z.number().min(1).max(MAX_PAPER_COUNT).default(DEFAULT_PAPER_COUNT),
   sortBy: z.enum(["relevance", "date", "citations"]).optional().default("relevance"),
+  cursor: z.string().min(1).optional(), // next_cursor from the previous page
 });
 
 export type SearchPapersInput = z.infer<typeof searchPapersSchema>;
@@ -26,7 +25,11 @@ export type SearchPapersInput = z.infer<typeof searchPapersSchema>;
 export async function searchPapers(
   input: SearchPapersInput,
   rateLimiter: RateLimiter,
-): Promise<{ content: PaperMetadata[] }> {
+): Promise<{
+  content: PaperMetadata[];
+  next_cursor?: string;
+  index?: IndexFreshness;
+}> {
   try {
     logInfo("search_papers tool called", {
       source: input.source,
@@ -34,63 +37,44 @@ export async function searchPapers(
       field: input.field,
       count: input.count,
       sortBy: input.sortBy,
+      cursor: input.cursor,
     });
 
-    let papers: PaperMetadata[];
+    const scope: CursorScope = {
+      source: input.source,
+      operation: "search",
+      params: [input.query, input.field, input.sortBy],
+    };
+    const position = input.cursor
+      ? decodeCursor(input.cursor, scope)
+      : undefined;
 
-    switch (input.source) {
-      case "arxiv": {
-        const driver = new ArxivDriver(rateLimiter);
-        papers = await driver.searchPapers(
-          input.query,
-          input.field,
-          input.count,
-          input.sortBy,
-        );
-        break;
-      }
-      case "openalex": {
-        const driver = new OpenAlexDriver(rateLimiter);
-        papers = await driver.searchPapers(
-          input.query,
-          input.field,
-          input.count,
-          input.sortBy,
-        );
-        break;
-      }
-      case "europepmc": {
-        const driver = new EuropePMCDriver(rateLimiter);
-        papers = await driver.searchPapers(
-          input.query,
-          input.field,
-          input.count,
-          input.sortBy,
-        );
-        break;
-      }
-      case "core": {
-        const driver = new CoreDriver(rateLimiter);
-        papers = await driver.searchPapers(
-          input.query,
-          input.field,
-          input.count,
-          input.sortBy,
-        );
-        break;
-      }
-      default:
-        throw new Error(`Unsupported source: ${input.source}`);
-    }
+    const driver = sourceRegistry.createDriver(
+      input.source,
+      rateLimiter,
+      "search",
+    );
+    const { papers, next, index } = await driver.searchPapersPage(
+      input.query,
+      input.field,
+      input.count,
+      input.sortBy,
+      position,
+    );
 
     logInfo("search_papers completed successfully", {
       source: input.source,
       query: input.query,
       field: input.field,
       papersReturned: papers.length,
+      hasMore: !!next,
     });
 
-    return { content: papers };
+    return {
+      content: papers,
+      ...(next && { next_cursor: encodeCursor(scope, next) }),
+      ...(index && { index }),
+    };
   } catch (error) {
     logError("search_papers tool failed", {
       error: error instanceof Error ? error.message : error,
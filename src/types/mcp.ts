@@ -6,14 +6,19 @@ export interface ToolResponse {
   errors?: string[];
 }
 
+export type MCPErrorCode =
+  | "NotAvailable" // The source or server doesn't offer this (capability, full text)
+  | "NotFound" // The requested paper or record doesn't exist
+  | "PartialSuccess"
+  | "RateLimited"
+  | "SourceDown" // Upstream API failed, timed out or rejected our credentials
+  | "InvalidQuery" // Bad parameters, identifier or cursor
+  | "Internal"; // Anything unexpected
+
 export interface MCPError {
-  code:
-    | "NotAvailable"
-    | "PartialSuccess"
-    | "RateLimited"
-    | "SourceDown"
-    | "InvalidQuery";
+  code: MCPErrorCode;
   message: string;
+  source?: string; // Source ID the error came from, if any
   suggestions?: string[];
   retryAfter?: number; // seconds
 }
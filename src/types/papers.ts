@@ -1,3 +1,6 @@
+// Registered source ID, e.g. "arxiv" - see SourceRegistry
+export type SourceId = string;
+
 export interface PaperMetadata {
   id: string;
   title: string;
@@ -7,10 +10,112 @@ export interface PaperMetadata {
   text: string; // Required in Story 3 - extracted clean text
   textTruncated?: boolean; // Warning if text was truncated
   textExtractionFailed?: boolean; // Warning if extraction failed
+  document?: PaperDocument; // Section structure of `text`, where the extractor found one
+
+  // Extended metadata (schema_version 2) - filled in when the source provides it
+  schema_version?: number; // PAPER_METADATA_SCHEMA_VERSION of the driver that built this record
+  abstract?: string; // Plain text, markup stripped
+  doi?: string; // Lowercase, no resolver prefix
+  arxiv_id?: string; // arXiv eprint without version, e.g. "2401.12345"
+  venue?: string; // Journal, conference or preprint server
+  publisher?: string;
+  citation_count?: number;
+  influential_citation_count?: number; // Citations Semantic Scholar rates as building on the paper
+  tldr?: string; // One-sentence machine-generated summary
+  open_access?: boolean;
+  oa_status?: OpenAccessStatus;
+  license?: string; // Lowercase, hyphenated, e.g. "cc-by-nc"
+  subjects?: string[]; // Categories, concepts, MeSH terms or keywords
+  publication_types?: string[]; // e.g. "Randomized Controlled Trial", "Review"
+  author_details?: AuthorDetail[]; // Same order as `authors`
+  language?: string; // ISO 639-1 where known, e.g. "en"
+  source_url?: string; // Landing page of the record at the source
+}
+
+// Structure of a paper's extracted text, as character ranges of the text
+export interface PaperDocument {
+  title?: string;
+  abstract?: DocumentSection;
+  sections: DocumentSection[]; // Body, in reading order
+  appendix: DocumentSection[];
+  references?: DocumentSection;
+  bibliography?: PaperReference[]; // Entries of the references section, parsed
+  captions?: DocumentCaption[]; // Figure and table captions, in reading order (JATS)
+  funding?: string[]; // Funding statements and grants (JATS)
+  tables?: PaperTable[]; // In reading order; from PDFs only where columns could be told apart
+}
+
+export interface DocumentCaption {
+  type: "figure" | "table";
+  label?: string; // As printed, e.g. "Figure 2" or "Table S1"
+  caption: string;
+}
+
+// A table as rows of cell text, every row the same width
+export interface PaperTable {
+  label?: string; // As printed, e.g. "Table 2"
+  caption?: string;
+  header_rows: number; // Leading rows that are column headings
+  rows: string[][]; // Cells spanning several columns are followed by empty cells
+}
+
+// One entry of a paper's reference list
+export interface PaperReference {
+  raw: string; // As printed
+  label?: string; // Citation label, e.g. "12" or "Smith2020"
+  authors: string[];
+  title?: string;
+  venue?: string;
+  year?: number;
+  doi?: string;
+  arxiv_id?: string;
+  identifiers?: PaperIdentifiers; // Where the entry was found in OpenAlex (get_references)
+}
+
+export interface DocumentSection {
+  title: string; // Heading without its number
+  number?: string; // As printed, e.g. "2.1" or "A"
+  level: number; // 1 for top-level sections
+  start: number; // Offset of the heading in the text
+  end: number; // Offset just past the section, subsections included
+  sections?: DocumentSection[];
+}
+
+// Where to resume an upstream listing; only the driver that produced it reads it
+export type PagePosition = Record<string, string | number>;
+
+export interface PaperPage {
+  papers: PaperMetadata[];
+  next?: PagePosition; // Omitted on the last page
+  index?: IndexFreshness; // Set by sources that search a locally built index
+}
+
+// How much of its window a local search index covers (bioRxiv/medRxiv)
+export interface IndexFreshness {
+  from: string; // Oldest date in the window, YYYY-MM-DD
+  to: string; // Newest date in the window
+  papers: number; // Distinct papers indexed
+  pending_days: number; // Days of the window not fully harvested yet
+  harvested_at?: string; // ISO timestamp of the latest harvest
+}
+
+export type OpenAccessStatus =
+  | "gold"
+  | "green"
+  | "hybrid"
+  | "bronze"
+  | "diamond"
+  | "closed";
+
+export interface AuthorDetail {
+  name: string;
+  affiliations?: string[];
+  orcid?: string; // Bare ORCID iD, e.g. "0000-0002-1825-0097"
+  author_id?: string; // The author's ID at the source, e.g. a Semantic Scholar author ID
 }
 
 export interface CategoryList {
-  source: "arxiv" | "openalex" | "pmc" | "europepmc" | "biorxiv" | "core";
+  source: SourceId;
   categories: Category[];
 }
 
@@ -18,26 +123,90 @@ export interface Category {
   id: string; // e.g., "cs.AI" or concept ID
   name: string; // Human readable name
   description?: string; // Optional description
+  parent?: string; // Enclosing category in a hierarchy, e.g. "cs" for "cs.AI"
+  aliases?: string[]; // Other codes for the same category, e.g. "math.MP" for "math-ph"
 }
 
 // New types for Story 2 tools
 export interface FetchLatestRequest {
-  source: "arxiv" | "openalex" | "pmc" | "europepmc" | "biorxiv" | "core";
+  source: SourceId;
   category: string;
   count: number; // default 50
+  cursor?: string; // next_cursor from the previous page
 }
 
 export interface FetchTopCitedRequest {
   concept: string;
   since: string; // ISO date format
   count: number; // default 50
+  cursor?: string; // next_cursor from the previous page
 }
 
 export interface FetchContentRequest {
-  source: "arxiv" | "openalex" | "pmc" | "europepmc" | "biorxiv" | "core";
+  source?: SourceId; // Omit to resolve `id` and pick the best full-text source
   id: string;
 }
 
+// Cross-source identity (resolve_identifiers)
+export type IdentifierType =
+  | "doi"
+  | "arxiv"
+  | "pmid"
+  | "pmcid"
+  | "openalex"
+  | "core";
+
+export interface PaperIdentifiers {
+  doi?: string; // Lowercase, no resolver prefix; the journal version when known
+  preprint_doi?: string; // bioRxiv/medRxiv DOI when the work was also a preprint
+  arxiv?: string; // Without version, e.g. "2401.12345"
+  pmid?: string;
+  pmcid?: string; // With prefix, e.g. "PMC1234567"
+  openalex?: string; // e.g. "W2741809807"
+  core?: string; // Numeric CORE work ID
+}
+
+export type LookupStatus = "found" | "not_found" | "failed" | "rate_limited";
+
+export interface IdentityLookup {
+  service: SourceId;
+  query: string; // Identifier the service was asked about
+  status: LookupStatus;
+  error?: string;
+}
+
+export interface PaperIdentity {
+  input: string;
+  inputType: IdentifierType;
+  identifiers: PaperIdentifiers;
+  title?: string;
+  lookups: IdentityLookup[];
+}
+
+// Federated search (search_all)
+export interface SearchHit {
+  source: SourceId;
+  id: string; // ID of the paper within that source
+  rank: number; // 1-based position in that source's results
+}
+
+export interface FederatedPaper extends PaperMetadata {
+  source: SourceId; // Source the returned record was taken from
+  score: number; // Fused rank score, higher is better
+  foundIn: SearchHit[]; // Every source that returned this paper
+}
+
+export type SourceStatus = "ok" | "failed" | "rate_limited";
+
+export interface SourceReport {
+  source: SourceId;
+  status: SourceStatus;
+  count: number; // Papers returned by this source
+  durationMs: number;
+  error?: string;
+  retryAfter?: number; // seconds, when rate limited
+}
+
 // Response wrapper for tools
 export interface ToolResponse<T> {
   content: T;
@@ -37,12 +37,43 @@ export interface Authorship {
   }>;
 }
 
-// Rate limiter state
+// Rate limiter state, keyed by source ("arxiv") or source and bucket
+// ("arxiv:fulltext")
 export interface RateLimiterState {
-  [source: string]: {
+  [bucket: string]: {
     tokens: number;
     lastRefill: number;
     maxTokens: number;
     refillRate: number; // tokens per second
   };
 }
+
+// Token bucket settings for one source
+export interface RateLimit {
+  maxTokens: number;
+  refillRate: number; // tokens per second
+  maxConcurrent: number;
+}
+
+// API calls and full-text page fetches hit different hosts, so they are
+// limited separately
+export type RateLimitBucket = "api" | "fulltext";
+
+export interface AcquireOptions {
+  bucket?: RateLimitBucket; // default "api"
+  maxWait?: number; // seconds to queue before failing; 0 fails immediately
+  priority?: number; // higher is served first; FIFO within a priority
+}
+
+// Snapshot of one bucket, for reporting expected waits
+export interface RateLimitStatus {
+  source: string;
+  bucket: RateLimitBucket;
+  tokens: number;
+  maxTokens: number;
+  refillRate: number; // tokens per second
+  queued: number;
+  inFlight: number;
+  maxConcurrent: number;
+  waitSeconds: number; // Expected wait for a request made now
+}
@@ -6,6 +6,15 @@
 
 import { beforeAll, afterAll, beforeEach } from 'vitest';
 
+// Tests mock HTTP per case; a persistent cache would leak responses between
+// them and into the developer's real cache directory. Set before any
+// module creates the shared cache.
+process.env.SCIHARVESTER_CACHE = 'off';
+
+// A mocked 5xx is a one-shot reply; retrying it would only add backoff
+// delays and hit an unmatched interceptor. HTTP client tests opt back in.
+process.env.SCIHARVESTER_HTTP_RETRIES = '0';
+
 // Global test configuration
 beforeAll(() => {
   console.log('🧪 Starting Scientific Papers MCP Test Suite');
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { AdsDriver } from '../../src/drivers/ads-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { NotFoundError, SourceDownError } from '../../src/core/errors.js';
+import { loadConfig, setConfig } from '../../src/config/config.js';
+
+// The production ADS API host, intercepted by nock. Replies don't check
+// the token, so only the test that sets one asserts the header.
+const API = 'https://api.adsabs.harvard.edu';
+
+const doc = {
+  bibcode: '2019ApJ...882L..24A',
+  title: ['First M87 Event Horizon Telescope Results'],
+  author: ['Akiyama, Kazunori', 'Alberdi, Antxon', 'Collaboration, Event Horizon'],
+  aff: ['MIT Haystack Observatory; NRAO', '-', '-'],
+  orcid_pub: ['0000-0002-9475-4254', '-', '-'],
+  abstract: 'We present the first image of a black hole.',
+  pubdate: '2019-04-00',
+  pub: 'The Astrophysical Journal',
+  doi: ['10.3847/2041-8213/ab0ec7'],
+  identifier: ['2019ApJ...882L..24A', '10.3847/2041-8213/ab0ec7', 'arXiv:1906.11238', '2019arXiv190611238A'],
+  citation_count: 4200,
+  keyword: ['black holes', 'galaxies: individual: M87'],
+  arxiv_class: ['astro-ph.GA'],
+  doctype: 'article',
+  property: ['REFEREED', 'OPENACCESS', 'EPRINT_OPENACCESS'],
+  esources: ['EPRINT_PDF', 'PUB_PDF'],
+};
+
+const searchResponse = (docs: object[], numFound: number) => ({
+  responseHeader: { status: 0 },
+  response: { numFound, start: 0, docs },
+});
+
+describe('AdsDriver', () => {
+  let driver: AdsDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new AdsDriver(new RateLimiter());
+  });
+
+  afterEach(() => {
+    setConfig(loadConfig({ env: {} }));
+  });
+
+  it('should search in ADS syntax and link records to their arXiv eprints', async () => {
+    nock(API)
+      .get('/v1/search/query')
+      .query((query) => query.q === 'author:"^Akiyama" year:2019' && query.sort === 'score desc' && query.rows === '1')
+      .reply(200, searchResponse([doc], 12));
+
+    const page = await driver.searchPapersPage('author:"^Akiyama" year:2019', 'all', 1, 'relevance');
+
+    expect(page.next).toEqual({ start: 1 });
+    expect(page.papers[0]).toMatchObject({
+      id: '2019ApJ...882L..24A',
+      title: 'First M87 Event Horizon Telescope Results',
+      authors: ['Kazunori Akiyama', 'Antxon Alberdi', 'Event Horizon Collaboration'],
+      date: '2019-04-01',
+      pdf_url: 'https://arxiv.org/pdf/1906.11238',
+      doi: '10.3847/2041-8213/ab0ec7',
+      arxiv_id: '1906.11238',
+      venue: 'The Astrophysical Journal',
+      citation_count: 4200,
+      open_access: true,
+      subjects: ['black holes', 'galaxies: individual: M87', 'astro-ph.GA'],
+      publication_types: ['article'],
+      source_url: 'https://ui.adsabs.harvard.edu/abs/2019ApJ...882L..24A/abstract',
+    });
+    expect(page.papers[0].author_details?.[0]).toEqual({
+      name: 'Kazunori Akiyama',
+      affiliations: ['MIT Haystack Observatory', 'NRAO'],
+      orcid: '0000-0002-9475-4254',
+    });
+  });
+
+  it('should list citations of a bibcode and look up bare bibcodes', async () => {
+    nock(API)
+      .get('/v1/search/query')
+      .query((query) => query.q === 'citations(identifier:"2019ApJ...882L..24A")' && query.sort === 'date desc')
+      .reply(200, searchResponse([doc], 1));
+    nock(API)
+      .get('/v1/search/query')
+      .query((query) => query.q === 'bibcode:"2019ApJ...882L..24A"')
+      .reply(200, searchResponse([doc], 1));
+
+    const citing = await driver.searchPapersPage('citations:2019ApJ...882L..24A', 'all', 10, 'date');
+    const found = await driver.searchPapers('2019ApJ...882L..24A', 'all', 10, 'relevance');
+
+    expect(citing.next).toBeUndefined();
+    expect(found[0].id).toBe('2019ApJ...882L..24A');
+  });
+
+  it('should map collections, astro-ph classes and keywords to category queries', async () => {
+    nock(API)
+      .get('/v1/search/query')
+      .query((query) => query.q === 'arxiv_class:"astro-ph.GA"' && query.sort === 'date desc')
+      .reply(200, searchResponse([], 0));
+    nock(API)
+      .get('/v1/search/query')
+      .query(
+        (query) =>
+          query.q === 'keyword:"exoplanets" pubdate:[2023-01 TO *]' && query.sort === 'citation_count desc'
+      )
+      .reply(200, searchResponse([doc], 1));
+
+    const latest = await driver.fetchLatestPage('astro-ph.ga', 5);
+    const top = await driver.fetchTopCited('exoplanets', '2023-01-01', 5);
+
+    expect(latest.papers).toEqual([]);
+    expect(top.map((paper) => paper.id)).toEqual(['2019ApJ...882L..24A']);
+  });
+
+  it('should fetch a record by arXiv ID with text from the eprint and send the token', async () => {
+    setConfig(loadConfig({ env: { ADS_API_TOKEN: 'ads-token' } }));
+    driver = new AdsDriver(new RateLimiter());
+    nock(API, { reqheaders: { authorization: 'Bearer ads-token' } })
+      .get('/v1/search/query')
+      .query((query) => query.q === 'identifier:"arXiv:1906.11238"')
+      .reply(200, searchResponse([doc], 1));
+    nock('https://arxiv.org')
+      .get('/html/1906.11238')
+      .reply(200, '<html><body><article class="ltx_document"><p class="ltx_p">The shadow of M87*.</p></article></body></html>');
+
+    const paper = await driver.fetchContent('1906.11238v2');
+
+    expect(paper.authors).toHaveLength(3);
+    expect(paper.text).toContain('The shadow of M87*.');
+  });
+
+  it('should report unknown records as NotFound and a missing token as SourceDown', async () => {
+    nock(API).get('/v1/search/query').query(true).reply(200, searchResponse([], 0));
+    nock(API).get('/v1/search/query').query(true).reply(401, { error: 'Unauthorized' });
+
+    await expect(driver.fetchContent('2099ApJ...999L...1X')).rejects.toBeInstanceOf(NotFoundError);
+    const error = await driver.searchPapers('black holes', 'all', 5, 'relevance').catch((e) => e);
+    expect(error).toBeInstanceOf(SourceDownError);
+    expect(error.message).toBe('NASA ADS API needs an API token');
+  });
+});
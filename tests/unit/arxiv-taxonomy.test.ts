@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { ArxivDriver } from '../../src/drivers/arxiv-driver.js';
+import { ARXIV_TAXONOMY, findArxivCategory } from '../../src/drivers/arxiv-taxonomy.js';
+import { listCategories } from '../../src/tools/list-categories.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError } from '../../src/core/errors.js';
+
+const emptyFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">
+  <opensearch:totalResults>0</opensearch:totalResults>
+</feed>`;
+
+describe('arXiv taxonomy', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should nest every category under a listed archive', () => {
+    const archives = new Set(ARXIV_TAXONOMY.filter((category) => !category.parent).map((category) => category.id));
+
+    expect(archives).toContain('cs');
+    expect(archives).toContain('quant-ph');
+    expect(ARXIV_TAXONOMY.filter((category) => category.parent).every((category) => archives.has(category.parent!))).toBe(
+      true
+    );
+    expect(new Set(ARXIV_TAXONOMY.map((category) => category.id)).size).toBe(ARXIV_TAXONOMY.length);
+    expect(ARXIV_TAXONOMY.every((category) => category.description)).toBe(true);
+  });
+
+  it('should resolve aliases and codes case-insensitively', () => {
+    expect(findArxivCategory('math.MP')).toMatchObject({ id: 'math-ph', aliases: ['math.MP'] });
+    expect(findArxivCategory('STAT.TH')?.id).toBe('math.ST');
+    expect(findArxivCategory('cs.ai')).toMatchObject({ id: 'cs.AI', parent: 'cs' });
+    expect(findArxivCategory('cs.XX')).toBeUndefined();
+  });
+
+  it('should list archives by default and browse them by parent or query', async () => {
+    const top = await listCategories({ source: 'arxiv' });
+    const cs = await listCategories({ source: 'arxiv', parent: 'cs' });
+    const learning = await listCategories({ source: 'arxiv', query: 'machine learning' });
+    const alias = await listCategories({ source: 'arxiv', query: 'math.MP' });
+
+    expect(top.categories.some((category) => category.parent)).toBe(false);
+    expect(top.categories.map((category) => category.id)).toContain('cond-mat');
+    expect(cs.categories.every((category) => category.parent === 'cs')).toBe(true);
+    expect(cs.categories.map((category) => category.id)).toContain('cs.LG');
+    expect(learning.categories.map((category) => category.id)).toEqual(expect.arrayContaining(['cs.LG', 'stat.ML']));
+    expect(alias.categories.map((category) => category.id)).toEqual(['math-ph']);
+    await expect(listCategories({ source: 'arxiv', parent: 'biology' })).rejects.toBeInstanceOf(InvalidQueryError);
+  });
+
+  it('should query an archive through its categories and an alias through its canonical code', async () => {
+    nock('https://export.arxiv.org')
+      .get('/api/query')
+      .query((query) => query.search_query === 'cat:econ OR cat:econ.EM OR cat:econ.GN OR cat:econ.TH')
+      .reply(200, emptyFeed);
+    nock('https://export.arxiv.org')
+      .get('/api/query')
+      .query((query) => query.search_query === 'cat:nlin.CD')
+      .reply(200, emptyFeed);
+
+    const driver = new ArxivDriver(new RateLimiter());
+
+    expect(await driver.fetchLatest('econ', 5)).toEqual([]);
+    expect(await driver.fetchLatest('chao-dyn', 5)).toEqual([]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should reject unknown codes with close matches before calling arXiv', async () => {
+    const driver = new ArxivDriver(new RateLimiter());
+
+    const error = await driver.fetchLatest('cs.AJ', 5).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(InvalidQueryError);
+    expect(error.message).toBe('Unknown arXiv category: cs.AJ');
+    expect(error.suggestions[0]).toContain('cs.AI');
+  });
+});
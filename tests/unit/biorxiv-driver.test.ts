@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { BioRxivDriver } from '../../src/drivers/biorxiv-driver.js';
+import { BioRxivIndex } from '../../src/drivers/biorxiv-index.js';
+import { MemoryCacheStore, ResponseCache, setResponseCache } from '../../src/core/cache.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, SourceDownError } from '../../src/core/errors.js';
+
+const API = 'https://api.biorxiv.org';
+const today = new Date().toISOString().split('T')[0];
+
+const posting = (doi: string, overrides: object = {}) => ({
+  doi,
+  title: 'Untitled',
+  authors: 'Smith, J.; Doe, A.',
+  author_corresponding: 'J. Smith',
+  author_corresponding_institution: 'Somewhere',
+  date: today,
+  version: 1,
+  type: 'new',
+  category: 'neuroscience',
+  jatsxml: '',
+  abstract: '',
+  server: 'biorxiv',
+  ...overrides,
+});
+
+const details = (collection: object[], total: number) => ({
+  messages: [{ status: 'ok', count: collection.length, total }],
+  collection,
+});
+
+const noPosts = { messages: [{ status: 'no posts found' }], collection: [] };
+
+describe('BioRxivDriver search', () => {
+  let driver: BioRxivDriver;
+  let index: BioRxivIndex;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    setResponseCache(new ResponseCache(new MemoryCacheStore()));
+    driver = new BioRxivDriver(new RateLimiter());
+    index = new BioRxivIndex();
+  });
+
+  afterEach(() => {
+    setResponseCache(new ResponseCache(null));
+  });
+
+  // Every day of the window fully read long after it was posted
+  const fillIndex = async (papers: object[]) => {
+    for (const date of index.window()) {
+      for (const server of ['biorxiv', 'medrxiv'] as const) {
+        const day = papers.filter((paper: any) => paper.date === date && paper.server === server) as any[];
+        await index.saveDay(server, date, { papers: day, cursor: day.length, total: day.length, harvestedAt: Date.now() + 3 * 86400000 });
+      }
+    }
+  };
+
+  it('should harvest the newest days within its budget and report index coverage', async () => {
+    nock(API)
+      .get(`/details/biorxiv/${today}/${today}/0`)
+      .query(true)
+      .reply(
+        200,
+        details(
+          [
+            posting('10.1101/2024.03.01.1', { abstract: 'Brain organoids model development.' }),
+            posting('10.1101/2024.03.01.2', { title: 'Cortical organoid atlas', abstract: 'An organoid atlas.' }),
+          ],
+          3
+        )
+      );
+    nock(API)
+      .get(`/details/biorxiv/${today}/${today}/2`)
+      .query(true)
+      .reply(200, details([posting('10.1101/2024.03.01.3', { title: 'Unrelated' })], 3));
+    nock(API)
+      .get(/\/details\/biorxiv\/[\d-]+\/[\d-]+\/0/)
+      .query(true)
+      .times(3)
+      .reply(200, noPosts);
+
+    const page = await driver.searchPapersPage('organoid server:biorxiv', 'all', 10, 'relevance');
+
+    expect(nock.isDone()).toBe(true);
+    expect(page.papers.map((paper) => paper.id)).toEqual(['10.1101/2024.03.01.2', '10.1101/2024.03.01.1']);
+    expect(page.papers[0]).toMatchObject({ venue: 'bioRxiv', title: 'Cortical organoid atlas' });
+    expect(page.index).toMatchObject({ to: today, papers: 3, pending_days: 27 });
+    expect(page.index?.harvested_at).toBeDefined();
+  });
+
+  it('should search a complete index by field, filter and date without calling the API', async () => {
+    const daysAgo = (days: number) => index.window()[days];
+    await fillIndex([
+      posting('10.1101/a', { title: 'Spindle assembly', authors: 'Curie, M.', category: 'cell biology', date: daysAgo(3) }),
+      posting('10.1101/b', { title: 'Spindle checkpoints', authors: 'Curie, M.', category: 'cell biology', date: daysAgo(1) }),
+      posting('10.1101/b', { title: 'Spindle checkpoints', authors: 'Curie, M.', category: 'cell biology', date: daysAgo(2), version: 2 }),
+      posting('10.1101/c', { title: 'Spindle cells', authors: 'Curie, M.', category: 'oncology', date: daysAgo(1), server: 'medrxiv' }),
+    ]);
+
+    const first = await driver.searchPapersPage('curie category:cell-biology', 'author', 1, 'date');
+    const second = await driver.searchPapersPage('curie category:cell-biology', 'author', 1, 'date', first.next);
+    const medrxiv = await driver.searchPapers('spindle server:medrxiv', 'title', 10, 'relevance');
+
+    expect(first.papers.map((paper) => paper.id)).toEqual(['10.1101/b']);
+    expect(first.papers[0].date).toBe(daysAgo(2));
+    expect(first.next).toEqual({ offset: 1, as_of: expect.any(Number) });
+    expect(second.papers.map((paper) => paper.id)).toEqual(['10.1101/a']);
+    expect(second.next).toBeUndefined();
+    expect(first.index).toMatchObject({ papers: 3, pending_days: 0 });
+    expect(medrxiv.map((paper) => paper.venue)).toEqual(['medRxiv']);
+  });
+
+  it('should page through the index as it was for the first page', async () => {
+    const daysAgo = (days: number) => index.window()[days];
+    await fillIndex([
+      posting('10.1101/a', { title: 'Organoid screens', date: daysAgo(3), indexedAt: 1 }),
+      posting('10.1101/b', { title: 'Organoid atlas', date: daysAgo(4), indexedAt: 1 }),
+    ]);
+
+    const first = await driver.searchPapersPage('organoid', 'title', 1, 'date');
+    // Another search fills in a day with a newer posting and a new version
+    await index.saveDay('biorxiv', daysAgo(2), {
+      papers: [
+        posting('10.1101/c', { title: 'Organoid growth', date: daysAgo(2), indexedAt: Date.now() + 1000 }),
+        posting('10.1101/b', { title: 'Organoid atlas', date: daysAgo(2), version: 2, indexedAt: Date.now() + 1000 }),
+      ] as any[],
+      cursor: 2,
+      total: 2,
+      harvestedAt: Date.now() + 3 * 86400000,
+    });
+    const second = await driver.searchPapersPage('organoid', 'title', 1, 'date', first.next);
+
+    expect(first.papers.map((paper) => paper.id)).toEqual(['10.1101/a']);
+    expect(second.papers.map((paper) => paper.id)).toEqual(['10.1101/b']);
+    expect(second.papers[0].date).toBe(daysAgo(4));
+    expect(second.next).toBeUndefined();
+  });
+
+  it('should keep searching the existing index when the update fails', async () => {
+    await fillIndex([posting('10.1101/a', { title: 'Organoid screens', date: index.window()[5] })]);
+    await index.saveDay('biorxiv', today, { papers: [], cursor: 0, total: 1, harvestedAt: 0 });
+    nock(API).get(`/details/biorxiv/${today}/${today}/0`).query(true).reply(503, 'Service Unavailable');
+
+    const page = await driver.searchPapersPage('organoid server:biorxiv', 'title', 5, 'relevance');
+
+    expect(page.papers.map((paper) => paper.id)).toEqual(['10.1101/a']);
+    expect(page.index?.pending_days).toBe(1);
+  });
+
+  it('should fail when nothing is indexed and the update fails', async () => {
+    nock(API).get(`/details/biorxiv/${today}/${today}/0`).query(true).reply(500, 'Internal Server Error');
+
+    await expect(driver.searchPapers('organoid server:biorxiv', 'all', 5, 'relevance')).rejects.toBeInstanceOf(
+      SourceDownError
+    );
+  });
+
+  it('should reject full-text search, unknown servers and empty queries', async () => {
+    await expect(driver.searchPapers('organoid', 'fulltext', 5, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+    await expect(driver.searchPapers('organoid server:arxiv', 'all', 5, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+    await expect(driver.searchPapers('server:medrxiv', 'all', 5, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CacheOptions,
+  FileCacheStore,
+  MemoryCacheStore,
+  ResponseCache,
+} from '../../src/core/cache.js';
+import { withResponseCache } from '../../src/drivers/cached-driver.js';
+import { BaseDriver } from '../../src/drivers/base-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { PagePosition } from '../../src/types/papers.js';
+
+const options: CacheOptions = {
+  maxBytes: 1024 * 1024,
+  maxEntries: 100,
+  ttlSeconds: { default: 60, arxiv: 10, latest: 5 },
+};
+
+describe('ResponseCache', () => {
+  let directory: string;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'sciharvester-cache-'));
+    cache = new ResponseCache(new FileCacheStore(directory), options);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist values across instances', async () => {
+    await cache.set('openalex', 'search:a', [{ id: 'W1' }]);
+
+    const reopened = new ResponseCache(new FileCacheStore(directory), options);
+    expect(await reopened.get('openalex', 'search:a')).toEqual([{ id: 'W1' }]);
+    expect(await reopened.get('openalex', 'search:b')).toBeUndefined();
+  });
+
+  it('should expire entries using the namespace TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await cache.set('arxiv', 'k', 'short');
+    await cache.set('core', 'k', 'default');
+
+    vi.setSystemTime(Date.now() + 30 * 1000);
+
+    expect(await cache.get('arxiv', 'k')).toBeUndefined();
+    expect(await cache.get('core', 'k')).toBe('default');
+  });
+
+  it('should store identical text once', async () => {
+    const text = 'Full text of the paper. '.repeat(100);
+    await cache.setWithText('pmc', 'PMC1', { id: 'PMC1' }, text);
+    await cache.setWithText('europepmc', 'PMC1', { id: 'PMC1' }, text);
+
+    expect(readdirSync(join(directory, 'text'))).toHaveLength(1);
+    expect(await cache.getWithText('europepmc', 'PMC1')).toEqual({ value: { id: 'PMC1' }, text });
+
+    const stats = await cache.stats();
+    expect(stats).toMatchObject({ backend: 'file', entries: 2, textEntries: 1 });
+    expect(Object.keys(stats.namespaces)).toEqual(expect.arrayContaining(['pmc', 'europepmc']));
+  });
+
+  it('should evict least recently used entries over the size cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const small = new ResponseCache(new MemoryCacheStore(), { ...options, maxBytes: 2500 });
+    const value = 'x'.repeat(1000);
+
+    await small.set('core', 'first', value);
+    vi.advanceTimersByTime(1000);
+    await small.set('core', 'second', value);
+    vi.advanceTimersByTime(1000);
+    await small.get('core', 'first'); // Touch so "second" is the oldest
+    vi.advanceTimersByTime(1000);
+    await small.set('core', 'third', value);
+
+    expect(await small.get('core', 'second')).toBeUndefined();
+    expect(await small.get('core', 'first')).toBe(value);
+    expect(await small.get('core', 'third')).toBe(value);
+  });
+
+  it('should clear one namespace and drop text nothing references', async () => {
+    await cache.setWithText('arxiv', 'a', {}, 'arxiv text');
+    await cache.set('openalex', 'b', 1);
+
+    expect(await cache.clear('arxiv')).toBe(1);
+    expect(readdirSync(join(directory, 'text'))).toHaveLength(0);
+    expect(await cache.get('openalex', 'b')).toBe(1);
+  });
+
+  it('should do nothing when disabled', async () => {
+    const disabled = new ResponseCache(null, options);
+    await disabled.set('arxiv', 'k', 1);
+
+    expect(await disabled.get('arxiv', 'k')).toBeUndefined();
+    expect(await disabled.stats()).toMatchObject({ enabled: false, backend: 'off' });
+  });
+});
+
+describe('withResponseCache', () => {
+  it('should answer repeat driver calls from the cache', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), options);
+    const searchPapers = vi.fn().mockResolvedValue([{ id: '1' }]);
+    const fetchContent = vi.fn().mockResolvedValue({ id: '1', text: 'body' });
+    const driver = withResponseCache({ searchPapers, fetchContent } as any, 'arxiv', cache);
+
+    expect(await driver.searchPapers('q', 'all', 5, 'relevance')).toEqual([{ id: '1' }]);
+    expect(await driver.searchPapers('q', 'all', 5, 'relevance')).toEqual([{ id: '1' }]);
+    expect(await driver.searchPapers('q', 'title', 5, 'relevance')).toEqual([{ id: '1' }]);
+    expect(await driver.fetchContent('1')).toEqual({ id: '1', text: 'body' });
+    expect(await driver.fetchContent('1')).toEqual({ id: '1', text: 'body' });
+
+    expect(searchPapers).toHaveBeenCalledTimes(2);
+    expect(fetchContent).toHaveBeenCalledTimes(1);
+    const stats = await cache.stats();
+    expect(stats.hits).toBe(2);
+    expect(stats.textEntries).toBe(1);
+  });
+
+  it('should cache pages of drivers that page natively, once per page', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), options);
+    const pages = vi.fn(async (position?: PagePosition) => ({
+      papers: [{ id: String(position?.start ?? 0), title: '', authors: [], date: '', text: '' }],
+      next: { start: Number(position?.start ?? 0) + 1 },
+    }));
+
+    class PagedDriver extends BaseDriver {
+      listCategories = vi.fn();
+      fetchContent = vi.fn();
+      async searchPapers(query: string, field: string, count: number, sortBy: string) {
+        return (await this.searchPapersPage(query, field, count, sortBy)).papers;
+      }
+      async searchPapersPage(query: string, field: string, count: number, sortBy: string, position?: PagePosition) {
+        return pages(position);
+      }
+      async fetchLatest() {
+        return [];
+      }
+    }
+
+    const driver = withResponseCache(new PagedDriver(new RateLimiter(), 'arxiv'), 'arxiv', cache);
+
+    await driver.searchPapers('q', 'all', 1, 'relevance');
+    await driver.searchPapersPage('q', 'all', 1, 'relevance', undefined);
+    await driver.searchPapersPage('q', 'all', 1, 'relevance', { start: 1 });
+
+    expect(pages).toHaveBeenCalledTimes(2);
+    expect((await cache.stats()).entries).toBe(2);
+  });
+
+  it('should keep the document of cached content out of the content entry', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), options);
+    const document = { sections: [], appendix: [], bibliography: [{ raw: 'A. Author. A title. 2020.', authors: ['A. Author'] }] };
+    const fetchContent = vi.fn().mockResolvedValue({ id: '1', text: 'body', document });
+    const driver = withResponseCache({ fetchContent } as any, 'arxiv', cache);
+
+    await driver.fetchContent('1');
+    expect(await driver.fetchContent('1')).toEqual({ id: '1', text: 'body', document });
+    expect(fetchContent).toHaveBeenCalledTimes(1);
+    expect(await cache.getWithText('arxiv', 'fetchContent:1')).toEqual({ value: { id: '1', text: '' }, text: 'body' });
+    expect(Object.keys((await cache.stats()).namespaces).sort()).toEqual(['arxiv', 'document']);
+
+    // Without its document the entry is refetched rather than served bare
+    await cache.clear('document');
+    await driver.fetchContent('1');
+    expect(fetchContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache content whose text extraction failed', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore(), options);
+    const fetchContent = vi.fn().mockResolvedValue({ id: '1', text: '', textExtractionFailed: true });
+    const driver = withResponseCache({ fetchContent } as any, 'arxiv', cache);
+
+    await driver.fetchContent('1');
+    await driver.fetchContent('1');
+
+    expect(fetchContent).toHaveBeenCalledTimes(2);
+  });
+});
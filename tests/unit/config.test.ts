@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, parseConfigAssignments, setConfig } from '../../src/config/config.js';
+import { InvalidQueryError } from '../../src/core/errors.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+describe('loadConfig', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'sciharvester-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should fill in defaults when nothing is configured', () => {
+    const config = loadConfig({ env: {} });
+
+    expect(config.contactEmail).toBe('contact@sciharvestermcp.org');
+    expect(config.http.maxRetries).toBe(3);
+    expect(config.rateLimits.maxWaitSeconds).toBe(30);
+    expect(config.extraction.enablePdfExtraction).toBe(true);
+    expect(config.cache.mode).toBe('file');
+    expect(config.sources).toEqual({ disabled: [], plugins: [], oaiPmh: {} });
+  });
+
+  it('should read YAML and JSON config files', () => {
+    const yamlFile = join(directory, 'config.yaml');
+    writeFileSync(
+      yamlFile,
+      [
+        'contactEmail: lab@example.org',
+        'apiKeys:',
+        '  ncbi: ncbi-key',
+        'rateLimits:',
+        '  sources:',
+        '    pmc: { refillRate: 10 }',
+      ].join('\n')
+    );
+    const jsonFile = join(directory, 'config.json');
+    writeFileSync(jsonFile, JSON.stringify({ extraction: { enablePdfExtraction: false } }));
+
+    const fromYaml = loadConfig({ file: yamlFile, env: {} });
+    expect(fromYaml.contactEmail).toBe('lab@example.org');
+    expect(fromYaml.apiKeys.ncbi).toBe('ncbi-key');
+    expect(fromYaml.rateLimits.sources.pmc).toEqual({ refillRate: 10 });
+
+    expect(loadConfig({ file: jsonFile, env: {} }).extraction).toMatchObject({
+      enablePdfExtraction: false,
+      enableArxivFallback: true,
+    });
+  });
+
+  it('should let the environment override the file and flags override both', () => {
+    const file = join(directory, 'config.json');
+    writeFileSync(file, JSON.stringify({ contactEmail: 'file@example.org', http: { timeoutMs: 5000 } }));
+    const env = {
+      SCIHARVESTER_CONTACT_EMAIL: 'env@example.org',
+      SCIHARVESTER_HTTP_RETRIES: '1',
+      CORE_API_KEY: 'core-key',
+      SCIHARVESTER_DISABLED_SOURCES: 'core, biorxiv',
+    };
+
+    const config = loadConfig({ file, env, overrides: { contactEmail: 'flag@example.org' } });
+
+    expect(config.contactEmail).toBe('flag@example.org');
+    expect(config.http).toMatchObject({ timeoutMs: 5000, maxRetries: 1 });
+    expect(config.apiKeys.core).toBe('core-key');
+    expect(config.sources.disabled).toEqual(['core', 'biorxiv']);
+  });
+
+  it('should name every invalid setting', () => {
+    const env = { SCIHARVESTER_HTTP_TIMEOUT_MS: 'soon', SCIHARVESTER_CACHE: 'disk' };
+
+    const error = (() => {
+      try {
+        loadConfig({ env, overrides: { contactEmail: 'not an email' } });
+      } catch (e) {
+        return e as Error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(InvalidQueryError);
+    expect(error?.message).toContain('contactEmail');
+    expect(error?.message).toContain('http.timeoutMs');
+    expect(error?.message).toContain('cache.mode');
+  });
+
+  it('should reject unknown settings', () => {
+    expect(() => loadConfig({ env: {}, overrides: { http: { timeout: 1 } } as any })).toThrow(/http/);
+  });
+});
+
+describe('parseConfigAssignments', () => {
+  it('should build nested overrides and keep JSON types', () => {
+    expect(
+      parseConfigAssignments([
+        'http.timeoutMs=20000',
+        'extraction.enablePdfExtraction=false',
+        'sources.enabled=["arxiv","pmc"]',
+        'contactEmail=me@example.org',
+      ])
+    ).toEqual({
+      http: { timeoutMs: 20000 },
+      extraction: { enablePdfExtraction: false },
+      sources: { enabled: ['arxiv', 'pmc'] },
+      contactEmail: 'me@example.org',
+    });
+  });
+
+  it('should reject assignments without a key', () => {
+    expect(() => parseConfigAssignments(['=1'])).toThrow(InvalidQueryError);
+  });
+});
+
+describe('configured rate limits', () => {
+  afterEach(() => {
+    setConfig(loadConfig());
+  });
+
+  it('should apply per-source overrides and add configured plugin sources', () => {
+    setConfig(
+      loadConfig({
+        env: {},
+        overrides: { rateLimits: { sources: { arxiv: { maxTokens: 2 }, 'my-plugin': { maxConcurrent: 1 } } } },
+      })
+    );
+
+    const status = new RateLimiter().getStatus();
+
+    expect(status.find((s) => s.source === 'arxiv' && s.bucket === 'api')).toMatchObject({
+      maxTokens: 2,
+      maxConcurrent: 1,
+    });
+    expect(status.find((s) => s.source === 'my-plugin' && s.bucket === 'api')).toMatchObject({
+      maxConcurrent: 1,
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { CrossrefDriver } from '../../src/drivers/crossref-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+
+const API = 'https://api.crossref.org';
+
+const work = {
+  DOI: '10.1038/NATURE12373',
+  URL: 'https://doi.org/10.1038/nature12373',
+  title: ['Nanometre-scale thermometry in a <i>living</i> cell'],
+  subtitle: ['a quantum sensor'],
+  author: [
+    {
+      given: 'G.',
+      family: 'Kucsko',
+      ORCID: 'https://orcid.org/0000-0002-1825-0097',
+      affiliation: [{ name: 'Harvard University' }],
+    },
+    { name: 'NV Collaboration' },
+  ],
+  published: { 'date-parts': [[2013, 7]] },
+  'container-title': ['Nature'],
+  publisher: 'Springer Science and Business Media LLC',
+  'is-referenced-by-count': 1450,
+  license: [
+    { URL: 'https://www.springernature.com/gp/researchers/text-and-data-mining', 'content-version': 'tdm' },
+    { URL: 'https://creativecommons.org/licenses/by/4.0/', 'content-version': 'vor' },
+  ],
+  link: [
+    { URL: 'https://www.nature.com/articles/nature12373.xml', 'content-type': 'text/xml' },
+    { URL: 'https://www.nature.com/articles/nature12373.pdf', 'content-type': 'application/pdf' },
+  ],
+  type: 'journal-article',
+  abstract: '<jats:title>Abstract</jats:title><jats:p>Sensitive probing of temperature.</jats:p>',
+  resource: { primary: { URL: 'https://www.nature.com/articles/nature12373' } },
+};
+
+const listResponse = (items: object[], total: number) => ({
+  status: 'ok',
+  'message-type': 'work-list',
+  message: { 'total-results': total, items },
+});
+
+describe('CrossrefDriver', () => {
+  let driver: CrossrefDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new CrossrefDriver(new RateLimiter());
+  });
+
+  it('should search by author with inline filters and normalize works', async () => {
+    nock(API)
+      .get('/works')
+      .query(
+        (query) =>
+          query['query.author'] === 'Kucsko' &&
+          query.filter === 'from-pub-date:2013-01-01,type:journal-article' &&
+          query.sort === 'is-referenced-by-count' &&
+          query.order === 'desc' &&
+          query.rows === '1' &&
+          query.offset === '0'
+      )
+      .reply(200, listResponse([work], 40));
+
+    const page = await driver.searchPapersPage(
+      'Kucsko from-pub-date:2013-01-01 type:journal-article',
+      'author',
+      1,
+      'citations'
+    );
+
+    expect(page.next).toEqual({ offset: 1 });
+    expect(page.papers[0]).toMatchObject({
+      id: '10.1038/nature12373',
+      title: 'Nanometre-scale thermometry in a living cell: a quantum sensor',
+      authors: ['G. Kucsko', 'NV Collaboration'],
+      date: '2013-07-01',
+      pdf_url: 'https://www.nature.com/articles/nature12373.pdf',
+      abstract: 'Sensitive probing of temperature.',
+      doi: '10.1038/nature12373',
+      venue: 'Nature',
+      citation_count: 1450,
+      open_access: true,
+      license: 'cc-by',
+      publication_types: ['journal-article'],
+      source_url: 'https://www.nature.com/articles/nature12373',
+    });
+    expect(page.papers[0].author_details?.[0]).toEqual({
+      name: 'G. Kucsko',
+      affiliations: ['Harvard University'],
+      orcid: '0000-0002-1825-0097',
+    });
+  });
+
+  it('should list the latest works of a journal by ISSN or name', async () => {
+    const today = new Date().toISOString().split('T')[0];
+    nock(API)
+      .get('/journals/0028-0836/works')
+      .query((query) => query.filter === `until-pub-date:${today}` && query.sort === 'published')
+      .twice()
+      .reply(200, listResponse([work], 1));
+
+    const byIssn = await driver.fetchLatestPage('0028-0836', 5);
+    const byName = await driver.fetchLatest('nature', 5);
+
+    expect(byIssn.papers.map((paper) => paper.id)).toEqual(['10.1038/nature12373']);
+    expect(byIssn.next).toBeUndefined();
+    expect(byName).toHaveLength(1);
+  });
+
+  it('should rank a topic by citations since a date', async () => {
+    nock(API)
+      .get('/works')
+      .query(
+        (query) =>
+          query['query.bibliographic'] === 'quantum sensing' &&
+          query.filter === 'from-pub-date:2020-01-01' &&
+          query.sort === 'is-referenced-by-count'
+      )
+      .reply(200, listResponse([], 0));
+
+    expect(await driver.fetchTopCited('quantum sensing', '2020-01-01', 10)).toEqual([]);
+  });
+
+  it('should list deposited references and look up the ones with DOIs', async () => {
+    nock(API)
+      .get('/works/10.1038%2Fnature12373')
+      .query(true)
+      .reply(200, {
+        message: {
+          ...work,
+          reference: [
+            { key: 'CR1', unstructured: 'Skip me. Old paper (1999).' },
+            { key: 'CR2', DOI: '10.1126/science.1', 'article-title': 'Deposited title', author: 'Smith', year: '2010' },
+            { key: 'CR3', author: 'Jones', year: '2011', 'journal-title': 'Phys. Rev. B', 'article-title': 'Spins' },
+          ],
+        },
+      });
+    nock(API)
+      .get('/works')
+      .query((query) => query.filter === 'doi:10.1126/science.1')
+      .reply(
+        200,
+        listResponse([{ DOI: '10.1126/science.1', title: ['Full title'], published: { 'date-parts': [[2010, 3, 4]] } }], 1)
+      );
+
+    const page = await driver.searchPapersPage('references:10.1038/nature12373', 'all', 2, 'relevance', { offset: 1 });
+
+    expect(page.next).toBeUndefined();
+    expect(page.papers[0]).toMatchObject({ id: '10.1126/science.1', title: 'Full title', date: '2010-03-04' });
+    expect(page.papers[1]).toMatchObject({
+      id: '10.1038/nature12373#CR3',
+      title: 'Spins',
+      authors: ['Jones'],
+      date: '2011-01-01',
+      venue: 'Phys. Rev. B',
+    });
+  });
+
+  it('should fetch an arXiv DOI with text from the eprint', async () => {
+    nock(API)
+      .get('/works/10.48550%2Farxiv.2401.12345')
+      .query(true)
+      .reply(200, {
+        message: { DOI: '10.48550/ARXIV.2401.12345', title: ['A Study of Engines'], type: 'posted-content' },
+      });
+    nock('https://arxiv.org')
+      .get('/html/2401.12345')
+      .reply(200, '<html><body><article class="ltx_document"><p class="ltx_p">Engines compute numbers.</p></article></body></html>');
+
+    const paper = await driver.fetchContent('https://doi.org/10.48550/arXiv.2401.12345');
+
+    expect(paper).toMatchObject({ arxiv_id: '2401.12345', pdf_url: 'https://arxiv.org/pdf/2401.12345' });
+    expect(paper.text).toContain('Engines compute numbers.');
+  });
+
+  it('should report unknown DOIs as NotFound and reject abstract search', async () => {
+    nock(API).get('/works/10.9999%2Fmissing').query(true).reply(404, 'Resource not found.');
+
+    await expect(driver.fetchContent('10.9999/missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(driver.searchPapers('thermometry', 'abstract', 5, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+    await expect(driver.fetchContent('W2741809807')).rejects.toBeInstanceOf(InvalidQueryError);
+  });
+});
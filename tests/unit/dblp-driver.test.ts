@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { DblpDriver } from '../../src/drivers/dblp-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+
+const DBLP = 'https://dblp.org';
+
+const searchResponse = (hits: object[], total: number) => ({
+  result: { hits: { '@total': String(total), '@sent': String(hits.length), '@first': '0', hit: hits } },
+});
+
+const attentionHit = {
+  '@score': '9',
+  info: {
+    authors: {
+      author: [
+        { '@pid': '00/1', text: 'Ashish Vaswani' },
+        { '@pid': '00/2', text: 'Wei Wang 0001' },
+      ],
+    },
+    title: 'Attention is All you Need.',
+    venue: 'NIPS',
+    year: '2017',
+    type: 'Conference and Workshop Papers',
+    access: 'open',
+    key: 'conf/nips/VaswaniSPUJGKP17',
+    ee: ['https://proceedings.neurips.cc/paper/2017/hash/3f5ee243.html', 'https://arxiv.org/abs/1706.03762v5'],
+  },
+};
+
+const corrHit = {
+  info: {
+    authors: { author: { '@pid': '00/3', text: 'Ada Lovelace' } },
+    title: 'A Study of Engines.',
+    venue: 'CoRR',
+    year: '2024',
+    type: 'Informal and Other Publications',
+    key: 'journals/corr/abs-2401-12345',
+    doi: '10.48550/ARXIV.2401.12345',
+    ee: 'https://doi.org/10.48550/arXiv.2401.12345',
+  },
+};
+
+const personXml = `<?xml version="1.0" encoding="US-ASCII"?>
+<dblpperson name="Ada Lovelace" pid="00/3" n="3">
+  <person key="homepages/00/3" mdate="2024-01-01"><author pid="00/3">Ada Lovelace</author></person>
+  <r><article key="journals/corr/abs-2401-12345" mdate="2024-02-01" publtype="informal">
+    <author pid="00/3" orcid="0000-0002-1825-0097">Ada Lovelace</author>
+    <title>A Study of Engines.</title><journal>CoRR</journal><volume>abs/2401.12345</volume><year>2024</year>
+    <ee type="oa">https://doi.org/10.48550/arXiv.2401.12345</ee>
+  </article></r>
+  <r><inproceedings key="conf/icml/Lovelace23" mdate="2023-08-01">
+    <author pid="00/3">Ada Lovelace</author><author pid="00/4">Charles Babbage</author>
+    <title>Analytical Engines at Scale.</title><booktitle>ICML</booktitle><year>2023</year>
+    <ee>https://doi.org/10.5555/icml.2023.1</ee>
+  </inproceedings></r>
+  <r><article key="journals/cacm/Lovelace22" mdate="2022-05-01">
+    <author pid="00/3">Ada Lovelace</author><title>Notes.</title><journal>Commun. ACM</journal><year>2022</year>
+  </article></r>
+</dblpperson>`;
+
+describe('DblpDriver', () => {
+  let driver: DblpDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new DblpDriver(new RateLimiter());
+  });
+
+  it('should search publications and take DOI and arXiv links from the editions', async () => {
+    nock(DBLP)
+      .get('/search/publ/api')
+      .query({ q: 'attention', format: 'json', h: '2', f: '0' })
+      .reply(200, searchResponse([attentionHit, corrHit], 120));
+
+    const page = await driver.searchPapersPage('attention', 'all', 2, 'relevance');
+
+    expect(page.next).toEqual({ offset: 2 });
+    expect(page.papers[0]).toMatchObject({
+      id: 'conf/nips/VaswaniSPUJGKP17',
+      title: 'Attention is All you Need',
+      authors: ['Ashish Vaswani', 'Wei Wang'],
+      date: '2017-01-01',
+      pdf_url: 'https://arxiv.org/pdf/1706.03762',
+      arxiv_id: '1706.03762',
+      venue: 'NIPS',
+      open_access: true,
+      publication_types: ['Conference and Workshop Papers'],
+      source_url: 'https://dblp.org/rec/conf/nips/VaswaniSPUJGKP17',
+    });
+    expect(page.papers[1]).toMatchObject({
+      authors: ['Ada Lovelace'],
+      doi: '10.48550/arxiv.2401.12345',
+      arxiv_id: '2401.12345',
+    });
+  });
+
+  it('should walk a venue back from the current year', async () => {
+    const year = new Date().getFullYear();
+    nock(DBLP)
+      .get('/search/publ/api')
+      .query((query) => query.q === `stream:streams/conf/nips: year:${year}:`)
+      .reply(200, searchResponse([], 0));
+    nock(DBLP)
+      .get('/search/publ/api')
+      .query((query) => query.q === `stream:streams/conf/nips: year:${year - 1}:` && query.h === '1')
+      .reply(200, searchResponse([attentionHit], 4000));
+
+    const page = await driver.fetchLatestPage('NeurIPS', 1);
+
+    expect(page.papers.map((paper) => paper.id)).toEqual(['conf/nips/VaswaniSPUJGKP17']);
+    expect(page.next).toEqual({ year: year - 1, offset: 1 });
+  });
+
+  it('should page through an author bibliography by PID', async () => {
+    nock(DBLP).get('/pid/00/3.xml').reply(200, personXml);
+
+    const page = await driver.searchPapersPage('pid:00/3', 'author', 2, 'relevance', { offset: 1 });
+
+    expect(page.papers.map((paper) => paper.id)).toEqual(['conf/icml/Lovelace23', 'journals/cacm/Lovelace22']);
+    expect(page.papers[0]).toMatchObject({
+      authors: ['Ada Lovelace', 'Charles Babbage'],
+      doi: '10.5555/icml.2023.1',
+      venue: 'ICML',
+      publication_types: ['Conference and Workshop Papers'],
+    });
+    expect(page.next).toBeUndefined();
+  });
+
+  it('should look up an author name before fetching the bibliography', async () => {
+    nock(DBLP)
+      .get('/search/author/api')
+      .query((query) => query.q === 'Ada Lovelace' && query.h === '1')
+      .reply(200, searchResponse([{ info: { author: 'Ada Lovelace', url: 'https://dblp.org/pid/00/3' } }], 1));
+    nock(DBLP).get('/pid/00/3.xml').reply(200, personXml);
+
+    const page = await driver.searchPapersPage('Ada Lovelace', 'author', 1, 'relevance');
+
+    expect(page.papers[0]).toMatchObject({
+      id: 'journals/corr/abs-2401-12345',
+      publication_types: ['Informal and Other Publications'],
+    });
+    expect(page.papers[0].author_details?.[0]).toEqual({ name: 'Ada Lovelace', orcid: '0000-0002-1825-0097' });
+    expect(page.next).toEqual({ offset: 1 });
+  });
+
+  it('should fetch a record with text from its arXiv eprint', async () => {
+    nock(DBLP)
+      .get('/rec/journals/corr/abs-2401-12345.xml')
+      .reply(
+        200,
+        `<?xml version="1.0"?><dblp>${personXml.match(/<article key="journals\/corr[\s\S]*?<\/article>/)![0]}</dblp>`
+      );
+    nock('https://arxiv.org')
+      .get('/html/2401.12345')
+      .reply(200, '<html><body><article class="ltx_document"><p class="ltx_p">Engines compute numbers.</p></article></body></html>');
+
+    const paper = await driver.fetchContent('dblp:journals/corr/abs-2401-12345');
+
+    expect(paper.title).toBe('A Study of Engines');
+    expect(paper.text).toContain('Engines compute numbers.');
+  });
+
+  it('should report unknown keys as NotFound and reject abstract search', async () => {
+    nock(DBLP).get('/rec/conf/nips/Nobody99.xml').reply(404, 'Not Found');
+
+    await expect(driver.fetchContent('conf/nips/Nobody99')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(driver.searchPapers('transformers', 'abstract', 10, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { fetchContent } from '../../src/tools/fetch-content.js';
+import { OaiPmhDriver } from '../../src/drivers/oai-pmh-driver.js';
+import { clipDocument, layoutDocument, outlineText, selectSections } from '../../src/extractors/document-model.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const latexml = `<html><body><article class="ltx_document">
+  <h1 class="ltx_title ltx_title_document">A Study of Engines</h1>
+  <div class="ltx_abstract"><h6 class="ltx_title">Abstract</h6><p class="ltx_p">We study engines.</p></div>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">1 </span>Introduction</h2>
+    <div class="ltx_para"><p class="ltx_p">Engines matter.</p></div>
+  </section>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">2 </span>Materials and Methods</h2>
+    <div class="ltx_para"><p class="ltx_p">We built an engine.</p></div>
+    <section class="ltx_subsection">
+      <h3 class="ltx_title ltx_title_subsection"><span class="ltx_tag ltx_tag_subsection">2.1 </span>Gears</h3>
+      <div class="ltx_para"><p class="ltx_p">Gears   turn.</p></div>
+    </section>
+  </section>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">3 </span>Conclusions</h2>
+    <div class="ltx_para"><p class="ltx_p">Engines compute numbers.</p></div>
+  </section>
+  <section class="ltx_bibliography"><ul class="ltx_biblist"><li class="ltx_bibitem">[1] Babbage, C. On engines.</li></ul></section>
+  <section class="ltx_appendix">
+    <h2 class="ltx_title ltx_title_appendix"><span class="ltx_tag ltx_tag_appendix">Appendix A </span>Proofs</h2>
+    <div class="ltx_para"><p class="ltx_p">Trivially true.</p></div>
+  </section>
+</article></body></html>`;
+
+const mockArxivDoi = () => {
+  nock('https://api.crossref.org')
+    .get('/works/10.48550%2Farxiv.2401.12345')
+    .query(true)
+    .reply(200, { message: { DOI: '10.48550/ARXIV.2401.12345', title: ['A Study of Engines'], type: 'posted-content' } });
+  nock('https://arxiv.org').get('/html/2401.12345').reply(200, latexml);
+};
+
+describe('Document model', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should return only the requested sections of an arXiv paper', async () => {
+    mockArxivDoi();
+
+    const result = await fetchContent(
+      { source: 'crossref', id: '10.48550/arXiv.2401.12345', sections: ['conclusion', 'methods', '9'] },
+      new RateLimiter()
+    );
+
+    expect(result.content.text).toBe(
+      '2 Materials and Methods\n\nWe built an engine.\n\n2.1 Gears\n\nGears turn.\n\n3 Conclusions\n\nEngines compute numbers.'
+    );
+    expect(result.missing_sections).toEqual(['9']);
+    expect(result.content.document).toBeUndefined();
+    expect(result.toc?.map((entry) => [entry.number, entry.title, entry.level])).toEqual([
+      [undefined, 'Abstract', 1],
+      ['1', 'Introduction', 1],
+      ['2', 'Materials and Methods', 1],
+      ['2.1', 'Gears', 2],
+      ['3', 'Conclusions', 1],
+      ['A', 'Proofs', 1],
+      [undefined, 'References', 1],
+    ]);
+  });
+
+  it('should return the outline without text in toc_only mode', async () => {
+    mockArxivDoi();
+
+    const result = await fetchContent({ source: 'crossref', id: '10.48550/arXiv.2401.12345', toc_only: true }, new RateLimiter());
+
+    expect(result.content.text).toBe('');
+    expect(result.toc?.[0]).toEqual({ title: 'Abstract', level: 1, characters: 'Abstract\n\nWe study engines.'.length });
+    expect(result.missing_sections).toBeUndefined();
+  });
+
+  it('should return the whole text without the document model or outline by default', async () => {
+    mockArxivDoi();
+
+    const result = await fetchContent({ source: 'crossref', id: '10.48550/arXiv.2401.12345' }, new RateLimiter());
+
+    expect(result.content.text).toContain('Engines compute numbers.');
+    expect(result.content).not.toHaveProperty('document');
+    expect(result.toc).toBeUndefined();
+  });
+
+  it('should read the sections, appendix and references of a JATS record', async () => {
+    const driver = new OaiPmhDriver(new RateLimiter(), 'journal', {
+      baseUrl: 'https://repo.example.org/oai',
+      metadataPrefix: 'jats',
+      latestDays: 7,
+    });
+    nock('https://repo.example.org')
+      .get('/oai')
+      .query(true)
+      .reply(
+        200,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/"><GetRecord><record>
+  <header><identifier>oai:repo:1</identifier><datestamp>2024-03-05</datestamp></header>
+  <metadata><article xmlns="https://jats.nlm.nih.gov/ns/archiving/1.3/">
+    <front><article-meta><title-group><article-title>Radiation</article-title></title-group>
+      <abstract><p>Uranium glows.</p></abstract></article-meta></front>
+    <body>
+      <p>Preface.</p>
+      <sec><label>1.</label><title>Methods</title><p>Electrometer.</p>
+        <sec><title>Samples</title><p>Pitchblende.</p></sec></sec>
+      <sec><title>Results</title><p>It glows.</p></sec>
+    </body>
+    <back><app-group><app><title>Tables</title><p>Readings.</p></app></app-group>
+      <ref-list><ref><mixed-citation>Becquerel H. 1896.</mixed-citation></ref></ref-list></back>
+  </article></metadata>
+</record></GetRecord></OAI-PMH>`
+      );
+
+    const paper = await driver.fetchContent('oai:repo:1');
+    const document = paper.document!;
+
+    expect(document.title).toBe('Radiation');
+    expect(document.sections.map((section) => [section.number, section.title])).toEqual([
+      [undefined, ''],
+      ['1', 'Methods'],
+      [undefined, 'Results'],
+    ]);
+    expect(paper.text.slice(document.sections[1].start, document.sections[1].end)).toBe(
+      '1 Methods\n\nElectrometer.\n\nSamples\n\nPitchblende.'
+    );
+    expect(document.sections[1].sections?.[0]).toMatchObject({ title: 'Samples', level: 2 });
+    expect(paper.text.slice(document.abstract!.start, document.abstract!.end)).toBe('Abstract\n\nUranium glows.');
+    expect(document.appendix.map((section) => section.title)).toEqual(['Tables']);
+    expect(paper.text.endsWith('References\n\nBecquerel H. 1896.')).toBe(true);
+  });
+
+  it('should find the headings of PDF text and skip numbers out of sequence', () => {
+    const text = [
+      'Abstract',
+      'We measure things.',
+      '1 Introduction',
+      'Measuring is hard.',
+      '2 Methods',
+      'We used 3 Rulers',
+      '7 Rulers Were Bought',
+      '2.1 Calibration',
+      'Against a standard.',
+      '3 Results and Discussion',
+      'They agree.',
+      'References',
+      '[1] Someone. 2020.',
+      'Appendix A: Raw Data',
+      'Numbers.',
+    ].join('\n');
+
+    const document = outlineText(text)!;
+    const slice = (section: { start: number; end: number }) => text.slice(section.start, section.end);
+
+    expect(document.sections.map((section) => [section.number, section.title])).toEqual([
+      ['1', 'Introduction'],
+      ['2', 'Methods'],
+      ['3', 'Results and Discussion'],
+    ]);
+    expect(document.sections[1].sections?.map((section) => section.number)).toEqual(['2.1']);
+    expect(slice(document.sections[1])).toBe('2 Methods\nWe used 3 Rulers\n7 Rulers Were Bought\n2.1 Calibration\nAgainst a standard.');
+    expect(slice(document.abstract!)).toBe('Abstract\nWe measure things.');
+    expect(slice(document.references!)).toBe('References\n[1] Someone. 2020.');
+    expect(document.appendix[0]).toMatchObject({ number: 'A', title: 'Raw Data' });
+    expect(outlineText('Just one paragraph of text.\n1 Introduction')).toBeUndefined();
+  });
+
+  it('should match common section names, numbers and nested sections once', () => {
+    const { text, document } = layoutDocument({
+      abstract: ['Short.'],
+      sections: [
+        { title: 'Methodology', number: '2', paragraphs: ['How.'], sections: [{ title: 'Data', number: '2.1', paragraphs: ['What.'], sections: [] }] },
+        { title: 'Experiments', number: '3', paragraphs: ['Runs.'], sections: [] },
+      ],
+      appendix: [{ title: 'Extra', number: 'A', paragraphs: ['More.'], sections: [] }],
+      references: [],
+    });
+
+    expect(selectSections(text, document, ['2.1', 'Methods']).text).toBe('2 Methodology\n\nHow.\n\n2.1 Data\n\nWhat.');
+    expect(selectSections(text, document, ['results', 'appendix']).text).toBe('3 Experiments\n\nRuns.\n\nA Extra\n\nMore.');
+    expect(selectSections(text, document, ['references', 'abstract'])).toEqual({
+      text: 'Abstract\n\nShort.',
+      missing: ['references'],
+    });
+
+    const clipped = clipDocument(document, text.indexOf('What.') + 2);
+    expect(clipped.sections).toHaveLength(1);
+    expect(clipped.sections[0].sections?.[0].end).toBe(text.indexOf('What.') + 2);
+    expect(clipped.appendix).toEqual([]);
+  });
+});
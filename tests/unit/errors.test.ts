@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { z } from 'zod';
+import {
+  fromHttpError,
+  InvalidQueryError,
+  NotAvailableError,
+  NotFoundError,
+  RateLimitedError,
+  SourceDownError,
+  toMCPError,
+} from '../../src/core/errors.js';
+import { ArxivDriver } from '../../src/drivers/arxiv-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { fetchContent } from '../../src/tools/fetch-content.js';
+import { sourceRegistry } from '../../src/drivers/index.js';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers },
+  });
+}
+
+describe('fromHttpError', () => {
+  it('should map HTTP statuses to error classes', () => {
+    const rateLimited = fromHttpError(httpError(429, { 'retry-after': '30' }), 'Crossref API', 'crossref');
+
+    expect(rateLimited).toBeInstanceOf(RateLimitedError);
+    expect(rateLimited).toMatchObject({ code: 'RateLimited', retryAfter: 30, source: 'crossref' });
+    expect(fromHttpError(httpError(404), 'arXiv API')).toBeInstanceOf(NotFoundError);
+    expect(fromHttpError(httpError(400), 'arXiv API')).toBeInstanceOf(InvalidQueryError);
+    expect(fromHttpError(httpError(502), 'arXiv API')).toBeInstanceOf(SourceDownError);
+    expect(fromHttpError(Object.assign(new Error('timeout'), { code: 'ECONNABORTED' }), 'arXiv API').message).toBe(
+      'arXiv API request timed out'
+    );
+  });
+
+  it('should pass typed errors through unchanged', () => {
+    const error = new NotFoundError('Paper not found', { source: 'pmc' });
+
+    expect(fromHttpError(error, 'PMC API')).toBe(error);
+  });
+});
+
+describe('toMCPError', () => {
+  it('should build a payload with retryAfter and alternative sources', () => {
+    const error = new RateLimitedError('Rate limited. Retry after 3 seconds', { source: 'arxiv', retryAfter: 3 });
+
+    expect(toMCPError(error, ['openalex', 'europepmc'])).toEqual({
+      code: 'RateLimited',
+      message: 'Rate limited. Retry after 3 seconds',
+      source: 'arxiv',
+      retryAfter: 3,
+      suggestions: ['Try source openalex or europepmc instead'],
+    });
+  });
+
+  it('should not suggest other sources for invalid queries', () => {
+    const error = new InvalidQueryError('Invalid cursor', { suggestions: ['Pass next_cursor as returned'] });
+
+    expect(toMCPError(error, ['openalex']).suggestions).toEqual(['Pass next_cursor as returned']);
+  });
+
+  it('should classify untyped errors', () => {
+    const zodError = (() => {
+      try {
+        z.object({ count: z.number() }).parse({ count: 'x' });
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(toMCPError(zodError).code).toBe('InvalidQuery');
+    expect(toMCPError(new Error('Rate limited. Retry after 7 seconds'))).toMatchObject({
+      code: 'RateLimited',
+      retryAfter: 7,
+    });
+    expect(toMCPError(new Error('boom')).code).toBe('Internal');
+  });
+});
+
+describe('typed errors from drivers and tools', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should raise RateLimitedError with retryAfter when the local limit is hit', async () => {
+    const rateLimiter = new RateLimiter({ maxWait: 0 });
+    while (rateLimiter.checkRateLimit('arxiv')) {
+      // Drain the bucket
+    }
+
+    const error = await new ArxivDriver(rateLimiter).fetchContent('2401.12345').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.source).toBe('arxiv');
+    expect(error.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('should raise SourceDownError when the upstream API fails', async () => {
+    nock('https://export.arxiv.org').get('/api/query').query(true).reply(503);
+
+    await expect(new ArxivDriver(new RateLimiter()).fetchLatest('cs.AI', 5)).rejects.toBeInstanceOf(SourceDownError);
+  });
+
+  it('should raise NotAvailableError for capabilities a source lacks', () => {
+    expect(() => sourceRegistry.createDriver('arxiv', new RateLimiter(), 'topCited')).toThrow(NotAvailableError);
+  });
+
+  it('should raise InvalidQueryError for unrecognised identifiers', async () => {
+    await expect(fetchContent({ id: 'not an identifier' }, new RateLimiter())).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import nock from 'nock';
 import { fetchTopCited } from '../../src/tools/fetch-top-cited.js';
 import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { RateLimitedError } from '../../src/core/errors.js';
 
 describe('fetchTopCited', () => {
   let mockRateLimiter: RateLimiter;
@@ -94,7 +95,8 @@ describe('fetchTopCited', () => {
           filter: 'concepts.display_name.search:machine learning,publication_date:>2024-01-01',
           sort: 'cited_by_count:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -111,7 +113,13 @@ describe('fetchTopCited', () => {
         authors: ['Ashish Vaswani', 'Noam Shazeer'],
         date: '2017-12-06',
         pdf_url: 'https://arxiv.org/pdf/1706.03762.pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        doi: '10.48550/arxiv.1706.03762',
+        venue: 'arXiv',
+        citation_count: 50000,
+        subjects: ['Machine learning'],
+        source_url: 'https://arxiv.org/abs/1706.03762'
       });
       expect(result.content[1]).toEqual({
         id: 'W2963650142',
@@ -119,7 +127,13 @@ describe('fetchTopCited', () => {
         authors: ['Jacob Devlin'],
         date: '2018-10-11',
         pdf_url: 'https://arxiv.org/pdf/1810.04805.pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        doi: '10.48550/arxiv.1810.04805',
+        venue: 'arXiv',
+        citation_count: 35000,
+        subjects: ['Machine learning'],
+        source_url: 'https://arxiv.org/abs/1810.04805'
       });
     });
 
@@ -155,7 +169,8 @@ describe('fetchTopCited', () => {
           filter: 'concepts.id:https://openalex.org/C41008148,publication_date:>2023-01-01',
           sort: 'cited_by_count:desc',
           per_page: 5,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -293,7 +308,8 @@ describe('fetchTopCited', () => {
           filter: 'concepts.display_name.search:quantum computing,publication_date:>2024-06-01',
           sort: 'cited_by_count:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -319,7 +335,8 @@ describe('fetchTopCited', () => {
           filter: 'concepts.display_name.search:artificial intelligence,publication_date:>2020-01-01',
           sort: 'cited_by_count:desc',
           per_page: 50,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -338,7 +355,10 @@ describe('fetchTopCited', () => {
       // Mock rate limiter to return false (rate limited)
       const rateLimitedMock = {
         checkRateLimit: vi.fn().mockReturnValue(false),
-        getRetryAfter: vi.fn().mockReturnValue(60)
+        getRetryAfter: vi.fn().mockReturnValue(60),
+        acquire: vi.fn().mockRejectedValue(
+          new RateLimitedError('Rate limited. Retry after 60 seconds', { retryAfter: 60 })
+        )
       } as any;
 
       await expect(fetchTopCited({
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { HttpClient, HttpRequestTiming } from '../../src/core/http-client.js';
+
+const API = 'https://api.example.org';
+
+function client(options = {}) {
+  return new HttpClient({ baseDelayMs: 1, maxDelayMs: 2000, maxRetries: 3, ...options });
+}
+
+describe('HttpClient', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should retry 5xx responses with backoff until one succeeds', async () => {
+    nock(API).get('/works').reply(503).get('/works').reply(502).get('/works').reply(200, { ok: true });
+
+    const response = await client().get(`${API}/works`);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should give up after maxRetries', async () => {
+    nock(API).get('/works').times(3).reply(500);
+
+    const error = await client({ maxRetries: 2 }).get(`${API}/works`).catch((e) => e);
+
+    expect(error.response.status).toBe(500);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should not retry other 4xx responses', async () => {
+    nock(API).get('/works/W1').reply(404).get('/works/W1').reply(200, {});
+
+    await expect(client().get(`${API}/works/W1`)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(nock.pendingMocks()).toHaveLength(1);
+  });
+
+  it('should wait for Retry-After on 429', async () => {
+    nock(API).get('/works').reply(429, '', { 'Retry-After': '1' }).get('/works').reply(200, { ok: true });
+
+    const started = Date.now();
+    const response = await client().get(`${API}/works`);
+
+    expect(response.data).toEqual({ ok: true });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should throw a 429 whose Retry-After is longer than it will wait', async () => {
+    nock(API).get('/works').reply(429, '', { 'Retry-After': '120' });
+
+    await expect(client().get(`${API}/works`)).rejects.toMatchObject({ response: { status: 429 } });
+  });
+
+  it('should treat a 503 with Retry-After like a 429', async () => {
+    nock(API).get('/oai').reply(503, '', { 'Retry-After': '120' });
+
+    await expect(client().get(`${API}/oai`)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(nock.pendingMocks()).toHaveLength(0);
+  });
+
+  it('should send the configured User-Agent with the contact email', async () => {
+    nock(API, { reqheaders: { 'user-agent': 'TestAgent/1.0 (mailto:team@example.org)' } })
+      .get('/works')
+      .reply(200, {});
+
+    await client({ userAgent: 'TestAgent/1.0', contactEmail: 'team@example.org' }).get(`${API}/works`);
+
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should limit concurrent connections per host', async () => {
+    let active = 0;
+    let peak = 0;
+    nock(API)
+      .get('/works')
+      .times(5)
+      .reply(async () => {
+        peak = Math.max(peak, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        active--;
+        return [200, {}];
+      });
+
+    const http = client({ maxConnectionsPerHost: 2 });
+    await Promise.all(Array.from({ length: 5 }, () => http.get(`${API}/works`)));
+
+    expect(peak).toBe(2);
+  });
+
+  it('should report the timing of every attempt to hooks', async () => {
+    nock(API).get('/works').reply(503).get('/works').reply(200, {});
+    const timings: HttpRequestTiming[] = [];
+
+    const http = client();
+    const unsubscribe = http.onRequest((timing) => timings.push(timing));
+    await http.get(`${API}/works`);
+    unsubscribe();
+
+    expect(timings.map(({ attempt, status, willRetry }) => ({ attempt, status, willRetry }))).toEqual([
+      { attempt: 1, status: 503, willRetry: true },
+      { attempt: 2, status: 200, willRetry: false },
+    ]);
+    expect(timings[0]).toMatchObject({ method: 'GET', host: 'api.example.org' });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import nock from 'nock';
+import { IdentityResolver, parseIdentifier } from '../../src/resolvers/identity-resolver.js';
+import { sourceRegistry } from '../../src/drivers/index.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { RateLimitedError } from '../../src/core/errors.js';
+
+describe('parseIdentifier', () => {
+  it('should detect identifier types', () => {
+    expect(parseIdentifier('10.1038/S41586-020-2649-2')).toEqual({ type: 'doi', value: '10.1038/s41586-020-2649-2' });
+    expect(parseIdentifier('https://doi.org/10.1101/2020.01.01.111')).toEqual({ type: 'doi', value: '10.1101/2020.01.01.111' });
+    expect(parseIdentifier('2401.12345v2')).toEqual({ type: 'arxiv', value: '2401.12345' });
+    expect(parseIdentifier('arXiv:hep-th/9901001')).toEqual({ type: 'arxiv', value: 'hep-th/9901001' });
+    expect(parseIdentifier('https://arxiv.org/abs/2401.12345')).toEqual({ type: 'arxiv', value: '2401.12345' });
+    expect(parseIdentifier('10.48550/arXiv.2401.12345')).toEqual({ type: 'arxiv', value: '2401.12345' });
+    expect(parseIdentifier('pmc7095418')).toEqual({ type: 'pmcid', value: 'PMC7095418' });
+    expect(parseIdentifier('32015507')).toEqual({ type: 'pmid', value: '32015507' });
+    expect(parseIdentifier('https://openalex.org/W2741809807')).toEqual({ type: 'openalex', value: 'W2741809807' });
+    expect(parseIdentifier('core:12345678')).toEqual({ type: 'core', value: '12345678' });
+  });
+
+  it('should reject unrecognised identifiers', () => {
+    expect(() => parseIdentifier('not an id')).toThrow('Unrecognised identifier "not an id"');
+  });
+});
+
+describe('IdentityResolver', () => {
+  let resolver: IdentityResolver;
+
+  beforeEach(() => {
+    resolver = new IdentityResolver(new RateLimiter());
+    vi.clearAllMocks();
+    nock.cleanAll();
+  });
+
+  it('should follow arXiv DOI and OpenAlex links to PubMed identifiers', async () => {
+    nock('https://api.openalex.org')
+      .get('/works/doi:10.48550/arxiv.2401.12345')
+      .query(true)
+      .reply(200, {
+        id: 'https://openalex.org/W123',
+        title: 'A Paper',
+        doi: 'https://doi.org/10.48550/arxiv.2401.12345',
+        ids: { openalex: 'https://openalex.org/W123', doi: 'https://doi.org/10.48550/arxiv.2401.12345' },
+        locations: [{ landing_page_url: 'https://arxiv.org/abs/2401.12345v1' }],
+      });
+
+    nock('https://export.arxiv.org')
+      .get('/api/query')
+      .query({ id_list: '2401.12345', max_results: 1 })
+      .reply(200, `<?xml version="1.0"?>
+        <feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+          <entry>
+            <id>http://arxiv.org/abs/2401.12345v1</id>
+            <title>A Paper</title>
+            <arxiv:doi xmlns:arxiv="http://arxiv.org/schemas/atom">10.1000/JOURNAL.1</arxiv:doi>
+          </entry>
+        </feed>`);
+
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/search')
+      .query((params) => params.query === 'DOI:"10.1000/journal.1"')
+      .reply(200, { resultList: { result: [{ pmid: '999', pmcid: 'PMC888', doi: '10.1000/journal.1' }] } });
+
+    const identity = await resolver.resolve('2401.12345');
+
+    expect(identity.inputType).toBe('arxiv');
+    expect(identity.title).toBe('A Paper');
+    expect(identity.identifiers).toEqual({
+      arxiv: '2401.12345',
+      openalex: 'W123',
+      doi: '10.1000/journal.1',
+      pmid: '999',
+      pmcid: 'PMC888',
+    });
+    expect(identity.lookups.map((lookup) => [lookup.service, lookup.status])).toEqual([
+      ['openalex', 'found'],
+      ['arxiv', 'found'],
+      ['europepmc', 'found'],
+    ]);
+
+    expect(sourceRegistry.fullTextCandidates(identity.identifiers)).toEqual([
+      { source: 'arxiv', id: '2401.12345' },
+      { source: 'pmc', id: 'PMC888' },
+      { source: 'europepmc', id: 'PMC888' },
+      { source: 'openalex', id: 'W123' },
+      { source: 'semanticscholar', id: 'DOI:10.1000/journal.1' },
+      { source: 'pubmed', id: '999' },
+      { source: 'inspire', id: 'arXiv:2401.12345' },
+      { source: 'crossref', id: '10.1000/journal.1' },
+    ]);
+  });
+
+  it('should link a bioRxiv preprint to its published DOI', async () => {
+    nock('https://api.openalex.org')
+      .get('/works/doi:10.1101/2020.01.01.111')
+      .query(true)
+      .reply(404, { error: 'Not found' });
+
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/search')
+      .query(true)
+      .reply(200, { resultList: { result: [] } });
+
+    nock('https://api.biorxiv.org')
+      .get('/details/biorxiv/10.1101/2020.01.01.111')
+      .reply(200, {
+        collection: [
+          { doi: '10.1101/2020.01.01.111', title: 'Preprint', published: 'NA' },
+          { doi: '10.1101/2020.01.01.111', title: 'Preprint v2', published: '10.1016/j.cell.2021.01.001' },
+        ],
+      });
+
+    const identity = await resolver.resolve('10.1101/2020.01.01.111');
+
+    expect(identity.identifiers).toEqual({
+      doi: '10.1016/j.cell.2021.01.001',
+      preprint_doi: '10.1101/2020.01.01.111',
+    });
+    expect(identity.lookups).toEqual([
+      { service: 'openalex', query: 'doi:10.1101/2020.01.01.111', status: 'not_found' },
+      { service: 'europepmc', query: 'DOI:"10.1101/2020.01.01.111"', status: 'not_found' },
+      { service: 'biorxiv', query: '10.1101/2020.01.01.111', status: 'found' },
+    ]);
+  });
+
+  it('should report failed and rate-limited lookups without throwing', async () => {
+    const rateLimitedMock = {
+      acquire: vi.fn(async (source: string) => {
+        if (source === 'europepmc') throw new RateLimitedError('Rate limited', { source, retryAfter: 30 });
+        return () => {};
+      }),
+    } as any;
+
+    nock('https://api.openalex.org')
+      .get('/works/pmid:32015507')
+      .query(true)
+      .reply(500, 'Internal Server Error');
+
+    const identity = await new IdentityResolver(rateLimitedMock).resolve('32015507');
+
+    expect(identity.identifiers).toEqual({ pmid: '32015507' });
+    expect(identity.lookups).toEqual([
+      expect.objectContaining({ service: 'openalex', status: 'failed' }),
+      { service: 'europepmc', query: 'EXT_ID:32015507 AND SRC:MED', status: 'rate_limited' },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { InspireDriver } from '../../src/drivers/inspire-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+import { mergeRankedResults } from '../../src/core/result-merger.js';
+
+const API = 'https://inspirehep.net';
+
+const record = {
+  id: '1424100',
+  metadata: {
+    control_number: 1424100,
+    titles: [{ title: 'Observation of Gravitational Waves from a Binary Black Hole Merger' }],
+    abstracts: [{ value: 'On September 14, 2015 at 09:50:45 UTC the two detectors...', source: 'APS' }],
+    collaborations: [{ value: 'LIGO Scientific' }, { value: 'Virgo' }],
+    authors: [
+      {
+        full_name: 'Abbott, B.P.',
+        affiliations: [{ value: 'Caltech' }],
+        ids: [{ schema: 'ORCID', value: '0000-0002-1825-0097' }],
+      },
+      { full_name: 'Abbott, R.' },
+    ],
+    arxiv_eprints: [{ value: '1602.03837', categories: ['gr-qc', 'astro-ph.HE'] }],
+    dois: [{ value: '10.1103/PhysRevLett.116.061102' }],
+    publication_info: [{ journal_title: 'Phys.Rev.Lett.', journal_volume: '116', year: 2016 }],
+    citation_count: 11000,
+    inspire_categories: [{ term: 'Gravitation and Cosmology' }, { term: 'Astrophysics' }],
+    document_type: ['article'],
+    earliest_date: '2016-02-11',
+    license: [{ license: 'CC BY 3.0', url: 'https://creativecommons.org/licenses/by/3.0/' }],
+  },
+};
+
+describe('InspireDriver', () => {
+  let driver: InspireDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new InspireDriver(new RateLimiter());
+  });
+
+  it('should pass SPIRES-style queries through and map records', async () => {
+    nock(API)
+      .get('/api/literature')
+      .query((query) => query.q === 'find a abbott and topcite 500+' && query.sort === 'mostcited' && query.size === '1')
+      .reply(200, { hits: { hits: [record], total: 42 } });
+
+    const page = await driver.searchPapersPage('find a abbott and topcite 500+', 'all', 1, 'citations');
+
+    expect(page.next).toEqual({ offset: 1 });
+    expect(page.papers[0]).toMatchObject({
+      id: '1424100',
+      title: 'Observation of Gravitational Waves from a Binary Black Hole Merger',
+      authors: ['LIGO Scientific Collaboration', 'Virgo Collaboration', 'B.P. Abbott', 'R. Abbott'],
+      date: '2016-02-11',
+      pdf_url: 'https://arxiv.org/pdf/1602.03837',
+      doi: '10.1103/physrevlett.116.061102',
+      arxiv_id: '1602.03837',
+      venue: 'Phys.Rev.Lett. 116',
+      citation_count: 11000,
+      license: 'cc-by',
+      subjects: ['Gravitation and Cosmology', 'Astrophysics', 'gr-qc', 'astro-ph.HE'],
+      publication_types: ['article'],
+      source_url: 'https://inspirehep.net/literature/1424100',
+    });
+    expect(page.papers[0].author_details?.[2]).toEqual({
+      name: 'B.P. Abbott',
+      affiliations: ['Caltech'],
+      orcid: '0000-0002-1825-0097',
+    });
+  });
+
+  it('should restrict plain queries to a field with INSPIRE keywords', async () => {
+    nock(API)
+      .get('/api/literature')
+      .query((query) => query.q === 't gravitational waves' && query.sort === undefined)
+      .reply(200, { hits: { hits: [], total: 0 } });
+
+    const page = await driver.searchPapersPage('gravitational waves', 'title', 10, 'relevance');
+
+    expect(page).toEqual({ papers: [], next: undefined });
+  });
+
+  it('should fetch top cited papers in a subject since a date', async () => {
+    nock(API)
+      .get('/api/literature')
+      .query(
+        (query) =>
+          query.subject === 'Theory-HEP' && query.sort === 'mostcited' && String(query.q).startsWith('de 2024-01-01->')
+      )
+      .reply(200, { hits: { hits: [record], total: 1 } });
+
+    const papers = await driver.fetchTopCited('theory-hep', '2024-01-01', 5);
+
+    expect(papers.map((paper) => paper.id)).toEqual(['1424100']);
+    await expect(driver.fetchLatest('hep-th', 5)).rejects.toBeInstanceOf(InvalidQueryError);
+  });
+
+  it('should look up records by arXiv ID and report unknown ones as NotFound', async () => {
+    nock(API).get('/api/arxiv/1602.03837').query(true).reply(200, record);
+    nock('https://arxiv.org')
+      .get('/html/1602.03837')
+      .reply(200, `<html><body><article class="ltx_document"><p class="ltx_p">${'Strain data. '.repeat(100)}</p></article></body></html>`);
+    nock(API).get('/api/doi/10.1234/missing').query(true).reply(404, { message: 'PID does not exist.' });
+
+    const paper = await driver.fetchContent('arXiv:1602.03837v2');
+
+    expect(paper.id).toBe('1424100');
+    expect(paper.text).toContain('Strain data.');
+    await expect(driver.fetchContent('10.1234/missing')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should let search_all merge INSPIRE and arXiv records of the same eprint', () => {
+    const common = { authors: [], date: '2016-02-11', text: '', arxiv_id: '1602.03837' };
+    const inspire = { ...common, id: '1424100', title: 'Observation of Gravitational Waves', citation_count: 11000 };
+    const arxiv = { ...common, id: '1602.03837v2', title: 'Observation of $\\mathrm{Gravitational}$ Waves' };
+
+    const merged = mergeRankedResults(
+      [
+        { source: 'inspire', papers: [inspire] },
+        { source: 'arxiv', papers: [arxiv] },
+      ],
+      { sortBy: 'relevance', limit: 10 }
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].foundIn.map((hit) => hit.source)).toEqual(['inspire', 'arxiv']);
+  });
+});
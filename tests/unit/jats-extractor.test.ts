@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { PMCDriver } from '../../src/drivers/pmc-driver.js';
+import { EuropePMCDriver } from '../../src/drivers/europepmc-driver.js';
+import { BioRxivDriver } from '../../src/drivers/biorxiv-driver.js';
+import { JatsExtractor } from '../../src/extractors/jats-extractor.js';
+import { getConfig } from '../../src/config/config.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const article = (body: string, extra = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<article xmlns:xlink="http://www.w3.org/1999/xlink">
+  <front><article-meta>
+    <title-group><article-title>Gut Microbes and Mood</article-title></title-group>
+    <abstract><p>Microbes talk to the brain.</p></abstract>
+    <funding-group>
+      <award-group><funding-source>National Institutes of Health</funding-source><award-id>R01-123</award-id><award-id>R01-456</award-id></award-group>
+      <award-group><funding-source>Wellcome Trust</funding-source></award-group>
+    </funding-group>
+  </article-meta></front>
+  ${body}
+  <back>
+    <ack><p>We thank the mice.</p></ack>
+    <ref-list><ref id="r1"><element-citation><person-group><name><surname>Cryan</surname><given-names>JF</given-names></name></person-group>
+      <article-title>The microbiota-gut-brain axis</article-title><source>Physiol Rev</source><year>2019</year></element-citation></ref></ref-list>
+  </back>
+  ${extra}
+</article>`;
+
+const body = `<body>
+  <sec><label>1.</label><title>Methods</title>
+    <p>We sequenced stool.<fig id="f1"><label>Figure 1</label><caption><title>Study design.</title><p>Mice were sampled weekly.</p></caption><graphic xlink:href="f1.jpg"/></fig></p>
+    <table-wrap id="t1"><label>Table 1</label><caption><p>Cohort characteristics</p></caption><table><tr><td>n</td><td>40</td></tr></table></table-wrap>
+  </sec>
+  <sec><label>2.</label><title>Results</title><p>Mood improved.</p></sec>
+</body>`;
+
+describe('JatsExtractor', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should read PMC articles from efetch JATS with captions, funding and references', async () => {
+    nock('https://eutils.ncbi.nlm.nih.gov')
+      .get('/entrez/eutils/esummary.fcgi')
+      .query(true)
+      .reply(200, { result: { '7000001': { uid: '7000001', pmcid: 'PMC7000001', title: 'Gut Microbes and Mood', authors: [], pubdate: '2024/02/01', epubdate: '' } } });
+    nock('https://eutils.ncbi.nlm.nih.gov')
+      .get('/entrez/eutils/efetch.fcgi')
+      .query((query) => query.db === 'pmc' && query.id === '7000001' && query.retmode === 'xml')
+      .reply(200, `<pmc-articleset>${article(body).replace(/<\?xml[^>]*\?>/, '')}</pmc-articleset>`);
+
+    const paper = await new PMCDriver(new RateLimiter()).fetchContent('PMC7000001');
+    const document = paper.document!;
+
+    expect(paper.text).toContain('1 Methods\n\nWe sequenced stool.\n\nFigure 1 Study design. Mice were sampled weekly.\n\nTable 1 Cohort characteristics');
+    expect(paper.text).not.toContain('f1.jpg');
+    expect(document.sections.map((section) => section.title)).toEqual(['Methods', 'Results', 'Acknowledgements', 'Funding']);
+    expect(document.captions).toEqual([
+      { type: 'figure', label: 'Figure 1', caption: 'Study design. Mice were sampled weekly.' },
+      { type: 'table', label: 'Table 1', caption: 'Cohort characteristics' },
+    ]);
+    expect(document.funding).toEqual(['National Institutes of Health (R01-123, R01-456)', 'Wellcome Trust']);
+    expect(document.bibliography?.[0]).toMatchObject({ authors: ['JF Cryan'], title: 'The microbiota-gut-brain axis', year: 2019 });
+    expect(paper.textExtractionFailed).toBeUndefined();
+  });
+
+  it('should fall back to the PMC article page when the JATS record has no body', async () => {
+    nock('https://eutils.ncbi.nlm.nih.gov')
+      .get('/entrez/eutils/esummary.fcgi')
+      .query(true)
+      .reply(200, { result: { '7000002': { uid: '7000002', pmcid: 'PMC7000002', title: 'Withheld', authors: [], pubdate: '2024/02/01', epubdate: '' } } });
+    nock('https://eutils.ncbi.nlm.nih.gov')
+      .get('/entrez/eutils/efetch.fcgi')
+      .query(true)
+      .reply(200, `<pmc-articleset><article><front><article-meta><title-group><article-title>Withheld</article-title></title-group></article-meta></front>
+        <!--The publisher of this article does not allow downloading of the full text in XML form.--></article></pmc-articleset>`);
+    nock('https://www.ncbi.nlm.nih.gov')
+      .get('/pmc/articles/PMC7000002/')
+      .reply(200, '<html><body><article><p>Text from the article page.</p></article></body></html>');
+
+    const paper = await new PMCDriver(new RateLimiter()).fetchContent('PMC7000002');
+
+    expect(paper.text).toBe('Text from the article page.');
+    expect(paper.document).toBeUndefined();
+  });
+
+  it('should read Europe PMC open access articles from fullTextXML', async () => {
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/search')
+      .query(true)
+      .reply(200, {
+        resultList: { result: [{ id: '7000003', source: 'PMC', pmcid: 'PMC7000003', title: 'Gut Microbes and Mood', pubYear: '2024' }] },
+      });
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/PMC7000003/fullTextXML')
+      .reply(200, article(body));
+
+    const paper = await new EuropePMCDriver(new RateLimiter()).fetchContent('PMC7000003');
+
+    expect(paper.text.startsWith('Gut Microbes and Mood\n\nAbstract\n\nMicrobes talk to the brain.\n\n1 Methods')).toBe(true);
+    expect(paper.document?.sections[0]).toMatchObject({ number: '1', title: 'Methods' });
+    expect(paper.text).toContain('Funding\n\nNational Institutes of Health (R01-123, R01-456)\n\nWellcome Trust');
+  });
+
+  it('should read bioRxiv preprints from their JATS source file', async () => {
+    nock('https://api.biorxiv.org')
+      .get('/details/doi/10.1101/2024.02.01.578001')
+      .query(true)
+      .reply(200, {
+        collection: [
+          {
+            doi: '10.1101/2024.02.01.578001',
+            title: 'Gut Microbes and Mood',
+            authors: 'Doe, J.',
+            date: '2024-02-01',
+            category: 'neuroscience',
+            jatsxml: 'https://www.biorxiv.org/content/early/2024/02/01/2024.02.01.578001.source.xml',
+            abstract: 'Microbes talk to the brain.',
+            server: 'biorxiv',
+          },
+        ],
+      });
+    nock('https://www.biorxiv.org')
+      .get('/content/early/2024/02/01/2024.02.01.578001.source.xml')
+      .reply(
+        200,
+        article(`<body><sec><title>Results</title>
+          <fig-group><fig><label>Figure 1</label><caption><p>Weights.</p></caption></fig><fig><label>Figure 2</label><caption><p>Moods.</p></caption></fig></fig-group>
+        </sec></body>`)
+      );
+
+    const paper = await new BioRxivDriver(new RateLimiter()).fetchContent('10.1101/2024.02.01.578001');
+
+    expect(paper.text).toContain('Results\n\nFigure 1 Weights.\n\nFigure 2 Moods.');
+    expect(paper.document?.captions?.map((caption) => caption.label)).toEqual(['Figure 1', 'Figure 2']);
+  });
+
+  it('should place collected floats after the body and read funding statements', () => {
+    const extractor = new JatsExtractor(getConfig().extraction);
+    const xml = article(
+      '<body><sec><title>Results</title><p>See Figure 1.</p></sec></body>',
+      '<floats-group><fig><label>Figure 1.</label><caption><p>A gut.</p></caption></fig></floats-group>'
+    ).replace(/<funding-group>[\s\S]*<\/funding-group>/, '<funding-group><funding-statement>Funded by the Mood Foundation.</funding-statement></funding-group>');
+
+    const result = extractor.processJats(xml);
+
+    expect(result.source).toBe('jats');
+    expect(result.document?.sections.map((section) => section.title)).toEqual(['Results', 'Figures and Tables', 'Acknowledgements', 'Funding']);
+    expect(result.document?.captions).toEqual([{ type: 'figure', label: 'Figure 1', caption: 'A gut.' }]);
+    expect(result.document?.funding).toEqual(['Funded by the Mood Foundation.']);
+    expect(extractor.processJats('<article><front/></article>').extractionSuccess).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { HtmlExtractor } from '../../src/extractors/html-extractor.js';
+import { JatsExtractor } from '../../src/extractors/jats-extractor.js';
+import { getConfig } from '../../src/config/config.js';
+
+const latexml = `<html><body><article class="ltx_document">
+  <h1 class="ltx_title ltx_title_document">Energy</h1>
+  <div class="ltx_abstract"><p class="ltx_p">We derive <math id="m1" class="ltx_Math" alttext="E=mc^{2}" display="inline"><semantics><mrow><mi>E</mi><mo>=</mo><mrow><mi>m</mi><msup><mi>c</mi><mn>2</mn></msup></mrow></mrow></semantics></math>.</p></div>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">1 </span>Theory</h2>
+    <div class="ltx_para"><p class="ltx_p">The energy is</p>
+      <table class="ltx_equation ltx_eqn_table" id="S1.E1"><tbody><tr class="ltx_equation ltx_eqn_row">
+        <td class="ltx_eqn_cell"><math class="ltx_Math" alttext="\\displaystyle E=\\frac{p^{2}}{2m}" display="block"><mi>E</mi><mo>=</mo><mfrac><msup><mi>p</mi><mn>2</mn></msup><mrow><mn>2</mn><mi>m</mi></mrow></mfrac></math></td>
+        <td class="ltx_eqn_cell ltx_eqn_eqno"><span class="ltx_tag ltx_tag_equation">(1)</span></td>
+      </tr></tbody></table>
+      <p class="ltx_p">for a free particle, where <math class="ltx_Math" alttext="p&lt;mc" display="inline"><mi>p</mi><mo>&lt;</mo><mi>m</mi><mi>c</mi></math>.</p></div>
+    <div class="ltx_para"><table class="ltx_equationgroup ltx_eqn_align ltx_eqn_table" id="S1.E2">
+      <tbody id="S1.E2X"><tr class="ltx_equation ltx_eqn_row">
+        <td class="ltx_eqn_cell"><math alttext="\\displaystyle a" display="inline"><mi>a</mi></math></td>
+        <td class="ltx_eqn_cell"><math alttext="\\displaystyle=b+c" display="inline"><mo>=</mo><mi>b</mi></math></td>
+        <td class="ltx_eqn_cell ltx_eqn_eqno"><span class="ltx_tag ltx_tag_equation">(2)</span></td></tr></tbody>
+      <tbody id="S1.E3X"><tr class="ltx_equation ltx_eqn_row">
+        <td class="ltx_eqn_cell"><math alttext="\\displaystyle=d" display="inline"><mo>=</mo><mi>d</mi></math></td>
+        <td class="ltx_eqn_cell ltx_eqn_eqno"><span class="ltx_tag ltx_tag_equation">(3)</span></td></tr></tbody>
+    </table></div>
+  </section>
+</article></body></html>`;
+
+describe('Math extraction', () => {
+  let extractor: HtmlExtractor;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    extractor = new HtmlExtractor(getConfig().extraction);
+  });
+
+  it('should turn LaTeXML math into inline and numbered display LaTeX', async () => {
+    nock('https://arxiv.org').get('/html/2403.00001').reply(200, latexml);
+
+    const result = await extractor.extractText('https://arxiv.org/html/2403.00001');
+
+    expect(result.text).toContain('Abstract\n\nWe derive $E=mc^{2}$.');
+    expect(result.text).toContain(
+      '1 Theory\n\nThe energy is $$E=\\frac{p^{2}}{2m}$$ (1) for a free particle, where $p<mc$.\n\n$$a =b+c$$ (2) $$=d$$ (3)'
+    );
+    expect(result.text).not.toContain('Emc2');
+  });
+
+  it('should keep math in pages without LaTeXML sections', async () => {
+    nock('https://journal.example.org')
+      .get('/article/1')
+      .reply(
+        200,
+        `<html><body><article><p>The loss <math alttext="\\mathcal{L}=\\sum_{i}x_{i}"><mi>L</mi></math> is minimised.</p>
+          <p>Display: <math display="block"><semantics><mi>y</mi><annotation encoding="application/x-tex">y=\\alpha x</annotation></semantics></math></p></article></body></html>`
+      );
+
+    const result = await extractor.extractText('https://journal.example.org/article/1');
+
+    expect(result.text).toContain('The loss $\\mathcal{L}=\\sum_{i}x_{i}$ is minimised.');
+    expect(result.text).toContain('Display: $$y=\\alpha x$$');
+  });
+
+  it('should read JATS tex-math from the LaTeX documents PMC wraps it in', () => {
+    const result = new JatsExtractor(getConfig().extraction).processJats(`<article xmlns:mml="http://www.w3.org/1998/Math/MathML">
+      <body><sec><title>Model</title>
+        <p>Growth follows</p>
+        <disp-formula id="eq1"><label>(1)</label><alternatives>
+          <tex-math id="M1">\\documentclass[12pt]{minimal}\\usepackage{amsmath}\\begin{document}$$N(t)=N_0 e^{rt}$$\\end{document}</tex-math>
+          <mml:math><mml:mi>N</mml:mi></mml:math><graphic xlink:href="eq1.gif"/></alternatives></disp-formula>
+        <p>with rate <inline-formula><tex-math>\\documentclass{minimal}\\begin{document}$r &gt; 0$\\end{document}</tex-math></inline-formula>.</p>
+      </sec></body></article>`);
+
+    expect(result.text).toBe('Model\n\nGrowth follows\n\n$$N(t)=N_0 e^{rt}$$ (1)\n\nwith rate $r > 0$.');
+  });
+
+  it('should render JATS MathML without TeX as approximate LaTeX', () => {
+    const result = new JatsExtractor(getConfig().extraction).processJats(`<article xmlns:mml="http://www.w3.org/1998/Math/MathML">
+      <body><p>The ratio <inline-formula><mml:math><mml:mfrac><mml:msup><mml:mi>x</mml:mi><mml:mn>2</mml:mn></mml:msup><mml:msqrt><mml:mi>y</mml:mi></mml:msqrt></mml:mfrac></mml:math></inline-formula>
+        and <mml:math><mml:msubsup><mml:mi>z</mml:mi><mml:mi>i</mml:mi><mml:mn>3</mml:mn></mml:msubsup><mml:mtext>max</mml:mtext></mml:math>.</p></body></article>`);
+
+    expect(result.text).toBe('The ratio $\\frac{x^{2}}{\\sqrt{y}}$ and $z_{i}^{3} \\text{max}$.');
+  });
+
+  it('should keep display formulas between paragraphs as blocks of their own', () => {
+    const result = new JatsExtractor(getConfig().extraction).processJats(`<article>
+      <front><article-meta><abstract><p>We show <inline-formula><tex-math>a=b</tex-math></inline-formula>.</p></abstract></article-meta></front>
+      <body><p>Proof.</p><disp-formula><tex-math>\\[ b=a \\]</tex-math></disp-formula></body></article>`);
+
+    expect(result.text).toBe('Abstract\n\nWe show $a=b$.\n\nProof.\n\n$$b=a$$');
+  });
+});
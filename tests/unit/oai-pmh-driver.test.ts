@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { OaiPmhDriver } from '../../src/drivers/oai-pmh-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+import { loadConfig } from '../../src/config/config.js';
+import { sourceRegistry, registerOaiPmhSources } from '../../src/drivers/index.js';
+
+// Local stand-in for a repository's OAI-PMH endpoint
+const REPO = 'https://repo.example.org';
+
+const oai = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/">
+  <responseDate>2024-03-08T12:00:00Z</responseDate>
+  ${body}
+</OAI-PMH>`;
+
+const dcRecord = (id: string, title: string) => `<record>
+  <header><identifier>${id}</identifier><datestamp>2024-03-05</datestamp><setSpec>physics</setSpec></header>
+  <metadata>
+    <oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:title>${title}</dc:title>
+      <dc:creator>Curie, Marie</dc:creator>
+      <dc:creator>Pierre Curie</dc:creator>
+      <dc:date>2024-03-01</dc:date>
+      <dc:description>On the radiation of uranium salts.</dc:description>
+      <dc:identifier>https://repo.example.org/record/${id.split(':').pop()}</dc:identifier>
+      <dc:identifier>https://repo.example.org/files/${id.split(':').pop()}.pdf</dc:identifier>
+      <dc:identifier>info:doi/10.1234/radio.2024.1</dc:identifier>
+      <dc:subject>Radioactivity</dc:subject>
+      <dc:type>info:eu-repo/semantics/article</dc:type>
+      <dc:rights>https://creativecommons.org/licenses/by/4.0/</dc:rights>
+      <dc:language>fre</dc:language>
+    </oai_dc:dc>
+  </metadata>
+</record>`;
+
+const deletedRecord = `<record>
+  <header status="deleted"><identifier>oai:repo:gone</identifier><datestamp>2024-03-04</datestamp></header>
+</record>`;
+
+const arxivRecord = `<record>
+  <header><identifier>oai:arXiv.org:2401.12345</identifier><datestamp>2024-01-24</datestamp></header>
+  <metadata>
+    <arXiv xmlns="http://arxiv.org/OAI/arXiv/">
+      <id>2401.12345</id>
+      <created>2024-01-22</created>
+      <authors>
+        <author><keyname>Lovelace</keyname><forenames>Ada</forenames><affiliation>Analytical Society</affiliation></author>
+        <author><keyname>Babbage</keyname><forenames>Charles</forenames></author>
+      </authors>
+      <title>A Study of Engines</title>
+      <categories>cs.LG stat.ML</categories>
+      <license>http://creativecommons.org/licenses/by/4.0/</license>
+      <abstract>  We study engines.
+      </abstract>
+    </arXiv>
+  </metadata>
+</record>`;
+
+const repository = { baseUrl: `${REPO}/oai`, metadataPrefix: 'oai_dc' as const, latestDays: 7 };
+
+describe('OaiPmhDriver', () => {
+  let driver: OaiPmhDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new OaiPmhDriver(new RateLimiter(), 'hal', repository);
+  });
+
+  afterEach(() => {
+    sourceRegistry.unregister('hal');
+  });
+
+  it('should list sets across resumption tokens', async () => {
+    nock(REPO)
+      .get('/oai')
+      .query({ verb: 'ListSets' })
+      .reply(
+        200,
+        oai(`<ListSets>
+          <set><setSpec>physics</setSpec><setName>Physics</setName></set>
+          <resumptionToken completeListSize="2">sets-2</resumptionToken>
+        </ListSets>`)
+      );
+    nock(REPO)
+      .get('/oai')
+      .query({ verb: 'ListSets', resumptionToken: 'sets-2' })
+      .reply(200, oai('<ListSets><set><setSpec>math</setSpec><setName>Mathematics</setName></set><resumptionToken/></ListSets>'));
+
+    const categories = await driver.listCategories();
+
+    expect(categories).toEqual([
+      { id: 'physics', name: 'Physics' },
+      { id: 'math', name: 'Mathematics' },
+    ]);
+  });
+
+  it('should harvest recent Dublin Core records and resume within the pinned window', async () => {
+    nock(REPO)
+      .get('/oai')
+      .query(
+        (query) =>
+          query.verb === 'ListRecords' &&
+          query.metadataPrefix === 'oai_dc' &&
+          query.set === 'physics' &&
+          /^\d{4}-\d{2}-\d{2}$/.test(String(query.from)) &&
+          /^\d{4}-\d{2}-\d{2}$/.test(String(query.until))
+      )
+      .reply(
+        200,
+        oai(`<ListRecords>${dcRecord('oai:repo:1', 'Radiation I')}${deletedRecord}
+          <resumptionToken>page-2</resumptionToken></ListRecords>`)
+      );
+    nock(REPO)
+      .get('/oai')
+      .query({ verb: 'ListRecords', resumptionToken: 'page-2' })
+      .reply(
+        200,
+        oai(`<ListRecords>${dcRecord('oai:repo:2', 'Radiation II')}${dcRecord('oai:repo:3', 'Radiation III')}
+          <resumptionToken>page-3</resumptionToken></ListRecords>`)
+      );
+
+    const page = await driver.fetchLatestPage('physics', 2);
+
+    expect(page.papers.map((paper) => paper.id)).toEqual(['oai:repo:1', 'oai:repo:2']);
+    expect(page.next).toMatchObject({ token: 'page-2', skip: 1 });
+    expect(page.papers[0]).toMatchObject({
+      title: 'Radiation I',
+      authors: ['Marie Curie', 'Pierre Curie'],
+      date: '2024-03-01',
+      pdf_url: 'https://repo.example.org/files/1.pdf',
+      abstract: 'On the radiation of uranium salts.',
+      doi: '10.1234/radio.2024.1',
+      open_access: true,
+      license: 'cc-by',
+      subjects: ['Radioactivity', 'physics'],
+      publication_types: ['article'],
+      language: 'fr',
+      source_url: 'https://repo.example.org/record/1',
+    });
+  });
+
+  it('should fetch an arXiv-format record with text from the eprint', async () => {
+    driver = new OaiPmhDriver(new RateLimiter(), 'arxiv-oai', { ...repository, metadataPrefix: 'arXiv' });
+    nock(REPO)
+      .get('/oai')
+      .query({ verb: 'GetRecord', identifier: 'oai:arXiv.org:2401.12345', metadataPrefix: 'arXiv' })
+      .reply(200, oai(`<GetRecord>${arxivRecord}</GetRecord>`));
+    nock('https://arxiv.org')
+      .get('/html/2401.12345')
+      .reply(200, '<html><body><article class="ltx_document"><p class="ltx_p">Engines compute numbers.</p></article></body></html>');
+
+    const paper = await driver.fetchContent('oai:arXiv.org:2401.12345');
+
+    expect(paper).toMatchObject({
+      authors: ['Ada Lovelace', 'Charles Babbage'],
+      date: '2024-01-22',
+      pdf_url: 'https://arxiv.org/pdf/2401.12345',
+      abstract: 'We study engines.',
+      arxiv_id: '2401.12345',
+      venue: 'arXiv',
+      subjects: ['cs.LG', 'stat.ML'],
+    });
+    expect(paper.author_details?.[0]).toEqual({ name: 'Ada Lovelace', affiliations: ['Analytical Society'] });
+    expect(paper.text).toContain('Engines compute numbers.');
+  });
+
+  it('should map OAI-PMH errors to NotFound and InvalidQuery', async () => {
+    nock(REPO)
+      .get('/oai')
+      .query((query) => query.verb === 'GetRecord')
+      .reply(200, oai('<error code="idDoesNotExist">No such record</error>'));
+    nock(REPO)
+      .get('/oai')
+      .query((query) => query.verb === 'ListRecords')
+      .reply(200, oai('<error code="badArgument">Unknown set</error>'));
+    nock(REPO)
+      .get('/oai')
+      .query((query) => query.verb === 'ListRecords')
+      .reply(200, oai('<error code="noRecordsMatch">Nothing new</error>'));
+
+    await expect(driver.fetchContent('oai:repo:missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(driver.fetchLatest('nope', 5)).rejects.toBeInstanceOf(InvalidQueryError);
+    expect(await driver.fetchLatestPage('physics', 5)).toEqual({ papers: [], next: undefined });
+  });
+
+  it('should register each configured repository as a named source', () => {
+    const config = loadConfig({
+      env: {},
+      overrides: { sources: { oaiPmh: { hal: { baseUrl: 'https://api.archives-ouvertes.fr/oai/hal', name: 'HAL' } } } },
+    });
+
+    registerOaiPmhSources(config.sources.oaiPmh);
+
+    expect(sourceRegistry.get('hal')).toMatchObject({
+      name: 'HAL',
+      description: 'OAI-PMH repository at api.archives-ouvertes.fr',
+      capabilities: ['latest', 'content', 'categories'],
+    });
+    expect(sourceRegistry.has('hal', 'search')).toBe(false);
+    expect(() => loadConfig({ env: {}, overrides: { sources: { oaiPmh: { HAL: { baseUrl: 'x' } } } } })).toThrow();
+  });
+
+  it('should throttle registered repositories like other sources', () => {
+    const config = loadConfig({ env: {}, overrides: { sources: { oaiPmh: { zenodo: { baseUrl: 'https://zenodo.org/oai2d' } } } } });
+    registerOaiPmhSources(config.sources.oaiPmh);
+    const limiter = new RateLimiter();
+
+    let granted = 0;
+    while (limiter.checkRateLimit('zenodo')) granted++;
+
+    // DEFAULT_CUSTOM_RATE_LIMIT: 5 requests, then one every 12 seconds
+    expect(granted).toBe(5);
+    expect(limiter.getStatus('zenodo').map((status) => [status.bucket, status.waitSeconds])).toEqual([
+      ['api', 12],
+      ['fulltext', 0],
+    ]);
+    sourceRegistry.unregister('zenodo');
+  });
+});
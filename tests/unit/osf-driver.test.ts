@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { OsfDriver, osfSource } from '../../src/drivers/osf-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+
+const API = 'https://api.osf.io';
+
+const contributor = (index: number, name: string, orcid?: string) => ({
+  attributes: { bibliographic: true, index, unregistered_contributor: null },
+  embeds: { users: { data: { attributes: { full_name: name, social: orcid ? { orcid } : {} } } } },
+});
+
+const preprint = (id: string) => ({
+  id,
+  type: 'preprints',
+  attributes: {
+    title: 'Replicating the ego depletion effect',
+    description: 'A multi-lab replication of ego depletion.',
+    date_created: '2024-03-01T10:00:00.000Z',
+    date_published: '2024-03-04T12:30:00.000Z',
+    doi: null,
+    tags: ['replication'],
+    subjects: [[{ id: 's1', text: 'Social and Behavioral Sciences' }, { id: 's2', text: 'Psychology' }]],
+    is_published: true,
+    version: Number(id.split('_v')[1]),
+  },
+  relationships: {
+    provider: { data: { id: 'psyarxiv', type: 'preprint-providers' } },
+    primary_file: { links: { related: { href: 'https://api.osf.io/v2/files/65e5f00d1b2c3a4d5e6f7a8b/' } } },
+  },
+  embeds: {
+    contributors: {
+      data: [
+        contributor(1, 'Bob Jones'),
+        contributor(0, 'Alice Chen', '0000-0002-1825-0097'),
+        { ...contributor(2, 'Hidden Helper'), attributes: { bibliographic: false, index: 2 } },
+      ],
+    },
+  },
+  links: {
+    html: `https://osf.io/preprints/psyarxiv/${id.split('_')[0]}/`,
+    preprint_doi: `https://doi.org/10.31234/osf.io/${id.split('_')[0]}`,
+  },
+});
+
+describe('OsfDriver', () => {
+  let driver: OsfDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new OsfDriver(new RateLimiter());
+  });
+
+  it('should fetch the latest preprints of a provider and map them', async () => {
+    nock(API)
+      .get('/v2/preprints/')
+      .query(
+        (query) =>
+          query['filter[provider]'] === 'psyarxiv' &&
+          query.sort === '-date_published' &&
+          query['page[size]'] === '2' &&
+          query.page === '1' &&
+          query.embed === 'contributors'
+      )
+      .reply(200, {
+        data: [preprint('abcde_v2'), preprint('fghij_v1')],
+        links: { next: 'https://api.osf.io/v2/preprints/?page=2', meta: { total: 40 } },
+      });
+
+    const page = await driver.fetchLatestPage('PsyArXiv', 2);
+
+    expect(page.next).toEqual({ offset: 2 });
+    expect(page.papers[0]).toMatchObject({
+      id: 'abcde_v2',
+      title: 'Replicating the ego depletion effect',
+      authors: ['Alice Chen', 'Bob Jones'],
+      date: '2024-03-04',
+      pdf_url: 'https://osf.io/download/65e5f00d1b2c3a4d5e6f7a8b/',
+      abstract: 'A multi-lab replication of ego depletion.',
+      doi: '10.31234/osf.io/abcde',
+      venue: 'PsyArXiv',
+      open_access: true,
+      oa_status: 'green',
+      subjects: ['Social and Behavioral Sciences', 'Psychology', 'replication'],
+      source_url: 'https://osf.io/preprints/psyarxiv/abcde/',
+    });
+    expect(page.papers[0].author_details?.[0]).toEqual({ name: 'Alice Chen', orcid: '0000-0002-1825-0097' });
+  });
+
+  it('should search with filters and resume mid-page when the count changes', async () => {
+    nock(API)
+      .get('/v2/preprints/')
+      .query(
+        (query) =>
+          query['filter[description]'] === 'ego depletion' &&
+          query['filter[provider]'] === 'psyarxiv' &&
+          query['filter[tags]'] === 'replication' &&
+          query['page[size]'] === '3' &&
+          query.page === '1'
+      )
+      .reply(200, {
+        data: [preprint('aaaaa_v1'), preprint('bbbbb_v1'), preprint('ccccc_v1')],
+        links: { next: null, meta: { total: 3 } },
+      });
+
+    const page = await driver.searchPapersPage(
+      'ego depletion provider:psyarxiv tag:replication',
+      'abstract',
+      3,
+      'relevance',
+      { offset: 1 }
+    );
+
+    expect(page.papers.map((paper) => paper.id)).toEqual(['bbbbb_v1', 'ccccc_v1']);
+    expect(page.next).toBeUndefined();
+  });
+
+  it('should follow a GUID to its latest version and read the primary file', async () => {
+    nock(API)
+      .get('/v2/preprints/abcde/versions/')
+      .reply(200, { data: [preprint('abcde_v1'), preprint('abcde_v2')] });
+    nock(API)
+      .get('/v2/preprints/abcde_v2/')
+      .query((query) => Array.isArray(query.embed) && query.embed.includes('primary_file'))
+      .reply(200, {
+        data: {
+          ...preprint('abcde_v2'),
+          embeds: {
+            ...preprint('abcde_v2').embeds,
+            primary_file: { data: { attributes: { name: 'manuscript.docx' }, links: { download: 'https://osf.io/download/abc123/' } } },
+          },
+        },
+      });
+
+    const paper = await driver.fetchContent('10.31234/osf.io/abcde');
+
+    expect(paper.id).toBe('abcde_v2');
+    // Word manuscripts are neither offered as PDF nor extracted
+    expect(paper.pdf_url).toBeUndefined();
+    expect(paper.textExtractionFailed).toBe(true);
+  });
+
+  it('should report unknown preprints as NotFound', async () => {
+    nock(API).get('/v2/preprints/zzzzz_v1/').query(true).reply(404, { errors: [{ detail: 'Not found.' }] });
+
+    await expect(driver.fetchContent('zzzzz_v1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should reject author search and take GUIDs from OSF DOIs only', async () => {
+    await expect(driver.searchPapers('Alice Chen', 'author', 10, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+    expect(osfSource.identifierFor?.({ doi: '10.31234/osf.io/abcde' })).toBe('abcde');
+    expect(osfSource.identifierFor?.({ doi: '10.1000/journal.1' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { CursorScope, decodeCursor, encodeCursor } from '../../src/core/pagination.js';
+import { fetchLatest } from '../../src/tools/fetch-latest.js';
+import { fetchTopCited } from '../../src/tools/fetch-top-cited.js';
+import { searchPapers } from '../../src/tools/search-papers.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const scope: CursorScope = { source: 'arxiv', operation: 'search', params: ['q', 'all', 'relevance'] };
+
+function arxivFeed(ids: string[], total: number): string {
+  const entries = ids
+    .map(
+      (id) => `<entry>
+        <id>http://arxiv.org/abs/${id}v1</id>
+        <title>Paper ${id}</title>
+        <summary>Abstract</summary>
+        <author><name>Jane Doe</name></author>
+        <published>2024-01-15T00:00:00Z</published>
+      </entry>`
+    )
+    .join('');
+  return `<?xml version="1.0"?>
+    <feed xmlns="http://www.w3.org/2005/Atom" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">
+      <opensearch:totalResults xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">${total}</opensearch:totalResults>
+      ${entries}
+    </feed>`;
+}
+
+function openAlexWork(id: string) {
+  return { id: `https://openalex.org/${id}`, title: `Work ${id}`, publication_date: '2024-01-01', authorships: [] };
+}
+
+describe('cursor encoding', () => {
+  it('should round-trip a page position', () => {
+    const cursor = encodeCursor(scope, { start: 20 });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, scope)).toEqual({ start: 20 });
+  });
+
+  it('should reject cursors from a different query or source', () => {
+    const cursor = encodeCursor(scope, { start: 20 });
+
+    expect(() => decodeCursor(cursor, { ...scope, params: ['other', 'all', 'relevance'] })).toThrow(
+      'Cursor does not match this request'
+    );
+    expect(() => decodeCursor(cursor, { ...scope, source: 'openalex' })).toThrow('Cursor does not match this request');
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor', scope)).toThrow('Invalid cursor');
+    const tampered = Buffer.from(JSON.stringify({ v: 1, s: 'arxiv', o: 'search', q: 'x', p: { start: {} } })).toString(
+      'base64url'
+    );
+    expect(() => decodeCursor(tampered, scope)).toThrow('Invalid cursor');
+  });
+});
+
+describe('paged tools', () => {
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    rateLimiter = new RateLimiter();
+    nock.cleanAll();
+  });
+
+  it('should walk arXiv search results by start offset', async () => {
+    nock('https://export.arxiv.org')
+      .get('/api/query')
+      .query((params) => params.start === '0')
+      .reply(200, arxivFeed(['2401.00001', '2401.00002'], 3))
+      .get('/api/query')
+      .query((params) => params.start === '2')
+      .reply(200, arxivFeed(['2401.00003'], 3));
+
+    const input = { source: 'arxiv', query: 'q', field: 'all' as const, count: 2, sortBy: 'relevance' as const };
+    const first = await searchPapers(input, rateLimiter);
+    expect(first.content.map((paper) => paper.id)).toEqual(['2401.00001', '2401.00002']);
+    expect(first.next_cursor).toBeDefined();
+
+    const second = await searchPapers({ ...input, cursor: first.next_cursor }, rateLimiter);
+    expect(second.content.map((paper) => paper.id)).toEqual(['2401.00003']);
+    expect(second.next_cursor).toBeUndefined();
+  });
+
+  it('should follow OpenAlex next_cursor for top cited papers', async () => {
+    nock('https://api.openalex.org')
+      .get('/works')
+      .query((params) => params.cursor === '*')
+      .reply(200, { results: [openAlexWork('W1')], meta: { count: 2, page: null, next_cursor: 'abc' } })
+      .get('/works')
+      .query((params) => params.cursor === 'abc')
+      .reply(200, { results: [openAlexWork('W2')], meta: { count: 2, page: null, next_cursor: null } });
+
+    const input = { source: 'openalex', concept: 'biology', since: '2024-01-01', count: 1 };
+    const first = await fetchTopCited(input, rateLimiter);
+    const second = await fetchTopCited({ ...input, cursor: first.next_cursor }, rateLimiter);
+
+    expect(first.content[0].id).toBe('W1');
+    expect(second.content[0].id).toBe('W2');
+    expect(second.next_cursor).toBeUndefined();
+  });
+
+  it('should pass Europe PMC cursorMark through and stop when it repeats', async () => {
+    const result = (id: string) => ({ id, source: 'MED', pmid: id, title: `Paper ${id}`, pubYear: '2024', hasFullText: 'Y' });
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/search')
+      .query((params) => params.cursorMark === undefined)
+      .reply(200, { hitCount: 2, nextCursorMark: 'AoE1', resultList: { result: [result('1')] } })
+      .get('/europepmc/webservices/rest/search')
+      .query((params) => params.cursorMark === 'AoE1')
+      .reply(200, { hitCount: 2, nextCursorMark: 'AoE1', resultList: { result: [result('2')] } });
+
+    const input = { source: 'europepmc', category: 'life_sciences', count: 1 };
+    const first = await fetchLatest(input, rateLimiter);
+    const second = await fetchLatest({ ...input, cursor: first.next_cursor }, rateLimiter);
+
+    expect(first.next_cursor).toBeDefined();
+    expect(second.content[0].id).toBe('2');
+    expect(second.next_cursor).toBeUndefined();
+  });
+
+  it('should refuse a cursor from another tool call', async () => {
+    const cursor = encodeCursor({ source: 'arxiv', operation: 'latest', params: ['cs.AI'] }, { start: 50 });
+
+    await expect(
+      fetchLatest({ source: 'arxiv', category: 'cs.LG', count: 10, cursor }, rateLimiter)
+    ).rejects.toThrow('Cursor does not match this request');
+  });
+});
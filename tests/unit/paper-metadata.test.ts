@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import {
+  abstractFromInvertedIndex,
+  normalizeLicense,
+  withExtendedMetadata,
+} from '../../src/core/paper-metadata.js';
+import { ArxivDriver } from '../../src/drivers/arxiv-driver.js';
+import { EuropePMCDriver } from '../../src/drivers/europepmc-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const basePaper = { id: 'p1', title: 'Paper', authors: ['Jane Doe'], date: '2024-01-01', text: '' };
+
+describe('withExtendedMetadata', () => {
+  it('should normalise values and drop anything missing', () => {
+    const paper = withExtendedMetadata(basePaper, {
+      abstract: '<jats:p>Abstract: We   study <i>things</i>.</jats:p>',
+      doi: 'https://doi.org/10.1000/ABC',
+      venue: '  ',
+      citation_count: '42',
+      open_access: null,
+      oa_status: 'Gold',
+      license: 'CC BY-NC',
+      subjects: ['Biology', 'biology', undefined, 'Genetics'],
+      author_details: [{ name: 'Jane Doe', orcid: 'https://orcid.org/0000-0002-1825-009x' }],
+      language: 'eng',
+    });
+
+    expect(paper).toEqual({
+      ...basePaper,
+      schema_version: 2,
+      abstract: 'We study things.',
+      doi: '10.1000/abc',
+      citation_count: 42,
+      oa_status: 'gold',
+      license: 'cc-by-nc',
+      subjects: ['Biology', 'Genetics'],
+      author_details: [{ name: 'Jane Doe', orcid: '0000-0002-1825-009X' }],
+      language: 'en',
+    });
+  });
+
+  it('should leave out author details that only repeat names', () => {
+    const paper = withExtendedMetadata(basePaper, {
+      author_details: [{ name: 'Jane Doe', affiliations: [] }],
+    });
+    expect(paper.author_details).toBeUndefined();
+  });
+
+  it('should normalise license spellings and URLs', () => {
+    expect(normalizeLicense('cc_by_nc_nd')).toBe('cc-by-nc-nd');
+    expect(normalizeLicense('https://creativecommons.org/licenses/by/4.0/')).toBe('cc-by');
+    expect(normalizeLicense('http://creativecommons.org/publicdomain/zero/1.0/')).toBe('cc0');
+  });
+
+  it('should rebuild abstracts from an inverted index', () => {
+    expect(abstractFromInvertedIndex({ world: [1], Hello: [0], again: [2] })).toBe('Hello world again');
+    expect(abstractFromInvertedIndex(null)).toBeUndefined();
+  });
+});
+
+describe('driver metadata', () => {
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    rateLimiter = new RateLimiter();
+    nock.cleanAll();
+  });
+
+  it('should read abstract, DOI, journal ref, categories and affiliations from arXiv', async () => {
+    nock('https://export.arxiv.org')
+      .get('/api/query')
+      .query(true)
+      .reply(200, `<?xml version="1.0"?>
+        <feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+          <entry>
+            <id>http://arxiv.org/abs/2401.12345v1</id>
+            <title>A Paper</title>
+            <summary>  An abstract
+              over two lines. </summary>
+            <author>
+              <name>Jane Doe</name>
+              <arxiv:affiliation>MIT</arxiv:affiliation>
+            </author>
+            <author><name>John Roe</name></author>
+            <published>2024-01-15T00:00:00Z</published>
+            <arxiv:doi>10.1103/PhysRevD.1.1</arxiv:doi>
+            <arxiv:journal_ref>Phys. Rev. D 1, 1 (2024)</arxiv:journal_ref>
+            <arxiv:primary_category term="hep-th" scheme="http://arxiv.org/schemas/atom"/>
+            <category term="hep-th" scheme="http://arxiv.org/schemas/atom"/>
+            <category term="gr-qc" scheme="http://arxiv.org/schemas/atom"/>
+          </entry>
+        </feed>`);
+
+    const [paper] = await new ArxivDriver(rateLimiter).searchPapers('paper', 'all', 1, 'relevance');
+
+    expect(paper).toMatchObject({
+      schema_version: 2,
+      abstract: 'An abstract over two lines.',
+      doi: '10.1103/physrevd.1.1',
+      venue: 'Phys. Rev. D 1, 1 (2024)',
+      open_access: true,
+      oa_status: 'green',
+      subjects: ['hep-th', 'gr-qc'],
+      author_details: [{ name: 'Jane Doe', affiliations: ['MIT'] }, { name: 'John Roe' }],
+      source_url: 'https://arxiv.org/abs/2401.12345',
+    });
+  });
+
+  it('should read MeSH terms, ORCIDs and affiliations from Europe PMC', async () => {
+    nock('https://www.ebi.ac.uk')
+      .get('/europepmc/webservices/rest/search')
+      .query(true)
+      .reply(200, {
+        hitCount: 1,
+        resultList: {
+          result: [
+            {
+              id: '123',
+              source: 'MED',
+              pmid: '123',
+              pmcid: 'PMC456',
+              doi: '10.1000/J.1',
+              title: 'A Trial',
+              pubYear: '2023',
+              abstractText: 'Background: something.',
+              journalInfo: { journal: { title: 'The Journal' } },
+              isOpenAccess: 'N',
+              hasFullText: 'Y',
+              citedByCount: 7,
+              license: 'cc by',
+              language: 'eng',
+              meshHeadingList: { meshHeading: [{ descriptorName: 'Humans' }] },
+              keywordList: { keyword: ['Trial'] },
+              authorList: {
+                author: [
+                  {
+                    fullName: 'Doe J',
+                    authorId: { type: 'ORCID', value: '0000-0001-2345-6789' },
+                    authorAffiliationDetailsList: { authorAffiliation: [{ affiliation: 'EBI' }] },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      });
+
+    const [paper] = await new EuropePMCDriver(rateLimiter).searchPapers('trial', 'all', 1, 'relevance');
+
+    expect(paper).toMatchObject({
+      abstract: 'Background: something.',
+      doi: '10.1000/j.1',
+      venue: 'The Journal',
+      citation_count: 7,
+      open_access: false,
+      license: 'cc-by',
+      language: 'en',
+      subjects: ['Humans', 'Trial'],
+      author_details: [{ name: 'Doe J', affiliations: ['EBI'], orcid: '0000-0001-2345-6789' }],
+      source_url: 'https://europepmc.org/article/PMC/456',
+    });
+  });
+});
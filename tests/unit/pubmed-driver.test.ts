@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { PubMedDriver } from '../../src/drivers/pubmed-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+
+const EUTILS = 'https://eutils.ncbi.nlm.nih.gov';
+
+const articleXml = `<?xml version="1.0" ?>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation Status="MEDLINE" Owner="NLM">
+      <PMID Version="1">31452104</PMID>
+      <Article PubModel="Print-Electronic">
+        <Journal>
+          <JournalIssue CitedMedium="Internet">
+            <PubDate><MedlineDate>2019 Sep-Oct</MedlineDate></PubDate>
+          </JournalIssue>
+          <Title>The Lancet</Title>
+        </Journal>
+        <ArticleTitle>Statins for primary prevention: a meta-analysis.</ArticleTitle>
+        <ELocationID EIdType="doi" ValidYN="Y">10.1016/S0140-6736(19)31234-5</ELocationID>
+        <Abstract>
+          <AbstractText Label="BACKGROUND">Statins reduce cardiovascular events.</AbstractText>
+          <AbstractText Label="METHODS">We pooled 27 trials.</AbstractText>
+        </Abstract>
+        <AuthorList CompleteYN="Y">
+          <Author ValidYN="Y">
+            <LastName>Smith</LastName>
+            <ForeName>Jane A</ForeName>
+            <Identifier Source="ORCID">0000-0002-1825-0097</Identifier>
+            <AffiliationInfo><Affiliation>University of Oxford, UK.</Affiliation></AffiliationInfo>
+          </Author>
+          <Author ValidYN="Y">
+            <CollectiveName>Cholesterol Treatment Trialists' Collaboration</CollectiveName>
+          </Author>
+        </AuthorList>
+        <Language>eng</Language>
+        <PublicationTypeList>
+          <PublicationType UI="D016428">Journal Article</PublicationType>
+          <PublicationType UI="D017418">Meta-Analysis</PublicationType>
+        </PublicationTypeList>
+        <ArticleDate DateType="Electronic"><Year>2019</Year><Month>08</Month><Day>22</Day></ArticleDate>
+      </Article>
+      <MeshHeadingList>
+        <MeshHeading><DescriptorName UI="D002318" MajorTopicYN="N">Cardiovascular Diseases</DescriptorName></MeshHeading>
+        <MeshHeading><DescriptorName UI="D019161" MajorTopicYN="Y">Hydroxymethylglutaryl-CoA Reductase Inhibitors</DescriptorName></MeshHeading>
+      </MeshHeadingList>
+      <KeywordList Owner="NOTNLM"><Keyword MajorTopicYN="N">primary prevention</Keyword></KeywordList>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList>
+        <ArticleId IdType="pubmed">31452104</ArticleId>
+        <ArticleId IdType="doi">10.1016/S0140-6736(19)31234-5</ArticleId>
+        <ArticleId IdType="pmc">PMC6791234</ArticleId>
+      </ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+describe('PubMedDriver', () => {
+  let driver: PubMedDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new PubMedDriver(new RateLimiter());
+  });
+
+  it('should parse efetch records with MeSH headings, publication types and PMC links', async () => {
+    nock(EUTILS)
+      .get('/entrez/eutils/esearch.fcgi')
+      .query((query) => query.db === 'pubmed' && query.term === 'statins' && query.sort === 'relevance')
+      .reply(200, { esearchresult: { idlist: ['31452104'], count: '250', retmax: '1', retstart: '0' } });
+    nock(EUTILS)
+      .get('/entrez/eutils/efetch.fcgi')
+      .query((query) => query.db === 'pubmed' && query.id === '31452104' && query.retmode === 'xml')
+      .reply(200, articleXml);
+
+    const page = await driver.searchPapersPage('statins', 'all', 1, 'relevance');
+
+    expect(page.next).toEqual({ retstart: 1 });
+    expect(page.papers[0]).toMatchObject({
+      id: '31452104',
+      title: 'Statins for primary prevention: a meta-analysis.',
+      authors: ['Jane A Smith', "Cholesterol Treatment Trialists' Collaboration"],
+      date: '2019-08-22',
+      pdf_url: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC6791234/pdf/',
+      abstract: 'BACKGROUND: Statins reduce cardiovascular events. METHODS: We pooled 27 trials.',
+      doi: '10.1016/s0140-6736(19)31234-5',
+      venue: 'The Lancet',
+      open_access: true,
+      subjects: ['Cardiovascular Diseases', 'Hydroxymethylglutaryl-CoA Reductase Inhibitors', 'primary prevention'],
+      publication_types: ['Journal Article', 'Meta-Analysis'],
+      language: 'en',
+      source_url: 'https://pubmed.ncbi.nlm.nih.gov/31452104/',
+    });
+    expect(page.papers[0].author_details?.[0]).toMatchObject({
+      name: 'Jane A Smith',
+      affiliations: ['University of Oxford, UK.'],
+      orcid: '0000-0002-1825-0097',
+    });
+  });
+
+  it('should combine field tags with publication-type filters', async () => {
+    nock(EUTILS)
+      .get('/entrez/eutils/esearch.fcgi')
+      .query(
+        (query) =>
+          query.term === '(statins)[tiab] AND ("randomized controlled trial"[pt] OR "meta-analysis"[pt])' &&
+          query.sort === 'pub_date'
+      )
+      .reply(200, { esearchresult: { idlist: [], count: '0', retmax: '0', retstart: '0' } });
+
+    const page = await driver.searchPapersPage('statins type:rct type:meta-analysis', 'abstract', 10, 'date');
+
+    expect(page.papers).toEqual([]);
+    expect(page.next).toBeUndefined();
+  });
+
+  it('should fetch the latest records under a MeSH heading', async () => {
+    nock(EUTILS)
+      .get('/entrez/eutils/esearch.fcgi')
+      .query((query) => query.term === '"Cardiovascular Diseases"[MeSH Terms]' && query.sort === 'pub_date')
+      .reply(200, { esearchresult: { idlist: ['31452104'], count: '1', retmax: '1', retstart: '0' } });
+    nock(EUTILS).get('/entrez/eutils/efetch.fcgi').query(true).reply(200, articleXml);
+
+    const papers = await driver.fetchLatest('Cardiovascular Diseases', 5);
+
+    expect(papers.map((paper) => paper.id)).toEqual(['31452104']);
+  });
+
+  it('should reject full-text search and unknown publication types', async () => {
+    await expect(driver.searchPapers('statins', 'fulltext', 10, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+    await expect(driver.searchPapers('statins type:editorial', 'all', 10, 'relevance')).rejects.toBeInstanceOf(
+      InvalidQueryError
+    );
+  });
+
+  it('should read the text of the PMC copy from its JATS', async () => {
+    nock(EUTILS).get('/entrez/eutils/efetch.fcgi').query((query) => query.db === 'pubmed').reply(200, articleXml);
+    nock(EUTILS)
+      .get('/entrez/eutils/efetch.fcgi')
+      .query((query) => query.db === 'pmc' && query.id === '6791234')
+      .reply(
+        200,
+        `<pmc-articleset><article><front><article-meta><title-group><article-title>Statins</article-title></title-group></article-meta></front>
+        <body><sec><title>Methods</title><p>${'Statins lower cholesterol. '.repeat(20)}</p></sec></body></article></pmc-articleset>`
+      );
+
+    const paper = await driver.fetchContent('31452104');
+
+    expect(paper.text).toContain('Statins lower cholesterol.');
+    expect(paper.textExtractionFailed).toBeUndefined();
+  });
+
+  it('should report unknown PMIDs as NotFound', async () => {
+    nock(EUTILS)
+      .get('/entrez/eutils/efetch.fcgi')
+      .query((query) => query.id === '1')
+      .reply(200, '<?xml version="1.0" ?><PubmedArticleSet></PubmedArticleSet>');
+
+    await expect(driver.fetchContent('PMID:1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { RateLimitedError } from '../../src/core/errors.js';
+import { PMCDriver } from '../../src/drivers/pmc-driver.js';
+import { PubMedDriver } from '../../src/drivers/pubmed-driver.js';
+import { loadConfig, setConfig } from '../../src/config/config.js';
+
+function drain(limiter: RateLimiter, source: string) {
+  while (limiter.checkRateLimit(source)) {
+    // Spend every token
+  }
+}
+
+describe('RateLimiter.acquire', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue until a token is refilled instead of failing', async () => {
+    const limiter = new RateLimiter();
+    drain(limiter, 'openalex');
+
+    let granted = false;
+    const pending = limiter.acquire('openalex').then((release) => {
+      granted = true;
+      return release;
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(granted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    (await pending)();
+    expect(granted).toBe(true);
+  });
+
+  it('should fail straight away when the wait would exceed maxWait', async () => {
+    // arXiv refills one token every 12 seconds
+    const limiter = new RateLimiter();
+    drain(limiter, 'arxiv');
+
+    const error = await limiter.acquire('arxiv', { maxWait: 5 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfter).toBe(12);
+  });
+
+  it('should serve waiters by priority, then in arrival order', async () => {
+    const limiter = new RateLimiter();
+    drain(limiter, 'openalex');
+    const order: string[] = [];
+
+    const requests = [
+      limiter.acquire('openalex').then((release) => (order.push('first'), release())),
+      limiter.acquire('openalex').then((release) => (order.push('second'), release())),
+      limiter.acquire('openalex', { priority: 1 }).then((release) => (order.push('urgent'), release())),
+    ];
+    await vi.advanceTimersByTimeAsync(20000);
+    await Promise.all(requests);
+
+    expect(order).toEqual(['urgent', 'first', 'second']);
+  });
+
+  it('should hold requests beyond the concurrency cap until a slot is released', async () => {
+    const limiter = new RateLimiter();
+    const release = await limiter.acquire('arxiv');
+
+    let granted = false;
+    const pending = limiter.acquire('arxiv').then((next) => {
+      granted = true;
+      next();
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(false);
+    expect(limiter.getStatus('arxiv')[0]).toMatchObject({ queued: 1, inFlight: 1, maxConcurrent: 1 });
+
+    release();
+    await pending;
+    expect(granted).toBe(true);
+  });
+
+  it('should keep full-text fetches in their own bucket', async () => {
+    const limiter = new RateLimiter();
+    drain(limiter, 'arxiv');
+
+    expect(limiter.checkRateLimit('arxiv', 'fulltext')).toBe(true);
+    expect(limiter.getStatus('arxiv').map((status) => [status.bucket, status.waitSeconds])).toEqual([
+      ['api', 12],
+      ['fulltext', 0],
+    ]);
+  });
+
+  it('should let PMC and PubMed draw on one NCBI bucket sized by the API key', () => {
+    const limiter = new RateLimiter();
+    new PMCDriver(limiter);
+    new PubMedDriver(limiter);
+
+    let granted = 0;
+    while (limiter.checkRateLimit(granted % 2 ? 'pmc' : 'pubmed')) granted++;
+
+    expect(granted).toBe(3);
+    expect(limiter.getStatus().filter((status) => status.bucket === 'api').map((status) => status.source)).toContain('ncbi');
+    expect(limiter.getStatus('pubmed')[0]).toMatchObject({ tokens: 0, maxTokens: 3 });
+
+    setConfig(loadConfig({ env: { NCBI_API_KEY: 'ncbi-key' } }));
+    const keyed = new RateLimiter();
+    new PubMedDriver(keyed);
+    expect(keyed.getStatus('pubmed')[0]).toMatchObject({ maxTokens: 10, refillRate: 10 });
+    setConfig(loadConfig());
+  });
+
+  it('should release slots when a scheduled request fails', async () => {
+    const limiter = new RateLimiter();
+
+    await expect(limiter.schedule('arxiv', async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(limiter.getStatus('arxiv')[0].inFlight).toBe(0);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { getReferences } from '../../src/tools/get-references.js';
+import { OaiPmhDriver } from '../../src/drivers/oai-pmh-driver.js';
+import { parseReference, parseReferenceList } from '../../src/extractors/reference-parser.js';
+import { outlineText } from '../../src/extractors/document-model.js';
+import { NotAvailableError } from '../../src/core/errors.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const latexml = (bibliography: string) => `<html><body><article class="ltx_document">
+  <h1 class="ltx_title ltx_title_document">Transformers Revisited</h1>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">1 </span>Introduction</h2>
+    <div class="ltx_para"><p class="ltx_p">Attention is all we use.</p></div>
+  </section>
+  ${bibliography}
+</article></body></html>`;
+
+const bibitems = `<section class="ltx_bibliography"><ul class="ltx_biblist">
+  <li class="ltx_bibitem" id="bib.bib1"><span class="ltx_tag ltx_tag_bibitem">[1]</span>
+    <span class="ltx_bibblock">Ashish Vaswani, Noam Shazeer, and Niki Parmar. 2017.</span>
+    <span class="ltx_bibblock">Attention is all you need.</span>
+    <span class="ltx_bibblock">In <em>Advances in Neural Information Processing Systems</em>, pages 5998–6008.</span></li>
+  <li class="ltx_bibitem" id="bib.bib2"><span class="ltx_tag ltx_tag_bibitem">[2]</span>
+    <span class="ltx_bibblock">Kaiming He, Xiangyu Zhang, Shaoqing Ren, and Jian Sun. 2016.</span>
+    <span class="ltx_bibblock">Deep residual learning for image recognition.</span>
+    <span class="ltx_bibblock">In <em>CVPR</em>. <a href="https://doi.org/10.1109/CVPR.2016.90">doi</a></span></li>
+  <li class="ltx_bibitem" id="bib.bib3"><span class="ltx_tag ltx_tag_bibitem">[3]</span>
+    <span class="ltx_bibblock">Jimmy Lei Ba, Jamie Ryan Kiros, and Geoffrey E. Hinton.</span>
+    <span class="ltx_bibblock">Layer normalization.</span>
+    <span class="ltx_bibblock"><em>arXiv preprint arXiv:1607.06450</em>, 2016.</span></li>
+</ul></section>`;
+
+const mockPaper = (bibliography: string) => {
+  nock('https://api.crossref.org')
+    .get('/works/10.48550%2Farxiv.2402.00001')
+    .query(true)
+    .reply(200, { message: { DOI: '10.48550/ARXIV.2402.00001', title: ['Transformers Revisited'], type: 'posted-content' } });
+  nock('https://arxiv.org').get('/html/2402.00001').reply(200, latexml(bibliography));
+};
+
+const work = (id: string, title: string, doi: string) => ({
+  id: `https://openalex.org/${id}`,
+  title,
+  doi: `https://doi.org/${doi}`,
+  ids: { openalex: `https://openalex.org/${id}`, doi: `https://doi.org/${doi}` },
+  locations: [],
+});
+
+describe('Reference parser', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should split printed entries in common citation styles', () => {
+    expect(
+      parseReference('[4] A. Krizhevsky, I. Sutskever, and G. E. Hinton, "ImageNet classification with deep convolutional neural networks," in Proc. NIPS, 2012, pp. 1097–1105.')
+    ).toMatchObject({
+      label: '4',
+      authors: ['A. Krizhevsky', 'I. Sutskever', 'G. E. Hinton'],
+      title: 'ImageNet classification with deep convolutional neural networks',
+      year: 2012,
+    });
+
+    expect(
+      parseReference('Smith, J., & Jones, K. (2019). Learning to rank citations. Journal of Informetrics, 13(2), 45-60. https://doi.org/10.1016/j.joi.2019.01.002')
+    ).toMatchObject({
+      authors: ['J. Smith', 'K. Jones'],
+      title: 'Learning to rank citations',
+      venue: 'Journal of Informetrics',
+      year: 2019,
+      doi: '10.1016/j.joi.2019.01.002',
+    });
+
+    expect(parseReference('1. Curie M, Curie P. Sur une substance nouvelle radio-active. C R Acad Sci. 1898;127:175-8.')).toMatchObject({
+      label: '1',
+      authors: ['M. Curie', 'P. Curie'],
+      title: 'Sur une substance nouvelle radio-active',
+      year: 1898,
+    });
+
+    expect(parseReference('B. P. Abbott et al., Phys. Rev. Lett. 116, 061102 (2016), arXiv:1602.03837.')).toMatchObject({
+      authors: ['B. P. Abbott'],
+      venue: 'Phys. Rev. Lett',
+      year: 2016,
+      arxiv_id: '1602.03837',
+    });
+  });
+
+  it('should split the References section of PDF text into entries', () => {
+    const text = [
+      '1 Introduction',
+      'We cite things [1, 2].',
+      '2 Results',
+      'They hold.',
+      'References',
+      '[1] J. Doe and R. Roe. A study of',
+      'wrapped titles. In Proceedings of the Conference, 2020.',
+      '[2] M. Major. Another paper. Nature, 2021. doi:10.1038/nature00001',
+    ].join('\n');
+
+    const bibliography = outlineText(text)?.bibliography;
+
+    expect(bibliography?.map((reference) => reference.label)).toEqual(['1', '2']);
+    expect(bibliography?.[0]).toMatchObject({
+      raw: '[1] J. Doe and R. Roe. A study of wrapped titles. In Proceedings of the Conference, 2020.',
+      authors: ['J. Doe', 'R. Roe'],
+      title: 'A study of wrapped titles',
+      year: 2020,
+    });
+    expect(bibliography?.[1].doi).toBe('10.1038/nature00001');
+    expect(parseReferenceList('References\n\n1. First entry here. 2001.\n2. Second entry there. 2002.')).toHaveLength(2);
+  });
+
+  it('should read JATS element citations from an OAI-PMH record', async () => {
+    const driver = new OaiPmhDriver(new RateLimiter(), 'journal', {
+      baseUrl: 'https://repo.example.org/oai',
+      metadataPrefix: 'jats',
+      latestDays: 7,
+    });
+    nock('https://repo.example.org')
+      .get('/oai')
+      .query(true)
+      .reply(
+        200,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/"><GetRecord><record>
+  <header><identifier>oai:repo:2</identifier><datestamp>2024-03-05</datestamp></header>
+  <metadata><article>
+    <front><article-meta><title-group><article-title>Cells</article-title></title-group></article-meta></front>
+    <body><sec><title>Methods</title><p>Microscopes.</p></sec></body>
+    <back><ref-list>
+      <ref id="r1"><label>1</label><element-citation publication-type="journal">
+        <person-group><name><surname>Hooke</surname><given-names>R</given-names></name></person-group>
+        <article-title>Micrographia</article-title><source>Royal Society</source><year>1665</year>
+        <pub-id pub-id-type="doi">10.5962/BHL.TITLE.904</pub-id>
+      </element-citation></ref>
+      <ref id="r2"><mixed-citation>Schwann T. Microscopical researches. Sydenham Society; 1847.</mixed-citation></ref>
+    </ref-list></back>
+  </article></metadata>
+</record></GetRecord></OAI-PMH>`
+      );
+
+    const paper = await driver.fetchContent('oai:repo:2');
+
+    expect(paper.document?.bibliography).toEqual([
+      {
+        raw: 'R Hooke. Micrographia. Royal Society. 1665',
+        label: '1',
+        authors: ['R Hooke'],
+        title: 'Micrographia',
+        venue: 'Royal Society',
+        year: 1665,
+        doi: '10.5962/bhl.title.904',
+      },
+      expect.objectContaining({ authors: ['T. Schwann'], title: 'Microscopical researches', year: 1847 }),
+    ]);
+  });
+
+  it('should resolve arXiv bibliography entries through OpenAlex, a page at a time', async () => {
+    mockPaper(bibitems);
+    nock('https://api.openalex.org')
+      .get('/works')
+      .query((query) => query.filter === 'doi:10.1109/cvpr.2016.90')
+      .reply(200, { results: [work('W2', 'Deep Residual Learning for Image Recognition', '10.1109/cvpr.2016.90')] });
+    nock('https://api.openalex.org')
+      .get('/works')
+      .query((query) => query.search === 'Attention is all you need' && query.filter === 'publication_year:2016-2018')
+      .reply(200, { results: [work('W1', 'Attention Is All You Need', '10.48550/arxiv.1706.03762')] });
+
+    const first = await getReferences({ source: 'crossref', id: '10.48550/arXiv.2402.00001', count: 2, resolve: true }, new RateLimiter());
+
+    expect(first.paper).toEqual({ id: '10.48550/arxiv.2402.00001', title: 'Transformers Revisited', source: 'crossref' });
+    expect(first.total).toBe(3);
+    expect(first.references[0]).toMatchObject({
+      label: '1',
+      authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+      title: 'Attention is all you need',
+      venue: 'Advances in Neural Information Processing Systems',
+      year: 2017,
+      identifiers: { openalex: 'W1', arxiv: '1706.03762' },
+    });
+    expect(first.references[1]).toMatchObject({ doi: '10.1109/cvpr.2016.90', identifiers: { openalex: 'W2' } });
+    expect(first.resolved).toBe(2);
+    expect(first.next_cursor).toBeDefined();
+
+    mockPaper(bibitems);
+    const second = await getReferences(
+      { source: 'crossref', id: '10.48550/arXiv.2402.00001', count: 2, cursor: first.next_cursor, resolve: false },
+      new RateLimiter()
+    );
+
+    expect(second.references).toHaveLength(1);
+    expect(second.references[0]).toMatchObject({ label: '3', title: 'Layer normalization', arxiv_id: '1607.06450' });
+    expect(second.resolved).toBeUndefined();
+    expect(second.next_cursor).toBeUndefined();
+  });
+
+  it('should report papers without a reference list as not available', async () => {
+    mockPaper('');
+
+    const error = await getReferences(
+      { source: 'crossref', id: '10.48550/arXiv.2402.00001', count: 50, resolve: true },
+      new RateLimiter()
+    ).catch((error) => error);
+
+    expect(error).toBeInstanceOf(NotAvailableError);
+    expect(error.suggestions[0]).toContain("query 'references:10.48550/arxiv.2402.00001'");
+  });
+});
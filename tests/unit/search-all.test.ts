@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { searchAll } from '../../src/tools/search-all.js';
+import { mergeRankedResults, normalizeTitle } from '../../src/core/result-merger.js';
+import { sourceRegistry } from '../../src/drivers/index.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { PaperMetadata } from '../../src/types/papers.js';
+
+function paper(id: string, title: string, date = '2024-01-01', pdf_url?: string): PaperMetadata {
+  return { id, title, authors: ['Jane Doe'], date, pdf_url, text: '' };
+}
+
+/**
+ * Register a stand-in source whose searchPapers returns canned results
+ */
+function registerFakeSource(id: string, search: () => Promise<PaperMetadata[]>) {
+  sourceRegistry.register({
+    id,
+    name: id,
+    description: `Fake source ${id}`,
+    capabilities: ['search'],
+    create: () => ({ searchPapers: search }) as any,
+  });
+}
+
+describe('mergeRankedResults', () => {
+  it('should normalise titles across formatting differences', () => {
+    expect(normalizeTitle('Attention Is All You Need!')).toBe(normalizeTitle('attention is all  you need'));
+    expect(normalizeTitle('Café <i>au</i> lait')).toBe('cafeaulait');
+  });
+
+  it('should merge duplicates and record every source that found them', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [paper('a1', 'Shared Paper'), paper('a2', 'Only In A')] },
+        { source: 'b', papers: [paper('b1', 'Only In B'), paper('b2', 'shared paper', '2023-06-01', 'https://b/pdf')] },
+      ],
+      { sortBy: 'relevance', limit: 10 }
+    );
+
+    expect(merged).toHaveLength(3);
+    expect(merged[0]).toMatchObject({
+      id: 'a1',
+      source: 'a',
+      pdf_url: 'https://b/pdf',
+      foundIn: [
+        { source: 'a', id: 'a1', rank: 1 },
+        { source: 'b', id: 'b2', rank: 2 },
+      ],
+    });
+  });
+
+  it('should not merge same-titled papers published years apart', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [paper('a1', 'Introduction', '2010-01-01')] },
+        { source: 'b', papers: [paper('b1', 'Introduction', '2020-01-01')] },
+      ],
+      { sortBy: 'relevance', limit: 10 }
+    );
+
+    expect(merged).toHaveLength(2);
+  });
+
+  it('should merge records with the same DOI whatever their titles', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [{ ...paper('a1', 'Deep Residual Learning for Image Recognition'), doi: '10.1109/cvpr.2016.90' }] },
+        { source: 'b', papers: [{ ...paper('b1', 'Deep residual learning (ResNet)'), doi: 'https://doi.org/10.1109/CVPR.2016.90' }] },
+      ],
+      { sortBy: 'relevance', limit: 10 }
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].foundIn.map((hit) => hit.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('should keep same-titled records with different DOIs apart', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [{ ...paper('a1', 'Editorial'), doi: '10.1000/journal-a.1' }] },
+        { source: 'b', papers: [{ ...paper('b1', 'Editorial'), doi: '10.1000/journal-b.7' }, paper('b2', 'Editorial')] },
+      ],
+      { sortBy: 'relevance', limit: 10 }
+    );
+
+    expect(merged.map((p) => p.foundIn.map((hit) => hit.id))).toEqual([['a1', 'b2'], ['b1']]);
+  });
+
+  it('should fill metadata gaps from duplicates and sort by citation count', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [paper('a1', 'Less Cited'), paper('a2', 'Shared Paper')] },
+        { source: 'b', papers: [{ ...paper('b1', 'Shared Paper'), doi: '10.1/x', citation_count: 90 }] },
+      ],
+      { sortBy: 'citations', limit: 10 }
+    );
+
+    expect(merged.map((p) => p.id)).toEqual(['a2', 'a1']);
+    expect(merged[0]).toMatchObject({ doi: '10.1/x', citation_count: 90 });
+  });
+
+  it('should order by date when requested and apply the limit', () => {
+    const merged = mergeRankedResults(
+      [
+        { source: 'a', papers: [paper('a1', 'Old', '2020-01-01'), paper('a2', 'New', '2024-05-01')] },
+        { source: 'b', papers: [paper('b1', 'Middle', '2022-01-01')] },
+      ],
+      { sortBy: 'date', limit: 2 }
+    );
+
+    expect(merged.map((p) => p.id)).toEqual(['a2', 'b1']);
+  });
+});
+
+describe('searchAll', () => {
+  let rateLimiter: RateLimiter;
+  const fakeSources = ['fake-ok', 'fake-down', 'fake-limited'];
+
+  beforeEach(() => {
+    rateLimiter = new RateLimiter();
+    registerFakeSource('fake-ok', async () => [paper('ok-1', 'Federated Search'), paper('ok-2', 'Second Result')]);
+    registerFakeSource('fake-down', async () => {
+      throw new Error('Example API server error');
+    });
+    registerFakeSource('fake-limited', async () => {
+      throw new Error('Rate limited. Retry after 12 seconds');
+    });
+  });
+
+  afterEach(() => {
+    fakeSources.forEach((id) => sourceRegistry.unregister(id));
+  });
+
+  it('should return merged results with a partial-success report', async () => {
+    const result = await searchAll(
+      { query: 'federated', field: 'all', count: 10, sortBy: 'relevance', sources: fakeSources },
+      rateLimiter
+    );
+
+    expect(result.partial).toBe(true);
+    expect(result.content.map((p) => p.id)).toEqual(['ok-1', 'ok-2']);
+    expect(result.sources).toEqual([
+      expect.objectContaining({ source: 'fake-ok', status: 'ok', count: 2 }),
+      expect.objectContaining({ source: 'fake-down', status: 'failed', error: 'Example API server error' }),
+      expect.objectContaining({ source: 'fake-limited', status: 'rate_limited', retryAfter: 12 }),
+    ]);
+  });
+
+  it('should report a complete result when every source succeeds', async () => {
+    const result = await searchAll(
+      { query: 'federated', field: 'all', count: 1, sortBy: 'relevance', sources: ['fake-ok'] },
+      rateLimiter
+    );
+
+    expect(result.partial).toBe(false);
+    expect(result.content).toHaveLength(1);
+  });
+
+  it('should throw when every source fails', async () => {
+    await expect(
+      searchAll(
+        { query: 'federated', field: 'all', count: 10, sortBy: 'relevance', sources: ['fake-down', 'fake-limited'] },
+        rateLimiter
+      )
+    ).rejects.toThrow('All sources failed for search_all');
+  });
+});
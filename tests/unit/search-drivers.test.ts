@@ -4,7 +4,9 @@ import { ArxivDriver } from '../../src/drivers/arxiv-driver.js';
 import { OpenAlexDriver } from '../../src/drivers/openalex-driver.js';
 import { EuropePMCDriver } from '../../src/drivers/europepmc-driver.js';
 import { CoreDriver } from '../../src/drivers/core-driver.js';
+import { PMCDriver } from '../../src/drivers/pmc-driver.js';
 import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { RateLimitedError } from '../../src/core/errors.js';
 
 describe('Driver Search Methods', () => {
   let mockRateLimiter: RateLimiter;
@@ -136,6 +138,31 @@ describe('Driver Search Methods', () => {
       await expect(driver.searchPapers('test', 'all', 10, 'relevance'))
         .rejects.toThrow('arXiv API request timed out');
     });
+
+    it('should release the API slot before reading the full text', async () => {
+      const feed = (id: string) => `<feed xmlns="http://www.w3.org/2005/Atom"><entry>
+        <id>http://arxiv.org/abs/${id}v1</id><title>Slow Paper</title>
+        <author><name>Test Author</name></author><published>2024-01-15T00:00:00Z</published>
+        <link href="http://arxiv.org/abs/${id}v1" type="text/html"/>
+      </entry></feed>`;
+      nock('https://export.arxiv.org').get('/api/query').query({ id_list: '2401.99901', max_results: 1 }).reply(200, feed('2401.99901'));
+      nock('https://arxiv.org')
+        .get('/html/2401.99901')
+        .delay(300)
+        .reply(200, `<html><body><article class="ltx_document"><p class="ltx_p">${'Slow text. '.repeat(20)}</p></article></body></html>`, { 'Content-Type': 'text/html' });
+      nock('https://export.arxiv.org').get('/api/query').query((query) => query.search_query === 'all:"engines"').reply(200, feed('2401.99902'));
+
+      let contentDone = false;
+      const content = driver.fetchContent('2401.99901').then((paper) => {
+        contentDone = true;
+        return paper;
+      });
+      const results = await driver.searchPapers('engines', 'all', 10, 'relevance');
+
+      expect(results).toHaveLength(1);
+      expect(contentDone).toBe(false);
+      expect((await content).text).toContain('Slow text.');
+    });
   });
 
   describe('OpenAlexDriver', () => {
@@ -174,7 +201,8 @@ describe('Driver Search Methods', () => {
           filter: 'display_name.search:transformers',
           sort: 'relevance_score:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -189,7 +217,8 @@ describe('Driver Search Methods', () => {
           filter: 'authorships.author.display_name.search:Yann LeCun',
           sort: 'relevance_score:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -204,7 +233,8 @@ describe('Driver Search Methods', () => {
           filter: 'abstract.search:neural networks',
           sort: 'relevance_score:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -219,7 +249,8 @@ describe('Driver Search Methods', () => {
           filter: 'fulltext.search:deep learning',
           sort: 'relevance_score:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -255,7 +286,8 @@ describe('Driver Search Methods', () => {
           filter: 'search:machine learning',
           sort: 'cited_by_count:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -292,7 +324,8 @@ describe('Driver Search Methods', () => {
           filter: 'search:recent research',
           sort: 'publication_date:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockResponse);
 
@@ -621,18 +654,92 @@ describe('Driver Search Methods', () => {
     });
   });
 
+  describe('PMCDriver', () => {
+    let driver: PMCDriver;
+
+    beforeEach(() => {
+      driver = new PMCDriver(mockRateLimiter);
+    });
+
+    it('should search with E-utilities field tags', async () => {
+      nock('https://eutils.ncbi.nlm.nih.gov')
+        .get('/entrez/eutils/esearch.fcgi')
+        .query((params) =>
+          params.db === 'pmc' &&
+          params.term === '(tumor microenvironment)[Title]' &&
+          params.sort === 'pub_date'
+        )
+        .reply(200, {
+          esearchresult: { idlist: ['11111'], count: '1', retmax: '10', retstart: '0' }
+        });
+
+      nock('https://eutils.ncbi.nlm.nih.gov')
+        .get('/entrez/eutils/esummary.fcgi')
+        .query(true)
+        .reply(200, {
+          result: {
+            '11111': {
+              uid: '11111',
+              title: 'The tumor microenvironment',
+              authors: [{ name: 'Doe J', authtype: 'Author' }],
+              pubdate: '2024/02/01',
+              epubdate: '',
+              pmcid: 'PMC11111'
+            }
+          }
+        });
+
+      const result = await driver.searchPapers('tumor microenvironment', 'title', 10, 'date');
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        id: 'PMC11111',
+        title: 'The tumor microenvironment',
+        authors: ['Doe J'],
+        date: '2024-02-01'
+      });
+    });
+
+    it('should return an empty list when nothing matches', async () => {
+      nock('https://eutils.ncbi.nlm.nih.gov')
+        .get('/entrez/eutils/esearch.fcgi')
+        .query(true)
+        .reply(200, {
+          esearchresult: { idlist: [], count: '0', retmax: '10', retstart: '0' }
+        });
+
+      const result = await driver.searchPapers('nonexistent topic', 'all', 10, 'relevance');
+      expect(result).toEqual([]);
+    });
+
+    it('should handle server errors', async () => {
+      nock('https://eutils.ncbi.nlm.nih.gov')
+        .get('/entrez/eutils/esearch.fcgi')
+        .query(true)
+        .reply(500, 'Internal Server Error');
+
+      await expect(driver.searchPapers('test', 'all', 10, 'relevance'))
+        .rejects.toThrow('PMC E-utilities API server error');
+    });
+  });
+
   describe('Rate Limiting', () => {
     it('should respect rate limits across all drivers', async () => {
       const rateLimitedMock = {
+        addSource: vi.fn(),
         checkRateLimit: vi.fn().mockReturnValue(false),
-        getRetryAfter: vi.fn().mockReturnValue(30)
+        getRetryAfter: vi.fn().mockReturnValue(30),
+        acquire: vi.fn().mockRejectedValue(
+          new RateLimitedError('Rate limited. Retry after 30 seconds', { retryAfter: 30 })
+        )
       } as any;
 
       const drivers = [
         new ArxivDriver(rateLimitedMock),
         new OpenAlexDriver(rateLimitedMock),
         new EuropePMCDriver(rateLimitedMock),
-        new CoreDriver(rateLimitedMock)
+        new CoreDriver(rateLimitedMock),
+        new PMCDriver(rateLimitedMock)
       ];
 
       for (const driver of drivers) {
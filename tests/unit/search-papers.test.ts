@@ -3,6 +3,7 @@ import nock from 'nock';
 import { searchPapers } from '../../src/tools/search-papers.js';
 import { RateLimiter } from '../../src/core/rate-limiter.js';
 import { PaperMetadata } from '../../src/types/papers.js';
+import { RateLimitedError } from '../../src/core/errors.js';
 
 describe('searchPapers', () => {
   let mockRateLimiter: RateLimiter;
@@ -57,7 +58,12 @@ describe('searchPapers', () => {
         authors: ['John Doe'],
         date: '2024-01-15',
         pdf_url: 'http://arxiv.org/pdf/2401.12345v1.pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        venue: 'arXiv',
+        open_access: true,
+        oa_status: 'green',
+        source_url: 'https://arxiv.org/abs/2401.12345'
       });
     });
 
@@ -177,7 +183,8 @@ describe('searchPapers', () => {
           filter: 'display_name.search:transformer',
           sort: 'relevance_score:desc',
           per_page: 10,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -196,7 +203,12 @@ describe('searchPapers', () => {
         authors: ['Ashish Vaswani'],
         date: '2017-12-06',
         pdf_url: 'https://arxiv.org/pdf/1706.03762.pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        doi: '10.1016/j.neucom.2017.06.063',
+        venue: 'arXiv',
+        citation_count: 50000,
+        source_url: 'https://arxiv.org/abs/1706.03762'
       });
     });
 
@@ -234,7 +246,8 @@ describe('searchPapers', () => {
           filter: 'search:neural networks',
           sort: 'cited_by_count:desc',
           per_page: 5,
-          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts'
+          select: 'id,title,display_name,publication_date,doi,authorships,primary_location,best_oa_location,locations,open_access,cited_by_count,concepts,abstract_inverted_index,language',
+          cursor: '*'
         })
         .reply(200, mockOpenAlexResponse);
 
@@ -314,7 +327,12 @@ describe('searchPapers', () => {
         authors: ['Smith J', 'Johnson M'],
         date: '2024-01-01',
         pdf_url: 'https://europepmc.org/article/MED/32123456/pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        venue: 'Medical Journal',
+        citation_count: 150,
+        open_access: true,
+        source_url: 'https://europepmc.org/article/MED/32123456'
       });
     });
 
@@ -433,7 +451,12 @@ describe('searchPapers', () => {
         authors: ['Green A', 'Solar B'],
         date: '2024-03-15',
         pdf_url: 'https://core.ac.uk/download/pdf/123456789.pdf',
-        text: ''
+        text: '',
+        schema_version: 2,
+        abstract: 'This paper discusses sustainable energy solutions...',
+        doi: '10.1000/example.doi',
+        open_access: true,
+        source_url: 'https://core.ac.uk/works/123456789'
       });
     });
 
@@ -537,7 +560,10 @@ describe('searchPapers', () => {
       // Mock rate limiter to return false (rate limited)
       const rateLimitedMock = {
         checkRateLimit: vi.fn().mockReturnValue(false),
-        getRetryAfter: vi.fn().mockReturnValue(60)
+        getRetryAfter: vi.fn().mockReturnValue(60),
+        acquire: vi.fn().mockRejectedValue(
+          new RateLimitedError('Rate limited. Retry after 60 seconds', { retryAfter: 60 })
+        )
       } as any;
 
       await expect(searchPapers({
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { SemanticScholarDriver } from '../../src/drivers/semanticscholar-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { InvalidQueryError, NotFoundError } from '../../src/core/errors.js';
+import { HtmlExtractor } from '../../src/extractors/html-extractor.js';
+import { getConfig, loadConfig, setConfig } from '../../src/config/config.js';
+
+const API = 'https://api.semanticscholar.org';
+
+const paper = {
+  paperId: '204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+  externalIds: { DOI: '10.48550/arXiv.1706.03762', ArXiv: '1706.03762', CorpusId: 13756489 },
+  url: 'https://www.semanticscholar.org/paper/204e3073870fae3d05bcbc2f6a8e263d9b72e776',
+  title: 'Attention is All you Need',
+  abstract: 'The dominant sequence transduction models...',
+  venue: 'Neural Information Processing Systems',
+  publicationVenue: { name: 'Neural Information Processing Systems' },
+  year: 2017,
+  publicationDate: '2017-06-12',
+  authors: [
+    { authorId: '40348417', name: 'Ashish Vaswani' },
+    { authorId: '1846258', name: 'Noam Shazeer' },
+  ],
+  citationCount: 120000,
+  influentialCitationCount: 15000,
+  isOpenAccess: true,
+  openAccessPdf: { url: '', status: 'GREEN', license: 'CCBYNC' },
+  fieldsOfStudy: ['Computer Science'],
+  s2FieldsOfStudy: [
+    { category: 'Computer Science', source: 'external' },
+    { category: 'Linguistics', source: 's2-fos-model' },
+  ],
+};
+
+describe('SemanticScholarDriver', () => {
+  let driver: SemanticScholarDriver;
+
+  beforeEach(() => {
+    nock.cleanAll();
+    driver = new SemanticScholarDriver(new RateLimiter());
+  });
+
+  afterEach(() => {
+    setConfig(loadConfig());
+  });
+
+  it('should map relevance search results and page by offset', async () => {
+    nock(API)
+      .get('/graph/v1/paper/search')
+      .query((query) => query.query === 'transformers' && query.offset === '0' && query.limit === '10')
+      .reply(200, { total: 5000, offset: 0, next: 10, data: [paper] });
+
+    const page = await driver.searchPapersPage('transformers', 'all', 10, 'relevance');
+
+    expect(page.next).toEqual({ offset: 10 });
+    expect(page.papers[0]).toMatchObject({
+      id: paper.paperId,
+      title: 'Attention is All you Need',
+      authors: ['Ashish Vaswani', 'Noam Shazeer'],
+      date: '2017-06-12',
+      pdf_url: 'https://arxiv.org/pdf/1706.03762',
+      doi: '10.48550/arxiv.1706.03762',
+      venue: 'Neural Information Processing Systems',
+      citation_count: 120000,
+      influential_citation_count: 15000,
+      oa_status: 'green',
+      license: 'cc-by-nc',
+      subjects: ['Computer Science', 'Linguistics'],
+      author_details: [
+        { name: 'Ashish Vaswani', author_id: '40348417' },
+        { name: 'Noam Shazeer', author_id: '1846258' },
+      ],
+    });
+  });
+
+  it('should sort by citations with bulk search and resume inside a batch', async () => {
+    const batch = Array.from({ length: 3 }, (_, i) => ({ ...paper, paperId: `p${i}` }));
+    nock(API)
+      .get('/graph/v1/paper/search/bulk')
+      .query((query) => query.sort === 'citationCount:desc' && query.token === undefined)
+      .reply(200, { total: 3, token: 'NEXT', data: batch });
+
+    const page = await driver.searchPapersPage('transformers', 'all', 2, 'citations');
+
+    expect(page.papers.map((p) => p.id)).toEqual(['p0', 'p1']);
+    expect(page.next).toEqual({ skip: 2 });
+  });
+
+  it('should look up papers by prefixed external ID with TLDR and the API key', async () => {
+    setConfig(loadConfig({ env: {}, overrides: { apiKeys: { semanticScholar: 's2-key' } } }));
+    const closed = { ...paper, externalIds: { PubMed: '123' }, openAccessPdf: null, isOpenAccess: false };
+    nock(API, { reqheaders: { 'x-api-key': 's2-key' } })
+      .get('/graph/v1/paper/PMCID:1234567')
+      .query((query) => String(query.fields).includes('tldr'))
+      .reply(200, { ...closed, tldr: { model: 'tldr@v2.0.0', text: 'A new architecture based on attention.' } });
+
+    const result = await driver.fetchContent('pmcid:PMC1234567');
+
+    expect(result.tldr).toBe('A new architecture based on attention.');
+    expect(result.pdf_url).toBeUndefined();
+    expect(result.textExtractionFailed).toBe(true);
+  });
+
+  it('should read open access PDFs with the PDF extractor, never as HTML', async () => {
+    const journal = { ...paper, externalIds: { DOI: '10.1234/jnl.1' }, openAccessPdf: { url: 'https://journal.example.org/paper.pdf', status: 'GOLD' } };
+    nock(API).get('/graph/v1/paper/DOI:10.1234/jnl.1').query(true).reply(200, journal);
+    const pdf = nock('https://journal.example.org')
+      .head('/paper.pdf')
+      .reply(200, '', { 'Content-Type': 'application/pdf' })
+      .get('/paper.pdf')
+      .reply(200, '%PDF-1.4 not really a PDF', { 'Content-Type': 'application/pdf' });
+
+    const result = await driver.fetchContent('10.1234/jnl.1');
+
+    expect(pdf.isDone()).toBe(true);
+    expect(result.text).not.toContain('%PDF');
+    expect(result.textExtractionFailed).toBe(true);
+  });
+
+  it('should not take a PDF served in place of a page for its text', async () => {
+    nock('https://journal.example.org').get('/article/3').reply(200, '%PDF-1.4 binary', { 'Content-Type': 'application/pdf' });
+    nock('https://journal.example.org').get('/article/4').reply(200, '%PDF-1.4 binary');
+
+    const extractor = new HtmlExtractor({ ...getConfig().extraction, enablePdfExtraction: false });
+
+    expect((await extractor.extractText('https://journal.example.org/article/3')).extractionSuccess).toBe(false);
+    expect((await extractor.extractText('https://journal.example.org/article/4')).extractionSuccess).toBe(false);
+  });
+
+  it('should report unknown papers as NotFound', async () => {
+    nock(API).get('/graph/v1/paper/DOI:10.1234/missing').query(true).reply(404, { error: 'Paper not found' });
+
+    await expect(driver.fetchContent('10.1234/missing')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should release the API slot before reading the full text', async () => {
+    setConfig(loadConfig({ env: {}, overrides: { rateLimits: { sources: { semanticscholar: { maxTokens: 5, refillRate: 5 } } } } }));
+    driver = new SemanticScholarDriver(new RateLimiter());
+    const journal = { ...paper, externalIds: { DOI: '10.1234/jnl.2' }, openAccessPdf: { url: 'https://journal.example.org/slow.pdf', status: 'GOLD' } };
+    nock(API).get('/graph/v1/paper/DOI:10.1234/jnl.2').query(true).reply(200, journal);
+    nock('https://journal.example.org')
+      .head('/slow.pdf')
+      .delay(300)
+      .reply(200, '', { 'Content-Type': 'application/pdf' })
+      .get('/slow.pdf')
+      .reply(200, '%PDF-1.4 not really a PDF', { 'Content-Type': 'application/pdf' });
+    nock(API).get('/graph/v1/paper/search').query(true).reply(200, { total: 1, offset: 0, data: [paper] });
+
+    let contentDone = false;
+    const content = driver.fetchContent('10.1234/jnl.2').then(() => (contentDone = true));
+    const results = await driver.searchPapers('transformers', 'all', 10, 'relevance');
+
+    expect(results).toHaveLength(1);
+    expect(contentDone).toBe(false);
+    await content;
+  });
+
+  it('should reject field searches and unknown fields of study', async () => {
+    for (const field of ['title', 'abstract', 'author', 'fulltext']) {
+      await expect(driver.searchPapers('Vaswani', field, 10, 'relevance')).rejects.toBeInstanceOf(InvalidQueryError);
+    }
+    await expect(driver.fetchLatest('astrology', 10)).rejects.toBeInstanceOf(InvalidQueryError);
+  });
+});
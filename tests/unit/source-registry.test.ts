@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SourceRegistry, SourceDefinition } from '../../src/core/source-registry.js';
+import { BUILTIN_SOURCES } from '../../src/drivers/index.js';
+import { ArxivDriver } from '../../src/drivers/arxiv-driver.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+import { loadConfig, setConfig } from '../../src/config/config.js';
+
+const exampleSource: SourceDefinition = {
+  id: 'example',
+  name: 'Example',
+  description: 'Example third-party source',
+  capabilities: ['search', 'content'],
+  idHint: "'EX-1'",
+  create: (rateLimiter) => new ArxivDriver(rateLimiter),
+};
+
+describe('SourceRegistry', () => {
+  let registry: SourceRegistry;
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    registry = new SourceRegistry(BUILTIN_SOURCES);
+    rateLimiter = new RateLimiter();
+  });
+
+  describe('built-in sources', () => {
+    it('should register all built-in drivers', () => {
+      expect(registry.ids()).toEqual(['arxiv', 'openalex', 'pmc', 'europepmc', 'biorxiv', 'core', 'semanticscholar', 'pubmed', 'osf', 'inspire', 'dblp', 'ads', 'crossref']);
+    });
+
+    it('should filter sources by capability', () => {
+      expect(registry.ids('search')).toEqual(['arxiv', 'openalex', 'pmc', 'europepmc', 'biorxiv', 'core', 'semanticscholar', 'pubmed', 'osf', 'inspire', 'dblp', 'ads', 'crossref']);
+      expect(registry.ids('topCited')).toEqual(['openalex', 'semanticscholar', 'inspire', 'ads', 'crossref']);
+      expect(registry.has('pmc', 'latest')).toBe(true);
+      expect(registry.has('biorxiv', 'topCited')).toBe(false);
+    });
+
+    it('should leave sources without their API token out of fan-outs', () => {
+      setConfig(loadConfig({ env: {} }));
+      expect(registry.ids('search')).toContain('ads');
+      expect(registry.configuredIds('search')).not.toContain('ads');
+
+      setConfig(loadConfig({ env: { ADS_API_TOKEN: 'ads-token' } }));
+      expect(registry.configuredIds('search')).toContain('ads');
+      setConfig(loadConfig());
+    });
+
+    it('should create drivers for supported operations', () => {
+      const driver = registry.createDriver('arxiv', rateLimiter, 'search');
+      expect(driver).toBeInstanceOf(ArxivDriver);
+    });
+
+    it('should reject unknown sources and unsupported operations', () => {
+      expect(() => registry.createDriver('nope', rateLimiter)).toThrow('Unsupported source: nope');
+      expect(() => registry.createDriver('arxiv', rateLimiter, 'topCited')).toThrow(
+        'Source "arxiv" does not support topCited. Sources that do: openalex'
+      );
+    });
+  });
+
+  describe('schemas and descriptions', () => {
+    it('should validate source IDs registered after the schema was built', () => {
+      const schema = registry.sourceSchema('search');
+      expect(schema.safeParse('example').success).toBe(false);
+
+      registry.register(exampleSource);
+      expect(schema.safeParse('example').success).toBe(true);
+    });
+
+    it('should report valid sources in validation errors', () => {
+      const result = registry.sourceSchema('topCited').safeParse('arxiv');
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('Invalid source "arxiv". Valid sources: openalex, semanticscholar, inspire, ads, crossref');
+    });
+
+    it('should describe sources and formats for a capability', () => {
+      registry.register(exampleSource);
+
+      expect(registry.describeSources('content', '  ')).toContain("  • 'example' - Example third-party source");
+      expect(registry.describeFormats('content', 'idHint')).toContain("• Example: 'EX-1'");
+      expect(registry.describeSources('topCited')).not.toContain('example');
+      expect(registry.describeFormats('search', 'sortHint')).toContain('• OSF Preprints: always newest first');
+      expect(registry.describeFormats('topCited', 'conceptHint').split('\n')).toHaveLength(5);
+    });
+
+    it('should reject malformed source IDs', () => {
+      expect(() => registry.register({ ...exampleSource, id: 'Bad Source' })).toThrow('Invalid source ID');
+    });
+  });
+
+  describe('plugins', () => {
+    let pluginDir: string;
+
+    beforeEach(() => {
+      pluginDir = mkdtempSync(join(tmpdir(), 'sciharvester-plugin-'));
+    });
+
+    afterEach(() => {
+      rmSync(pluginDir, { recursive: true, force: true });
+    });
+
+    it('should load sources exported by a plugin module', async () => {
+      const pluginPath = join(pluginDir, 'plugin.mjs');
+      writeFileSync(
+        pluginPath,
+        `export const sources = [{
+          id: 'plugin-source',
+          name: 'Plugin Source',
+          description: 'Loaded from a plugin',
+          capabilities: ['latest'],
+          create: () => ({ source: 'plugin-source' }),
+        }];`
+      );
+
+      await registry.loadPlugins([pluginPath]);
+
+      expect(registry.has('plugin-source', 'latest')).toBe(true);
+      expect(registry.createDriver('plugin-source', rateLimiter)).toEqual({ source: 'plugin-source' });
+    });
+
+    it('should call register() on plugins that export it', async () => {
+      const pluginPath = join(pluginDir, 'register.mjs');
+      writeFileSync(
+        pluginPath,
+        `export default {
+          register(registry) {
+            registry.unregister('core');
+          },
+        };`
+      );
+
+      await registry.loadPlugins([pluginPath]);
+
+      expect(registry.has('core')).toBe(false);
+    });
+
+    it('should fail when a plugin cannot be imported', async () => {
+      await expect(registry.loadPlugins([join(pluginDir, 'missing.mjs')])).rejects.toThrow();
+    });
+  });
+});
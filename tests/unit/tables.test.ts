@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import { getTables } from '../../src/tools/get-tables.js';
+import { HtmlExtractor } from '../../src/extractors/html-extractor.js';
+import { JatsExtractor } from '../../src/extractors/jats-extractor.js';
+import { readTextTables, tableCsv, tableMarkdown } from '../../src/extractors/tables.js';
+import { getConfig } from '../../src/config/config.js';
+import { RateLimiter } from '../../src/core/rate-limiter.js';
+
+const latexml = `<html><body><article class="ltx_document">
+  <h1 class="ltx_title ltx_title_document">Faster Attention</h1>
+  <section class="ltx_section">
+    <h2 class="ltx_title ltx_title_section"><span class="ltx_tag ltx_tag_section">4 </span>Results</h2>
+    <div class="ltx_para"><p class="ltx_p">Table 1 compares the models.</p></div>
+    <figure class="ltx_table" id="S4.T1">
+      <figcaption class="ltx_caption"><span class="ltx_tag ltx_tag_table">Table 1: </span>BLEU on WMT14 with <math alttext="k=4" display="inline"><mi>k</mi></math>.</figcaption>
+      <table class="ltx_tabular ltx_align_middle">
+        <thead class="ltx_thead">
+          <tr class="ltx_tr"><th class="ltx_td ltx_th ltx_th_column" rowspan="2">Model</th><th class="ltx_td ltx_th ltx_th_column" colspan="2">BLEU</th></tr>
+          <tr class="ltx_tr"><th class="ltx_td ltx_th ltx_th_column">EN-DE</th><th class="ltx_td ltx_th ltx_th_column">EN-FR</th></tr>
+        </thead>
+        <tbody class="ltx_tbody">
+          <tr class="ltx_tr"><td class="ltx_td">Base</td><td class="ltx_td">27.3</td><td class="ltx_td">38.1</td></tr>
+          <tr class="ltx_tr"><td class="ltx_td">Big, "wide"</td><td class="ltx_td">28.4</td><td class="ltx_td">41.8</td></tr>
+        </tbody>
+      </table>
+    </figure>
+    <table class="ltx_equation ltx_eqn_table"><tbody><tr class="ltx_equation ltx_eqn_row"><td class="ltx_eqn_cell"><math alttext="a=b" display="block"><mi>a</mi></math></td><td class="ltx_eqn_cell"><span class="ltx_tag ltx_tag_equation">(1)</span></td></tr></tbody></table>
+  </section>
+</article></body></html>`;
+
+describe('Table extraction', () => {
+  beforeEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should return arXiv LaTeXML tables as Markdown and CSV through get_tables', async () => {
+    const mockPaper = () => {
+      nock('https://api.crossref.org')
+        .get('/works/10.48550%2Farxiv.2403.00002')
+        .query(true)
+        .reply(200, { message: { DOI: '10.48550/ARXIV.2403.00002', title: ['Faster Attention'], type: 'posted-content' } });
+      nock('https://arxiv.org').get('/html/2403.00002').reply(200, latexml);
+    };
+
+    mockPaper();
+    const markdown = await getTables({ source: 'crossref', id: '10.48550/arXiv.2403.00002', format: 'markdown' }, new RateLimiter());
+
+    expect(markdown.paper.title).toBe('Faster Attention');
+    expect(markdown.tables).toEqual([
+      {
+        label: 'Table 1',
+        caption: 'BLEU on WMT14 with $k=4$.',
+        rows: 2,
+        columns: 3,
+        content: '| Model | BLEU EN-DE | EN-FR |\n| --- | --- | --- |\n| Base | 27.3 | 38.1 |\n| Big, "wide" | 28.4 | 41.8 |',
+      },
+    ]);
+
+    mockPaper();
+    const csv = await getTables({ source: 'crossref', id: '10.48550/arXiv.2403.00002', format: 'csv' }, new RateLimiter());
+
+    expect(csv.tables[0].content).toBe('Model,BLEU,\n,EN-DE,EN-FR\nBase,27.3,38.1\n"Big, ""wide""",28.4,41.8');
+  });
+
+  it('should keep only the caption of LaTeXML tables in the section text', async () => {
+    nock('https://arxiv.org').get('/html/2403.00002').reply(200, latexml);
+
+    const result = await new HtmlExtractor(getConfig().extraction).extractText('https://arxiv.org/html/2403.00002');
+
+    expect(result.text).toContain('4 Results\n\nTable 1 compares the models.\n\nTable 1: BLEU on WMT14 with $k=4$.');
+    expect(result.text).not.toContain('27.3');
+    expect(result.document?.tables).toHaveLength(1);
+    expect(result.document?.sections[0]).toMatchObject({ number: '4', title: 'Results' });
+  });
+
+  it('should read HTML tables of pages without LaTeXML sections', async () => {
+    nock('https://journal.example.org')
+      .get('/article/2')
+      .reply(
+        200,
+        `<html><body><article><p>Outcomes were recorded.</p>
+          <figure><figcaption>Table 2. Adverse events</figcaption>
+            <table><tr><th>Event</th><th>Drug</th><th>Placebo</th></tr><tr><td>Nausea</td><td>12</td><td>4</td></tr><tr><td>Headache | mild</td><td colspan="2">n/a</td></tr></table>
+          </figure>
+          <table><tr><td>Layout only</td></tr></table></article></body></html>`
+      );
+
+    const result = await new HtmlExtractor(getConfig().extraction).extractText('https://journal.example.org/article/2');
+    const tables = result.document?.tables ?? [];
+    const [table] = tables;
+
+    expect(result.document?.sections).toEqual([]);
+    expect(table).toEqual({
+      label: 'Table 2',
+      caption: 'Adverse events',
+      header_rows: 1,
+      rows: [['Event', 'Drug', 'Placebo'], ['Nausea', '12', '4'], ['Headache | mild', 'n/a', '']],
+    });
+    expect(tableMarkdown(table)).toContain('| Headache \\| mild | n/a |  |');
+    expect(tables).toHaveLength(1);
+  });
+
+  it('should read JATS table-wrap cells and header rows', () => {
+    const result = new JatsExtractor(getConfig().extraction).processJats(`<article>
+      <body><sec><title>Results</title><p>Mice gained weight.</p>
+        <table-wrap id="t1"><label>Table 1.</label><caption><title>Body weight.</title><p>Mean (SD), grams.</p></caption>
+          <table><thead><tr><th>Group</th><th>Week 0</th><th>Week 4</th></tr></thead>
+            <tbody><tr><td>Control</td><td>20.1 (1.2)</td><td>22.4 (1.5)</td></tr><tr><td>Treated</td><td>20.3 (1.1)</td><td>25.0 (<inline-formula><tex-math>\\pm 2</tex-math></inline-formula>)</td></tr></tbody></table>
+        </table-wrap>
+        <table-wrap id="t2"><label>Table 2</label><caption><p>Scanned.</p></caption><graphic href="t2.jpg"/></table-wrap>
+      </sec></body></article>`);
+
+    expect(result.text).toBe('Results\n\nMice gained weight.\n\nTable 1. Body weight. Mean (SD), grams.\n\nTable 2 Scanned.');
+    expect(result.document?.tables).toEqual([
+      {
+        label: 'Table 1',
+        caption: 'Body weight. Mean (SD), grams.',
+        header_rows: 1,
+        rows: [
+          ['Group', 'Week 0', 'Week 4'],
+          ['Control', '20.1 (1.2)', '22.4 (1.5)'],
+          ['Treated', '20.3 (1.1)', '25.0 ($\\pm 2$)'],
+        ],
+      },
+    ]);
+  });
+
+  it('should reconstruct columns of PDF text tables after their captions', () => {
+    const text = [
+      'As Table 3 shows, the method is fast.',
+      'Table 3: Runtime in seconds',
+      'Method  Small  Large',
+      'Ours  1.2  10.5',
+      'Baseline  3.4  31.0',
+      '',
+      'Table 4. Accuracy by dataset',
+      'Dataset Precision Recall',
+      'Image Net 76.1 92.9',
+      'MNIST 99.2 99.9',
+      'More prose follows here.',
+    ].join('\n');
+
+    const tables = readTextTables(text);
+
+    expect(tables).toEqual([
+      { label: 'Table 3', caption: 'Runtime in seconds', header_rows: 1, rows: [['Method', 'Small', 'Large'], ['Ours', '1.2', '10.5'], ['Baseline', '3.4', '31.0']] },
+      { label: 'Table 4', caption: 'Accuracy by dataset', header_rows: 1, rows: [['Dataset', 'Precision', 'Recall'], ['Image Net', '76.1', '92.9'], ['MNIST', '99.2', '99.9']] },
+    ]);
+    expect(tableCsv(tables[0])).toBe('Method,Small,Large\nOurs,1.2,10.5\nBaseline,3.4,31.0');
+  });
+});